@@ -0,0 +1,66 @@
+-- =============================================================================
+-- Migration: 002_user_settings.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 001)
+--
+-- What it does:
+--   1. Creates the user_settings table (one row per user)
+--   2. Stores each user's IANA timezone, used to bucket streak days
+--   3. Enables Row Level Security (RLS) — per-user isolation
+-- =============================================================================
+
+-- ─── 1. USER_SETTINGS TABLE ──────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.user_settings (
+  user_id      UUID        PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  timezone     TEXT        NOT NULL DEFAULT 'UTC'
+                           CHECK (char_length(timezone) BETWEEN 1 AND 64),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Keep updated_at current on every write
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS user_settings_touch_updated_at ON public.user_settings;
+CREATE TRIGGER user_settings_touch_updated_at
+  BEFORE UPDATE ON public.user_settings
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+
+-- ─── 2. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own settings"   ON public.user_settings;
+DROP POLICY IF EXISTS "Users can insert own settings" ON public.user_settings;
+DROP POLICY IF EXISTS "Users can update own settings" ON public.user_settings;
+
+-- SELECT: user sees only their own settings row
+CREATE POLICY "Users can view own settings"
+  ON public.user_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: user can only create their own row
+CREATE POLICY "Users can insert own settings"
+  ON public.user_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- UPDATE: user can only update their own row
+CREATE POLICY "Users can update own settings"
+  ON public.user_settings FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─── 3. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 3 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'user_settings';
@@ -0,0 +1,56 @@
+-- =============================================================================
+-- Migration: 003_streak_freezes.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 002)
+--
+-- What it does:
+--   1. Creates the streak_freezes table — one row per frozen (bridged) day
+--   2. Adds user_settings.auto_freeze (spend freezes automatically on a miss)
+--   3. Enables Row Level Security (RLS) — per-user isolation
+--
+-- Freezes are EARNED client-side from task history (see freezeInventory() in
+-- streak.ts); only the spent ones are stored here.
+-- =============================================================================
+
+-- ─── 1. STREAK_FREEZES TABLE ─────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.streak_freezes (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day          DATE        NOT NULL,   -- local calendar day in the user's timezone
+  auto         BOOLEAN     NOT NULL DEFAULT false,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS streak_freezes_user_id_idx ON public.streak_freezes (user_id, day);
+
+
+-- ─── 2. USER SETTINGS ────────────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS auto_freeze BOOLEAN NOT NULL DEFAULT true;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.streak_freezes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own freezes"   ON public.streak_freezes;
+DROP POLICY IF EXISTS "Users can insert own freezes" ON public.streak_freezes;
+
+-- SELECT: user sees only their own freezes
+CREATE POLICY "Users can view own freezes"
+  ON public.streak_freezes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: user can only spend their own freezes.
+-- No UPDATE / DELETE policies — a spent freeze is permanent.
+CREATE POLICY "Users can insert own freezes"
+  ON public.streak_freezes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─── 4. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 2 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'streak_freezes';
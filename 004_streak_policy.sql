@@ -0,0 +1,25 @@
+-- =============================================================================
+-- Migration: 004_streak_policy.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 003)
+--
+-- What it does:
+--   Adds the per-user streak policy to user_settings:
+--     streak_mode             — preset the user picked (or 'custom')
+--     streak_on_miss          — 'reset' ends the run, 'pause' holds the count
+--     streak_misses_per_week  — misses forgiven per Mon–Sun week
+--     streak_min_tasks        — completions needed for a day to count
+--
+-- Defaults match the original behaviour (strict: any miss resets).
+-- =============================================================================
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS streak_mode TEXT NOT NULL DEFAULT 'strict'
+    CHECK (streak_mode IN ('gentle', 'normal', 'strict', 'custom')),
+  ADD COLUMN IF NOT EXISTS streak_on_miss TEXT NOT NULL DEFAULT 'reset'
+    CHECK (streak_on_miss IN ('pause', 'reset')),
+  ADD COLUMN IF NOT EXISTS streak_misses_per_week SMALLINT NOT NULL DEFAULT 0
+    CHECK (streak_misses_per_week BETWEEN 0 AND 7),
+  ADD COLUMN IF NOT EXISTS streak_min_tasks SMALLINT NOT NULL DEFAULT 1
+    CHECK (streak_min_tasks BETWEEN 1 AND 50);
+
+-- RLS: covered by the user_settings policies from 002.
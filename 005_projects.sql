@@ -0,0 +1,111 @@
+-- =============================================================================
+-- Migration: 005_projects.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 004)
+--
+-- What it does:
+--   1. Creates the projects table (title, deadline)
+--   2. Adds tasks.project_id — a task belongs to at most one project
+--   3. Enables Row Level Security (RLS) — per-user isolation, and tasks may
+--      only point at the user's own projects
+--   4. Enables Realtime on the projects table
+-- =============================================================================
+
+-- ─── 1. PROJECTS TABLE ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.projects (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title        TEXT        NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description  TEXT,
+  deadline     DATE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS projects_user_id_idx ON public.projects (user_id);
+
+
+-- ─── 2. TASKS.PROJECT_ID ─────────────────────────────────────────────────────
+-- Deleting a project keeps its tasks; they just become unassigned.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_project_id_idx ON public.tasks (project_id)
+  WHERE project_id IS NOT NULL;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own projects"   ON public.projects;
+DROP POLICY IF EXISTS "Users can insert own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON public.projects;
+
+CREATE POLICY "Users can view own projects"
+  ON public.projects FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own projects"
+  ON public.projects FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own projects"
+  ON public.projects FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own projects"
+  ON public.projects FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Tasks: replace INSERT / UPDATE policies so project_id can't reference
+-- another user's project.
+DROP POLICY IF EXISTS "Users can insert own tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Users can update own tasks" ON public.tasks;
+
+CREATE POLICY "Users can insert own tasks"
+  ON public.tasks FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update own tasks"
+  ON public.tasks FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+
+-- ─── 4. REALTIME ─────────────────────────────────────────────────────────────
+
+ALTER TABLE public.projects REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'projects'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.projects;
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 4 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'projects';
@@ -0,0 +1,69 @@
+-- =============================================================================
+-- Migration: 006_checkins.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 005)
+--
+-- What it does:
+--   1. Creates the checkins table — one row per user per local day
+--   2. Adds user_settings.streak_require_checkin (a day only counts toward
+--      the streak with a check-in of at least 80%)
+--   3. Enables Row Level Security (RLS) — per-user isolation
+-- =============================================================================
+
+-- ─── 1. CHECKINS TABLE ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.checkins (
+  id                 UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id            UUID         NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day                DATE         NOT NULL,   -- local calendar day in the user's timezone
+  completed_percent  SMALLINT     NOT NULL CHECK (completed_percent BETWEEN 0 AND 100),
+  time_spent_hours   NUMERIC(4,2) NOT NULL DEFAULT 0 CHECK (time_spent_hours BETWEEN 0 AND 24),
+  notes              TEXT         CHECK (char_length(notes) <= 2000),
+  created_at         TIMESTAMPTZ  NOT NULL DEFAULT now(),
+  updated_at         TIMESTAMPTZ  NOT NULL DEFAULT now(),
+  UNIQUE (user_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS checkins_user_id_idx ON public.checkins (user_id, day);
+
+-- Re-submitting a day's check-in updates the row (touch_updated_at from 002)
+DROP TRIGGER IF EXISTS checkins_touch_updated_at ON public.checkins;
+CREATE TRIGGER checkins_touch_updated_at
+  BEFORE UPDATE ON public.checkins
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+
+-- ─── 2. USER SETTINGS ────────────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS streak_require_checkin BOOLEAN NOT NULL DEFAULT false;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.checkins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own checkins"   ON public.checkins;
+DROP POLICY IF EXISTS "Users can insert own checkins" ON public.checkins;
+DROP POLICY IF EXISTS "Users can update own checkins" ON public.checkins;
+
+-- SELECT: user sees only their own check-ins
+CREATE POLICY "Users can view own checkins"
+  ON public.checkins FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT / UPDATE: needed for upserts on (user_id, day).
+-- No DELETE policy — a day's check-in can be revised but not removed.
+CREATE POLICY "Users can insert own checkins"
+  ON public.checkins FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own checkins"
+  ON public.checkins FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─── 4. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 3 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'checkins';
@@ -0,0 +1,48 @@
+-- =============================================================================
+-- Migration: 007_user_badges.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 006)
+--
+-- What it does:
+--   1. Creates the user_badges table — one row per unlocked badge
+--   2. Enables Row Level Security (RLS) — per-user isolation
+--
+-- Badges are EARNED client-side from task history (see evaluateBadges() in
+-- badges.ts); this table records when each one was unlocked.
+-- =============================================================================
+
+-- ─── 1. USER_BADGES TABLE ────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.user_badges (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  badge_id     TEXT        NOT NULL,   -- BadgeId from the client catalogue
+  unlocked_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, badge_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_badges_user_id_idx ON public.user_badges (user_id);
+
+
+-- ─── 2. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own badges"   ON public.user_badges;
+DROP POLICY IF EXISTS "Users can insert own badges" ON public.user_badges;
+
+-- SELECT: user sees only their own badges
+CREATE POLICY "Users can view own badges"
+  ON public.user_badges FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: user can only unlock their own badges.
+-- No UPDATE / DELETE policies — an unlock is permanent.
+CREATE POLICY "Users can insert own badges"
+  ON public.user_badges FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─── 3. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 2 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'user_badges';
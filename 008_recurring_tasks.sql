@@ -0,0 +1,27 @@
+-- =============================================================================
+-- Migration: 008_recurring_tasks.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 007)
+--
+-- What it does:
+--   Adds recurrence to tasks:
+--     recurrence  — the rule as JSON, e.g. {"kind":"weekly","weekdays":[1,3]}
+--     series_id   — shared by every occurrence of one recurring task
+--
+-- Each occurrence is its own row. Completing one creates the next (client
+-- side, see recurrence.ts), so completed occurrences keep counting toward
+-- streaks and analytics.
+-- =============================================================================
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence JSONB
+    CHECK (
+      recurrence IS NULL
+      OR recurrence->>'kind' IN ('daily', 'weekdays', 'interval', 'weekly', 'monthly')
+    ),
+  ADD COLUMN IF NOT EXISTS series_id UUID;
+
+-- Finding a series' open occurrence
+CREATE INDEX IF NOT EXISTS tasks_series_id_idx ON public.tasks (series_id)
+  WHERE series_id IS NOT NULL;
+
+-- RLS: covered by the tasks policies from 001 / 005.
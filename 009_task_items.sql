@@ -0,0 +1,95 @@
+-- =============================================================================
+-- Migration: 009_task_items.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 008)
+--
+-- What it does:
+--   1. Creates the task_items table — checklist items belonging to a task
+--   2. Adds tasks.auto_complete (complete the task when every item is done)
+--   3. Enables Row Level Security (RLS) — items only on the user's own tasks
+--   4. Enables Realtime on the task_items table
+-- =============================================================================
+
+-- ─── 1. TASK_ITEMS TABLE ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.task_items (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id      UUID        NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title        TEXT        NOT NULL CHECK (char_length(title) BETWEEN 1 AND 280),
+  done         BOOLEAN     NOT NULL DEFAULT false,
+  position     INTEGER     NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_items_task_id_idx ON public.task_items (task_id, position);
+CREATE INDEX IF NOT EXISTS task_items_user_id_idx ON public.task_items (user_id);
+
+
+-- ─── 2. TASKS.AUTO_COMPLETE ──────────────────────────────────────────────────
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS auto_complete BOOLEAN NOT NULL DEFAULT false;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.task_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own task items"   ON public.task_items;
+DROP POLICY IF EXISTS "Users can insert own task items" ON public.task_items;
+DROP POLICY IF EXISTS "Users can update own task items" ON public.task_items;
+DROP POLICY IF EXISTS "Users can delete own task items" ON public.task_items;
+
+CREATE POLICY "Users can view own task items"
+  ON public.task_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: the parent task must belong to the user too
+CREATE POLICY "Users can insert own task items"
+  ON public.task_items FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own task items"
+  ON public.task_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own task items"
+  ON public.task_items FOR DELETE
+  USING (auth.uid() = user_id);
+
+
+-- ─── 4. REALTIME ─────────────────────────────────────────────────────────────
+
+ALTER TABLE public.task_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'task_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.task_items;
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 4 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'task_items';
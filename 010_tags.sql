@@ -0,0 +1,118 @@
+-- =============================================================================
+-- Migration: 010_tags.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 009)
+--
+-- What it does:
+--   1. Creates the tags table — user-defined labels with a colour
+--   2. Creates the task_tags join table (many-to-many)
+--   3. Enables Row Level Security (RLS) — per-user isolation, and links may
+--      only join the user's own tasks and tags
+--   4. Enables Realtime on both tables
+-- =============================================================================
+
+-- ─── 1. TAGS TABLE ───────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name         TEXT        NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  color        TEXT        NOT NULL DEFAULT 'slate'
+    CHECK (color IN ('slate', 'red', 'orange', 'amber', 'emerald', 'sky', 'violet', 'pink')),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Tag names are unique per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_idx ON public.tags (user_id, lower(name));
+
+
+-- ─── 2. TASK_TAGS JOIN TABLE ─────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.task_tags (
+  task_id      UUID        NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  tag_id       UUID        NOT NULL REFERENCES public.tags(id)  ON DELETE CASCADE,
+  user_id      UUID        NOT NULL REFERENCES auth.users(id)   ON DELETE CASCADE,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS task_tags_tag_id_idx  ON public.task_tags (tag_id);
+CREATE INDEX IF NOT EXISTS task_tags_user_id_idx ON public.task_tags (user_id);
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.tags      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tags"   ON public.tags;
+DROP POLICY IF EXISTS "Users can insert own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can update own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can delete own tags" ON public.tags;
+
+CREATE POLICY "Users can view own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own task tags"   ON public.task_tags;
+DROP POLICY IF EXISTS "Users can insert own task tags" ON public.task_tags;
+DROP POLICY IF EXISTS "Users can delete own task tags" ON public.task_tags;
+
+CREATE POLICY "Users can view own task tags"
+  ON public.task_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: both the task and the tag must belong to the user.
+-- No UPDATE policy — a link is added or removed, never edited.
+CREATE POLICY "Users can insert own task tags"
+  ON public.task_tags FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id AND t.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.tags  g WHERE g.id = tag_id  AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own task tags"
+  ON public.task_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+
+-- ─── 4. REALTIME ─────────────────────────────────────────────────────────────
+
+ALTER TABLE public.tags      REPLICA IDENTITY FULL;
+ALTER TABLE public.task_tags REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tags'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tags;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_tags'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.task_tags;
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 4 + 3 policies:
+-- SELECT tablename, policyname, cmd FROM pg_policies WHERE tablename IN ('tags', 'task_tags');
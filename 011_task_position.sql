@@ -0,0 +1,40 @@
+-- =============================================================================
+-- Migration: 011_task_position.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 010)
+--
+-- What it does:
+--   1. Adds tasks.position — a fractional index for manual ordering. Tasks
+--      sort ascending; a move writes the midpoint of its new neighbours, so
+--      only the moved row changes.
+--   2. Backfills existing tasks so the current order (newest first) is kept
+--   3. Defaults new rows to the top of the list the same way
+-- =============================================================================
+
+-- ─── 1. TASKS.POSITION ───────────────────────────────────────────────────────
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS position DOUBLE PRECISION;
+
+
+-- ─── 2. BACKFILL ─────────────────────────────────────────────────────────────
+
+-- Newer tasks get smaller positions, matching the old created_at DESC order
+UPDATE public.tasks
+  SET position = -extract(epoch FROM created_at)
+  WHERE position IS NULL;
+
+
+-- ─── 3. DEFAULT + CONSTRAINTS ────────────────────────────────────────────────
+
+-- Clients normally send a position; the default covers anything that doesn't
+ALTER TABLE public.tasks
+  ALTER COLUMN position SET DEFAULT -extract(epoch FROM now()),
+  ALTER COLUMN position SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_user_position_idx ON public.tasks (user_id, position);
+
+
+-- ─── 4. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 0:
+-- SELECT count(*) FROM public.tasks WHERE position IS NULL;
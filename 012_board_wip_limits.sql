@@ -0,0 +1,15 @@
+-- =============================================================================
+-- Migration: 012_board_wip_limits.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 011)
+--
+-- What it does:
+--   Adds the Board view's work-in-progress limits to user_settings:
+--     wip_limits — max cards per column, keyed by task status, e.g.
+--                  {"inprogress": 3}. A missing key means no limit.
+-- =============================================================================
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS wip_limits JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(wip_limits) = 'object');
+
+-- RLS: covered by the user_settings policies from 002.
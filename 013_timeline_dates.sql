@@ -0,0 +1,33 @@
+-- =============================================================================
+-- Migration: 013_timeline_dates.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 012)
+--
+-- What it does:
+--   Adds start dates for the Timeline view. A bar runs from start_date to
+--   the existing end date:
+--     tasks.start_date     — ends on tasks.due_date
+--     projects.start_date  — ends on projects.deadline
+--   Either may be NULL; the view then falls back to the other end (tasks)
+--   or to the project's tasks (projects).
+-- =============================================================================
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS start_date DATE;
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS start_date DATE;
+
+-- A bar can't end before it starts
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_start_before_due;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_start_before_due
+    CHECK (start_date IS NULL OR due_date IS NULL OR start_date <= due_date);
+
+ALTER TABLE public.projects
+  DROP CONSTRAINT IF EXISTS projects_start_before_deadline;
+ALTER TABLE public.projects
+  ADD CONSTRAINT projects_start_before_deadline
+    CHECK (start_date IS NULL OR deadline IS NULL OR start_date <= deadline);
+
+-- RLS: covered by the tasks / projects policies from 001 / 005.
@@ -0,0 +1,112 @@
+-- =============================================================================
+-- Migration: 014_time_tracking.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 013)
+--
+-- What it does:
+--   1. Adds tasks.estimated_minutes — how long the user expects a task to take
+--   2. Creates the time_entries table — one row per start/stop of a task timer.
+--      A running timer is the row with ended_at NULL, so it survives reloads
+--      and shows up in every open tab. At most one runs per user.
+--   3. Enables Row Level Security (RLS) — entries only on the user's own tasks
+--   4. Enables Realtime on the time_entries table
+-- =============================================================================
+
+-- ─── 1. TASKS.ESTIMATED_MINUTES ──────────────────────────────────────────────
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER;
+
+-- Up to a week of work; NULL = no estimate
+ALTER TABLE public.tasks
+  DROP CONSTRAINT IF EXISTS tasks_estimated_minutes_range;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_estimated_minutes_range
+  CHECK (estimated_minutes IS NULL OR estimated_minutes BETWEEN 1 AND 10080);
+
+
+-- ─── 2. TIME_ENTRIES TABLE ───────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.time_entries (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id      UUID        NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  started_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ended_at     TIMESTAMPTZ,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS time_entries_user_started_idx ON public.time_entries (user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS time_entries_task_id_idx ON public.time_entries (task_id);
+
+-- One running timer per user — a second tab can't start another
+CREATE UNIQUE INDEX IF NOT EXISTS time_entries_one_running_idx
+  ON public.time_entries (user_id)
+  WHERE ended_at IS NULL;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own time entries"   ON public.time_entries;
+DROP POLICY IF EXISTS "Users can insert own time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can update own time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can delete own time entries" ON public.time_entries;
+
+CREATE POLICY "Users can view own time entries"
+  ON public.time_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: the task being timed must belong to the user too
+CREATE POLICY "Users can insert own time entries"
+  ON public.time_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own time entries"
+  ON public.time_entries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own time entries"
+  ON public.time_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+
+-- ─── 4. REALTIME ─────────────────────────────────────────────────────────────
+
+ALTER TABLE public.time_entries REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'time_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.time_entries;
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 4 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'time_entries';
+
+-- Should return at most one row per user:
+-- SELECT user_id, count(*) FROM public.time_entries WHERE ended_at IS NULL GROUP BY user_id;
@@ -0,0 +1,98 @@
+-- =============================================================================
+-- Migration: 015_focus_sessions.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 014)
+--
+-- What it does:
+--   1. Creates the focus_sessions table — one row per completed pomodoro
+--      focus block, recorded against the task it was spent on
+--   2. Adds focus settings to user_settings:
+--        focus_work_minutes / focus_break_minutes — the last cycle used
+--        streak_require_focus — a day only counts toward the streak with at
+--                               least one completed focus session
+--   3. Enables Row Level Security (RLS) — sessions only on the user's own tasks
+--   4. Enables Realtime on the focus_sessions table
+-- =============================================================================
+
+-- ─── 1. FOCUS_SESSIONS TABLE ─────────────────────────────────────────────────
+
+-- task_id is kept nullable so deleting a task doesn't erase the streak
+-- history its sessions count toward
+CREATE TABLE IF NOT EXISTS public.focus_sessions (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id        UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id        UUID        REFERENCES public.tasks(id) ON DELETE SET NULL,
+  started_at     TIMESTAMPTZ NOT NULL,
+  ended_at       TIMESTAMPTZ NOT NULL,
+  focus_minutes  SMALLINT    NOT NULL CHECK (focus_minutes BETWEEN 1 AND 180),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS focus_sessions_user_ended_idx ON public.focus_sessions (user_id, ended_at DESC);
+CREATE INDEX IF NOT EXISTS focus_sessions_task_id_idx ON public.focus_sessions (task_id);
+
+
+-- ─── 2. USER SETTINGS ────────────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS focus_work_minutes SMALLINT NOT NULL DEFAULT 25
+    CHECK (focus_work_minutes BETWEEN 1 AND 180),
+  ADD COLUMN IF NOT EXISTS focus_break_minutes SMALLINT NOT NULL DEFAULT 5
+    CHECK (focus_break_minutes BETWEEN 1 AND 60),
+  ADD COLUMN IF NOT EXISTS streak_require_focus BOOLEAN NOT NULL DEFAULT false;
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+
+ALTER TABLE public.focus_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own focus sessions"   ON public.focus_sessions;
+DROP POLICY IF EXISTS "Users can insert own focus sessions" ON public.focus_sessions;
+DROP POLICY IF EXISTS "Users can delete own focus sessions" ON public.focus_sessions;
+
+CREATE POLICY "Users can view own focus sessions"
+  ON public.focus_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- INSERT: the task focused on must belong to the user too
+CREATE POLICY "Users can insert own focus sessions"
+  ON public.focus_sessions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.tasks t
+        WHERE t.id = task_id AND t.user_id = auth.uid()
+      )
+    )
+  );
+
+-- No UPDATE policy: a recorded session is final
+CREATE POLICY "Users can delete own focus sessions"
+  ON public.focus_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+
+-- ─── 4. REALTIME ─────────────────────────────────────────────────────────────
+
+ALTER TABLE public.focus_sessions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'focus_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.focus_sessions;
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should return 3 policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'focus_sessions';
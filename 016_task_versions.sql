@@ -0,0 +1,49 @@
+-- =============================================================================
+-- Migration: 016_task_versions.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 015)
+--
+-- What it does:
+--   Versions task rows so concurrent edits can be detected:
+--     tasks.version     — bumped by one on every UPDATE
+--     tasks.updated_at  — set to now() on every UPDATE
+--   Both are maintained by a trigger, so clients can't forget or fake them.
+--   The app updates with "... WHERE id = $1 AND version = $2" and treats
+--   zero matched rows as a conflict with another tab or device.
+-- =============================================================================
+
+
+-- ─── 1. COLUMNS ──────────────────────────────────────────────────────────────
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+
+-- ─── 2. TRIGGER ──────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.bump_task_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  NEW.updated_at = now();
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS tasks_bump_version ON public.tasks;
+CREATE TRIGGER tasks_bump_version
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.bump_task_version();
+
+-- RLS: covered by the tasks policies from 001. Realtime UPDATE payloads
+-- already carry the full row, new version included.
+
+
+-- ─── 3. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Running this twice should return consecutive versions:
+-- UPDATE public.tasks SET title = title WHERE id = '<task id>' RETURNING version, updated_at;
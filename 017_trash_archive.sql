@@ -0,0 +1,145 @@
+-- =============================================================================
+-- Migration: 017_trash_archive.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 016)
+--
+-- What it does:
+--   1. Adds two task states:
+--        tasks.deleted_at   — in the Trash since then (soft delete)
+--        tasks.archived_at  — hidden from the task list, still counted by
+--                             the streak and analytics
+--   2. Makes trashed tasks read-only until restored, and stops checklist
+--      items, tags, timers and focus sessions being added to them
+--   3. Purges tasks that have been in the Trash for 30 days — daily via
+--      pg_cron where it's enabled (the app also purges on load)
+-- =============================================================================
+
+
+-- ─── 1. COLUMNS ──────────────────────────────────────────────────────────────
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS tasks_deleted_at_idx ON public.tasks (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+
+-- ─── 2. TRASHED TASKS ARE READ-ONLY ──────────────────────────────────────────
+-- RLS can't compare the old and new row, so a trigger does it: the only
+-- update allowed on a trashed task is restoring it.
+
+CREATE OR REPLACE FUNCTION public.protect_trashed_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This task is in the Trash — restore it to edit it'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS tasks_protect_trashed ON public.tasks;
+CREATE TRIGGER tasks_protect_trashed
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.protect_trashed_task();
+
+
+-- ─── 3. ROW LEVEL SECURITY ───────────────────────────────────────────────────
+-- Rows that hang off a task may only be added while it's out of the Trash.
+-- (Updates and deletes stay as they were, so a running timer can be stopped.)
+
+DROP POLICY IF EXISTS "Users can insert own task items" ON public.task_items;
+CREATE POLICY "Users can insert own task items"
+  ON public.task_items FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid() AND t.deleted_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert own task tags" ON public.task_tags;
+CREATE POLICY "Users can insert own task tags"
+  ON public.task_tags FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid() AND t.deleted_at IS NULL
+    )
+    AND EXISTS (SELECT 1 FROM public.tags g WHERE g.id = tag_id AND g.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can insert own time entries" ON public.time_entries;
+CREATE POLICY "Users can insert own time entries"
+  ON public.time_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_id AND t.user_id = auth.uid() AND t.deleted_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert own focus sessions" ON public.focus_sessions;
+CREATE POLICY "Users can insert own focus sessions"
+  ON public.focus_sessions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      task_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.tasks t
+        WHERE t.id = task_id AND t.user_id = auth.uid() AND t.deleted_at IS NULL
+      )
+    )
+  );
+
+-- Realtime: trashing, restoring and archiving are UPDATEs of the full row
+-- (REPLICA IDENTITY FULL from 001), so no publication changes are needed.
+
+
+-- ─── 4. AUTO-PURGE ───────────────────────────────────────────────────────────
+
+-- Runs as the owner so the scheduled job can reach every user's rows;
+-- not callable from the API.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH purged AS (
+    DELETE FROM public.tasks
+    WHERE deleted_at < now() - INTERVAL '30 days'
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+-- Daily at 03:17 UTC, if pg_cron is enabled (Database → Extensions)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-expired-trash', '17 3 * * *', 'SELECT public.purge_expired_trash()');
+  END IF;
+END
+$$;
+
+
+-- ─── 5. VERIFY ───────────────────────────────────────────────────────────────
+
+-- Should fail with "This task is in the Trash":
+-- UPDATE public.tasks SET deleted_at = now() WHERE id = '<task id>';
+-- UPDATE public.tasks SET title = 'edited' WHERE id = '<task id>';
+
+-- Should list the purge job (with pg_cron):
+-- SELECT jobname, schedule FROM cron.job WHERE jobname = 'purge-expired-trash';
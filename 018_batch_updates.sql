@@ -0,0 +1,73 @@
+-- =============================================================================
+-- Migration: 018_batch_updates.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 017)
+--
+-- What it does:
+--   Adds update_tasks_batch(updates), which applies changes to many tasks in
+--   one request and one transaction — all of them or none. Used by the task
+--   list's batch actions (complete, reopen, delete, priority, due date,
+--   project). Each entry is compare-and-set on the row's version, like
+--   single updates (016): if any task has changed since, nothing is saved.
+--
+--   updates: [{ "id": uuid, "version": int, "changes": { field: value } }]
+--   Fields that can be changed: status, completed_at, priority, due_date,
+--   project_id, deleted_at, archived_at. Returns the updated rows.
+-- =============================================================================
+
+
+-- ─── 1. FUNCTION ─────────────────────────────────────────────────────────────
+-- SECURITY INVOKER: the tasks RLS policies and triggers apply as usual.
+
+CREATE OR REPLACE FUNCTION public.update_tasks_batch(updates JSONB)
+RETURNS SETOF public.tasks
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  u JSONB;
+  c JSONB;
+  updated public.tasks;
+BEGIN
+  FOR u IN SELECT * FROM jsonb_array_elements(updates) LOOP
+    c := u->'changes';
+
+    UPDATE public.tasks t SET
+      status       = CASE WHEN c ? 'status'       THEN c->>'status'                     ELSE t.status END,
+      completed_at = CASE WHEN c ? 'completed_at' THEN (c->>'completed_at')::TIMESTAMPTZ ELSE t.completed_at END,
+      priority     = CASE WHEN c ? 'priority'     THEN c->>'priority'                   ELSE t.priority END,
+      due_date     = CASE WHEN c ? 'due_date'     THEN (c->>'due_date')::DATE           ELSE t.due_date END,
+      project_id   = CASE WHEN c ? 'project_id'   THEN (c->>'project_id')::UUID         ELSE t.project_id END,
+      deleted_at   = CASE WHEN c ? 'deleted_at'   THEN (c->>'deleted_at')::TIMESTAMPTZ   ELSE t.deleted_at END,
+      archived_at  = CASE WHEN c ? 'archived_at'  THEN (c->>'archived_at')::TIMESTAMPTZ  ELSE t.archived_at END
+    WHERE t.id = (u->>'id')::UUID
+      AND t.user_id = auth.uid()
+      AND t.version = (u->>'version')::INTEGER
+    RETURNING * INTO updated;
+
+    -- Raising rolls back every row already updated in this call
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A task in this batch was changed or deleted elsewhere — nothing was saved'
+        USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    RETURN NEXT updated;
+  END LOOP;
+END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_tasks_batch(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_tasks_batch(JSONB) TO authenticated;
+
+-- Realtime: each row changed fires its own UPDATE, as with single updates.
+
+
+-- ─── 2. VERIFY ───────────────────────────────────────────────────────────────
+
+-- As a signed-in user, should return both rows with their versions bumped:
+-- SELECT id, priority, version FROM public.update_tasks_batch('[
+--   {"id": "<task id>", "version": 3, "changes": {"priority": "high"}},
+--   {"id": "<task id>", "version": 1, "changes": {"priority": "high"}}
+-- ]');
+--
+-- With a stale version anywhere, should fail and leave both rows unchanged.
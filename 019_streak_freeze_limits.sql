@@ -0,0 +1,91 @@
+-- =============================================================================
+-- Migration: 019_streak_freeze_limits.sql
+-- Run this in: Supabase Dashboard → SQL Editor (after 018)
+--
+-- What it does:
+--   Stops clients from spending freezes they haven't earned. Freezes are
+--   still counted client-side (freezeInventory() in streak.ts); the database
+--   now enforces the limits that count can never exceed:
+--     1. A freeze can't be spent on a future day — the INSERT policy only
+--        accepts days up to today in the user's timezone (user_settings).
+--     2. A trigger caps spent freezes at one per FREEZE_MILESTONE_DAYS (7)
+--        days with completions. Every earned freeze needs seven active days,
+--        so a legitimate spend always fits.
+--   One freeze per day is already enforced by UNIQUE (user_id, day) in 003.
+-- =============================================================================
+
+
+-- ─── 1. INSERT POLICY ────────────────────────────────────────────────────────
+
+DROP POLICY IF EXISTS "Users can insert own freezes" ON public.streak_freezes;
+
+-- INSERT: user can only spend their own freezes, on today or earlier.
+-- No UPDATE / DELETE policies — a spent freeze is permanent.
+CREATE POLICY "Users can insert own freezes"
+  ON public.streak_freezes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND day <= (now() AT TIME ZONE COALESCE(
+      (SELECT s.timezone FROM public.user_settings s WHERE s.user_id = auth.uid()),
+      'UTC'
+    ))::date
+  );
+
+
+-- ─── 2. INVENTORY TRIGGER ────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.check_freeze_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  tz TEXT;
+  active_days INTEGER;
+  spent INTEGER;
+BEGIN
+  -- One spend per user at a time, so two tabs can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('streak_freezes:' || NEW.user_id::text));
+
+  SELECT COALESCE(
+    (SELECT s.timezone FROM public.user_settings s WHERE s.user_id = NEW.user_id),
+    'UTC'
+  ) INTO tz;
+
+  SELECT count(DISTINCT (t.completed_at AT TIME ZONE tz)::date)
+    INTO active_days
+    FROM public.tasks t
+   WHERE t.user_id = NEW.user_id
+     AND t.status = 'done'
+     AND t.completed_at IS NOT NULL;
+
+  -- Earlier rows of a multi-day insert are visible here
+  SELECT count(*)
+    INTO spent
+    FROM public.streak_freezes f
+   WHERE f.user_id = NEW.user_id;
+
+  IF spent + 1 > active_days / 7 THEN
+    RAISE EXCEPTION 'No streak freeze available for %', NEW.day
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END
+$$;
+
+DROP TRIGGER IF EXISTS streak_freezes_check_inventory ON public.streak_freezes;
+CREATE TRIGGER streak_freezes_check_inventory
+  BEFORE INSERT ON public.streak_freezes
+  FOR EACH ROW EXECUTE FUNCTION public.check_freeze_inventory();
+
+
+-- ─── 3. VERIFY ───────────────────────────────────────────────────────────────
+
+-- As a signed-in user, both should fail:
+-- INSERT INTO public.streak_freezes (user_id, day) VALUES (auth.uid(), current_date + 2);
+-- INSERT INTO public.streak_freezes (user_id, day)   -- with fewer than 7 active days
+--   VALUES (auth.uid(), current_date - 1);
+--
+-- Should return the new policy's check:
+-- SELECT policyname, with_check FROM pg_policies WHERE tablename = 'streak_freezes';
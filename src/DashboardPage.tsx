@@ -12,32 +12,138 @@
  *  ✅  Analytics tab: KPI cards, 14-day velocity chart, heatmap
  *  ✅  Responsive: stacked on mobile, side-by-side on md+
  *  ✅  Realtime Supabase subscription with 5s polling fallback
+ *  ✅  Streak days bucketed in the user's own timezone (Settings tab)
+ *  ✅  Streak freezes — earned at milestones, spent manually or automatically
+ *  ✅  Gentle / normal / strict streak modes (per-user streak policy)
+ *  ✅  Projects with deadlines — progress, required pace vs. 7-day velocity
+ *  ✅  Daily check-in (% done, hours, notes) — optionally required by the streak
+ *  ✅  Points, XP and levels recomputed from task history (lib/gamification)
+ *  ✅  Achievement badges — unlocked on completion, stored, gallery + toast
+ *  ✅  Recurring tasks — completing an occurrence creates the next one
+ *  ✅  Checklists inside tasks, optionally completing the task when all are done
+ *  ✅  Coloured tags — assigned on create or per task, click a chip to filter
+ *  ✅  Search + filter toolbar, kept in the URL so filtered views can be bookmarked
+ *  ✅  Drag-and-drop task order (mouse + keyboard), stored as fractional positions
+ *  ✅  Board tab: To do / In progress / Done columns with per-column WIP limits
+ *  ✅  Calendar tab: month / week by due date, drag to reschedule, streak dots
+ *  ✅  Timeline tab: Gantt bars for projects + tasks, drag an end to change its date
+ *  ✅  Time estimates + a per-task timer that survives reloads; accuracy + hours charts
+ *  ✅  Pomodoro focus mode — sessions recorded per task, optional streak criterion
+ *  ✅  Offline-first: cached task list + an IndexedDB outbox replayed on reconnect
+ *  ✅  Versioned task rows — clashing edits from two devices ask mine / theirs / merge
+ *  ✅  Toasts with Undo for delete, complete and edit; failed saves shown as error toasts
+ *  ✅  Trash (restore / delete forever, purged after 30 days) + archive for completed tasks
+ *  ✅  Multi-select (shift-click ranges, whole sections) with batch actions, one request each
+ *  ✅  Keyboard shortcuts (n, j / k, x, e, #), a Ctrl/Cmd+K command palette and a `?` cheat sheet
+ *  ✅  Quick add — "Pay rent by fri !high #home every month" parsed as it's typed, with a preview
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { supabase } from "./lib/supabaseClient";
-import type { Task } from "./lib/supabaseClient";
-import { computeStreak, filterCompleted } from "./lib/streak";
+import type { ChecklistItem, FocusSession, Tag, TaskTag, Task, TimeEntry } from "./lib/supabaseClient";
+import {
+  addDays, bridgeableGap, CHECKIN_TARGET_PERCENT, classifyDays, completionsByDay, computeStreak, filterCompleted,
+  freezeInventory, streakHistory, streakStatus, toLocalDateStr,
+  type FreezeInventory, type StreakGap, type StreakOptions,
+} from "./lib/streak";
+import { gamificationSummary, type GamificationSummary } from "./lib/gamification";
+import { evaluateBadges, newlyEarned, STREAK_BADGES, badgeById, type Badge } from "./lib/badges";
+import { firstOccurrence, nextOccurrenceTask } from "./lib/recurrence";
+import { shouldAutoComplete } from "./lib/checklist";
+import { tagCounts, TAG_SWATCHES } from "./lib/tags";
+import { sanitizeWipLimits, statusUpdate, type TaskStatus } from "./lib/board";
+import { applyPositions, listOrder, sortByPosition, topPosition, type PositionUpdate } from "./lib/ordering";
+import { isNetworkError, taskIdsOf } from "./lib/outbox";
+import { applyVersions, type TaskChanges, type TaskConflict } from "./lib/conflicts";
+import { quoteTitle } from "./lib/toasts";
+import { byStamp, canArchive, expiredTrash, isTrashed, splitTasks } from "./lib/trash";
+import { EMPTY_FILTERS, filterTasks, isFiltering, parseFilters, writeFilters, type TaskFilters } from "./lib/filters";
+import { cursorAfterRemoval, stepCursor } from "./lib/shortcuts";
+import { focusMinutesPerDay, sanitizePlan } from "./lib/focus";
+import { ACCURATE_WITHIN, estimateAccuracy, formatMinutes, minutesByTask, minutesPerDay } from "./lib/timeTracking";
+import type { NewTask } from "./hooks/useTasks";
+import { useUserSettings } from "./hooks/useUserSettings";
+import { useStreakFreezes } from "./hooks/useStreakFreezes";
+import { useProjects } from "./hooks/useProjects";
+import { useCheckins } from "./hooks/useCheckins";
+import { useBadges } from "./hooks/useBadges";
+import { useTaskItems } from "./hooks/useTaskItems";
+import { useTags } from "./hooks/useTags";
+import { useTimeEntries } from "./hooks/useTimeEntries";
+import { useFocusSessions } from "./hooks/useFocusSessions";
+import { useErrorToast, useToasts } from "./hooks/useToasts";
+import { useTaskSync } from "./hooks/useTaskSync";
+import { useShortcuts } from "./hooks/useShortcuts";
 import { AddTaskForm } from "./components/AddTaskForm";
 import { TaskList } from "./components/TaskList";
+import type { BatchFields } from "./components/BatchBar";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { LongestStreakCard, StreakTimeline } from "./components/StreakHistory";
+import { ProjectHeader, ProjectSwitcher } from "./components/Projects";
+import { DailyCheckin } from "./components/DailyCheckin";
+import { XpBar } from "./components/XpBar";
+import { BadgeGallery, BadgeToast } from "./components/Badges";
+import { TaskFilterBar } from "./components/TaskFilterBar";
+import { Board } from "./components/Board";
+import { Calendar } from "./components/Calendar";
+import { Timeline } from "./components/Timeline";
+import { FocusMode } from "./components/FocusMode";
+import { ConflictDialog } from "./components/ConflictDialog";
+import { Toasts } from "./components/Toasts";
+import { TrashView } from "./components/Trash";
+import { CommandPalette, type PaletteItem } from "./components/CommandPalette";
+import { ShortcutHelp } from "./components/ShortcutHelp";
+import type { UserBadge } from "./lib/supabaseClient";
 
 // ─── Streak card with animated ring ──────────────────────────────────────────
 
+function formatDay(day: string) {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", timeZone: "UTC",
+  });
+}
+
 function StreakPanel({
   streak, loading, totalTasks, completedToday, urgentTasks,
+  frozenUsed, freezes, gap, onSpendFreeze, paused, minTasksPerDay, needsCheckin, needsFocus, gami, nextBadge,
 }: {
   streak: number; loading: boolean;
   totalTasks: number; completedToday: number;
   urgentTasks: Task[];
+  paused: boolean; minTasksPerDay: number;
+  /** Policy requires a check-in and today doesn't have a qualifying one. */
+  needsCheckin: boolean;
+  /** Policy requires a focus session and today doesn't have one yet. */
+  needsFocus: boolean;
+  gami: GamificationSummary;
+  /** Next streak badge to unlock, with the streak length it needs. */
+  nextBadge: (Badge & { days: number }) | null;
+  frozenUsed: string[]; freezes: FreezeInventory;
+  gap: StreakGap | null;
+  onSpendFreeze: (days: string[]) => void;
 }) {
   const ringGoal = Math.max(7, Math.ceil((streak + 1) / 7) * 7);
   const r = 42, circ = 2 * Math.PI * r;
   const pct = Math.min(1, streak / ringGoal);
-  const ringColor = streak === 0 ? "#374151" : streak >= 7 ? "#22c55e" : "#f97316";
+  const frozen = frozenUsed.length > 0;
+  const ringColor = streak === 0 ? "#374151"
+    : frozen ? "#38bdf8"
+    : streak >= 7 ? "#22c55e" : "#f97316";
+
+  const tasksNeeded = Math.max(0, minTasksPerDay - completedToday);
 
   function msg() {
+    if (paused) return "Streak paused — complete a task to pick it back up.";
+    if (frozen && tasksNeeded > 0)
+      return `A freeze covered ${formatDay(frozenUsed[0])} — complete a task today to keep going!`;
     if (completedToday === 0) return "Complete a task today to keep your streak alive!";
+    if (tasksNeeded > 0)
+      return `${tasksNeeded} more task${tasksNeeded !== 1 ? "s" : ""} today to keep your streak alive!`;
+    if (needsCheckin)
+      return `Check in at ≥${CHECKIN_TARGET_PERCENT}% today to keep your streak alive!`;
+    if (needsFocus)
+      return "Finish a focus session today to keep your streak alive!";
     if (streak === 0) return "Great start! Keep going tomorrow.";
     if (streak < 3)  return "Building momentum — don't stop now.";
     if (streak < 7)  return `${7 - streak} more day${7 - streak !== 1 ? "s" : ""} to your first week badge!`;
@@ -69,6 +175,13 @@ function StreakPanel({
               strokeDashoffset={circ * (1 - pct)}
               style={{ transition: "stroke-dashoffset .8s ease, stroke .4s ease" }} />
           </svg>
+          {frozen && !loading && (
+            <span className="absolute -right-1 top-1 rounded-full border border-sky-400/40
+              bg-sky-950 px-1.5 py-0.5 text-[10px] text-sky-300"
+              title={`Freezes used: ${frozenUsed.map(formatDay).join(", ")}`}>
+              ❄ {frozenUsed.length}
+            </span>
+          )}
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             {loading
               ? <div className="h-7 w-8 animate-pulse rounded bg-white/10" />
@@ -83,7 +196,7 @@ function StreakPanel({
         </div>
 
         <div className="flex items-center justify-center gap-1.5 mb-1">
-          <span>{streak === 0 ? "🌱" : streak >= 30 ? "⚡" : streak >= 7 ? "🔥" : "✨"}</span>
+          <span>{paused ? "⏸" : streak === 0 ? "🌱" : streak >= 30 ? "⚡" : streak >= 7 ? "🔥" : "✨"}</span>
           <h2 className="text-sm font-bold text-white">
             {loading
               ? <span className="inline-block h-4 w-20 animate-pulse rounded bg-white/10" />
@@ -96,11 +209,18 @@ function StreakPanel({
             : msg()}
         </p>
 
+        {frozen && !loading && (
+          <p className="mt-1.5 text-[10px] text-sky-300/70">
+            ❄ {frozenUsed.length} freeze{frozenUsed.length !== 1 ? "s" : ""} used in this streak
+          </p>
+        )}
+
         {/* Stats row */}
-        <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t border-white/8">
+        <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-white/8">
           {[
-            { label: "Today",  val: completedToday },
-            { label: "Total",  val: totalTasks },
+            { label: "Today",   val: completedToday },
+            { label: "Total",   val: totalTasks },
+            { label: "Freezes", val: `❄${freezes.available}` },
           ].map(({ label, val }) => (
             <div key={label} className="text-center">
               <p className="text-xl font-black text-white/90">
@@ -113,14 +233,50 @@ function StreakPanel({
           ))}
         </div>
 
+        {/* Level + XP */}
+        {!loading && (
+          <div className="mt-4 pt-4 border-t border-white/8 text-left">
+            <XpBar level={gami.level} />
+            <div className="mt-2 flex justify-between text-[10px] text-white/35">
+              <span>{gami.points.toLocaleString()} pts</span>
+              <span className={gami.multiplier > 1 ? "text-emerald-400/80" : ""}>
+                {gami.multiplier.toFixed(2)}× streak bonus
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Next milestone */}
         {!loading && streak > 0 && streak < ringGoal && (
           <p className="mt-3 text-[10px] text-white/25">
-            {ringGoal - streak} more day{ringGoal - streak !== 1 ? "s" : ""} → {ringGoal}-day milestone
+            {ringGoal - streak} more day{ringGoal - streak !== 1 ? "s" : ""} → {ringGoal}-day milestone · +1 ❄
           </p>
         )}
       </div>
 
+      {/* Broken streak that freezes can still save */}
+      {!loading && gap && (
+        <div className="rounded-xl border border-sky-500/30 bg-sky-950/20 p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <span>❄</span>
+            <h3 className="text-sm font-bold text-sky-300">Save your {gap.streak}-day streak</h3>
+          </div>
+          <p className="text-xs text-sky-200/60 mb-3 leading-relaxed">
+            You missed {gap.missedDays.slice().reverse().map(formatDay).join(", ")}.{" "}
+            {gap.missedDays.length <= freezes.available
+              ? `Spend ${gap.missedDays.length} of your ${freezes.available} freeze${freezes.available !== 1 ? "s" : ""} to bridge the gap.`
+              : `You need ${gap.missedDays.length} freeze${gap.missedDays.length !== 1 ? "s" : ""} but have ${freezes.available}.`}
+          </p>
+          <button
+            onClick={() => onSpendFreeze(gap.missedDays)}
+            disabled={gap.missedDays.length > freezes.available}
+            className="w-full rounded-lg bg-sky-500/20 py-2 text-xs font-bold text-sky-300
+              transition-all hover:bg-sky-500/30 disabled:cursor-not-allowed disabled:opacity-40">
+            Use {gap.missedDays.length} freeze{gap.missedDays.length !== 1 ? "s" : ""}
+          </button>
+        </div>
+      )}
+
       {/* ── FIX 3: Deadline urgency warning ── */}
       {!loading && urgentTasks.length > 0 && (
         <div className="rounded-xl border border-red-500/30 bg-red-950/20 p-4">
@@ -150,14 +306,14 @@ function StreakPanel({
       )}
 
       {/* Next badge */}
-      {!loading && streak > 0 && (
+      {!loading && streak > 0 && nextBadge && (
         <div className="rounded-xl border border-white/8 bg-white/[0.03] px-4 py-3
           flex items-center gap-3">
-          <span className="text-2xl opacity-40">🏅</span>
+          <span className="text-2xl opacity-40">{nextBadge.icon}</span>
           <div>
-            <p className="text-xs font-semibold text-white/60">{ringGoal}-Day Streak</p>
+            <p className="text-xs font-semibold text-white/60">{nextBadge.name}</p>
             <p className="text-[10px] text-white/30 mt-0.5">
-              {ringGoal - streak} more day{ringGoal - streak !== 1 ? "s" : ""}
+              {Math.max(1, nextBadge.days - streak)} more day{nextBadge.days - streak !== 1 ? "s" : ""}
             </p>
           </div>
         </div>
@@ -202,6 +358,27 @@ function ProgressBar({ tasks }: { tasks: Task[] }) {
   );
 }
 
+// ─── Sync status ──────────────────────────────────────────────────────────────
+
+// Header pill for the offline outbox — hidden while everything is in sync
+function SyncStatus({ online, pending }: { online: boolean; pending: number }) {
+  if (online && pending === 0) return null;
+  return (
+    <span role="status"
+      title={online ? "Sending your changes…" : "Changes are saved on this device and sync when you reconnect"}
+      className={`rounded-full border px-3 py-1 text-xs font-bold ${online
+        ? "border-sky-400/30 text-sky-300" : "border-amber-400/30 text-amber-300"}`}>
+      {online ? "⟳" : "⚡ Offline"}
+      {pending > 0 && (
+        <>
+          <span className="sm:hidden"> · {pending}</span>
+          <span className="hidden sm:inline"> · {pending} change{pending !== 1 ? "s" : ""} waiting to sync</span>
+        </>
+      )}
+    </span>
+  );
+}
+
 // ─── Urgency helper ───────────────────────────────────────────────────────────
 
 function urgencyInfo(dueDate: string | null, status: string) {
@@ -219,18 +396,52 @@ function urgencyInfo(dueDate: string | null, status: string) {
 
 // ─── FIX 4: Analytics tab ─────────────────────────────────────────────────────
 
-function AnalyticsTab({ tasks }: { tasks: Task[] }) {
-  // Build 14-day data
+// Bar chart of minutes per day, labelled like the line chart below it
+function DailyBars({ days, minutes, color }: {
+  days: { date: string; label: string }[];
+  minutes: Map<string, number>;
+  color: string;
+}) {
+  const max = Math.max(...minutes.values(), 60);
+  return (
+    <>
+      <div className="flex h-24 items-end gap-1.5">
+        {days.map(d => {
+          const value = minutes.get(d.date) ?? 0;
+          return (
+            <div key={d.date} className="flex h-full flex-1 items-end"
+              title={`${d.label}: ${formatMinutes(value)}`}>
+              <div className={`w-full rounded-t ${value > 0 ? color : "bg-white/5"}`}
+                style={{ height: `${Math.max(4, (value / max) * 100)}%` }} />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between mt-2 px-0.5">
+        {days.filter((_, i) => i % 2 === 0).map(d => (
+          <span key={d.date} className="text-[9px] text-white/20">{d.label}</span>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function AnalyticsTab({ tasks, streakOptions, streakMode, tags, tagLinks, timeEntries, focusSessions }: {
+  tasks: Task[]; streakOptions: StreakOptions; streakMode: string;
+  tags: Tag[]; tagLinks: TaskTag[]; timeEntries: TimeEntry[]; focusSessions: FocusSession[];
+}) {
+  // Build 14-day data, bucketed by the user's local calendar day
+  const completed = filterCompleted(tasks);
+  const perDay    = completionsByDay(completed, streakOptions.timeZone);
+  const today     = toLocalDateStr(new Date(), streakOptions.timeZone);
   const data = Array.from({ length: 14 }, (_, i) => {
-    const d = new Date(Date.now() - (13 - i) * 86400000);
-    const dateStr = d.toISOString().slice(0, 10);
-    const count = tasks.filter(
-      t => t.status === "done" && t.completed_at?.slice(0, 10) === dateStr
-    ).length;
+    const dateStr = addDays(today, i - 13);
     return {
       date: dateStr,
-      count,
-      label: d.toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+      count: perDay.get(dateStr) ?? 0,
+      label: new Date(`${dateStr}T12:00:00Z`).toLocaleDateString("en-US", {
+        month: "short", day: "numeric", timeZone: "UTC",
+      }),
     };
   });
 
@@ -239,7 +450,16 @@ function AnalyticsTab({ tasks }: { tasks: Task[] }) {
   const activeDays = data.filter(d => d.count > 0).length;
   const avgPerDay  = activeDays > 0 ? (totalDone / activeDays).toFixed(1) : "0";
   const peakDay    = [...data].sort((a, b) => b.count - a.count)[0];
-  const streak     = computeStreak(filterCompleted(tasks));
+  const streak     = computeStreak(completed, new Date(), streakOptions);
+  const dayKinds   = classifyDays(completed, data[0].date, today, new Date(), streakOptions);
+  const runs       = streakHistory(completed, new Date(), streakOptions);
+  const byTag      = tagCounts(tags, tagLinks, tasks).filter(c => c.total > 0);
+  const maxTagged  = Math.max(...byTag.map(c => c.total), 1);
+  const trackedPerDay = minutesPerDay(timeEntries, data[0].date, today, new Date(), streakOptions.timeZone);
+  const totalTracked = [...trackedPerDay.values()].reduce((s, m) => s + m, 0);
+  const focusPerDay = focusMinutesPerDay(focusSessions, data[0].date, today, streakOptions.timeZone);
+  const totalFocus = [...focusPerDay.values()].reduce((s, m) => s + m, 0);
+  const accuracy   = estimateAccuracy(tasks, minutesByTask(timeEntries));
 
   // SVG line chart
   const W = 560, H = 100, PAD = 8;
@@ -268,6 +488,9 @@ function AnalyticsTab({ tasks }: { tasks: Task[] }) {
             {k.label === "Peak day" && peakDay.count > 0 && (
               <p className="text-[10px] text-white/20 mt-0.5">{peakDay.label}</p>
             )}
+            {k.label === "Streak" && (
+              <p className="text-[10px] text-white/20 mt-0.5 capitalize">{streakMode} mode</p>
+            )}
           </div>
         ))}
       </div>
@@ -336,10 +559,14 @@ function AnalyticsTab({ tasks }: { tasks: Task[] }) {
               : intensity < 0.33 ? "bg-orange-500/25"
               : intensity < 0.66 ? "bg-orange-500/55"
               : "bg-orange-500";
+            // Ring the days that counted toward the streak under the current policy
+            const counted = dayKinds.get(d.date) === "active";
             return (
-              <div key={d.date} title={`${d.label}: ${d.count} task${d.count !== 1 ? "s" : ""}`}
+              <div key={d.date}
+                title={`${d.label}: ${d.count} task${d.count !== 1 ? "s" : ""}${counted ? " · streak day" : ""}`}
                 className={`w-8 h-8 rounded-md ${bg} flex items-center justify-center
-                  transition-transform hover:scale-110 cursor-default`}>
+                  transition-transform hover:scale-110 cursor-default
+                  ${counted ? "ring-1 ring-orange-300/60" : ""}`}>
                 {d.count > 0 && (
                   <span className="text-[10px] font-bold text-white/80">{d.count}</span>
                 )}
@@ -355,13 +582,114 @@ function AnalyticsTab({ tasks }: { tasks: Task[] }) {
           <span className="text-[10px] text-white/25">More</span>
         </div>
       </div>
+
+      {/* Time tracked */}
+      <div className="rounded-xl border border-white/8 bg-white/[0.04] p-5">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Hours per Day</h3>
+            <p className="text-xs text-white/35 mt-0.5">Time tracked with task timers · last 14 days</p>
+          </div>
+          <span className="text-xs text-white/25">{formatMinutes(totalTracked)} total</span>
+        </div>
+        {totalTracked === 0
+          ? <p className="py-6 text-center text-sm text-white/35">Start a timer on a task to see your hours.</p>
+          : <DailyBars days={data} minutes={trackedPerDay} color="bg-sky-400/70" />}
+      </div>
+
+      {/* Focus */}
+      <div className="rounded-xl border border-white/8 bg-white/[0.04] p-5">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Focus Minutes</h3>
+            <p className="text-xs text-white/35 mt-0.5">Completed focus-mode blocks · last 14 days</p>
+          </div>
+          <span className="text-xs text-white/25">{formatMinutes(totalFocus)} total</span>
+        </div>
+        {totalFocus === 0
+          ? <p className="py-6 text-center text-sm text-white/35">Finish a 🎯 focus block to see it here.</p>
+          : <DailyBars days={data} minutes={focusPerDay} color="bg-orange-500/80" />}
+      </div>
+
+      {/* Estimates */}
+      <div className="rounded-xl border border-white/8 bg-white/[0.04] p-5">
+        <h3 className="text-sm font-semibold text-white">Estimates vs. Actual</h3>
+        <p className="text-xs text-white/35 mt-0.5 mb-4">Finished tasks with an estimate and tracked time · all time</p>
+        {accuracy.ratio === null ? (
+          <p className="py-2 text-center text-sm text-white/35">
+            Estimate a task, time it and finish it to see how your estimates hold up.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-white/70">
+              Tasks took{" "}
+              <span className={`font-bold ${Math.abs(accuracy.ratio - 1) <= ACCURATE_WITHIN ? "text-emerald-400" : "text-amber-300"}`}>
+                {accuracy.ratio.toFixed(1)}×
+              </span>{" "}
+              your estimates — {formatMinutes(accuracy.actualMinutes)} tracked against{" "}
+              {formatMinutes(accuracy.estimatedMinutes)} estimated.
+            </p>
+            <div className="mt-3 flex h-2 overflow-hidden rounded-full bg-white/5">
+              <div className="bg-sky-400/70" style={{ width: `${(accuracy.under / accuracy.count) * 100}%` }} />
+              <div className="bg-emerald-400" style={{ width: `${(accuracy.accurate / accuracy.count) * 100}%` }} />
+              <div className="bg-red-400/70" style={{ width: `${(accuracy.over / accuracy.count) * 100}%` }} />
+            </div>
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-white/35">
+              <span>{accuracy.under} faster than estimated</span>
+              <span>{accuracy.accurate} within {ACCURATE_WITHIN * 100}%</span>
+              <span>{accuracy.over} took longer</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Tags */}
+      {byTag.length > 0 && (
+        <div className="rounded-xl border border-white/8 bg-white/[0.04] p-5">
+          <h3 className="text-sm font-semibold text-white">Tags</h3>
+          <p className="text-xs text-white/35 mt-0.5 mb-4">Tasks per tag · all time</p>
+          <ul className="space-y-2.5">
+            {byTag.map(c => {
+              const tag = tags.find(t => t.id === c.tagId)!;
+              return (
+                <li key={c.tagId} className="flex items-center gap-3">
+                  <span className="w-24 truncate text-xs text-white/60">#{tag.name}</span>
+                  <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-white/5">
+                    <div className="absolute inset-y-0 left-0 rounded-full opacity-35"
+                      style={{ width: `${(c.total / maxTagged) * 100}%`, background: TAG_SWATCHES[tag.color] }} />
+                    <div className="absolute inset-y-0 left-0 rounded-full"
+                      style={{ width: `${(c.done / maxTagged) * 100}%`, background: TAG_SWATCHES[tag.color] }} />
+                  </div>
+                  <span className="w-14 text-right text-[11px] text-white/35">{c.done}/{c.total} done</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Streak history */}
+      <LongestStreakCard runs={runs} />
+      <StreakTimeline runs={runs} today={today} />
     </div>
   );
 }
 
 // ─── Main page ────────────────────────────────────────────────────────────────
 
-type AppTab = "tasks" | "analytics";
+type AppTab = "tasks" | "board" | "calendar" | "timeline" | "analytics" | "badges" | "trash" | "settings";
+
+const TABS: AppTab[] = ["tasks", "board", "calendar", "timeline", "analytics", "badges", "trash", "settings"];
+const TAB_LABELS: Record<AppTab, string> = {
+  tasks:     "📋 Tasks",
+  board:     "🗂️ Board",
+  calendar:  "📅 Calendar",
+  timeline:  "📈 Timeline",
+  analytics: "📊 Analytics",
+  badges:    "🏅 Badges",
+  trash:     "🗑️ Trash",
+  settings:  "⚙️ Settings",
+};
 
 export default function DashboardPage() {
   const navigate = useNavigate();
@@ -373,10 +701,80 @@ export default function DashboardPage() {
   const [tasksLoading, setTasksLoading] = useState(true);
   const [tasksError, setTasksError]     = useState<string | null>(null);
   const [tab, setTab]         = useState<AppTab>("tasks");
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const tasksRef              = useRef(tasks);
 
   useEffect(() => { tasksRef.current = tasks; }, [tasks]);
 
+  // Offline outbox + cached list. The cache paints the list before the first
+  // fetch; changes the server refuses trigger a refetch.
+  const shownRef      = useRef(false);
+  // Showing the cached list — streak side effects wait for real data
+  const [fromCache, setFromCache] = useState(false);
+  const fetchTasksRef = useRef<() => void>(() => {});
+  const { toasts, showToast, dismissToast: closeToast } = useToasts();
+  const sync = useTaskSync(userId, tasksLoading ? null : tasks, {
+    onCache: cached => {
+      shownRef.current = true; setFromCache(true); setTasks(cached); setTasksLoading(false);
+    },
+    onReject: (m, message) => {
+      // The refetch rolls the optimistic change back — a whole batch at once
+      const ids = taskIdsOf(m);
+      const title = tasksRef.current.find(t => t.id === ids[0])?.title;
+      fetchTasksRef.current();
+      const what = ids.length > 1 ? `${ids.length} tasks` : title ? quoteTitle(title) : "a task";
+      showToast({ kind: "error", message: `Couldn't save ${what}: ${message}` });
+    },
+    // The next edit or batch is based on these, even without a realtime echo
+    onSaved: rows => setTasks(p => applyVersions(p, rows)),
+  });
+  const { withPending, queueInsert, queueUpdate, queueBatch, queueDelete } = sync;
+
+  const {
+    settings, timeZone, policy, loading: settingsLoading, updateSettings,
+  } = useUserSettings(userId);
+  const {
+    frozenDays, loading: freezesLoading, spendFreezes,
+  } = useStreakFreezes(userId);
+  const {
+    projects, error: projectsError, addProject, updateProject, deleteProject,
+  } = useProjects(userId);
+  const {
+    checkins, todayCheckin, loading: checkinsLoading, submitCheckin,
+  } = useCheckins(userId, timeZone);
+  const {
+    badges, loading: badgesLoading, unlockBadges,
+  } = useBadges(userId);
+  const {
+    itemsByTask, error: itemsError, addItem, toggleItem: toggleChecklistItem, deleteItem,
+  } = useTaskItems(userId);
+  const {
+    tags, links: tagLinks, tagsByTask, error: tagsError, createTag, assignTags, unassignTag, tagTasks, untagTasks,
+  } = useTags(userId);
+  const {
+    entries: timeEntries, running: runningTimer, error: timerError, startTimer, stopTimer,
+  } = useTimeEntries(userId);
+  const {
+    sessions: focusSessions, loading: focusLoading, error: focusError, recordSession,
+  } = useFocusSessions(userId);
+  // Failed writes elsewhere land in each hook's error — surface them
+  useErrorToast(projectsError, showToast);
+  useErrorToast(itemsError, showToast);
+  useErrorToast(tagsError, showToast);
+  useErrorToast(timerError, showToast);
+  useErrorToast(focusError, showToast);
+  // Focus mode overlay — open with the task it starts on
+  const [focus, setFocus] = useState<{ taskId: string | null } | null>(null);
+  const [toastBadges, setToastBadges] = useState<UserBadge[]>([]);
+  const dismissToast = useCallback(() => setToastBadges([]), []);
+  // Keyboard: the j / k cursor on the Tasks list, `e` requests, and overlays
+  const [cursorId, setCursorId] = useState<string | null>(null);
+  const [editRequest, setEditRequest] = useState(0);
+  const [focusNewTask, setFocusNewTask] = useState(false);
+  const [palette, setPalette] = useState(false);
+  const [shortcutHelp, setShortcutHelp] = useState(false);
+
   // ── Auth ────────────────────────────────────────────────────────────────────
   useEffect(() => {
     supabase.auth.getSession().then(({ data }) => {
@@ -403,16 +801,27 @@ export default function DashboardPage() {
   const fetchTasks = useCallback(async () => {
     if (!userId) return;
     setTasksError(null);
-    const { data, error } = await supabase
+    const { data, error, status } = await supabase
       .from("tasks").select("*").eq("user_id", userId)
-      .order("created_at", { ascending: false });
-    if (error) setTasksError(error.message);
-    else { setTasks(data ?? []); setTasksLoading(false); }
-  }, [userId]);
+      .order("position", { ascending: true });
+    // Offline with a list on screen: keep it, the sync pill says why
+    if (error) { if (!shownRef.current || !isNetworkError(error, status)) setTasksError(error.message); }
+    else {
+      shownRef.current = true; setFromCache(false);
+      // Purge what has sat in the Trash too long (the server job may be off)
+      const rows = withPending(data ?? []);
+      const expired = new Set(expiredTrash(rows, new Date()).map(t => t.id));
+      expired.forEach(id => queueDelete(id));
+      setTasks(rows.filter(t => !expired.has(t.id))); setTasksLoading(false);
+    }
+  }, [userId, withPending, queueDelete]);
 
+  useEffect(() => { fetchTasksRef.current = fetchTasks; }, [fetchTasks]);
+
+  // After the outbox loads (so it can be overlaid), and again on reconnect
   useEffect(() => {
-    if (userId) fetchTasks();
-  }, [fetchTasks, userId]);
+    if (userId && sync.ready) fetchTasks();
+  }, [fetchTasks, userId, sync.ready, sync.online]);
 
   useEffect(() => {
     if (!userId) return;
@@ -426,8 +835,10 @@ export default function DashboardPage() {
           const t = payload.new as Task;
           setTasks(p => p.some(x => x.id === t.id) ? p : [t, ...p]);
         } else if (payload.eventType === "UPDATE") {
+          // Queued local changes win over the echo. Trashing, restoring and
+          // archiving arrive here too — the views are derived from the stamps
           const t = payload.new as Task;
-          setTasks(p => p.map(x => x.id === t.id ? t : x));
+          setTasks(p => withPending(p.map(x => x.id === t.id ? t : x)));
         } else if (payload.eventType === "DELETE") {
           const t = payload.old as { id: string };
           setTasks(p => p.filter(x => x.id !== t.id));
@@ -441,67 +852,408 @@ export default function DashboardPage() {
         }
       });
     return () => { supabase.removeChannel(channel); };
-  }, [userId, fetchTasks]);
+  }, [userId, fetchTasks, withPending]);
 
   // ── CRUD ────────────────────────────────────────────────────────────────────
-  async function addTask(newTask: { title: string; priority?: Task["priority"]; due_date?: string | null }) {
-    if (!userId) return;
-    const tempId = `temp-${Date.now()}`;
-    const optimistic: Task = {
-      id: tempId, user_id: userId, title: newTask.title,
-      description: null, status: "todo",
+  async function addTask(newTask: NewTask): Promise<Task | null> {
+    if (!userId) return null;
+    const recurrence = newTask.recurrence ?? null;
+    const seriesId = recurrence ? newTask.series_id ?? crypto.randomUUID() : null;
+    const dueDate = newTask.due_date
+      ?? (recurrence ? firstOccurrence(recurrence, toLocalDateStr(new Date(), timeZone)) : null);
+    const now = new Date().toISOString();
+    // Client-generated id — final from the start, so it works offline
+    const task: Task = {
+      id: crypto.randomUUID(), user_id: userId, title: newTask.title,
+      description: newTask.description ?? null, status: "todo",
       priority: newTask.priority ?? "medium",
-      due_date: newTask.due_date ?? null,
-      completed_at: null, created_at: new Date().toISOString(),
+      due_date: dueDate, start_date: null,
+      project_id: newTask.project_id ?? null,
+      recurrence, series_id: seriesId, auto_complete: false,
+      position: topPosition(tasksRef.current),
+      estimated_minutes: newTask.estimated_minutes ?? null,
+      completed_at: null, created_at: now, version: 1, updated_at: now,
+      deleted_at: null, archived_at: null,
     };
-    setTasks(p => [optimistic, ...p]);
-    const { data, error } = await supabase.from("tasks")
-      .insert({ user_id: userId, title: newTask.title,
-        priority: newTask.priority ?? "medium",
-        due_date: newTask.due_date ?? null,
-        status: "todo", completed_at: null })
-      .select().single();
-    if (error || !data) setTasks(p => p.filter(t => t.id !== tempId));
-    else setTasks(p => p.map(t => t.id === tempId ? data : t));
+    setTasks(p => [task, ...p]);
+    queueInsert(task);
+    return task;
+  }
+
+  async function addTaggedTask(newTask: NewTask, tagIds: string[]) {
+    const created = await addTask(newTask);
+    // task_tags references the task — tag it once it's on the server (which
+    // may be a while when offline, so don't hold the caller up)
+    if (created && tagIds.length) {
+      sync.synced(created.id).then(ok => { if (ok) assignTags(created.id, tagIds); });
+    }
+    return created;
   }
 
   async function updateTask(id: string, updates: Partial<Task>) {
     const prev = tasksRef.current.find(t => t.id === id);
     if (!prev) return;
     setTasks(p => p.map(t => t.id === id ? { ...t, ...updates } : t));
-    const { error } = await supabase.from("tasks").update(updates).eq("id", id).eq("user_id", userId!);
-    if (error) setTasks(p => p.map(t => t.id === id ? prev : t));
+    queueUpdate(prev, updates);
   }
 
-  async function deleteTask(id: string) {
+  async function reorderTasks(updates: PositionUpdate[]) {
+    if (!updates.length) return;
+    const prev = new Map(tasksRef.current.map(t => [t.id, t]));
+    setTasks(p => applyPositions(p, updates));
+    updates.forEach(u => { const t = prev.get(u.id); if (t) queueUpdate(t, { position: u.position }); });
+  }
+
+  // Edits from the list, calendar and timeline can be undone from a toast
+  async function editTask(id: string, updates: Partial<Task>) {
     const prev = tasksRef.current.find(t => t.id === id);
-    setTasks(p => p.filter(t => t.id !== id));
-    const { error } = await supabase.from("tasks").delete().eq("id", id).eq("user_id", userId!);
-    if (error && prev) setTasks(p => [prev, ...p]);
+    if (!prev) return;
+    const before: Partial<Task> = Object.fromEntries(
+      Object.keys(updates).map(k => [k, prev[k as keyof Task]]));
+    await updateTask(id, updates);
+    showToast({ kind: "info", message: `Updated ${quoteTitle(prev.title)}`, onUndo: () => updateTask(id, before) });
+  }
+
+  // Deleting moves a task to the Trash (lib/trash); Undo takes it back out
+  async function deleteTask(id: string) {
+    const task = tasksRef.current.find(t => t.id === id);
+    if (!task) return;
+    if (runningTimer?.task_id === id) await stopTimer();
+    await updateTask(id, { deleted_at: new Date().toISOString() });
+    showToast({
+      kind: "info", message: `Moved ${quoteTitle(task.title)} to the Trash`,
+      onUndo: () => restoreTask(id),
+    });
+  }
+
+  function restoreTask(id: string) {
+    return updateTask(id, { deleted_at: null });
+  }
+
+  // Deleting from the Trash is for good — the Trash asks first, so there's no Undo
+  function purgeTasks(ids: string[]) {
+    const purged = tasksRef.current.filter(t => ids.includes(t.id));
+    if (!purged.length) return;
+    setTasks(p => p.filter(t => !ids.includes(t.id)));
+    purged.forEach(task => queueDelete(task.id));
+    showToast({
+      kind: "info",
+      message: purged.length === 1
+        ? `Deleted ${quoteTitle(purged[0].title)} forever`
+        : `Emptied the Trash (${purged.length} tasks)`,
+    });
+  }
+
+  // Archived tasks leave the list but still count (streak, points, analytics)
+  async function archiveTasks(ids: string[]) {
+    const archiving = tasksRef.current.filter(t => ids.includes(t.id) && canArchive(t));
+    if (!archiving.length) return;
+    const now = new Date().toISOString();
+    for (const t of archiving) await updateTask(t.id, { archived_at: now });
+    showToast({
+      kind: "info",
+      message: archiving.length === 1
+        ? `Archived ${quoteTitle(archiving[0].title)}`
+        : `Archived ${archiving.length} tasks`,
+      onUndo: () => archiving.forEach(t => updateTask(t.id, { archived_at: null })),
+    });
+  }
+
+  function resolveConflict(conflict: TaskConflict, picks: TaskChanges) {
+    const task = sync.settleConflict(conflict, picks);
+    setTasks(p => p.map(t => t.id === task.id ? task : t));
+  }
+
+  async function setStatus(task: Task, status: TaskStatus) {
+    const updates = statusUpdate(task, status, new Date());
+    if (!updates) return;
+    if (status === "done" && runningTimer?.task_id === task.id) await stopTimer();
+    await updateTask(task.id, updates);
+    if (status !== "done") return;
+    const created = await rollSeries(task);
+    showToast({
+      kind: "info", message: `Completed ${quoteTitle(task.title)}`,
+      onUndo: () => {
+        const latest = tasksRef.current.find(t => t.id === task.id);
+        if (latest) setStatus(latest, task.status);
+        if (created) { setTasks(p => p.filter(t => t.id !== created.id)); queueDelete(created.id); }
+      },
+    });
+  }
+
+  // Completing a recurring occurrence rolls the series forward, tags included
+  async function rollSeries(task: Task) {
+    const next = nextOccurrenceTask(task, tasksRef.current.filter(t => !isTrashed(t)), toLocalDateStr(new Date(), timeZone));
+    if (!next) return null;
+    return addTaggedTask({
+      ...next, description: next.description ?? undefined, estimated_minutes: task.estimated_minutes,
+    },
+      (tagsByTask.get(task.id) ?? []).map(t => t.id));
+  }
+
+  function toggleComplete(task: Task) {
+    return setStatus(task, task.status === "done" ? "todo" : "done");
+  }
+
+  async function toggleItem(item: ChecklistItem) {
+    const items = await toggleChecklistItem(item);
+    const task = tasksRef.current.find(t => t.id === item.task_id);
+    if (items && task && shouldAutoComplete(task, items)) await toggleComplete(task);
+  }
+
+  // ── Batch actions ───────────────────────────────────────────────────────────
+  // Each batch is one request (update_tasks_batch), applied optimistically.
+  // Tasks changed on another device are reconciled one by one (useTaskSync);
+  // if the server refuses it outright, onReject's refetch rolls the lot back.
+  function applyBatch(updates: { task: Task; changes: Partial<Task> }[]) {
+    const byId = new Map(updates.map(u => [u.task.id, u.changes]));
+    setTasks(p => p.map(t => byId.has(t.id) ? { ...t, ...byId.get(t.id) } : t));
+    queueBatch(updates);
+  }
+
+  // Returns an undo that sends the old values back as one more batch
+  function batchUpdate(list: Task[], changesFor: (task: Task) => Partial<Task> | null) {
+    const updates = list.flatMap(task => {
+      const changes = changesFor(task);
+      return changes ? [{ task, changes }] : [];
+    });
+    if (!updates.length) return null;
+    applyBatch(updates);
+    const before = updates.map(({ task, changes }) => ({
+      id: task.id,
+      changes: Object.fromEntries(Object.keys(changes).map(k => [k, task[k as keyof Task]])) as Partial<Task>,
+    }));
+    return () => applyBatch(before.flatMap(({ id, changes }) => {
+      const task = tasksRef.current.find(t => t.id === id);
+      return task ? [{ task, changes }] : [];
+    }));
+  }
+
+  const countTasks = (n: number) => `${n} task${n === 1 ? "" : "s"}`;
+
+  async function completeTasks(list: Task[]) {
+    if (list.some(t => t.id === runningTimer?.task_id)) await stopTimer();
+    const now = new Date();
+    const undo = batchUpdate(list, t => statusUpdate(t, "done", now));
+    if (!undo) return;
+    const created: Task[] = [];
+    for (const task of list) {
+      const next = await rollSeries(task);
+      if (next) created.push(next);
+    }
+    showToast({
+      kind: "info", message: `Completed ${countTasks(list.length)}`,
+      onUndo: () => {
+        undo();
+        const ids = new Set(created.map(t => t.id));
+        setTasks(p => p.filter(t => !ids.has(t.id)));
+        created.forEach(t => queueDelete(t.id));
+      },
+    });
+  }
+
+  function reopenTasks(list: Task[]) {
+    const now = new Date();
+    const undo = batchUpdate(list, t => statusUpdate(t, "todo", now));
+    if (undo) showToast({ kind: "info", message: `Reopened ${countTasks(list.length)}`, onUndo: undo });
+  }
+
+  async function trashTasks(list: Task[]) {
+    if (list.some(t => t.id === runningTimer?.task_id)) await stopTimer();
+    const deleted_at = new Date().toISOString();
+    const undo = batchUpdate(list, () => ({ deleted_at }));
+    if (undo) showToast({ kind: "info", message: `Moved ${countTasks(list.length)} to the Trash`, onUndo: undo });
+  }
+
+  function setTaskFields(list: Task[], fields: BatchFields) {
+    const changed = list.filter(t =>
+      Object.entries(fields).some(([k, v]) => t[k as keyof BatchFields] !== v));
+    const undo = batchUpdate(changed, () => fields);
+    if (undo) showToast({ kind: "info", message: `Updated ${countTasks(changed.length)}`, onUndo: undo });
   }
 
-  async function toggleComplete(task: Task) {
-    const isDone = task.status === "done";
-    await updateTask(task.id, {
-      status: isDone ? "todo" : "done",
-      completed_at: isDone ? null : new Date().toISOString(),
+  // task_tags references the tasks — wait for any created offline to sync
+  async function tagAll(list: Task[], tagId: string) {
+    const untagged = list.filter(t => !(tagsByTask.get(t.id) ?? []).some(g => g.id === tagId));
+    const synced = await Promise.all(untagged.map(t => sync.synced(t.id)));
+    const ids = untagged.filter((_, i) => synced[i]).map(t => t.id);
+    if (!ids.length) return;
+    await tagTasks(ids, tagId);
+    const name = tags.find(g => g.id === tagId)?.name ?? "tag";
+    showToast({
+      kind: "info", message: `Tagged ${countTasks(ids.length)} #${name}`,
+      onUndo: () => untagTasks(ids, tagId),
     });
   }
 
   // ── Derived ─────────────────────────────────────────────────────────────────
-  const streak = computeStreak(filterCompleted(tasks));
-  const todayUtc = new Date().toISOString().slice(0, 10);
-  const completedToday = tasks.filter(
-    t => t.status === "done" && t.completed_at?.slice(0, 10) === todayUtc
-  ).length;
-  const urgentTasks = tasks.filter(t => urgencyInfo(t.due_date, t.status).urgent);
+  // The list shows `active` tasks. Everything but the Trash (`kept`) counts
+  // towards the streak, points, badges and analytics
+  const split = splitTasks(tasks);
+  const active = split.active;
+  const kept = tasks.filter(t => !isTrashed(t));
+  const streakOptions: StreakOptions = { timeZone, frozenDays, policy, checkins, focusSessions };
+  const completed = filterCompleted(kept);
+  const { streak, frozenUsed, paused } = streakStatus(completed, new Date(), streakOptions);
+  const freezes = freezeInventory(completed, new Date(), streakOptions);
+  const gami = gamificationSummary(kept, new Date(), streakOptions);
+  const badgeProgress = evaluateBadges(kept, new Date(), streakOptions);
+  const nextStreakBadge = STREAK_BADGES.find(b =>
+    !badgeProgress.some(p => p.id === b.id && p.earned));
+  const nextBadge = nextStreakBadge
+    ? { ...badgeById(nextStreakBadge.id)!, days: nextStreakBadge.days } : null;
+  const gap = bridgeableGap(completed, new Date(), streakOptions);
+  const today = toLocalDateStr(new Date(), timeZone);
+  const completedToday = filterCompleted(kept, { timeZone, day: today }).length;
+  const urgentTasks = active.filter(t => urgencyInfo(t.due_date, t.status).urgent);
   const loading = authLoading || tasksLoading;
 
+  // Tasks tab scope: all active tasks, or just the selected project's — then
+  // narrowed by the search / filter toolbar, whose state lives in the URL
+  const activeProject = projects.find(p => p.id === projectId) ?? null;
+  const projectTasks = activeProject
+    ? active.filter(t => t.project_id === activeProject.id) : active;
+  const filters = parseFilters(searchParams);
+  const visibleTasks = filterTasks(projectTasks, filters, { today, timeZone, tagsByTask });
+
+  function setFilters(next: TaskFilters) {
+    setSearchParams(prev => writeFilters(prev, next), { replace: true });
+  }
+
+  const wipLimits = sanitizeWipLimits(settings?.wip_limits);
+
+  function setWipLimit(status: TaskStatus, limit: number | null) {
+    const next = { ...wipLimits };
+    if (limit === null) delete next[status];
+    else next[status] = limit;
+    updateSettings({ wip_limits: next });
+  }
+
+  // Project switcher + filter toolbar shared by the Board, Calendar and Timeline tabs
+  const scopeControls = (
+    <>
+      <ProjectSwitcher
+        projects={projects}
+        activeId={activeProject?.id ?? null}
+        onSelect={setProjectId}
+        onCreate={addProject}
+      />
+      {active.length > 0 && (
+        <TaskFilterBar
+          filters={filters}
+          onChange={setFilters}
+          tags={tags}
+          shown={visibleTasks.length}
+          total={projectTasks.length}
+        />
+      )}
+    </>
+  );
+
+  function filterByTag(tagId: string) {
+    setSearchParams(prev => writeFilters(prev, { ...parseFilters(prev), tagId }), { replace: true });
+  }
+
+  // Auto-apply freezes to a broken streak when the user has enough of them.
+  // Keyed on the missed days so each gap is only attempted once.
+  const gapKey = gap && gap.missedDays.length <= freezes.available
+    ? gap.missedDays.join(",") : "";
+  const autoFrozenRef = useRef("");
+  useEffect(() => {
+    if (loading || fromCache || freezesLoading || checkinsLoading || focusLoading) return;
+    if (!settings?.auto_freeze || !gapKey) return;
+    if (autoFrozenRef.current === gapKey) return;
+    autoFrozenRef.current = gapKey;
+    spendFreezes(gapKey.split(","), true);
+  }, [loading, fromCache, freezesLoading, checkinsLoading, focusLoading, settings?.auto_freeze, gapKey, spendFreezes]);
+
+  // Deleting a project keeps its tasks (ON DELETE SET NULL) — mirror that locally
+  function removeProject(id: string) {
+    setProjectId(null);
+    setTasks(p => p.map(t => t.project_id === id ? { ...t, project_id: null } : t));
+    deleteProject(id);
+  }
+
+  // Unlock badges as soon as the history earns them (each completion, and
+  // once on load for anything earned before badges existed).
+  const earnedKey = newlyEarned(badgeProgress, badges.map(b => b.badge_id)).join(",");
+  const unlockingRef = useRef("");
+  useEffect(() => {
+    if (loading || fromCache || badgesLoading || checkinsLoading || focusLoading || !earnedKey) return;
+    if (unlockingRef.current === earnedKey) return;
+    unlockingRef.current = earnedKey;
+    unlockBadges(earnedKey.split(",")).then(created => {
+      if (created.length) setToastBadges(prev => [...prev, ...created]);
+    });
+  }, [loading, fromCache, badgesLoading, checkinsLoading, focusLoading, earnedKey, unlockBadges]);
+
   async function signOut() {
+    // Don't leave this user's tasks or unsent changes behind on the device
+    await sync.clearLocal();
     await supabase.auth.signOut();
     navigate("/login", { replace: true });
   }
 
+  // ── Keyboard ────────────────────────────────────────────────────────────────
+  // j / k / x / e / # act on the Tasks list as shown; the rest work anywhere
+  const cursorIds = listOrder(visibleTasks).map(t => t.id);
+  const cursorTask = tab === "tasks" ? visibleTasks.find(t => t.id === cursorId) ?? null : null;
+
+  function newTask() {
+    setTab("tasks");
+    setFocusNewTask(true);
+  }
+
+  // The add form only exists once the Tasks tab has rendered
+  useEffect(() => {
+    if (!focusNewTask || tab !== "tasks") return;
+    document.getElementById("task-title")?.focus();
+    setFocusNewTask(false);
+  }, [focusNewTask, tab]);
+
+  function deleteAtCursor(task: Task) {
+    setCursorId(cursorAfterRemoval(cursorIds, task.id));
+    deleteTask(task.id);
+  }
+
+  function jumpToTask(task: Task) {
+    setTab("tasks");
+    // Hidden by the project or filters — show everything so it's on screen
+    if (!visibleTasks.some(t => t.id === task.id)) {
+      setProjectId(null);
+      setFilters(EMPTY_FILTERS);
+    }
+    setCursorId(task.id);
+  }
+
+  const onTasksTab = tab === "tasks" && !loading;
+  useShortcuts({
+    newTask,
+    next:     onTasksTab ? () => setCursorId(stepCursor(cursorIds, cursorId, 1)) : undefined,
+    previous: onTasksTab ? () => setCursorId(stepCursor(cursorIds, cursorId, -1)) : undefined,
+    toggle:   cursorTask ? () => toggleComplete(cursorTask) : undefined,
+    edit:     cursorTask ? () => setEditRequest(n => n + 1) : undefined,
+    delete:   cursorTask ? () => deleteAtCursor(cursorTask) : undefined,
+    palette:  () => setPalette(true),
+    help:     () => setShortcutHelp(true),
+  }, !focus && !palette && !shortcutHelp && sync.conflicts.length === 0);
+
+  const paletteItems: PaletteItem[] = [
+    ...TABS.map(t => ({
+      id: `tab-${t}`, label: `Go to ${TAB_LABELS[t]}`, group: "Action" as const, run: () => setTab(t),
+    })),
+    { id: "new-task", label: "New task", group: "Action", run: newTask },
+    {
+      id: "focus", label: "Start focus mode", group: "Action",
+      run: () => setFocus({ taskId: runningTimer?.task_id ?? null }),
+    },
+    { id: "shortcuts", label: "Keyboard shortcuts", group: "Action", run: () => setShortcutHelp(true) },
+    { id: "sign-out", label: "Sign out", group: "Action", run: signOut },
+    ...listOrder(active).map(t => ({
+      id: `task-${t.id}`, label: t.title, group: "Task" as const, run: () => jumpToTask(t),
+    })),
+  ];
+
   // ── Render ──────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen bg-[#0c0c0e] text-white"
@@ -519,7 +1271,7 @@ export default function DashboardPage() {
               Vibe<span className="text-orange-400">Tracker</span>
             </span>
             <div className="hidden sm:flex items-center gap-1">
-              {(["tasks", "analytics"] as AppTab[]).map(t => (
+              {TABS.map(t => (
                 <button key={t} onClick={() => setTab(t)}
                   className={[
                     "px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-widest transition-all",
@@ -527,14 +1279,26 @@ export default function DashboardPage() {
                       ? "bg-orange-500/20 text-orange-400"
                       : "text-white/30 hover:text-white/60",
                   ].join(" ")}>
-                  {t === "tasks" ? "📋 Tasks" : "📊 Analytics"}
+                  {TAB_LABELS[t]}
                 </button>
               ))}
             </div>
           </div>
 
-          {/* Right: streak pill (mobile) + sign out */}
+          {/* Right: focus, level, streak pill (mobile) + sign out */}
           <div className="flex items-center gap-2">
+            <SyncStatus online={sync.online} pending={sync.pendingCount} />
+            <button onClick={() => setFocus({ taskId: runningTimer?.task_id ?? null })}
+              disabled={loading} aria-label="Open focus mode"
+              className="rounded-lg border border-orange-400/30 px-3 py-1.5 text-xs font-bold
+                text-orange-300 hover:bg-orange-500/10 disabled:opacity-40 transition-all">
+              🎯 Focus
+            </button>
+            {!loading && (
+              <div className="hidden sm:block mr-2">
+                <XpBar level={gami.level} compact />
+              </div>
+            )}
             <div className="flex sm:hidden items-center gap-1.5 rounded-full
               border border-white/10 bg-white/5 px-3 py-1 text-xs font-bold text-white">
               <span>{streak >= 7 ? "🔥" : "✨"}</span>
@@ -550,16 +1314,16 @@ export default function DashboardPage() {
         </div>
 
         {/* Mobile tab bar */}
-        <div className="sm:hidden flex border-t border-white/5">
-          {(["tasks", "analytics"] as AppTab[]).map(t => (
+        <div className="sm:hidden flex overflow-x-auto border-t border-white/5">
+          {TABS.map(t => (
             <button key={t} onClick={() => setTab(t)}
               className={[
-                "flex-1 py-2 text-xs font-bold uppercase tracking-widest transition-all",
+                "flex-1 whitespace-nowrap px-3 py-2 text-xs font-bold uppercase tracking-widest transition-all",
                 tab === t
                   ? "text-orange-400 border-b-2 border-orange-400"
                   : "text-white/30",
               ].join(" ")}>
-              {t === "tasks" ? "📋 Tasks" : "📊 Analytics"}
+              {TAB_LABELS[t]}
             </button>
           ))}
         </div>
@@ -578,11 +1342,30 @@ export default function DashboardPage() {
               : <StreakPanel
                   streak={streak}
                   loading={loading}
-                  totalTasks={tasks.length}
+                  totalTasks={active.length}
                   completedToday={completedToday}
                   urgentTasks={urgentTasks}
+                  frozenUsed={frozenUsed}
+                  freezes={freezes}
+                  gap={gap}
+                  onSpendFreeze={days => spendFreezes(days)}
+                  paused={paused}
+                  minTasksPerDay={policy.minTasksPerDay}
+                  gami={gami}
+                  nextBadge={nextBadge}
+                  needsCheckin={!!policy.requireCheckin &&
+                    (todayCheckin?.completed_percent ?? 0) < CHECKIN_TARGET_PERCENT}
+                  needsFocus={!!policy.requireFocus &&
+                    !focusSessions.some(f => toLocalDateStr(new Date(f.ended_at), timeZone) === today)}
                 />
             }
+            {!loading && !checkinsLoading && (
+              <DailyCheckin
+                checkin={todayCheckin}
+                required={!!policy.requireCheckin}
+                onSubmit={submitCheckin}
+              />
+            )}
           </aside>
 
           {/* Left: main content area */}
@@ -596,34 +1379,175 @@ export default function DashboardPage() {
                     <h1 className="text-2xl font-black text-white">Your Tasks</h1>
                     {!loading && (
                       <p className="mt-0.5 text-sm text-white/35">
-                        {tasks.filter(t => t.status !== "done").length} remaining
+                        {visibleTasks.filter(t => t.status !== "done").length} remaining
                         {" · "}
-                        {tasks.filter(t => t.status === "done").length} completed
+                        {visibleTasks.filter(t => t.status === "done").length} completed
                       </p>
                     )}
                   </div>
                 </div>
 
-                {/* Progress bar */}
-                {!loading && tasks.length > 0 && <ProgressBar tasks={tasks} />}
+                <ProjectSwitcher
+                  projects={projects}
+                  activeId={activeProject?.id ?? null}
+                  onSelect={setProjectId}
+                  onCreate={addProject}
+                />
+
+                {/* Project header replaces the overall progress bar */}
+                {activeProject
+                  ? <ProjectHeader
+                      key={activeProject.id}
+                      project={activeProject}
+                      tasks={kept}
+                      timeZone={timeZone}
+                      onUpdate={updateProject}
+                      onDelete={removeProject}
+                    />
+                  : !loading && active.length > 0 && <ProgressBar tasks={active} />}
 
                 {/* Add task form */}
                 <div className="mb-4">
-                  <AddTaskForm onAdd={addTask} disabled={!userId || loading} />
+                  <AddTaskForm
+                    onAdd={async (task, tagIds) => { await addTaggedTask(task, tagIds); }}
+                    disabled={!userId || loading}
+                    projects={projects}
+                    defaultProjectId={activeProject?.id ?? null}
+                    tags={tags}
+                    onCreateTag={createTag}
+                    timeZone={timeZone}
+                  />
                 </div>
 
+                {!loading && active.length > 0 && (
+                  <TaskFilterBar
+                    filters={filters}
+                    onChange={setFilters}
+                    tags={tags}
+                    shown={visibleTasks.length}
+                    total={projectTasks.length}
+                  />
+                )}
+
                 {/* Task list */}
                 <TaskList
-                  tasks={tasks}
+                  tasks={visibleTasks}
                   loading={loading}
                   error={tasksError}
                   onToggle={toggleComplete}
-                  onUpdate={updateTask}
+                  onUpdate={editTask}
                   onDelete={deleteTask}
+                  onArchive={archiveTasks}
+                  itemsByTask={itemsByTask}
+                  checklist={{ onAddItem: addItem, onToggleItem: toggleItem, onDeleteItem: deleteItem }}
+                  tagsByTask={tagsByTask}
+                  tagging={{
+                    allTags: tags, onAssign: assignTags, onUnassign: unassignTag,
+                    onCreate: createTag, onFilter: filterByTag,
+                  }}
+                  timer={{
+                    running: runningTimer, trackedByTask: minutesByTask(timeEntries),
+                    onStart: startTimer, onStop: stopTimer,
+                    onFocus: taskId => setFocus({ taskId }),
+                  }}
+                  syncByTask={sync.syncByTask}
+                  filtered={isFiltering(filters)}
+                  onReorder={reorderTasks}
+                  allTasks={active}
+                  batch={{
+                    projects, tags,
+                    onComplete: completeTasks, onReopen: reopenTasks, onDelete: trashTasks,
+                    onUpdate: setTaskFields, onTag: tagAll,
+                  }}
+                  cursor={{ activeId: cursorId, editRequest }}
                 />
               </>
             )}
 
+            {/* Board tab */}
+            {tab === "board" && (
+              <>
+                <div className="mb-4">
+                  <h1 className="text-2xl font-black text-white">Board</h1>
+                  <p className="mt-0.5 text-sm text-white/35">
+                    Drag cards between columns, or focus one and use ← / →
+                  </p>
+                </div>
+
+                {loading
+                  ? <div className="grid gap-3 md:grid-cols-3">
+                      {[1, 2, 3].map(i => (
+                        <div key={i} className="h-48 rounded-xl bg-white/[0.04] animate-pulse" />
+                      ))}
+                    </div>
+                  : <>
+                      {scopeControls}
+                      <Board
+                        tasks={visibleTasks}
+                        tagsByTask={tagsByTask}
+                        limits={wipLimits}
+                        onMove={setStatus}
+                        onLimitChange={setWipLimit}
+                      />
+                    </>
+                }
+              </>
+            )}
+
+            {/* Calendar tab */}
+            {tab === "calendar" && (
+              <>
+                <div className="mb-4">
+                  <h1 className="text-2xl font-black text-white">Calendar</h1>
+                  <p className="mt-0.5 text-sm text-white/35">
+                    Open tasks on their due date, finished ones on the day you did them
+                  </p>
+                </div>
+                {loading
+                  ? <div className="h-96 rounded-xl bg-white/[0.04] animate-pulse" />
+                  : <>
+                      {scopeControls}
+                      <Calendar
+                        tasks={visibleTasks}
+                        completed={completed}
+                        streakOptions={streakOptions}
+                        today={today}
+                        onReschedule={(task, day) => editTask(task.id, { due_date: day })}
+                      />
+                    </>
+                }
+              </>
+            )}
+
+            {/* Timeline tab */}
+            {tab === "timeline" && (
+              <>
+                <div className="mb-4">
+                  <h1 className="text-2xl font-black text-white">Timeline</h1>
+                  <p className="mt-0.5 text-sm text-white/35">
+                    Projects and tasks from start to due date — drag either end to change it
+                  </p>
+                </div>
+                {loading
+                  ? <div className="h-96 rounded-xl bg-white/[0.04] animate-pulse" />
+                  : <>
+                      {scopeControls}
+                      <Timeline
+                        tasks={visibleTasks}
+                        projects={activeProject ? [activeProject] : projects}
+                        itemsByTask={itemsByTask}
+                        today={today}
+                        timeZone={timeZone}
+                        onResizeTask={(task, span) =>
+                          editTask(task.id, { start_date: span.start, due_date: span.end })}
+                        onResizeProject={(project, span) =>
+                          updateProject(project.id, { start_date: span.start, deadline: span.end })}
+                      />
+                    </>
+                }
+              </>
+            )}
+
             {/* Analytics tab */}
             {tab === "analytics" && (
               <>
@@ -640,14 +1564,105 @@ export default function DashboardPage() {
                           style={{ height: h }} />
                       ))}
                     </div>
-                  : <AnalyticsTab tasks={tasks} />
+                  : <AnalyticsTab tasks={kept} streakOptions={streakOptions}
+                      streakMode={settings?.streak_mode ?? "strict"}
+                      tags={tags} tagLinks={tagLinks} timeEntries={timeEntries}
+                      focusSessions={focusSessions} />
+                }
+              </>
+            )}
+
+            {/* Badges tab */}
+            {tab === "badges" && (
+              <>
+                <div className="mb-5">
+                  <h1 className="text-2xl font-black text-white">Badges</h1>
+                  <p className="text-sm text-white/35 mt-0.5">
+                    {badges.length} of {badgeProgress.length} unlocked
+                  </p>
+                </div>
+                {loading || badgesLoading
+                  ? <div className="h-64 rounded-xl bg-white/[0.04] animate-pulse" />
+                  : <BadgeGallery progress={badgeProgress} unlocked={badges} />
                 }
               </>
             )}
 
+            {/* Trash tab */}
+            {tab === "trash" && (
+              <>
+                <div className="mb-5">
+                  <h1 className="text-2xl font-black text-white">Trash</h1>
+                  <p className="text-sm text-white/35 mt-0.5">
+                    Archived and deleted tasks
+                  </p>
+                </div>
+                {loading
+                  ? <div className="h-64 rounded-xl bg-white/[0.04] animate-pulse" />
+                  : <TrashView
+                      archived={byStamp(split.archived, "archived_at")}
+                      trash={byStamp(split.trash, "deleted_at")}
+                      now={new Date()}
+                      onUnarchive={task => updateTask(task.id, { archived_at: null })}
+                      onRestore={task => restoreTask(task.id)}
+                      onPurge={task => purgeTasks([task.id])}
+                      onEmpty={() => purgeTasks(split.trash.map(t => t.id))}
+                    />
+                }
+              </>
+            )}
+
+            {/* Settings tab */}
+            {tab === "settings" && (
+              <>
+                <div className="mb-5">
+                  <h1 className="text-2xl font-black text-white">Settings</h1>
+                  <p className="text-sm text-white/35 mt-0.5">
+                    How your streak is counted
+                  </p>
+                </div>
+                <SettingsPanel
+                  settings={settings}
+                  loading={settingsLoading}
+                  onUpdate={updateSettings}
+                />
+              </>
+            )}
+
           </section>
         </div>
       </main>
+
+      <BadgeToast badges={toastBadges} onDismiss={dismissToast} />
+      <Toasts toasts={toasts} onDismiss={closeToast} />
+
+      {focus && (
+        <FocusMode
+          tasks={sortByPosition(active.filter(t => t.status !== "done" && sync.syncByTask.get(t.id) !== "local"))}
+          initialTaskId={focus.taskId}
+          plan={sanitizePlan({
+            work: settings?.focus_work_minutes ?? 25,
+            break: settings?.focus_break_minutes ?? 5,
+          })}
+          onPlanChange={plan => updateSettings({
+            focus_work_minutes: plan.work, focus_break_minutes: plan.break,
+          })}
+          onSessionComplete={recordSession}
+          onClose={() => setFocus(null)}
+        />
+      )}
+
+      {sync.conflicts.length > 0 && (
+        <ConflictDialog
+          key={`${sync.conflicts[0].theirs.id}:${sync.conflicts[0].theirs.version}`}
+          conflict={sync.conflicts[0]}
+          projects={projects}
+          onResolve={picks => resolveConflict(sync.conflicts[0], picks)}
+        />
+      )}
+
+      {palette && <CommandPalette items={paletteItems} onClose={() => setPalette(false)} />}
+      {shortcutHelp && <ShortcutHelp onClose={() => setShortcutHelp(false)} />}
     </div>
   );
 }
@@ -1,29 +1,98 @@
 /**
  * AddTaskForm.tsx
  * Form for creating a new task. Validates input, disables during submit,
- * and clears on success.
+ * and clears on success. Optionally makes the task recurring, tags it and
+ * sets a time estimate.
+ *
+ * The title also takes inline syntax (lib/quickAdd) — "Pay rent by fri
+ * !high #home every month" — previewed under the input as it's typed.
+ * What the title says wins over the controls below it.
  */
 
 
 import { useState, useRef, type FormEvent } from "react";
 import type { NewTask } from "../hooks/useTasks";
+import type { Project, Tag } from "../lib/supabaseClient";
+import { describeRecurrence, WEEKDAY_NAMES, type RecurrenceRule, type Weekday } from "../lib/recurrence";
+import { suggestColor, type TagColor } from "../lib/tags";
+import { matchTags, parseQuickAdd, type QuickAddPriority } from "../lib/quickAdd";
+import { toLocalDateStr } from "../lib/streak";
+import { parseDuration } from "../lib/timeTracking";
+import { TagPicker } from "./TagPicker";
+
+type RepeatKind = "none" | RecurrenceRule["kind"];
+
+const REPEAT_OPTIONS: { value: RepeatKind; label: string }[] = [
+  { value: "none",     label: "Never" },
+  { value: "daily",    label: "Daily" },
+  { value: "weekdays", label: "Weekdays" },
+  { value: "interval", label: "Every N days" },
+  { value: "weekly",   label: "Weekly on…" },
+  { value: "monthly",  label: "Monthly" },
+];
+
+const SMALL_INPUT = `
+  rounded-lg border border-white/10 bg-white/5 px-3 py-1.5
+  text-xs text-white outline-none transition-all
+  hover:border-white/20 focus:ring-2 focus:ring-white/20
+  disabled:opacity-50
+`;
 
 type Props = {
-  onAdd: (task: NewTask) => Promise<void>;
+  /** Receives the ids of the tags picked for the new task. */
+  onAdd: (task: NewTask, tagIds: string[]) => Promise<void>;
   disabled?: boolean;
+  projects?: Project[];
+  /** Project preselected for new tasks (the one currently being viewed). */
+  defaultProjectId?: string | null;
+  tags?: Tag[];
+  /** Omit to hide the tag picker; `#new` tags in the title are then ignored. */
+  onCreateTag?: (name: string, color: TagColor) => Promise<Tag | null>;
+  /** "Today" for dates typed in the title. */
+  timeZone: string;
 };
 
-export function AddTaskForm({ onAdd, disabled }: Props) {
+const PRIORITY_LABELS: Record<QuickAddPriority, string> = { low: "Low", medium: "Medium", high: "High" };
+
+function formatDue(date: string) {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short", month: "short", day: "numeric", timeZone: "UTC",
+  });
+}
+
+export function AddTaskForm({
+  onAdd, disabled, projects = [], defaultProjectId = null, tags = [], onCreateTag, timeZone,
+}: Props) {
   const [title, setTitle] = useState("");
   const [priority, setPriority] = useState<NewTask["priority"]>("medium");
   const [dueDate, setDueDate] = useState("");
+  const [estimate, setEstimate] = useState("");
+  const [projectId, setProjectId] = useState(defaultProjectId ?? "");
+  const [prevDefault, setPrevDefault] = useState(defaultProjectId);
+  const [repeat, setRepeat] = useState<RepeatKind>("none");
+  const [everyDays, setEveryDays] = useState(2);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [monthDay, setMonthDay] = useState(1);
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [validationError, setValidationError] = useState("");
+  // "Keep as text" — the title is taken literally until the next task
+  const [literal, setLiteral] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const parsed = literal ? null : parseQuickAdd(title, new Date(), timeZone);
+  const quick = parsed && parsed.parts.length > 0 ? parsed : null;
+  const quickTags = quick ? matchTags(quick.tags, tags) : null;
+
+  // Follow the project switcher when the viewed project changes
+  if (prevDefault !== defaultProjectId) {
+    setPrevDefault(defaultProjectId);
+    setProjectId(defaultProjectId ?? "");
+  }
+
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
-    const trimmed = title.trim();
+    const trimmed = (quick ? quick.title : title).trim();
     if (!trimmed) {
       setValidationError("Task title is required.");
       inputRef.current?.focus();
@@ -33,17 +102,34 @@ export function AddTaskForm({ onAdd, disabled }: Props) {
       setValidationError("Title must be 280 characters or fewer.");
       return;
     }
+    if (!quick?.recurrence && repeat === "weekly" && !weekdays.length) {
+      setValidationError("Pick at least one day to repeat on.");
+      return;
+    }
+    const estimatedMinutes = estimate.trim() ? parseDuration(estimate) : null;
+    if (estimate.trim() && estimatedMinutes === null) {
+      setValidationError("Estimate should look like 45m, 2h or 1h30.");
+      return;
+    }
     setValidationError("");
     setSubmitting(true);
     try {
+      const allTagIds = [...new Set([...tagIds, ...await titleTagIds()])];
       await onAdd({
         title: trimmed,
-        priority,
-        due_date: dueDate || null,
-      });
+        priority: quick?.priority ?? priority,
+        due_date: quick?.due_date ?? (dueDate || null),
+        project_id: projectId || null,
+        recurrence: quick?.recurrence ?? buildRule(),
+        estimated_minutes: estimatedMinutes,
+      }, allTagIds);
       setTitle("");
+      setLiteral(false);
       setPriority("medium");
       setDueDate("");
+      setEstimate("");
+      setRepeat("none");
+      setTagIds([]);
       inputRef.current?.focus();
     } catch {
       setValidationError("Failed to add task. Please try again.");
@@ -52,6 +138,46 @@ export function AddTaskForm({ onAdd, disabled }: Props) {
     }
   }
 
+  // `#tags` from the title — creating the ones that don't exist yet
+  async function titleTagIds(): Promise<string[]> {
+    if (!quickTags) return [];
+    const ids = quickTags.found.map((t) => t.id);
+    if (!onCreateTag) return ids;
+    for (const [i, name] of quickTags.missing.entries()) {
+      const tag = await onCreateTag(name, suggestColor(tags.length + i));
+      if (tag) ids.push(tag.id);
+    }
+    return ids;
+  }
+
+  function buildRule(): RecurrenceRule | null {
+    switch (repeat) {
+      case "none":     return null;
+      case "daily":    return { kind: "daily" };
+      case "weekdays": return { kind: "weekdays" };
+      case "interval": return { kind: "interval", days: Math.min(365, Math.max(1, everyDays)) };
+      case "weekly":   return { kind: "weekly", weekdays: [...weekdays].sort() };
+      case "monthly":  return { kind: "monthly", day: Math.min(31, Math.max(1, monthDay)) };
+    }
+  }
+
+  // Seed weekly / monthly from the due date (or today, in the user's
+  // timezone) when first picked
+  function changeRepeat(kind: RepeatKind) {
+    const anchor = new Date(`${dueDate || toLocalDateStr(new Date(), timeZone)}T00:00:00Z`);
+    if (kind === "weekly" && !weekdays.length) setWeekdays([anchor.getUTCDay() as Weekday]);
+    if (kind === "monthly") setMonthDay(anchor.getUTCDate());
+    setRepeat(kind);
+  }
+
+  function toggleWeekday(day: Weekday) {
+    setWeekdays((prev) => prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]);
+  }
+
+  function toggleTag(id: string) {
+    setTagIds((prev) => prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]);
+  }
+
   const isDisabled = disabled || submitting;
 
   return (
@@ -75,14 +201,17 @@ export function AddTaskForm({ onAdd, disabled }: Props) {
               value={title}
               onChange={(e) => {
                 setTitle(e.target.value);
+                if (!e.target.value) setLiteral(false);
                 if (validationError) setValidationError("");
               }}
-              placeholder="Add a new task…"
+              placeholder="Add a new task… (try “tomorrow !high #work”)"
               disabled={isDisabled}
               maxLength={280}
               aria-required="true"
               aria-invalid={!!validationError}
-              aria-describedby={validationError ? "task-title-error" : undefined}
+              aria-describedby={[
+                "task-quick-add", validationError ? "task-title-error" : "",
+              ].filter(Boolean).join(" ")}
               className={`
                 w-full rounded-xl border bg-white/5 px-4 py-3 text-sm
                 text-white placeholder-white/30 outline-none transition-all
@@ -148,6 +277,50 @@ export function AddTaskForm({ onAdd, disabled }: Props) {
           </button>
         </div>
 
+        {/* Live preview of what the title's inline syntax sets */}
+        <div id="task-quick-add" aria-live="polite" className="empty:hidden">
+          {quick && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className="text-white/35">Adds</span>
+              <span className="font-medium text-white/80">
+                {quick.title ? `“${quick.title}”` : <em className="text-red-300/80">no title yet</em>}
+              </span>
+              {quick.due_date && (
+                <span className="rounded-md bg-sky-500/15 px-1.5 py-0.5 text-sky-300">
+                  📅 {formatDue(quick.due_date)}
+                </span>
+              )}
+              {quick.priority && (
+                <span className="rounded-md bg-white/8 px-1.5 py-0.5 text-white/70">
+                  {PRIORITY_LABELS[quick.priority]} priority
+                </span>
+              )}
+              {quick.recurrence && (
+                <span className="rounded-md bg-violet-500/15 px-1.5 py-0.5 text-violet-300">
+                  ↻ {describeRecurrence(quick.recurrence)}
+                </span>
+              )}
+              {quickTags?.found.map((t) => (
+                <span key={t.id} className="rounded-md bg-orange-500/15 px-1.5 py-0.5 text-orange-300">#{t.name}</span>
+              ))}
+              {onCreateTag && quickTags?.missing.map((name) => (
+                <span key={name} title="New tag — created when the task is added"
+                  className="rounded-md border border-dashed border-orange-400/40 px-1.5 py-0.5 text-orange-300/80">
+                  #{name} <span className="text-white/35">(new)</span>
+                </span>
+              ))}
+              <button
+                type="button"
+                onClick={() => setLiteral(true)}
+                disabled={isDisabled}
+                className="ml-auto rounded-md px-1.5 py-0.5 text-white/35 hover:text-white/70"
+              >
+                Keep as text
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Secondary row: priority + due date (collapsible on mobile) */}
         <div className="flex flex-wrap gap-2">
           <div className="flex items-center gap-2">
@@ -198,8 +371,129 @@ export function AddTaskForm({ onAdd, disabled }: Props) {
               "
             />
           </div>
+
+          <div className="flex items-center gap-2">
+            <label
+              htmlFor="task-estimate"
+              className="text-xs font-medium text-white/50 whitespace-nowrap"
+            >
+              Estimate
+            </label>
+            <input
+              id="task-estimate"
+              type="text"
+              value={estimate}
+              onChange={(e) => {
+                setEstimate(e.target.value);
+                if (validationError) setValidationError("");
+              }}
+              disabled={isDisabled}
+              placeholder="1h30"
+              aria-label="Time estimate (optional), e.g. 45m or 1h30"
+              className={`${SMALL_INPUT} w-20 placeholder-white/25`}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label
+              htmlFor="task-repeat"
+              className="text-xs font-medium text-white/50 whitespace-nowrap"
+            >
+              Repeat
+            </label>
+            <select
+              id="task-repeat"
+              value={repeat}
+              onChange={(e) => changeRepeat(e.target.value as RepeatKind)}
+              disabled={isDisabled}
+              className={SMALL_INPUT}
+            >
+              {REPEAT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            {repeat === "interval" && (
+              <input
+                type="number" min={1} max={365}
+                value={everyDays}
+                onChange={(e) => setEveryDays(Number(e.target.value) || 1)}
+                disabled={isDisabled}
+                aria-label="Repeat every how many days"
+                className={`${SMALL_INPUT} w-16 text-right`}
+              />
+            )}
+            {repeat === "monthly" && (
+              <input
+                type="number" min={1} max={31}
+                value={monthDay}
+                onChange={(e) => setMonthDay(Number(e.target.value) || 1)}
+                disabled={isDisabled}
+                aria-label="Day of the month"
+                className={`${SMALL_INPUT} w-16 text-right`}
+              />
+            )}
+          </div>
+
+          {repeat === "weekly" && (
+            <div className="flex items-center gap-1" role="group" aria-label="Repeat on">
+              {WEEKDAY_NAMES.map((name, i) => {
+                const on = weekdays.includes(i as Weekday);
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    aria-pressed={on}
+                    onClick={() => toggleWeekday(i as Weekday)}
+                    disabled={isDisabled}
+                    className={`rounded-md px-1.5 py-1 text-[10px] font-bold transition-all
+                      ${on ? "bg-orange-500/25 text-orange-300" : "bg-white/5 text-white/35 hover:text-white/60"}`}
+                  >
+                    {name.slice(0, 2)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {projects.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label
+                htmlFor="task-project"
+                className="text-xs font-medium text-white/50 whitespace-nowrap"
+              >
+                Project
+              </label>
+              <select
+                id="task-project"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                disabled={isDisabled}
+                className="
+                  max-w-[10rem] rounded-lg border border-white/10 bg-white/5 px-3 py-1.5
+                  text-xs text-white outline-none transition-all
+                  hover:border-white/20 focus:ring-2 focus:ring-white/20
+                  disabled:opacity-50
+                "
+              >
+                <option value="">No project</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>{p.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
+        {onCreateTag && (
+          <TagPicker
+            tags={tags}
+            selected={tagIds}
+            onToggle={toggleTag}
+            onCreate={onCreateTag}
+            disabled={isDisabled}
+          />
+        )}
+
         {/* Validation error */}
         {validationError && (
           <p
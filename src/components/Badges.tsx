@@ -0,0 +1,104 @@
+/**
+ * Badges.tsx
+ * Badge gallery (every badge, earned or locked, with progress) and the toast
+ * shown when new badges unlock.
+ */
+
+import { useEffect } from "react";
+import type { UserBadge } from "../lib/supabaseClient";
+import { BADGES, badgeById, type BadgeProgress } from "../lib/badges";
+
+function formatUnlocked(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", year: "numeric",
+  });
+}
+
+// ─── Gallery ─────────────────────────────────────────────────────────────────
+
+export function BadgeGallery({ progress, unlocked }: {
+  progress: BadgeProgress[];
+  unlocked: UserBadge[];
+}) {
+  const unlockedAt = new Map(unlocked.map(b => [b.badge_id, b.unlocked_at]));
+  const byId = new Map(progress.map(p => [p.id, p]));
+
+  return (
+    <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+      {BADGES.map(badge => {
+        const p = byId.get(badge.id);
+        const at = unlockedAt.get(badge.id);
+        return (
+          <li key={badge.id}
+            className={`rounded-xl border p-4 text-center transition-all ${at
+              ? "border-amber-400/30 bg-amber-500/[0.06]"
+              : "border-white/8 bg-white/[0.02]"}`}>
+            <span className={`text-3xl ${at ? "" : "opacity-25 grayscale"}`} aria-hidden="true">
+              {badge.icon}
+            </span>
+            <p className={`mt-2 text-xs font-bold ${at ? "text-amber-300" : "text-white/50"}`}>
+              {badge.name}
+            </p>
+            <p className="mt-1 text-[10px] leading-snug text-white/35">{badge.description}</p>
+            {at ? (
+              <p className="mt-2 text-[10px] text-white/40">Unlocked {formatUnlocked(at)}</p>
+            ) : p && p.target > 1 ? (
+              <div className="mt-2">
+                <div className="h-1 rounded-full bg-white/8 overflow-hidden"
+                  role="progressbar" aria-valuenow={p.current} aria-valuemin={0} aria-valuemax={p.target}
+                  aria-label={`${badge.name} progress`}>
+                  <div className="h-full rounded-full bg-amber-400/60"
+                    style={{ width: `${(p.current / p.target) * 100}%` }} />
+                </div>
+                <p className="mt-1 text-[10px] text-white/30 tabular-nums">{p.current}/{p.target}</p>
+              </div>
+            ) : (
+              <p className="mt-2 text-[10px] text-white/25">Locked</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// ─── Unlock toast ────────────────────────────────────────────────────────────
+
+const TOAST_MS = 6000;
+
+export function BadgeToast({ badges, onDismiss }: {
+  badges: UserBadge[];
+  onDismiss: () => void;
+}) {
+  useEffect(() => {
+    if (!badges.length) return;
+    const timer = setTimeout(onDismiss, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [badges, onDismiss]);
+
+  const first = badges[0] && badgeById(badges[0].badge_id);
+  if (!first) return null;
+
+  return (
+    <div role="status" aria-live="polite"
+      className="fixed bottom-4 right-4 z-50 flex max-w-xs items-center gap-3 rounded-xl
+        border border-amber-400/40 bg-[#1a1408] px-4 py-3 shadow-2xl shadow-black/50">
+      <span className="text-3xl" aria-hidden="true">{first.icon}</span>
+      <div className="min-w-0 flex-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-amber-400">
+          Badge unlocked
+        </p>
+        <p className="text-sm font-bold text-white truncate">{first.name}</p>
+        {badges.length > 1 && (
+          <p className="text-[10px] text-white/40">
+            +{badges.length - 1} more — see the Badges tab
+          </p>
+        )}
+      </div>
+      <button onClick={onDismiss} aria-label="Dismiss"
+        className="self-start text-white/30 hover:text-white/70">
+        ×
+      </button>
+    </div>
+  );
+}
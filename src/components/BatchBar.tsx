@@ -0,0 +1,121 @@
+/**
+ * BatchBar.tsx
+ * Actions for the tasks selected in the list: complete, reopen, set
+ * priority, due date or project, add a tag, or delete. Each action is one
+ * request for all of them, and clears the selection.
+ */
+
+import { useState } from "react";
+import type { Project, Tag, Task } from "../lib/supabaseClient";
+
+/** Fields a batch can set to the same value on every task. */
+export type BatchFields = Partial<Pick<Task, "priority" | "due_date" | "project_id">>;
+
+export type BatchHandlers = {
+  projects: Project[];
+  tags: Tag[];
+  onComplete: (tasks: Task[]) => void;
+  onReopen: (tasks: Task[]) => void;
+  onUpdate: (tasks: Task[], fields: BatchFields) => void;
+  onTag: (tasks: Task[], tagId: string) => void;
+  onDelete: (tasks: Task[]) => void;
+};
+
+type Props = {
+  tasks: Task[];
+  handlers: BatchHandlers;
+  /** Clears the selection. */
+  onClear: () => void;
+};
+
+const NO_PROJECT = "none";
+
+const BUTTON = `rounded-lg border border-white/10 px-2.5 py-1 text-xs text-white/60 transition-all
+  hover:border-white/20 hover:text-white disabled:opacity-40`;
+const SELECT = `rounded-lg border border-white/10 bg-[#18181b] px-2 py-1 text-xs text-white/60
+  outline-none transition-all hover:border-white/20 focus:ring-2 focus:ring-white/20 [color-scheme:dark]`;
+
+export function BatchBar({ tasks, handlers, onClear }: Props) {
+  const [dueDate, setDueDate] = useState("");
+  const open = tasks.filter(t => t.status !== "done");
+  const done = tasks.filter(t => t.status === "done");
+
+  function run(action: () => void) {
+    action();
+    setDueDate("");
+    onClear();
+  }
+
+  return (
+    <div role="toolbar" aria-label="Batch actions"
+      className="sticky top-[68px] z-20 mb-3 flex flex-wrap items-center gap-2 rounded-xl border
+        border-orange-400/30 bg-[#141210]/95 px-3 py-2 shadow-xl shadow-black/40 backdrop-blur-sm">
+      <span className="mr-1 text-xs font-bold text-orange-300" aria-live="polite">
+        {tasks.length} selected
+      </span>
+
+      {open.length > 0 && (
+        <button type="button" className={BUTTON} onClick={() => run(() => handlers.onComplete(open))}>
+          ✓ Complete
+        </button>
+      )}
+      {done.length > 0 && (
+        <button type="button" className={BUTTON} onClick={() => run(() => handlers.onReopen(done))}>
+          ↺ Reopen
+        </button>
+      )}
+
+      <select aria-label="Set priority" className={SELECT} value=""
+        onChange={e => run(() => handlers.onUpdate(tasks, { priority: e.target.value as Task["priority"] }))}>
+        <option value="" disabled>Priority…</option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+      </select>
+
+      <span className="flex items-center gap-1">
+        <input type="date" aria-label="Set due date" className={SELECT} value={dueDate}
+          onChange={e => setDueDate(e.target.value)} />
+        <button type="button" className={BUTTON} disabled={!dueDate}
+          onClick={() => run(() => handlers.onUpdate(tasks, { due_date: dueDate }))}>
+          Set due
+        </button>
+        <button type="button" className={BUTTON} title="Remove the due date"
+          onClick={() => run(() => handlers.onUpdate(tasks, { due_date: null }))}>
+          No date
+        </button>
+      </span>
+
+      {handlers.projects.length > 0 && (
+        <select aria-label="Move to project" className={SELECT} value=""
+          onChange={e => {
+            const projectId = e.target.value === NO_PROJECT ? null : e.target.value;
+            run(() => handlers.onUpdate(tasks, { project_id: projectId }));
+          }}>
+          <option value="" disabled>Move to…</option>
+          {handlers.projects.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+          <option value={NO_PROJECT}>No project</option>
+        </select>
+      )}
+
+      {handlers.tags.length > 0 && (
+        <select aria-label="Add tag" className={SELECT} value=""
+          onChange={e => run(() => handlers.onTag(tasks, e.target.value))}>
+          <option value="" disabled>Add tag…</option>
+          {handlers.tags.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+      )}
+
+      <button type="button" onClick={() => run(() => handlers.onDelete(tasks))}
+        className="rounded-lg border border-red-400/30 px-2.5 py-1 text-xs text-red-300 transition-all
+          hover:bg-red-400/10">
+        Delete
+      </button>
+
+      <button type="button" onClick={onClear} aria-label="Clear selection"
+        className="ml-auto text-white/30 hover:text-white/70">
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * Board.tsx
+ * Kanban view of the tasks: To do / In progress / Done columns. Cards move
+ * between columns by drag-and-drop, or with ← / → while a card is focused.
+ * Each column can have a work-in-progress limit; a full column refuses
+ * new cards.
+ */
+
+import { useEffect, useRef, useState, type DragEvent, type KeyboardEvent } from "react";
+import type { Tag, Task } from "../lib/supabaseClient";
+import {
+  BOARD_COLUMNS, groupByStatus, hasRoom, MAX_WIP_LIMIT, wipState,
+  type TaskStatus, type WipLimits,
+} from "../lib/board";
+import { sortByPosition } from "../lib/ordering";
+import { PRIORITY_STYLES } from "./TaskItem";
+import { TagChip } from "./TagPicker";
+
+/** Done cards shown before "+N more" — the column only grows otherwise. */
+const DONE_PREVIEW = 20;
+
+const WIP_STYLES = {
+  "ok":         "text-white/30",
+  "at-limit":   "text-amber-300",
+  "over-limit": "text-red-400",
+} as const;
+
+type Props = {
+  tasks: Task[];
+  tagsByTask: Map<string, Tag[]>;
+  limits: WipLimits;
+  onMove: (task: Task, status: TaskStatus) => Promise<void>;
+  onLimitChange: (status: TaskStatus, limit: number | null) => void;
+};
+
+// ─── Card ────────────────────────────────────────────────────────────────────
+
+function Card({ task, tags, focused, onDragStart, onDragEnd, onKeyMove }: {
+  task: Task;
+  tags: Tag[];
+  /** Just moved with the keyboard — keep focus on it in its new column. */
+  focused: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onKeyMove: (delta: -1 | 1) => void;
+}) {
+  const ref = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    if (focused) ref.current?.focus();
+  }, [focused]);
+
+  function handleKeyDown(e: KeyboardEvent<HTMLLIElement>) {
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      onKeyMove(e.key === "ArrowLeft" ? -1 : 1);
+    }
+  }
+
+  function handleDragStart(e: DragEvent<HTMLLIElement>) {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+    onDragStart();
+  }
+
+  return (
+    <li
+      ref={ref}
+      tabIndex={0}
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onKeyDown={handleKeyDown}
+      aria-label={`${task.title} — use the left and right arrow keys to move`}
+      className={`cursor-grab rounded-lg border border-white/10 bg-white/5 px-3 py-2.5
+        transition-all hover:border-white/20 focus:outline-none focus:ring-2 focus:ring-white/30
+        active:cursor-grabbing`}
+    >
+      <p className={`text-sm font-medium ${task.status === "done" ? "text-white/35 line-through" : "text-white/85"}`}>
+        {task.title}
+      </p>
+      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+        <span className={`rounded-full border px-2 py-0.5 text-[10px] font-medium ${PRIORITY_STYLES[task.priority]}`}>
+          {task.priority}
+        </span>
+        {tags.map((tag) => <TagChip key={tag.id} tag={tag} />)}
+        {task.due_date && task.status !== "done" && (
+          <span className="text-[10px] text-white/40">
+            Due {new Date(`${task.due_date}T12:00:00Z`).toLocaleDateString(undefined, {
+              month: "short", day: "numeric", timeZone: "UTC",
+            })}
+          </span>
+        )}
+      </div>
+    </li>
+  );
+}
+
+// ─── WIP limit editor ────────────────────────────────────────────────────────
+
+function WipLimit({ label, count, limit, onChange }: {
+  label: string;
+  count: number;
+  limit: number | undefined;
+  onChange: (limit: number | null) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState("");
+
+  function commit() {
+    setEditing(false);
+    const n = Number(value);
+    if (value.trim() === "" || n === 0) onChange(null);
+    else if (Number.isInteger(n) && n >= 1 && n <= MAX_WIP_LIMIT) onChange(n);
+  }
+
+  if (editing) {
+    return (
+      <input
+        type="number" min={0} max={MAX_WIP_LIMIT}
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setEditing(false);
+        }}
+        aria-label={`WIP limit for ${label} (0 for none)`}
+        className="w-14 rounded border border-white/15 bg-white/10 px-1.5 py-0.5 text-right text-xs
+          text-white outline-none focus:ring-2 focus:ring-white/20"
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => { setValue(limit ? String(limit) : ""); setEditing(true); }}
+      title="Set a work-in-progress limit"
+      className={`text-xs tabular-nums hover:text-white/70 ${WIP_STYLES[wipState(count, limit)]}`}
+    >
+      {limit ? `${count}/${limit}` : `${count} · set limit`}
+    </button>
+  );
+}
+
+// ─── Board ───────────────────────────────────────────────────────────────────
+
+export function Board({ tasks, tagsByTask, limits, onMove, onLimitChange }: Props) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<TaskStatus | null>(null);
+  const [notice, setNotice] = useState("");
+  const [showAllDone, setShowAllDone] = useState(false);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  const columns = groupByStatus(sortByPosition(tasks));
+  // Most recent completions first
+  columns.done.sort((a, b) => (b.completed_at ?? "").localeCompare(a.completed_at ?? ""));
+
+  function moveTo(task: Task, status: TaskStatus) {
+    if (task.status === status) return;
+    const column = BOARD_COLUMNS.find((c) => c.status === status)!;
+    if (!hasRoom(columns[status].length, limits[status])) {
+      setNotice(`${column.label} is at its WIP limit (${limits[status]}). Finish something first.`);
+      return;
+    }
+    setNotice(`Moved "${task.title}" to ${column.label}.`);
+    onMove(task, status);
+  }
+
+  function moveBy(task: Task, delta: -1 | 1) {
+    const index = BOARD_COLUMNS.findIndex((c) => c.status === task.status);
+    const target = BOARD_COLUMNS[index + delta];
+    if (!target) return;
+    setFocusId(task.id);
+    moveTo(task, target.status);
+  }
+
+  function endDrag() {
+    setDragId(null);
+    setOverColumn(null);
+  }
+
+  function handleDrop(status: TaskStatus) {
+    const task = tasks.find((t) => t.id === dragId);
+    endDrag();
+    if (task) moveTo(task, status);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-3">
+        {BOARD_COLUMNS.map(({ status, label }) => {
+          const cards = columns[status];
+          const shown = status === "done" && !showAllDone ? cards.slice(0, DONE_PREVIEW) : cards;
+          const full = dragId !== null && !hasRoom(cards.length, limits[status]);
+          return (
+            <section
+              key={status}
+              aria-label={label}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setOverColumn(status);
+              }}
+              onDragLeave={() => setOverColumn((c) => (c === status ? null : c))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status);
+              }}
+              className={`flex min-h-40 flex-col rounded-xl border p-3 transition-colors
+                ${overColumn === status
+                  ? full ? "border-red-400/40 bg-red-500/[0.05]" : "border-orange-400/40 bg-orange-500/[0.05]"
+                  : "border-white/8 bg-white/[0.04]"}`}
+            >
+              <header className="mb-3 flex items-center justify-between">
+                <h2 className="text-xs font-bold uppercase tracking-wider text-white/60">{label}</h2>
+                <WipLimit
+                  label={label}
+                  count={cards.length}
+                  limit={limits[status]}
+                  onChange={(limit) => onLimitChange(status, limit)}
+                />
+              </header>
+
+              {cards.length === 0 ? (
+                <p className="flex flex-1 items-center justify-center rounded-lg border border-dashed
+                  border-white/10 py-6 text-xs text-white/25">
+                  Drop tasks here
+                </p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {shown.map((task) => (
+                    <Card
+                      key={task.id}
+                      task={task}
+                      tags={tagsByTask.get(task.id) ?? []}
+                      focused={focusId === task.id}
+                      onDragStart={() => setDragId(task.id)}
+                      onDragEnd={endDrag}
+                      onKeyMove={(delta) => moveBy(task, delta)}
+                    />
+                  ))}
+                </ul>
+              )}
+
+              {shown.length < cards.length && (
+                <button
+                  type="button"
+                  onClick={() => setShowAllDone(true)}
+                  className="mt-2 text-xs text-white/35 hover:text-white/70"
+                >
+                  +{cards.length - shown.length} more
+                </button>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      <p className="min-h-4 text-xs text-white/40" aria-live="polite">{notice}</p>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * Calendar.tsx
+ * Month / week calendar of tasks: open tasks on their due date, completed
+ * ones on the day they were done. Each day carries a dot for how it counted
+ * toward the streak. Dragging an open task to another day reschedules it;
+ * with a task focused, ← / → move it a day and ↑ / ↓ a week.
+ */
+
+import { useEffect, useRef, useState, type DragEvent, type KeyboardEvent } from "react";
+import type { Task } from "../lib/supabaseClient";
+import {
+  monthGrid, sameMonth, shiftPeriod, streakMarkers, tasksByDay, weekOf,
+  type CalendarMode,
+} from "../lib/calendar";
+import { addDays, type CompletedTask, type DayKind, type StreakOptions } from "../lib/streak";
+import { sortByPosition } from "../lib/ordering";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Tasks listed per cell in month view before "+N more". */
+const MONTH_CELL_LIMIT = 3;
+
+const MARKERS: Record<Exclude<DayKind, "pending">, { color: string; label: string }> = {
+  active:   { color: "bg-emerald-400", label: "Counted toward the streak" },
+  frozen:   { color: "bg-sky-400",     label: "Covered by a streak freeze" },
+  forgiven: { color: "bg-amber-400",   label: "Missed, but forgiven this week" },
+  missed:   { color: "bg-red-400",     label: "Missed — didn't count" },
+};
+
+const PRIORITY_BORDER: Record<Task["priority"], string> = {
+  high: "border-l-red-400",
+  medium: "border-l-amber-400",
+  low: "border-l-emerald-400",
+};
+
+const KEY_STEPS: Record<string, number> = {
+  ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7,
+};
+
+function formatTitle(anchor: string, mode: CalendarMode) {
+  const date = new Date(`${anchor}T12:00:00Z`);
+  if (mode === "month") {
+    return date.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+  }
+  const [first, , , , , , last] = weekOf(anchor);
+  const fmt = (day: string) => new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", timeZone: "UTC",
+  });
+  return `${fmt(first)} – ${fmt(last)}`;
+}
+
+type Props = {
+  /** Tasks to place (already scoped and filtered). */
+  tasks: Task[];
+  /** Every completed task — streak markers ignore the current filters. */
+  completed: CompletedTask[];
+  streakOptions: StreakOptions;
+  today: string;
+  onReschedule: (task: Task, day: string) => Promise<void>;
+};
+
+// ─── Task chip ───────────────────────────────────────────────────────────────
+
+function CalendarTask({ task, focused, onDragStart, onDragEnd, onKeyMove }: {
+  task: Task;
+  focused: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onKeyMove: (days: number) => void;
+}) {
+  const ref = useRef<HTMLLIElement>(null);
+  const isDone = task.status === "done";
+  const movable = !isDone;
+
+  useEffect(() => {
+    if (focused) ref.current?.focus();
+  }, [focused]);
+
+  function handleKeyDown(e: KeyboardEvent<HTMLLIElement>) {
+    const step = KEY_STEPS[e.key];
+    if (!movable || step === undefined) return;
+    e.preventDefault();
+    onKeyMove(step);
+  }
+
+  function handleDragStart(e: DragEvent<HTMLLIElement>) {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+    onDragStart();
+  }
+
+  return (
+    <li
+      ref={ref}
+      tabIndex={movable ? 0 : -1}
+      draggable={movable}
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onKeyDown={handleKeyDown}
+      title={movable ? `${task.title} — drag or use the arrow keys to reschedule` : task.title}
+      className={`truncate rounded border-l-2 bg-white/5 px-1.5 py-0.5 text-[11px]
+        focus:outline-none focus:ring-2 focus:ring-white/30
+        ${PRIORITY_BORDER[task.priority]}
+        ${isDone ? "text-white/30 line-through" : "cursor-grab text-white/75 active:cursor-grabbing"}`}
+    >
+      {task.title}
+    </li>
+  );
+}
+
+// ─── Calendar ────────────────────────────────────────────────────────────────
+
+export function Calendar({ tasks, completed, streakOptions, today, onReschedule }: Props) {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overDay, setOverDay] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [notice, setNotice] = useState("");
+
+  const weeks = mode === "month" ? monthGrid(anchor) : [weekOf(anchor)];
+  const first = weeks[0][0];
+  const last = weeks[weeks.length - 1][6];
+  const byDay = tasksByDay(sortByPosition(tasks), streakOptions.timeZone);
+  const markers = streakMarkers(completed, first, last, new Date(), streakOptions);
+  const unscheduled = tasks.filter(t => t.status !== "done" && !t.due_date).length;
+
+  function reschedule(task: Task, day: string) {
+    if (task.due_date === day) return;
+    setNotice(`Moved "${task.title}" to ${new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+      weekday: "long", month: "short", day: "numeric", timeZone: "UTC",
+    })}.`);
+    onReschedule(task, day);
+  }
+
+  function moveBy(task: Task, days: number) {
+    if (!task.due_date) return;
+    const day = addDays(task.due_date, days);
+    setFocusId(task.id);
+    // Follow the task when it leaves the visible range
+    if (day < first || day > last) setAnchor(mode === "month" ? day.slice(0, 8) + "01" : day);
+    reschedule(task, day);
+  }
+
+  function endDrag() {
+    setDragId(null);
+    setOverDay(null);
+  }
+
+  function handleDrop(day: string) {
+    const task = tasks.find(t => t.id === dragId);
+    endDrag();
+    if (task && task.status !== "done") reschedule(task, day);
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => setAnchor(a => shiftPeriod(a, mode, -1))}
+            aria-label={`Previous ${mode}`}
+            className="rounded-lg px-2 py-1 text-sm text-white/50 hover:bg-white/5 hover:text-white">
+            ‹
+          </button>
+          <button type="button" onClick={() => setAnchor(today)}
+            className="rounded-lg px-2 py-1 text-xs font-semibold text-white/50 hover:bg-white/5 hover:text-white">
+            Today
+          </button>
+          <button type="button" onClick={() => setAnchor(a => shiftPeriod(a, mode, 1))}
+            aria-label={`Next ${mode}`}
+            className="rounded-lg px-2 py-1 text-sm text-white/50 hover:bg-white/5 hover:text-white">
+            ›
+          </button>
+          <h2 className="ml-2 text-sm font-semibold text-white" aria-live="polite">
+            {formatTitle(anchor, mode)}
+          </h2>
+        </div>
+        <div className="flex rounded-lg bg-white/5 p-0.5" role="group" aria-label="Calendar range">
+          {(["month", "week"] as const).map(m => (
+            <button key={m} type="button" aria-pressed={mode === m} onClick={() => setMode(m)}
+              className={`rounded-md px-3 py-1 text-xs font-semibold capitalize transition-all
+                ${mode === m ? "bg-white/10 text-white" : "text-white/40 hover:text-white/70"}`}>
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="overflow-hidden rounded-xl border border-white/8">
+        <div className="grid grid-cols-7 border-b border-white/8 bg-white/[0.03]">
+          {WEEKDAYS.map(d => (
+            <div key={d} className="px-2 py-1.5 text-center text-[10px] uppercase tracking-wider text-white/35">
+              {d}
+            </div>
+          ))}
+        </div>
+        {weeks.map(week => (
+          <div key={week[0]} className="grid grid-cols-7">
+            {week.map(day => {
+              const dayTasks = byDay.get(day) ?? [];
+              const limit = mode === "month" && expanded !== day ? MONTH_CELL_LIMIT : Infinity;
+              const marker = markers.get(day);
+              const outside = mode === "month" && !sameMonth(day, anchor);
+              return (
+                <div
+                  key={day}
+                  onDragOver={e => { e.preventDefault(); setOverDay(day); }}
+                  onDrop={e => { e.preventDefault(); handleDrop(day); }}
+                  aria-label={day}
+                  className={`border-b border-r border-white/5 p-1.5 transition-colors
+                    ${mode === "month" ? "min-h-24" : "min-h-64"}
+                    ${overDay === day && dragId ? "bg-orange-500/10" : outside ? "bg-black/20" : ""}`}
+                >
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className={`flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[11px]
+                      ${day === today ? "bg-orange-500 font-bold text-white"
+                        : outside ? "text-white/20" : "text-white/50"}`}>
+                      {Number(day.slice(8))}
+                    </span>
+                    {marker && marker !== "pending" && (
+                      <span className={`h-1.5 w-1.5 rounded-full ${MARKERS[marker].color}`}
+                        title={MARKERS[marker].label} aria-label={MARKERS[marker].label} role="img" />
+                    )}
+                  </div>
+                  <ul className="flex flex-col gap-0.5">
+                    {dayTasks.slice(0, limit).map(task => (
+                      <CalendarTask
+                        key={task.id}
+                        task={task}
+                        focused={focusId === task.id}
+                        onDragStart={() => setDragId(task.id)}
+                        onDragEnd={endDrag}
+                        onKeyMove={days => moveBy(task, days)}
+                      />
+                    ))}
+                  </ul>
+                  {dayTasks.length > limit && (
+                    <button type="button" onClick={() => setExpanded(day)}
+                      className="mt-0.5 text-[10px] text-white/35 hover:text-white/70">
+                      +{dayTasks.length - limit} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] text-white/35">
+        {Object.values(MARKERS).map(m => (
+          <span key={m.label} className="flex items-center gap-1.5">
+            <span className={`h-1.5 w-1.5 rounded-full ${m.color}`} aria-hidden="true" />
+            {m.label}
+          </span>
+        ))}
+        {unscheduled > 0 && (
+          <span className="ml-auto">{unscheduled} open task{unscheduled !== 1 ? "s" : ""} without a due date</span>
+        )}
+      </div>
+
+      <p className="sr-only" aria-live="polite">{notice}</p>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Checklist.tsx
+ * Expandable checklist shown inside a TaskItem: tick items off, add new
+ * ones, remove them, and opt the task into completing itself once every
+ * item is done.
+ */
+
+import { useState, type FormEvent } from "react";
+import type { ChecklistItem, Task } from "../lib/supabaseClient";
+
+export type ChecklistHandlers = {
+  onAddItem: (taskId: string, title: string) => Promise<void>;
+  onToggleItem: (item: ChecklistItem) => Promise<void>;
+  onDeleteItem: (id: string) => Promise<void>;
+};
+
+type Props = ChecklistHandlers & {
+  task: Task;
+  items: ChecklistItem[];
+  onAutoCompleteChange: (autoComplete: boolean) => void;
+};
+
+export function Checklist({
+  task, items, onAddItem, onToggleItem, onDeleteItem, onAutoCompleteChange,
+}: Props) {
+  const [title, setTitle] = useState("");
+  const isDone = task.status === "done";
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setTitle("");
+    await onAddItem(task.id, trimmed);
+  }
+
+  return (
+    <div className="mt-2 rounded-lg border border-white/8 bg-black/20 px-3 py-2">
+      <ul className="flex flex-col gap-1" aria-label={`Checklist for ${task.title}`}>
+        {items.map((item) => (
+          <li key={item.id} className="group/item flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => onToggleItem(item)}
+              aria-label={`${item.done ? "Uncheck" : "Check"} "${item.title}"`}
+              className="h-3.5 w-3.5 flex-shrink-0 accent-emerald-400"
+            />
+            <span className={`flex-1 text-xs ${item.done ? "text-white/30 line-through" : "text-white/70"}`}>
+              {item.title}
+            </span>
+            <button
+              type="button"
+              onClick={() => onDeleteItem(item.id)}
+              aria-label={`Remove "${item.title}"`}
+              className="text-xs text-white/0 group-hover/item:text-white/30 hover:!text-red-400
+                focus:text-white/30"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAdd} className="mt-1.5 flex items-center gap-2">
+        <label htmlFor={`checklist-add-${task.id}`} className="sr-only">Add checklist item</label>
+        <input
+          id={`checklist-add-${task.id}`}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={280}
+          placeholder="Add an item…"
+          className="flex-1 bg-transparent text-xs text-white placeholder-white/25 outline-none"
+        />
+      </form>
+
+      {!isDone && (
+        <label className="mt-2 flex items-center gap-2 border-t border-white/5 pt-2 text-[10px] text-white/40">
+          <input
+            type="checkbox"
+            checked={task.auto_complete}
+            onChange={(e) => onAutoCompleteChange(e.target.checked)}
+            className="h-3 w-3 accent-orange-500"
+          />
+          Complete the task when every item is done
+        </label>
+      )}
+    </div>
+  );
+}
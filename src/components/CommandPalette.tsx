@@ -0,0 +1,106 @@
+/**
+ * CommandPalette.tsx
+ * Ctrl/Cmd+K palette: type to fuzzy-search actions (switch tab, new task,
+ * sign out…) and tasks, ↑ / ↓ to pick, Enter to run, Esc to close.
+ */
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import { fuzzySearch } from "../lib/shortcuts";
+
+export type PaletteItem = {
+  id: string;
+  label: string;
+  group: "Action" | "Task";
+  run: () => void;
+};
+
+type Props = {
+  /** Actions first — they win ties with tasks. */
+  items: PaletteItem[];
+  onClose: () => void;
+};
+
+const LIMIT = 10;
+
+export function CommandPalette({ items, onClose }: Props) {
+  const [query, setQuery] = useState("");
+  const [index, setIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const results = fuzzySearch(items, query, (item) => item.label, LIMIT);
+  const current = Math.min(index, results.length - 1);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  function run(item: PaletteItem | undefined) {
+    if (!item) return;
+    onClose();
+    item.run();
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setIndex(Math.max(0, Math.min(results.length - 1, current + step)));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(results[current]);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 px-4 pt-[15vh] backdrop-blur-sm"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div role="dialog" aria-modal="true" aria-label="Command palette"
+        className="w-full max-w-lg overflow-hidden rounded-xl border border-white/10 bg-[#141416] shadow-2xl shadow-black/50">
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-results"
+          aria-activedescendant={results[current] ? `palette-${results[current].id}` : undefined}
+          aria-label="Search tasks and actions"
+          placeholder="Search tasks and actions…"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setIndex(0); }}
+          onKeyDown={handleKeyDown}
+          className="w-full border-b border-white/8 bg-transparent px-4 py-3 text-sm text-white
+            placeholder-white/30 outline-none"
+        />
+
+        <ul id="palette-results" role="listbox" aria-label="Results" className="max-h-80 overflow-y-auto p-1.5">
+          {results.length === 0 && (
+            <li className="px-3 py-6 text-center text-xs text-white/30">Nothing matches “{query}”</li>
+          )}
+          {results.map((item, i) => (
+            <li
+              key={item.id}
+              id={`palette-${item.id}`}
+              role="option"
+              aria-selected={i === current}
+              onMouseEnter={() => setIndex(i)}
+              onClick={() => run(item)}
+              className={`flex cursor-pointer items-center justify-between gap-3 rounded-lg px-3 py-2 text-sm
+                ${i === current ? "bg-orange-500/15 text-white" : "text-white/60"}`}
+            >
+              <span className="truncate">{item.label}</span>
+              <span className="flex-shrink-0 text-[10px] uppercase tracking-widest text-white/25">{item.group}</span>
+            </li>
+          ))}
+        </ul>
+
+        <p className="border-t border-white/8 px-4 py-2 text-[10px] text-white/25">
+          ↑ ↓ to choose · Enter to run · Esc to close
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * ConflictDialog.tsx
+ * Shown when an edit clashed with a change made on another tab or device.
+ * Lists each field both sides changed and lets the user keep their value,
+ * keep the other one, or merge field by field (text fields can be edited
+ * into a combined value). Edits to other fields are kept either way.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { Project, Task } from "../lib/supabaseClient";
+import { pickAll, type TaskChanges, type TaskConflict } from "../lib/conflicts";
+import { BOARD_COLUMNS } from "../lib/board";
+import { describeRecurrence, isValidRule } from "../lib/recurrence";
+import { formatMinutes } from "../lib/timeTracking";
+
+type Props = {
+  conflict: TaskConflict;
+  projects: Project[];
+  /** The value kept for each conflicting field. */
+  onResolve: (picks: TaskChanges) => void;
+};
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  due_date: "Due date",
+  start_date: "Start date",
+  project_id: "Project",
+  recurrence: "Repeats",
+  estimated_minutes: "Estimate",
+  auto_complete: "Auto-complete",
+};
+
+const TEXT_FIELDS = new Set<keyof Task>(["title", "description"]);
+
+function formatValue(field: keyof Task, value: unknown, projects: Project[]): string {
+  if (value === null || value === undefined || value === "") return "—";
+  switch (field) {
+    case "status":
+      return BOARD_COLUMNS.find((c) => c.status === value)?.label ?? String(value);
+    case "due_date":
+    case "start_date":
+      return new Date(`${value}T12:00:00Z`).toLocaleDateString("en-US", {
+        month: "short", day: "numeric", year: "numeric", timeZone: "UTC",
+      });
+    case "project_id":
+      return projects.find((p) => p.id === value)?.title ?? "Deleted project";
+    case "recurrence":
+      return isValidRule(value) ? describeRecurrence(value) : "—";
+    case "estimated_minutes":
+      return formatMinutes(Number(value));
+    case "auto_complete":
+      return value ? "On" : "Off";
+    default:
+      return String(value);
+  }
+}
+
+export function ConflictDialog({ conflict, projects, onResolve }: Props) {
+  const [merging, setMerging] = useState(false);
+  const [picks, setPicks] = useState<TaskChanges>(() => pickAll(conflict, "mine"));
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { theirs, changes, fields } = conflict;
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  function pick(field: keyof Task, value: unknown) {
+    setPicks((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function saveMerge() {
+    // A cleared description is stored as null, like the add form does
+    const merged = { ...picks };
+    if (merged.description === "") merged.description = null;
+    if (typeof merged.title === "string" && !merged.title.trim()) return;
+    onResolve(merged);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+        aria-describedby="conflict-description"
+        tabIndex={-1}
+        className="w-full max-w-lg rounded-xl border border-white/10 bg-[#141416] p-5 focus:outline-none"
+      >
+        <h2 id="conflict-title" className="text-base font-bold text-white">
+          ⚠ “{theirs.title}” changed somewhere else
+        </h2>
+        <p id="conflict-description" className="mt-1 text-xs text-white/45">
+          You and another tab or device edited the same {fields.length === 1 ? "field" : "fields"} at
+          once. Your other changes are kept either way.
+        </p>
+
+        <ul className="mt-4 space-y-3">
+          {fields.map((field) => {
+            const label = FIELD_LABELS[field] ?? field;
+            const mine = formatValue(field, changes[field], projects);
+            const other = formatValue(field, theirs[field], projects);
+            if (merging && TEXT_FIELDS.has(field)) {
+              return (
+                <li key={field} className="space-y-1.5">
+                  <label htmlFor={`merge-${field}`} className="text-xs font-medium text-white/50">{label}</label>
+                  <p className="text-[11px] text-white/35">Theirs: {other}</p>
+                  <textarea
+                    id={`merge-${field}`}
+                    rows={field === "title" ? 1 : 3}
+                    value={String(picks[field] ?? "")}
+                    onChange={(e) => pick(field, e.target.value)}
+                    className="w-full resize-y rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm
+                      text-white outline-none focus:ring-2 focus:ring-white/20"
+                  />
+                </li>
+              );
+            }
+            return (
+              <li key={field}>
+                <p className="text-xs font-medium text-white/50">{label}</p>
+                <div className="mt-1 grid grid-cols-2 gap-2" role={merging ? "radiogroup" : undefined} aria-label={label}>
+                  {([["mine", "Yours", changes[field], mine], ["theirs", "Theirs", theirs[field], other]] as const)
+                    .map(([side, heading, value, text]) => {
+                      const chosen = merging && picks[field] === value;
+                      const box = `rounded-lg border px-3 py-2 text-left text-sm ${chosen
+                        ? "border-orange-400/50 bg-orange-500/10 text-white"
+                        : "border-white/10 bg-white/5 text-white/70"}`;
+                      return merging ? (
+                        <button key={side} type="button" role="radio" aria-checked={chosen}
+                          onClick={() => pick(field, value)} className={`${box} hover:border-white/30`}>
+                          <span className="block text-[10px] uppercase tracking-widest text-white/35">{heading}</span>
+                          {text}
+                        </button>
+                      ) : (
+                        <div key={side} className={box}>
+                          <span className="block text-[10px] uppercase tracking-widest text-white/35">{heading}</span>
+                          {text}
+                        </div>
+                      );
+                    })}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-5 flex flex-wrap justify-end gap-2">
+          {merging ? (
+            <>
+              <button type="button" onClick={() => setMerging(false)}
+                className="rounded-lg px-4 py-2 text-sm text-white/50 hover:bg-white/5 hover:text-white">
+                Back
+              </button>
+              <button type="button" onClick={saveMerge}
+                className="rounded-lg bg-orange-500 px-4 py-2 text-sm font-bold text-white hover:bg-orange-400">
+                Save merge
+              </button>
+            </>
+          ) : (
+            <>
+              <button type="button" onClick={() => setMerging(true)}
+                className="rounded-lg px-4 py-2 text-sm text-white/50 hover:bg-white/5 hover:text-white">
+                Merge…
+              </button>
+              <button type="button" onClick={() => onResolve(pickAll(conflict, "theirs"))}
+                className="rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold text-white hover:bg-white/20">
+                Keep theirs
+              </button>
+              <button type="button" onClick={() => onResolve(pickAll(conflict, "mine"))}
+                className="rounded-lg bg-orange-500 px-4 py-2 text-sm font-bold text-white hover:bg-orange-400">
+                Keep mine
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * DailyCheckin.tsx
+ * End-of-day check-in: how much of today's targets got done, hours spent and
+ * notes. One per local day — submitting again revises today's entry.
+ */
+
+import { useState, type FormEvent } from "react";
+import type { Checkin } from "../lib/supabaseClient";
+import type { NewCheckin } from "../hooks/useCheckins";
+import { CHECKIN_TARGET_PERCENT } from "../lib/streak";
+
+type Props = {
+  checkin: Checkin | null;
+  /** True when the streak policy only counts checked-in days. */
+  required: boolean;
+  onSubmit: (checkin: NewCheckin) => Promise<boolean>;
+};
+
+const PRESETS = [
+  { value: 100, label: "Done", color: "border-emerald-400/60 bg-emerald-500/15 text-emerald-400" },
+  { value: 50,  label: "Half", color: "border-orange-400/60 bg-orange-500/15 text-orange-400" },
+  { value: 0,   label: "Skip", color: "border-red-400/60 bg-red-500/15 text-red-400" },
+];
+
+const CARD = "mt-4 rounded-2xl border border-white/8 bg-white/[0.04] p-5";
+const INPUT = [
+  "w-full rounded-lg border border-white/10 bg-white/5 px-3 py-1.5",
+  "text-xs text-white outline-none transition-all",
+  "hover:border-white/20 focus:ring-2 focus:ring-white/20",
+].join(" ");
+
+export function DailyCheckin({ checkin, required, onSubmit }: Props) {
+  const [editing, setEditing] = useState(false);
+  const [percent, setPercent] = useState<number | null>(null);
+  const [hours, setHours] = useState("");
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+
+  function startEdit() {
+    setPercent(checkin?.completed_percent ?? null);
+    setHours(checkin ? String(checkin.time_spent_hours) : "");
+    setNotes(checkin?.notes ?? "");
+    setEditing(true);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (percent === null) return;
+    setSubmitting(true);
+    setSubmitError("");
+    const ok = await onSubmit({
+      completed_percent: percent,
+      time_spent_hours: Math.min(24, Math.max(0, parseFloat(hours) || 0)),
+      notes: notes.trim() || null,
+    });
+    setSubmitting(false);
+    if (ok) setEditing(false);
+    else setSubmitError("Couldn't save your check-in. Please try again.");
+  }
+
+  const meetsTarget = (p: number) => p >= CHECKIN_TARGET_PERCENT;
+
+  // ── Summary ──
+  if (checkin && !editing) {
+    return (
+      <div className={CARD}>
+        <div className="flex items-start justify-between">
+          <p className="text-xs font-bold uppercase tracking-widest text-white/40">
+            Daily Check-in
+          </p>
+          <button onClick={startEdit} className="text-xs text-white/35 hover:text-white/70">
+            Edit
+          </button>
+        </div>
+        <p className="mt-2 text-3xl font-black text-white leading-none">
+          {checkin.completed_percent}%
+          <span className="ml-2 text-sm font-normal text-white/35">
+            · {checkin.time_spent_hours}h
+          </span>
+        </p>
+        {checkin.notes && (
+          <p className="mt-2 text-xs text-white/50 whitespace-pre-wrap">{checkin.notes}</p>
+        )}
+        {required && (
+          <p className={`mt-3 text-xs font-semibold ${
+            meetsTarget(checkin.completed_percent) ? "text-emerald-400" : "text-orange-400"}`}>
+            {meetsTarget(checkin.completed_percent)
+              ? "✓ Today counts toward your streak"
+              : `Below ${CHECKIN_TARGET_PERCENT}% — today won't count toward your streak`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  // ── Form ──
+  return (
+    <form onSubmit={handleSubmit} aria-label="Daily check-in" className={CARD}>
+      <p className="text-xs font-bold uppercase tracking-widest text-white/40">
+        Daily Check-in
+      </p>
+      <p className="mt-1 mb-3 text-sm text-white/70">Did you hit today's targets?</p>
+
+      <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Completion">
+        {PRESETS.map(o => (
+          <button key={o.value} type="button" role="radio" aria-checked={percent === o.value}
+            onClick={() => setPercent(o.value)}
+            className={`rounded-lg border py-2 text-xs font-black uppercase tracking-widest transition-all
+              ${percent === o.value ? o.color : "border-white/8 text-white/35 hover:border-white/20"}`}>
+            {o.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-3">
+        <div className="flex justify-between mb-1">
+          <label htmlFor="checkin-percent" className="text-xs text-white/50">Completed</label>
+          <span className="text-xs font-bold text-white/70 tabular-nums">
+            {percent === null ? "—" : `${percent}%`}
+          </span>
+        </div>
+        <input id="checkin-percent" type="range" min={0} max={100} step={5}
+          value={percent ?? 0} onChange={e => setPercent(Number(e.target.value))}
+          className="w-full accent-orange-500" />
+        {required && (
+          <p className="text-[10px] text-white/30">≥{CHECKIN_TARGET_PERCENT}% required for today to count</p>
+        )}
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <label htmlFor="checkin-hours" className="text-xs text-white/50 whitespace-nowrap">
+          Hours spent
+        </label>
+        <input id="checkin-hours" type="number" min={0} max={24} step={0.25}
+          value={hours} onChange={e => setHours(e.target.value)} placeholder="0"
+          className={`${INPUT} w-20 text-right tabular-nums`} />
+      </div>
+
+      <label htmlFor="checkin-notes" className="sr-only">Notes</label>
+      <textarea id="checkin-notes" rows={2} maxLength={2000} value={notes}
+        onChange={e => setNotes(e.target.value)} placeholder="Notes (optional)"
+        className={`${INPUT} mt-3 resize-none`} />
+
+      {submitError && (
+        <p role="alert" className="mt-2 text-xs font-medium text-red-400">{submitError}</p>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        {checkin && (
+          <button type="button" onClick={() => setEditing(false)}
+            className="px-3 py-2 text-xs text-white/35 hover:text-white/70">
+            Cancel
+          </button>
+        )}
+        <button type="submit" disabled={percent === null || submitting}
+          className="flex-1 rounded-lg bg-white/10 py-2 text-xs font-semibold text-white
+            hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40 transition-all">
+          {submitting ? "Saving…" : checkin ? "Update check-in" : "Check in"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * FocusMode.tsx
+ * Full-screen, distraction-free pomodoro overlay. The user picks a task and
+ * a cycle (25 / 5, 50 / 10 or custom), then alternates focus blocks and
+ * breaks until they end the session. Each focus block that runs its full
+ * length is reported through onSessionComplete. Esc closes the overlay.
+ */
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { Task } from "../lib/supabaseClient";
+import type { NewFocusSession } from "../hooks/useFocusSessions";
+import {
+  FOCUS_PRESETS, MAX_BREAK_MINUTES, MAX_FOCUS_MINUTES, nextPhase, pause, phaseLength, presetFor,
+  remainingMs, resume, sanitizePlan, startFocus, type FocusPlan, type FocusState,
+} from "../lib/focus";
+import { formatElapsed } from "../lib/timeTracking";
+
+type Props = {
+  /** Open tasks to choose from. */
+  tasks: Task[];
+  initialTaskId: string | null;
+  /** The cycle used last time (from settings). */
+  plan: FocusPlan;
+  onPlanChange: (plan: FocusPlan) => void;
+  onSessionComplete: (session: NewFocusSession) => void;
+  onClose: () => void;
+};
+
+const NUMBER = `w-16 rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-center text-sm
+  text-white outline-none focus:ring-2 focus:ring-white/20`;
+
+export function FocusMode({ tasks, initialTaskId, plan: savedPlan, onPlanChange, onSessionComplete, onClose }: Props) {
+  const [taskId, setTaskId] = useState(initialTaskId ?? tasks[0]?.id ?? "");
+  const [plan, setPlan] = useState(savedPlan);
+  const [custom, setCustom] = useState(presetFor(savedPlan) === "custom");
+  const [state, setState] = useState<FocusState | null>(null);
+  const [blockStartedAt, setBlockStartedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const task = tasks.find(t => t.id === taskId) ?? null;
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  function advance(at: number) {
+    if (!state) return;
+    const next = nextPhase(state, plan, at);
+    if (next.completed > state.completed) {
+      onSessionComplete({
+        task_id: taskId || null,
+        started_at: new Date(blockStartedAt).toISOString(),
+        ended_at: new Date(at).toISOString(),
+        focus_minutes: plan.work,
+      });
+    }
+    if (next.phase === "focus") setBlockStartedAt(at);
+    setState(next);
+    setNow(at);
+  }
+
+  // Tick once a second (re-armed after every render, so it always sees the
+  // latest state); end the phase when its time is up
+  useEffect(() => {
+    if (!state || state.pausedAt !== null) return;
+    const timeout = setTimeout(() => {
+      const at = Date.now();
+      setNow(at);
+      if (remainingMs(state, plan, at) === 0) advance(at);
+    }, 1000);
+    return () => clearTimeout(timeout);
+  });
+
+  // Countdown in the tab title, for when the overlay isn't visible
+  const remaining = state ? remainingMs(state, plan, now) : 0;
+  const clock = formatElapsed(remaining + 999);
+  useEffect(() => {
+    if (!state) return;
+    const previous = document.title;
+    document.title = `${clock} · ${state.phase === "focus" ? "Focus" : "Break"}`;
+    return () => { document.title = previous; };
+  }, [state, clock]);
+
+  function begin() {
+    const next = sanitizePlan(plan);
+    setPlan(next);
+    if (next.work !== savedPlan.work || next.break !== savedPlan.break) onPlanChange(next);
+    const at = Date.now();
+    setBlockStartedAt(at);
+    setNow(at);
+    setState(startFocus(at));
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    if (e.key === "Escape") onClose();
+  }
+
+  const progress = state ? 1 - remaining / phaseLength(plan, state.phase) : 0;
+  const isBreak = state?.phase === "break";
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Focus mode"
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-[#0c0c0e]/95 px-4 backdrop-blur-sm focus:outline-none"
+    >
+      <button type="button" onClick={onClose} aria-label="Close focus mode"
+        className="absolute right-4 top-4 rounded-lg px-3 py-1.5 text-xs text-white/35 hover:text-white">
+        Esc ✕
+      </button>
+
+      {!state ? (
+        // ── Setup ──
+        <div className="w-full max-w-sm space-y-5">
+          <h2 className="text-center text-2xl font-black text-white">🎯 Focus mode</h2>
+
+          <div className="space-y-1.5">
+            <label htmlFor="focus-task" className="text-xs font-medium text-white/50">Task</label>
+            <select id="focus-task" value={taskId} onChange={e => setTaskId(e.target.value)}
+              className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-white/20">
+              {tasks.length === 0 && <option value="">No open tasks</option>}
+              {tasks.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-white/50">Cycle (focus / break minutes)</p>
+            <div className="flex rounded-lg bg-white/5 p-0.5" role="group" aria-label="Cycle">
+              {FOCUS_PRESETS.map(p => {
+                const active = !custom && presetFor(plan) === p.id;
+                return (
+                  <button key={p.id} type="button" aria-pressed={active}
+                    onClick={() => { setCustom(false); setPlan(p.plan); }}
+                    className={`flex-1 rounded-md px-3 py-1.5 text-xs font-semibold transition-all
+                      ${active ? "bg-white/10 text-white" : "text-white/40 hover:text-white/70"}`}>
+                    {p.label}
+                  </button>
+                );
+              })}
+              <button type="button" aria-pressed={custom} onClick={() => setCustom(true)}
+                className={`flex-1 rounded-md px-3 py-1.5 text-xs font-semibold transition-all
+                  ${custom ? "bg-white/10 text-white" : "text-white/40 hover:text-white/70"}`}>
+                Custom
+              </button>
+            </div>
+            {custom && (
+              <div className="flex items-center justify-center gap-2 pt-1">
+                <input type="number" min={1} max={MAX_FOCUS_MINUTES} value={plan.work}
+                  onChange={e => setPlan({ ...plan, work: Number(e.target.value) })}
+                  aria-label="Focus minutes" className={NUMBER} />
+                <span className="text-white/30">/</span>
+                <input type="number" min={1} max={MAX_BREAK_MINUTES} value={plan.break}
+                  onChange={e => setPlan({ ...plan, break: Number(e.target.value) })}
+                  aria-label="Break minutes" className={NUMBER} />
+              </div>
+            )}
+          </div>
+
+          <button type="button" onClick={begin} disabled={!task}
+            className="w-full rounded-xl bg-orange-500 py-3 text-sm font-bold text-white
+              hover:bg-orange-400 disabled:opacity-40 transition-all">
+            Start focusing
+          </button>
+        </div>
+      ) : (
+        // ── Running ──
+        <div className="flex w-full max-w-md flex-col items-center text-center">
+          <p className={`text-xs font-bold uppercase tracking-[0.3em] ${isBreak ? "text-sky-300" : "text-orange-400"}`}>
+            {isBreak ? "Break" : "Focus"}
+          </p>
+          <p className="mt-3 text-7xl font-black tabular-nums text-white sm:text-8xl" aria-live="off">
+            {clock}
+          </p>
+          <p className="mt-3 max-w-full truncate text-sm text-white/60">{task?.title}</p>
+
+          <div className="mt-6 h-1 w-full overflow-hidden rounded-full bg-white/5">
+            <div className={`h-full transition-[width] duration-1000 ${isBreak ? "bg-sky-400" : "bg-orange-500"}`}
+              style={{ width: `${progress * 100}%` }} />
+          </div>
+          <p className="mt-2 text-xs text-white/30" aria-live="polite">
+            {state.completed} focus block{state.completed !== 1 ? "s" : ""} done
+            {isBreak ? " — stretch, breathe, look away from the screen" : ""}
+          </p>
+
+          <div className="mt-8 flex gap-2">
+            <button type="button"
+              onClick={() => setState(state.pausedAt === null ? pause(state, Date.now()) : resume(state, Date.now()))}
+              className="rounded-lg bg-white/10 px-4 py-2 text-sm font-semibold text-white hover:bg-white/20">
+              {state.pausedAt === null ? "Pause" : "Resume"}
+            </button>
+            <button type="button" onClick={() => advance(Date.now())}
+              className="rounded-lg px-4 py-2 text-sm text-white/50 hover:bg-white/5 hover:text-white">
+              {isBreak ? "Skip break" : "Skip to break"}
+            </button>
+            <button type="button" onClick={onClose}
+              className="rounded-lg px-4 py-2 text-sm text-white/50 hover:bg-white/5 hover:text-red-300">
+              End
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
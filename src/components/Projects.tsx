@@ -0,0 +1,263 @@
+/**
+ * Projects.tsx
+ * Project UI for the Tasks tab: a switcher to pick (or create) a project, and
+ * a header with progress, days left and required pace vs. 7-day velocity.
+ */
+
+import { useState, type FormEvent } from "react";
+import type { Project, Task } from "../lib/supabaseClient";
+import type { NewProject } from "../hooks/useProjects";
+import { projectPace, type ProjectVerdict } from "../lib/projects";
+
+function formatDay(day: string) {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", year: "numeric", timeZone: "UTC",
+  });
+}
+
+function formatPace(n: number) {
+  return n >= 10 || Number.isInteger(n) ? String(Math.round(n)) : n.toFixed(1);
+}
+
+const CARD = "rounded-xl border border-white/8 bg-white/[0.04] p-5";
+const INPUT = `rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white
+  outline-none transition-all hover:border-white/20 focus:ring-2 focus:ring-white/20
+  [color-scheme:dark]`;
+
+// ─── Switcher ────────────────────────────────────────────────────────────────
+
+export function ProjectSwitcher({ projects, activeId, onSelect, onCreate }: {
+  projects: Project[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (project: NewProject) => Promise<Project | null>;
+}) {
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setSaving(true);
+    const created = await onCreate({ title: trimmed, deadline: deadline || null });
+    setSaving(false);
+    if (created) {
+      setTitle("");
+      setDeadline("");
+      setCreating(false);
+      onSelect(created.id);
+    }
+  }
+
+  const chip = (active: boolean) => [
+    "rounded-full border px-3 py-1 text-xs font-bold transition-all",
+    active
+      ? "border-orange-400/40 bg-orange-500/20 text-orange-400"
+      : "border-white/10 text-white/40 hover:text-white/70 hover:border-white/20",
+  ].join(" ");
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Projects">
+        <button role="tab" aria-selected={activeId === null}
+          onClick={() => onSelect(null)} className={chip(activeId === null)}>
+          All tasks
+        </button>
+        {projects.map(p => (
+          <button key={p.id} role="tab" aria-selected={activeId === p.id}
+            onClick={() => onSelect(p.id)} className={chip(activeId === p.id)}>
+            {p.title}
+          </button>
+        ))}
+        {!creating && (
+          <button onClick={() => setCreating(true)}
+            className="rounded-full border border-dashed border-white/15 px-3 py-1
+              text-xs text-white/35 hover:text-white/70 hover:border-white/30 transition-all">
+            + New project
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <form onSubmit={handleCreate} aria-label="Create a project"
+          className="mt-3 flex flex-wrap items-center gap-2">
+          <label htmlFor="project-title" className="sr-only">Project title</label>
+          <input id="project-title" autoFocus value={title} maxLength={120}
+            onChange={e => setTitle(e.target.value)} placeholder="Project name…"
+            className={`${INPUT} flex-1 min-w-[10rem]`} />
+          <label htmlFor="project-deadline" className="text-xs font-medium text-white/50">
+            Deadline
+          </label>
+          <input id="project-deadline" type="date" value={deadline}
+            onChange={e => setDeadline(e.target.value)} className={INPUT} />
+          <button type="submit" disabled={saving || !title.trim()}
+            className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-semibold text-white
+              hover:bg-white/20 disabled:opacity-40 transition-all">
+            {saving ? "Creating…" : "Create"}
+          </button>
+          <button type="button" onClick={() => setCreating(false)}
+            className="px-2 py-1.5 text-xs text-white/35 hover:text-white/70">
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ─── Header ──────────────────────────────────────────────────────────────────
+
+const VERDICTS: Record<ProjectVerdict, { label: string; className: string }> = {
+  "done":        { label: "✓ Done",       className: "bg-emerald-500/15 text-emerald-400" },
+  "on-track":    { label: "On track",     className: "bg-emerald-500/15 text-emerald-400" },
+  "behind":      { label: "Behind",       className: "bg-red-500/15 text-red-400" },
+  "no-deadline": { label: "No deadline",  className: "bg-white/8 text-white/40" },
+};
+
+export function ProjectHeader({ project, tasks, timeZone, onUpdate, onDelete }: {
+  project: Project;
+  tasks: Task[];
+  timeZone: string;
+  onUpdate: (id: string, updates: Partial<Project>) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(project.title);
+  const [deadline, setDeadline] = useState(project.deadline ?? "");
+  const [startDate, setStartDate] = useState(project.start_date ?? "");
+  const [description, setDescription] = useState(project.description ?? "");
+
+  const pace = projectPace(project, tasks, new Date(), timeZone);
+  const verdict = VERDICTS[pace.verdict];
+
+  function startEdit() {
+    setTitle(project.title);
+    setDeadline(project.deadline ?? "");
+    setStartDate(project.start_date ?? "");
+    setDescription(project.description ?? "");
+    setEditing(true);
+  }
+
+  const datesInverted = Boolean(startDate && deadline && startDate > deadline);
+
+  function save(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = title.trim();
+    if (!trimmed || datesInverted) return;
+    onUpdate(project.id, {
+      title: trimmed,
+      start_date: startDate || null,
+      deadline: deadline || null,
+      description: description.trim() || null,
+    });
+    setEditing(false);
+  }
+
+  function remove() {
+    if (window.confirm(`Delete "${project.title}"? Its tasks will be kept without a project.`)) {
+      onDelete(project.id);
+    }
+  }
+
+  const daysLeftLabel =
+    pace.daysLeft === null ? "—"
+    : pace.daysLeft < 0 ? `${-pace.daysLeft}d late`
+    : pace.daysLeft === 0 ? "Due today"
+    : `${pace.daysLeft}d`;
+
+  return (
+    <div className={`${CARD} mb-4`}>
+      {editing ? (
+        <form onSubmit={save} aria-label="Edit project" className="flex flex-col gap-2">
+          <input value={title} maxLength={120} onChange={e => setTitle(e.target.value)}
+            aria-label="Project title" className={INPUT} />
+          <textarea value={description} onChange={e => setDescription(e.target.value)}
+            aria-label="Project description" placeholder="Description (optional)" rows={2}
+            className={`${INPUT} resize-none`} />
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="edit-project-start" className="text-xs font-medium text-white/50">
+              Start
+            </label>
+            <input id="edit-project-start" type="date" value={startDate} max={deadline || undefined}
+              onChange={e => setStartDate(e.target.value)} className={INPUT} />
+            <label htmlFor="edit-project-deadline" className="text-xs font-medium text-white/50">
+              Deadline
+            </label>
+            <input id="edit-project-deadline" type="date" value={deadline} min={startDate || undefined}
+              onChange={e => setDeadline(e.target.value)} className={INPUT} />
+            <span className="flex-1" />
+            <button type="button" onClick={() => setEditing(false)}
+              className="px-2 py-1.5 text-xs text-white/35 hover:text-white/70">
+              Cancel
+            </button>
+            <button type="submit" disabled={!title.trim() || datesInverted}
+              className="rounded-lg bg-white/10 px-3 py-1.5 text-xs font-semibold text-white
+                hover:bg-white/20 disabled:opacity-40 transition-all">
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <h2 className="truncate text-lg font-black text-white">{project.title}</h2>
+              <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-bold uppercase
+                tracking-widest ${verdict.className}`}>
+                {verdict.label}
+              </span>
+            </div>
+            <p className="text-xs text-white/35 mt-0.5">
+              {project.deadline ? `Due ${formatDay(project.deadline)}` : "No deadline set"}
+              {project.description && <> · {project.description}</>}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-1">
+            <button onClick={startEdit} aria-label="Edit project"
+              className="rounded-lg px-2 py-1 text-xs text-white/35 hover:text-white/70 transition-all">
+              Edit
+            </button>
+            <button onClick={remove} aria-label="Delete project"
+              className="rounded-lg px-2 py-1 text-xs text-white/35 hover:text-red-400 transition-all">
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Progress */}
+      <div className="mt-4">
+        <div className="flex justify-between mb-1.5">
+          <span className="text-xs text-white/40">{pace.done}/{pace.total} tasks</span>
+          <span className="text-xs font-bold text-white/70">{pace.progress}%</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-white/8 overflow-hidden"
+          role="progressbar" aria-valuenow={pace.progress} aria-valuemin={0} aria-valuemax={100}
+          aria-label={`${project.title} progress`}>
+          <div className="h-full rounded-full transition-all duration-700"
+            style={{
+              width: `${pace.progress}%`,
+              background: pace.verdict === "behind" ? "#f87171" : "linear-gradient(90deg,#f97316,#fbbf24)",
+            }} />
+        </div>
+      </div>
+
+      {/* Pace stats */}
+      <div className="mt-4 grid grid-cols-3 gap-2 text-center">
+        {[
+          { label: "Days left", value: daysLeftLabel },
+          { label: "Needed / day", value: pace.requiredPace === null ? "—" : formatPace(pace.requiredPace) },
+          { label: "7-day pace", value: formatPace(pace.velocity7d) },
+        ].map(s => (
+          <div key={s.label} className="rounded-lg bg-white/[0.03] py-2">
+            <p className="text-lg font-black text-white leading-none">{s.value}</p>
+            <p className="text-[10px] text-white/30 mt-1 uppercase tracking-widest">{s.label}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
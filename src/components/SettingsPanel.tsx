@@ -0,0 +1,259 @@
+/**
+ * SettingsPanel.tsx
+ * Per-user preferences: the timezone streak days are counted in, the
+ * streak intensity mode (policy), the daily check-in and focus session
+ * requirements and how streak freezes are spent.
+ */
+
+import type { UserSettings } from "../lib/supabaseClient";
+import type { SettingsUpdate } from "../hooks/useUserSettings";
+import {
+  detectTimeZone, isValidTimeZone, CHECKIN_TARGET_PERCENT, FREEZE_MILESTONE_DAYS, MAX_FREEZES,
+  STREAK_POLICIES, type StreakMode, type StreakPolicy,
+} from "../lib/streak";
+
+type Props = {
+  settings: UserSettings | null;
+  loading: boolean;
+  onUpdate: (updates: SettingsUpdate) => Promise<void>;
+};
+
+// Intl.supportedValuesOf is missing in some older browsers
+function timeZoneOptions(current: string): string[] {
+  const zones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+  const all = new Set([...zones, "UTC", detectTimeZone(), current]);
+  return [...all].filter(isValidTimeZone).sort();
+}
+
+const MODES: { id: StreakMode; label: string; desc: string; color: string }[] = [
+  { id: "gentle", label: "Gentle", desc: "Missed days never break your streak. Encouragement only.", color: "text-emerald-400" },
+  { id: "normal", label: "Normal", desc: "One free miss a week; after that your streak is paused, not reset.", color: "text-blue-400" },
+  { id: "strict", label: "Strict", desc: "Any miss resets your streak to 0. No mercy.", color: "text-red-400" },
+];
+
+function policyUpdate(policy: StreakPolicy): SettingsUpdate {
+  return {
+    streak_on_miss: policy.onMiss,
+    streak_misses_per_week: policy.allowedMissesPerWeek,
+    streak_min_tasks: policy.minTasksPerDay,
+  };
+}
+
+const CARD = "rounded-xl border border-white/8 bg-white/[0.04] p-5";
+const NUMBER = [
+  "w-16 rounded-lg border border-white/10 bg-white/5 px-2 py-1.5",
+  "text-xs text-white text-right outline-none transition-all tabular-nums",
+  "hover:border-white/20 focus:ring-2 focus:ring-white/20",
+].join(" ");
+const SELECT = [
+  "w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2",
+  "text-sm text-white outline-none transition-all",
+  "hover:border-white/20 focus:ring-2 focus:ring-white/20",
+  "disabled:opacity-50",
+].join(" ");
+
+function Toggle({ id, checked, onChange, label }: {
+  id: string; checked: boolean; label: string;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      id={id}
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative h-5 w-9 flex-shrink-0 rounded-full transition-colors
+        focus:outline-none focus:ring-2 focus:ring-white/30
+        ${checked ? "bg-orange-500" : "bg-white/15"}`}
+    >
+      <span className={`absolute top-0.5 h-4 w-4 rounded-full bg-white transition-all
+        ${checked ? "left-[18px]" : "left-0.5"}`} />
+    </button>
+  );
+}
+
+export function SettingsPanel({ settings, loading, onUpdate }: Props) {
+  if (loading || !settings) {
+    return <div className="h-32 rounded-xl bg-white/[0.04] animate-pulse" />;
+  }
+
+  const detected = detectTimeZone();
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      {/* Timezone */}
+      <div className={CARD}>
+        <h3 className="text-sm font-semibold text-white">Timezone</h3>
+        <p className="text-xs text-white/35 mt-0.5 mb-3">
+          Your streak days start and end at midnight in this timezone.
+        </p>
+        <label htmlFor="settings-timezone" className="sr-only">Timezone</label>
+        <select
+          id="settings-timezone"
+          value={settings.timezone}
+          onChange={(e) => onUpdate({ timezone: e.target.value })}
+          className={SELECT}
+        >
+          {timeZoneOptions(settings.timezone).map((tz) => (
+            <option key={tz} value={tz}>{tz}</option>
+          ))}
+        </select>
+        {settings.timezone !== detected && (
+          <button
+            type="button"
+            onClick={() => onUpdate({ timezone: detected })}
+            className="mt-2 text-xs text-orange-400/80 hover:text-orange-400"
+          >
+            Use this device's timezone ({detected})
+          </button>
+        )}
+      </div>
+
+      {/* Streak intensity */}
+      <div className={CARD}>
+        <h3 className="text-sm font-semibold text-white">Streak mode</h3>
+        <p className="text-xs text-white/35 mt-0.5 mb-3">
+          How missed days affect your streak — used on the dashboard and in analytics.
+        </p>
+        <div className="space-y-2" role="radiogroup" aria-label="Streak mode">
+          {MODES.map((m) => {
+            const active = settings.streak_mode === m.id;
+            return (
+              <button
+                key={m.id}
+                type="button"
+                role="radio"
+                aria-checked={active}
+                onClick={() => onUpdate({ streak_mode: m.id, ...policyUpdate(STREAK_POLICIES[m.id]) })}
+                className={`w-full rounded-lg border px-4 py-3 text-left transition-all
+                  ${active ? "border-orange-400/50 bg-orange-500/10" : "border-white/8 bg-white/[0.02] hover:border-white/20"}`}
+              >
+                <span className={`text-xs font-bold uppercase tracking-widest ${active ? m.color : "text-white/50"}`}>
+                  {m.label}
+                </span>
+                <span className="block text-xs text-white/40 mt-0.5">{m.desc}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Fine-tuning — editing any value switches to a custom policy */}
+        <div className="mt-4 space-y-2 border-t border-white/8 pt-4">
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="settings-on-miss" className="text-xs text-white/50">
+              When a miss isn't forgiven
+            </label>
+            <select
+              id="settings-on-miss"
+              value={settings.streak_on_miss}
+              onChange={(e) => onUpdate({
+                streak_mode: "custom",
+                streak_on_miss: e.target.value as StreakPolicy["onMiss"],
+              })}
+              className={`${SELECT} w-auto text-xs py-1.5`}
+            >
+              <option value="pause">Pause the streak</option>
+              <option value="reset">Reset the streak</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="settings-misses" className="text-xs text-white/50">
+              Forgiven misses per week
+            </label>
+            <input
+              id="settings-misses"
+              type="number" min={0} max={7}
+              value={settings.streak_misses_per_week}
+              onChange={(e) => onUpdate({
+                streak_mode: "custom",
+                streak_misses_per_week: Math.min(7, Math.max(0, Number(e.target.value) || 0)),
+              })}
+              className={NUMBER}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="settings-min-tasks" className="text-xs text-white/50">
+              Tasks needed for a day to count
+            </label>
+            <input
+              id="settings-min-tasks"
+              type="number" min={1} max={50}
+              value={settings.streak_min_tasks}
+              onChange={(e) => onUpdate({
+                streak_mode: "custom",
+                streak_min_tasks: Math.min(50, Math.max(1, Number(e.target.value) || 1)),
+              })}
+              className={NUMBER}
+            />
+          </div>
+          {settings.streak_mode === "custom" && (
+            <p className="text-[10px] text-white/30">Custom mode</p>
+          )}
+        </div>
+      </div>
+
+      {/* Daily check-in */}
+      <div className={CARD}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Require a daily check-in</h3>
+            <p className="text-xs text-white/35 mt-0.5">
+              When on, a day only counts toward your streak if you also check in
+              at {CHECKIN_TARGET_PERCENT}% or more. Works with any streak mode.
+            </p>
+          </div>
+          <Toggle
+            id="settings-require-checkin"
+            label="Require a daily check-in"
+            checked={settings.streak_require_checkin}
+            onChange={(streak_require_checkin) => onUpdate({ streak_require_checkin })}
+          />
+        </div>
+      </div>
+
+      {/* Focus sessions */}
+      <div className={CARD}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Require a focus session</h3>
+            <p className="text-xs text-white/35 mt-0.5">
+              When on, a day only counts toward your streak if you also finish at
+              least one focus-mode block. Works with any streak mode.
+            </p>
+          </div>
+          <Toggle
+            id="settings-require-focus"
+            label="Require a focus session"
+            checked={settings.streak_require_focus}
+            onChange={(streak_require_focus) => onUpdate({ streak_require_focus })}
+          />
+        </div>
+      </div>
+
+      {/* Streak freezes */}
+      <div className={CARD}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Auto-apply streak freezes</h3>
+            <p className="text-xs text-white/35 mt-0.5">
+              You earn a ❄ freeze every {FREEZE_MILESTONE_DAYS} streak days (hold up
+              to {MAX_FREEZES}). When on, missed days are frozen automatically so your
+              streak survives.
+            </p>
+          </div>
+          <Toggle
+            id="settings-auto-freeze"
+            label="Auto-apply streak freezes"
+            checked={settings.auto_freeze}
+            onChange={(auto_freeze) => onUpdate({ auto_freeze })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * ShortcutHelp.tsx
+ * The `?` cheat sheet: every keyboard shortcut (lib/shortcuts) on one card.
+ * Esc, `?` or a click outside closes it.
+ */
+
+import { useEffect, useRef, type KeyboardEvent } from "react";
+import { SHORTCUTS } from "../lib/shortcuts";
+
+type Props = {
+  onClose: () => void;
+};
+
+export function ShortcutHelp({ onClose }: Props) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  function handleKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    if (e.key === "Escape" || e.key === "?") {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 backdrop-blur-sm"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-sm rounded-xl border border-white/10 bg-[#141416] p-5 focus:outline-none"
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="text-base font-bold text-white">⌨️ Keyboard shortcuts</h2>
+          <button type="button" onClick={onClose} aria-label="Close shortcuts"
+            className="rounded-lg px-2 py-1 text-xs text-white/35 hover:text-white">
+            Esc ✕
+          </button>
+        </div>
+
+        <dl className="space-y-2">
+          {SHORTCUTS.map((s) => (
+            <div key={s.label} className="flex items-center justify-between gap-4 text-sm">
+              <dt className="text-white/60">{s.label}</dt>
+              <dd className="flex flex-shrink-0 gap-1">
+                {s.keys.map((k) => (
+                  <kbd key={k} className="min-w-[1.5rem] rounded border border-white/15 bg-white/5 px-1.5 py-0.5
+                    text-center text-xs font-bold text-white/80">
+                    {k}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="mt-4 text-[11px] text-white/30">
+          Single keys are ignored while typing in a field; j, k, x, e and # act on the Tasks tab.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * StreakHistory.tsx
+ * Analytics panels built on streakHistory(): the longest run so far, and a
+ * timeline of every run and the days that broke them.
+ */
+
+import { addDays, daysBetween, longestRun, type StreakRun } from "../lib/streak";
+
+type Props = {
+  runs: StreakRun[];
+  today: string;
+};
+
+function formatDay(day: string) {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", timeZone: "UTC",
+  });
+}
+
+const CARD = "rounded-xl border border-white/8 bg-white/[0.04] p-5";
+
+// ─── Longest streak ──────────────────────────────────────────────────────────
+
+export function LongestStreakCard({ runs }: Pick<Props, "runs">) {
+  const best = longestRun(runs);
+  const last = runs[runs.length - 1];
+  const current = last && last.brokenOn === null ? last : null;
+
+  return (
+    <div className={CARD}>
+      <h3 className="text-sm font-semibold text-white">Longest Streak</h3>
+      {!best ? (
+        <p className="text-xs text-white/35 mt-2">No streaks yet — complete a task to start one.</p>
+      ) : (
+        <div className="mt-3 flex items-end justify-between gap-4">
+          <div>
+            <p className="text-4xl font-black text-orange-400 leading-none">
+              {best.length}<span className="text-base text-white/30 ml-1">days</span>
+            </p>
+            <p className="text-xs text-white/35 mt-2">
+              {formatDay(best.start)} → {formatDay(best.end)}
+              {best.brokenOn
+                ? <> · broke {formatDay(best.brokenOn)}</>
+                : <> · still going 🔥</>}
+            </p>
+          </div>
+          {current && current !== best && (
+            <p className="text-xs text-white/40 text-right">
+              Current run: <span className="font-bold text-white/70">{current.length}</span>
+              <br />
+              {best.length - current.length + 1} more to beat it
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Streak history ──────────────────────────────────────────────────────────
+
+export function StreakTimeline({ runs, today }: Props) {
+  if (!runs.length) {
+    return (
+      <div className={CARD}>
+        <h3 className="text-sm font-semibold text-white">Streak History</h3>
+        <p className="text-xs text-white/35 mt-2">Your runs and breaks will show up here.</p>
+      </div>
+    );
+  }
+
+  const first = runs[0].start;
+  const span  = Math.max(1, daysBetween(first, today) + 1);
+  const pos   = (day: string) => (daysBetween(first, day) / span) * 100;
+  const best  = longestRun(runs);
+
+  return (
+    <div className={CARD}>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-white">Streak History</h3>
+          <p className="text-xs text-white/35 mt-0.5">
+            {runs.length} run{runs.length !== 1 ? "s" : ""} since {formatDay(first)}
+          </p>
+        </div>
+      </div>
+
+      {/* Timeline: runs as bars, breaks as red ticks */}
+      <div className="relative h-6 rounded-md bg-white/5" role="img"
+        aria-label={`Streak timeline from ${formatDay(first)} to today`}>
+        {runs.map(run => (
+          <div key={run.start}
+            title={`${formatDay(run.start)} → ${formatDay(run.end)}: ${run.length} day${run.length !== 1 ? "s" : ""}`}
+            className={`absolute top-1 bottom-1 rounded ${run === best ? "bg-orange-400" : "bg-orange-500/50"}`}
+            style={{
+              left: `${pos(run.start)}%`,
+              width: `${Math.max(0.8, ((daysBetween(run.start, run.end) + 1) / span) * 100)}%`,
+            }} />
+        ))}
+        {runs.filter(r => r.brokenOn).map(run => (
+          <div key={`break-${run.brokenOn}`}
+            title={`Broke on ${formatDay(run.brokenOn!)}`}
+            className="absolute -top-0.5 -bottom-0.5 w-0.5 rounded bg-red-400"
+            style={{ left: `${pos(run.brokenOn!)}%` }} />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1.5">
+        <span className="text-[9px] text-white/20">{formatDay(first)}</span>
+        <span className="text-[9px] text-white/20">
+          {formatDay(addDays(first, Math.floor(span / 2)))}
+        </span>
+        <span className="text-[9px] text-white/20">Today</span>
+      </div>
+
+      {/* Run list, newest first */}
+      <ul className="mt-4 space-y-1.5">
+        {runs.slice().reverse().slice(0, 8).map(run => (
+          <li key={run.start} className="flex items-center justify-between text-xs">
+            <span className="text-white/55">
+              {formatDay(run.start)} → {formatDay(run.end)}
+              {run === best && <span className="ml-1.5 text-orange-400">★ best</span>}
+            </span>
+            <span className="flex items-center gap-3">
+              <span className="font-semibold text-white/80 tabular-nums">
+                {run.length}d
+              </span>
+              <span className={`w-24 text-right ${run.brokenOn ? "text-red-400/70" : "text-emerald-400/80"}`}>
+                {run.brokenOn ? `broke ${formatDay(run.brokenOn)}` : "ongoing"}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * TagPicker.tsx
+ * Tag chips plus a picker to toggle tags on or off and create new ones.
+ * Used by AddTaskForm (tags for a new task) and TaskItem (tags on an
+ * existing task).
+ */
+
+import { useState, type FormEvent } from "react";
+import type { Tag } from "../lib/supabaseClient";
+import { suggestColor, TAG_COLORS, type TagColor } from "../lib/tags";
+
+export type TagHandlers = {
+  allTags: Tag[];
+  onAssign: (taskId: string, tagIds: string[]) => Promise<void>;
+  onUnassign: (taskId: string, tagId: string) => Promise<void>;
+  onCreate: (name: string, color: TagColor) => Promise<Tag | null>;
+  /** Clicking a chip filters the task list by that tag. */
+  onFilter: (tagId: string) => void;
+};
+
+// ─── Chip ────────────────────────────────────────────────────────────────────
+
+export function TagChip({ tag, onClick, title }: {
+  tag: Pick<Tag, "name" | "color">;
+  onClick?: () => void;
+  title?: string;
+}) {
+  const className = `rounded-full border px-2 py-0.5 text-xs font-medium ${TAG_COLORS[tag.color]}`;
+  if (!onClick) return <span className={className}>#{tag.name}</span>;
+  return (
+    <button type="button" onClick={onClick} title={title}
+      className={`${className} transition-opacity hover:opacity-80`}>
+      #{tag.name}
+    </button>
+  );
+}
+
+// ─── Picker ──────────────────────────────────────────────────────────────────
+
+export function TagPicker({ tags, selected, onToggle, onCreate, disabled }: {
+  tags: Tag[];
+  selected: string[];
+  onToggle: (tagId: string) => void;
+  onCreate: (name: string, color: TagColor) => Promise<Tag | null>;
+  disabled?: boolean;
+}) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || saving) return;
+    setSaving(true);
+    const tag = await onCreate(trimmed, suggestColor(tags.length));
+    setSaving(false);
+    if (!tag) return;
+    setName("");
+    if (!selected.includes(tag.id)) onToggle(tag.id);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Tags">
+      {tags.map((tag) => {
+        const on = selected.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            aria-pressed={on}
+            onClick={() => onToggle(tag.id)}
+            disabled={disabled}
+            className={`rounded-full border px-2 py-0.5 text-[11px] font-medium transition-all
+              ${on ? TAG_COLORS[tag.color] : "border-white/10 bg-white/5 text-white/35 hover:text-white/60"}`}
+          >
+            #{tag.name}
+          </button>
+        );
+      })}
+      {/* A nested <form> is invalid inside AddTaskForm, so submit on Enter instead */}
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleCreate(e);
+        }}
+        disabled={disabled || saving}
+        maxLength={40}
+        placeholder="New tag…"
+        aria-label="Create a tag"
+        className="w-24 rounded-full border border-dashed border-white/15 bg-transparent px-2 py-0.5
+          text-[11px] text-white placeholder-white/25 outline-none focus:border-white/30"
+      />
+    </div>
+  );
+}
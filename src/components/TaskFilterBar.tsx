@@ -0,0 +1,174 @@
+/**
+ * TaskFilterBar.tsx
+ * Search and filter toolbar above the task list: free-text search, plus a
+ * collapsible panel for priority, status, due range / overdue, completed
+ * range and tag. State lives in the URL — this component only reports
+ * changes.
+ */
+
+import { useState } from "react";
+import type { Tag } from "../lib/supabaseClient";
+import {
+  activeFilterCount, EMPTY_FILTERS, PRIORITIES, STATUSES,
+  type FilterStatus, type TaskFilters,
+} from "../lib/filters";
+
+const STATUS_LABELS: Record<FilterStatus, string> = {
+  todo: "To do",
+  inprogress: "In progress",
+  done: "Done",
+};
+
+const INPUT = `rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white
+  outline-none transition-all hover:border-white/20 focus:ring-2 focus:ring-white/20
+  [color-scheme:dark]`;
+
+function Chip({ on, onClick, children }: {
+  on: boolean; onClick: () => void; children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={on}
+      onClick={onClick}
+      className={`rounded-full px-2.5 py-1 text-[11px] font-semibold capitalize transition-all
+        ${on ? "bg-orange-500/25 text-orange-300" : "bg-white/5 text-white/40 hover:text-white/70"}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+type Props = {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  tags: Tag[];
+  /** Tasks shown after filtering, and before. */
+  shown: number;
+  total: number;
+};
+
+export function TaskFilterBar({ filters, onChange, tags, shown, total }: Props) {
+  const active = activeFilterCount(filters);
+  // Open by default when a bookmarked view arrives with panel filters set
+  const [open, setOpen] = useState(() => active > (filters.query.trim() ? 1 : 0));
+
+  function set(patch: Partial<TaskFilters>) {
+    onChange({ ...filters, ...patch });
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <label htmlFor="task-search" className="sr-only">Search tasks</label>
+          <input
+            id="task-search"
+            type="search"
+            value={filters.query}
+            onChange={(e) => set({ query: e.target.value })}
+            placeholder="Search title and description…"
+            className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white
+              placeholder-white/25 outline-none transition-all hover:border-white/20 focus:ring-2 focus:ring-white/20"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          aria-expanded={open}
+          aria-controls="task-filter-panel"
+          className={`flex-shrink-0 rounded-xl border px-3 py-2 text-xs font-semibold transition-all
+            ${open || active ? "border-orange-500/30 bg-orange-500/10 text-orange-300"
+              : "border-white/10 bg-white/5 text-white/50 hover:text-white/80"}`}
+        >
+          Filters{active > 0 && ` · ${active}`}
+        </button>
+      </div>
+
+      {open && (
+        <div id="task-filter-panel"
+          className="grid gap-3 rounded-xl border border-white/8 bg-white/[0.04] p-4 sm:grid-cols-2">
+          <fieldset>
+            <legend className="mb-1.5 text-[10px] uppercase tracking-wider text-white/35">Priority</legend>
+            <div className="flex flex-wrap gap-1.5">
+              {PRIORITIES.map((p) => (
+                <Chip key={p} on={filters.priorities.includes(p)}
+                  onClick={() => set({ priorities: toggle(filters.priorities, p) })}>
+                  {p}
+                </Chip>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="mb-1.5 text-[10px] uppercase tracking-wider text-white/35">Status</legend>
+            <div className="flex flex-wrap gap-1.5">
+              {STATUSES.map((s) => (
+                <Chip key={s} on={filters.statuses.includes(s)}
+                  onClick={() => set({ statuses: toggle(filters.statuses, s) })}>
+                  {STATUS_LABELS[s]}
+                </Chip>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="mb-1.5 text-[10px] uppercase tracking-wider text-white/35">Due</legend>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <input type="date" aria-label="Due from" className={INPUT}
+                value={filters.dueFrom ?? ""} onChange={(e) => set({ dueFrom: e.target.value || null })} />
+              <span className="text-xs text-white/25">–</span>
+              <input type="date" aria-label="Due to" className={INPUT}
+                value={filters.dueTo ?? ""} onChange={(e) => set({ dueTo: e.target.value || null })} />
+              <Chip on={filters.overdue} onClick={() => set({ overdue: !filters.overdue })}>
+                Overdue
+              </Chip>
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="mb-1.5 text-[10px] uppercase tracking-wider text-white/35">Completed</legend>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <input type="date" aria-label="Completed from" className={INPUT}
+                value={filters.doneFrom ?? ""} onChange={(e) => set({ doneFrom: e.target.value || null })} />
+              <span className="text-xs text-white/25">–</span>
+              <input type="date" aria-label="Completed to" className={INPUT}
+                value={filters.doneTo ?? ""} onChange={(e) => set({ doneTo: e.target.value || null })} />
+            </div>
+          </fieldset>
+
+          {tags.length > 0 && (
+            <div>
+              <label htmlFor="task-filter-tag"
+                className="mb-1.5 block text-[10px] uppercase tracking-wider text-white/35">
+                Tag
+              </label>
+              <select id="task-filter-tag" className={INPUT}
+                value={filters.tagId ?? ""} onChange={(e) => set({ tagId: e.target.value || null })}>
+                <option value="">Any tag</option>
+                {tags.map((t) => <option key={t.id} value={t.id}>#{t.name}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {active > 0 && (
+        <p className="flex items-center gap-2 text-xs text-white/35" aria-live="polite">
+          {shown} of {total} tasks match
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="text-white/35 underline-offset-2 hover:text-white/70 hover:underline"
+          >
+            Clear filters
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,36 +1,102 @@
 /**
  * TaskItem.tsx
  * A single task row with:
+ * - select box for batch actions (shift-click selects a range)
+ * - drag handle for manual ordering (mouse drag, or arrow keys when focused)
  * - checkbox to toggle complete
  * - inline title editing
- * - priority badge
- * - delete button
+ * - priority badge, "in progress" marker and tag chips (click a chip to
+ *   filter by it)
+ * - recurrence label for recurring tasks
+ * - checklist progress ("3/5") with an expandable checklist
+ * - start / stop timer with tracked time and an inline estimate
+ * - tag picker to add or remove tags
+ * - a ⟳ marker while the task has changes waiting to sync
+ * - archive button on completed tasks
+ * - delete button (moves the task to the Trash)
+ * - a ring on the keyboard cursor's row (j / k), which `e` edits
  * - fade-in animation on mount
  */
 
 
-import { useState, useRef, useEffect, type KeyboardEvent } from "react";
-import type { Task } from "../lib/supabaseClient";
+import { useState, useRef, useEffect, type DragEvent, type KeyboardEvent } from "react";
+import type { ChecklistItem, Tag, Task } from "../lib/supabaseClient";
+import { describeRecurrence, isValidRule } from "../lib/recurrence";
+import { checklistProgress } from "../lib/checklist";
+import type { SyncState } from "../lib/outbox";
+import { Checklist, type ChecklistHandlers } from "./Checklist";
+import { TagChip, TagPicker, type TagHandlers } from "./TagPicker";
+import { TaskTimer, type TimerHandlers } from "./TaskTimer";
 
 type Props = {
   task: Task;
   onToggle: (task: Task) => Promise<void>;
   onUpdate: (id: string, updates: Partial<Task>) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  /** Omit to hide the archive button (shown on completed tasks). */
+  onArchive?: (task: Task) => void;
+  items?: ChecklistItem[];
+  /** Omit to hide the checklist entirely. */
+  checklist?: ChecklistHandlers;
+  tags?: Tag[];
+  /** Omit to show tags read-only. */
+  tagging?: TagHandlers;
+  /** Omit to hide the timer and estimate. */
+  timer?: TimerHandlers;
+  /** Omit for rows that can't be reordered. */
+  sortable?: SortableProps;
+  /** Omit for rows that can't be selected. */
+  selection?: SelectionProps;
+  /** Omit when the task is in sync with the server. */
+  sync?: SyncState;
+  /** Omit for rows the keyboard cursor can't reach. */
+  cursor?: CursorProps;
 };
 
-const PRIORITY_STYLES: Record<Task["priority"], string> = {
+export type SortableProps = {
+  dragging: boolean;
+  /** Another task is being dragged over this one. */
+  dropTarget: boolean;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+  /** Keyboard reordering: one step up (-1) or down (1). */
+  onMove: (delta: -1 | 1) => void;
+};
+
+export type SelectionProps = {
+  selected: boolean;
+  /** Some task is selected — select boxes stay visible. */
+  selecting: boolean;
+  /** `range`: shift was held — select from the last clicked task. */
+  onSelect: (range: boolean) => void;
+};
+
+export type CursorProps = {
+  /** The keyboard cursor is on this task. */
+  active: boolean;
+  /** Bumped to start editing the active task's title. */
+  editRequest: number;
+};
+
+export const PRIORITY_STYLES: Record<Task["priority"], string> = {
   high: "bg-red-500/20 text-red-300 border-red-500/30",
   medium: "bg-amber-500/20 text-amber-300 border-amber-500/30",
   low: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
 };
 
-export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
+export function TaskItem({
+  task, onToggle, onUpdate, onDelete, onArchive, items = [], checklist, tags = [], tagging, timer, sortable, selection, sync, cursor,
+}: Props) {
   const [editing, setEditing] = useState(false);
   const [editValue, setEditValue] = useState(task.title);
   const [deleting, setDeleting] = useState(false);
   const [toggling, setToggling] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [pickingTags, setPickingTags] = useState(false);
   const editRef = useRef<HTMLInputElement>(null);
+  const rowRef = useRef<HTMLLIElement>(null);
   const isDone = task.status === "done";
 
   // Focus input when editing starts
@@ -38,6 +104,22 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
     if (editing) editRef.current?.focus();
   }, [editing]);
 
+  // Keep the cursor's row on screen as j / k move it
+  const active = !!cursor?.active;
+  useEffect(() => {
+    if (active) rowRef.current?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  // `e` on the cursor's row — only requests made after mount count, and
+  // completed titles stay read-only, as with the edit button
+  const editRequest = cursor?.editRequest ?? 0;
+  const seenRequestRef = useRef(editRequest);
+  useEffect(() => {
+    if (editRequest === seenRequestRef.current) return;
+    seenRequestRef.current = editRequest;
+    if (active && !isDone) startEdit();
+  }, [editRequest, active, isDone]);
+
   async function handleToggle() {
     if (toggling) return;
     setToggling(true);
@@ -75,15 +157,51 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
     }
   }
 
-  // Temp tasks (optimistic) have ids starting with "temp-"
-  const isTemp = task.id.startsWith("temp-");
+  function toggleTag(tagId: string) {
+    if (!tagging) return;
+    if (tags.some((t) => t.id === tagId)) tagging.onUnassign(task.id, tagId);
+    else tagging.onAssign(task.id, [tagId]);
+  }
+
+  function handleDragStart(e: DragEvent<HTMLButtonElement>) {
+    if (!sortable) return;
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+    if (rowRef.current) e.dataTransfer.setDragImage(rowRef.current, 16, 16);
+    sortable.onDragStart();
+  }
+
+  function handleHandleKeyDown(e: KeyboardEvent<HTMLButtonElement>) {
+    if (!sortable) return;
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      sortable.onMove(e.key === "ArrowUp" ? -1 : 1);
+    }
+  }
+
+  // Not on the server yet — tags, checklist items and timers reference the
+  // task there, so they wait until it's synced
+  const isLocal = sync === "local";
+  const progress = checklistProgress(items);
 
   return (
     <li
+      ref={rowRef}
+      onDragOver={sortable && ((e) => {
+        e.preventDefault();
+        sortable.onDragOver();
+      })}
+      onDrop={sortable && ((e) => {
+        e.preventDefault();
+        sortable.onDrop();
+      })}
       className={`
         group flex items-start gap-3 rounded-xl border px-4 py-3
         transition-all duration-300
-        ${isTemp ? "opacity-60" : "opacity-100"}
+        ${sortable?.dragging ? "opacity-60" : "opacity-100"}
+        ${sortable?.dropTarget ? "ring-2 ring-orange-400/40" : ""}
+        ${active ? "ring-2 ring-orange-400/70" : ""}
+        ${selection?.selected ? "!border-orange-400/40 !bg-orange-500/[0.07]" : ""}
         ${isDone
           ? "border-white/5 bg-white/3"
           : "border-white/10 bg-white/5 hover:border-white/20"
@@ -91,11 +209,48 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
         animate-in fade-in slide-in-from-top-1 duration-200
       `}
       aria-label={`Task: ${task.title}${isDone ? " (completed)" : ""}`}
+      aria-current={active || undefined}
     >
+      {/* Select box — visible on hover / focus, or while selecting */}
+      {selection && (
+        <input
+          type="checkbox"
+          checked={selection.selected}
+          onChange={(e) => selection.onSelect((e.nativeEvent as MouseEvent).shiftKey)}
+          aria-label={`Select "${task.title}"`}
+          className={`
+            mt-1 h-3.5 w-3.5 flex-shrink-0 cursor-pointer accent-orange-500 transition-opacity
+            focus:opacity-100 group-hover:opacity-100
+            ${selection.selected || selection.selecting ? "opacity-100" : "opacity-0"}
+          `}
+        />
+      )}
+
+      {/* Drag handle — visible on hover / focus */}
+      {sortable && (
+        <button
+          type="button"
+          draggable
+          onDragStart={handleDragStart}
+          onDragEnd={sortable.onDragEnd}
+          onKeyDown={handleHandleKeyDown}
+          aria-label={`Reorder "${task.title}" — use the up and down arrow keys`}
+          title="Drag to reorder"
+          className="
+            -ml-2 mt-0.5 flex-shrink-0 cursor-grab select-none rounded px-0.5 text-sm leading-5
+            text-white/0 group-hover:text-white/25 hover:!text-white/60
+            focus:text-white/60 focus:outline-none focus:ring-2 focus:ring-white/30
+            active:cursor-grabbing
+          "
+        >
+          ⠿
+        </button>
+      )}
+
       {/* Checkbox */}
       <button
         onClick={handleToggle}
-        disabled={toggling || isTemp}
+        disabled={toggling}
         aria-label={isDone ? `Mark "${task.title}" as incomplete` : `Mark "${task.title}" as complete`}
         className={`
           mt-0.5 flex-shrink-0 h-5 w-5 rounded-full border-2 transition-all duration-200
@@ -159,7 +314,7 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
         ) : (
           <button
             onClick={startEdit}
-            disabled={isDone || isTemp}
+            disabled={isDone}
             aria-label={`Edit task: ${task.title}`}
             className={`
               text-left text-sm font-medium transition-colors duration-200
@@ -185,6 +340,35 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
             {task.priority}
           </span>
 
+          {task.status === "inprogress" && (
+            <span className="text-xs text-sky-300">● In progress</span>
+          )}
+
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              onClick={tagging && (() => tagging.onFilter(tag.id))}
+              title={`Show tasks tagged #${tag.name}`}
+            />
+          ))}
+
+          {tagging && !isLocal && (
+            <button
+              type="button"
+              onClick={() => setPickingTags((v) => !v)}
+              aria-expanded={pickingTags}
+              aria-label={`Edit tags for "${task.title}"`}
+              className={`text-xs transition-colors ${
+                pickingTags
+                  ? "text-white/60"
+                  : "text-white/0 group-hover:text-white/30 focus:text-white/30 hover:!text-white/60"
+              }`}
+            >
+              + tag
+            </button>
+          )}
+
           {task.due_date && (
             <span className={`text-xs ${
               new Date(task.due_date) < new Date() && !isDone
@@ -197,6 +381,49 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
             </span>
           )}
 
+          {timer && !isLocal && (
+            <TaskTimer
+              task={task}
+              timer={timer}
+              onEstimateChange={(estimated_minutes) => onUpdate(task.id, { estimated_minutes })}
+            />
+          )}
+
+          {isValidRule(task.recurrence) && (
+            <span className="text-xs text-sky-300/70" title="Recurring task">
+              ↻ {describeRecurrence(task.recurrence)}
+            </span>
+          )}
+
+          {checklist && !isLocal && (progress.total > 0 || !isDone) && (
+            <button
+              type="button"
+              onClick={() => setExpanded((v) => !v)}
+              aria-expanded={expanded}
+              aria-label={progress.total
+                ? `Checklist: ${progress.done} of ${progress.total} done`
+                : "Add a checklist"}
+              className={`text-xs transition-colors ${
+                progress.total === 0
+                  ? "text-white/0 group-hover:text-white/30 focus:text-white/30 hover:!text-white/60"
+                  : progress.done === progress.total
+                    ? "text-emerald-400/70 hover:text-emerald-300"
+                    : "text-white/45 hover:text-white/70"
+              }`}
+            >
+              ☑ {progress.total ? `${progress.done}/${progress.total}` : "Checklist"}
+            </button>
+          )}
+
+          {sync && (
+            <span
+              className="text-xs text-white/35"
+              title={isLocal ? "Created offline — waiting to sync" : "Changes waiting to sync"}
+            >
+              ⟳<span className="sr-only">{isLocal ? " Not synced yet" : " Changes not synced yet"}</span>
+            </span>
+          )}
+
           {isDone && task.completed_at && (
             <span className="text-xs text-emerald-400/60">
               ✓ {new Date(task.completed_at).toLocaleDateString(undefined, {
@@ -205,12 +432,50 @@ export function TaskItem({ task, onToggle, onUpdate, onDelete }: Props) {
             </span>
           )}
         </div>
+
+        {tagging && pickingTags && (
+          <div className="mt-2">
+            <TagPicker
+              tags={tagging.allTags}
+              selected={tags.map((t) => t.id)}
+              onToggle={toggleTag}
+              onCreate={tagging.onCreate}
+            />
+          </div>
+        )}
+
+        {checklist && expanded && (
+          <Checklist
+            task={task}
+            items={items}
+            {...checklist}
+            onAutoCompleteChange={(auto_complete) => onUpdate(task.id, { auto_complete })}
+          />
+        )}
       </div>
 
+      {/* Archive button — completed tasks, visible on hover / focus */}
+      {onArchive && isDone && (
+        <button
+          onClick={() => onArchive(task)}
+          aria-label={`Archive task: ${task.title}`}
+          title="Archive"
+          className="
+            flex-shrink-0 rounded-lg p-1.5 text-white/0 transition-all duration-150
+            group-hover:text-white/30 hover:!text-orange-300 hover:bg-orange-400/10
+            focus:text-white/30 focus:outline-none focus:ring-2 focus:ring-orange-400/30
+          "
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+          </svg>
+        </button>
+      )}
+
       {/* Delete button — visible on hover / focus */}
       <button
         onClick={handleDelete}
-        disabled={deleting || isTemp}
+        disabled={deleting}
         aria-label={`Delete task: ${task.title}`}
         className="
           flex-shrink-0 rounded-lg p-1.5 text-white/0 transition-all duration-150
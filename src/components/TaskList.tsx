@@ -1,11 +1,26 @@
 /**
  * TaskList.tsx
  * Renders the full task list: loading skeleton, empty state, or task items.
+ * Active tasks can be reordered by dragging their handle, or with the arrow
+ * keys while the handle is focused. Completed tasks can be archived, one at
+ * a time or all at once.
+ *
+ * With batch handlers, tasks can be multi-selected (shift-click for a
+ * range, or a whole section from its header) and acted on together.
+ *
+ * A keyboard cursor (the dashboard's j / k shortcuts) highlights one task.
  */
 
-
-import type { Task } from "../lib/supabaseClient";
+import { useRef, useState } from "react";
+import type { ChecklistItem, Tag, Task } from "../lib/supabaseClient";
+import { listOrder, moveUpdates, type PositionUpdate } from "../lib/ordering";
+import type { SyncState } from "../lib/outbox";
+import { pruneSelection, sectionState, selectRange, toggleOne, toggleSection } from "../lib/selection";
 import { TaskItem } from "./TaskItem";
+import { BatchBar, type BatchHandlers } from "./BatchBar";
+import type { ChecklistHandlers } from "./Checklist";
+import type { TagHandlers } from "./TagPicker";
+import type { TimerHandlers } from "./TaskTimer";
 
 type Props = {
   tasks: Task[];
@@ -14,6 +29,34 @@ type Props = {
   onToggle: (task: Task) => Promise<void>;
   onUpdate: (id: string, updates: Partial<Task>) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  /** Omit to hide the archive controls. */
+  onArchive?: (ids: string[]) => Promise<void>;
+  itemsByTask?: Map<string, ChecklistItem[]>;
+  checklist?: ChecklistHandlers;
+  tagsByTask?: Map<string, Tag[]>;
+  tagging?: TagHandlers;
+  timer?: TimerHandlers;
+  /** Tasks with changes waiting to sync. */
+  syncByTask?: Map<string, SyncState>;
+  /** The list is narrowed by search / filters — changes the empty state. */
+  filtered?: boolean;
+  /** Omit to disable reordering. */
+  onReorder?: (updates: PositionUpdate[]) => Promise<void>;
+  /**
+   * Every task `tasks` was narrowed from (project, search, filters), so a
+   * reorder that has to renumber keeps the hidden ones in place.
+   */
+  allTasks?: Task[];
+  /** Omit to disable multi-select. */
+  batch?: BatchHandlers;
+  /** Omit to hide the keyboard cursor. */
+  cursor?: ListCursor;
+};
+
+export type ListCursor = {
+  activeId: string | null;
+  /** Bumped to edit the active task's title. */
+  editRequest: number;
 };
 
 // ─── Loading Skeleton ────────────────────────────────────────────────────────
@@ -32,7 +75,7 @@ function TaskSkeleton() {
 
 // ─── Empty State ─────────────────────────────────────────────────────────────
 
-function EmptyState() {
+function EmptyState({ filtered }: { filtered?: boolean }) {
   return (
     <li className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed border-white/10 py-12 text-center">
       <svg
@@ -51,8 +94,14 @@ function EmptyState() {
         />
       </svg>
       <div>
-        <p className="text-sm font-medium text-white/40">No tasks yet</p>
-        <p className="mt-1 text-xs text-white/25">Add your first task above to get started.</p>
+        <p className="text-sm font-medium text-white/40">
+          {filtered ? "No matching tasks" : "No tasks yet"}
+        </p>
+        <p className="mt-1 text-xs text-white/25">
+          {filtered
+            ? "Try a different search, or clear the filters."
+            : "Add your first task above to get started."}
+        </p>
       </div>
     </li>
   );
@@ -60,10 +109,91 @@ function EmptyState() {
 
 // ─── Component ───────────────────────────────────────────────────────────────
 
-export function TaskList({ tasks, loading, error, onToggle, onUpdate, onDelete }: Props) {
-  // Separate todo from done for visual grouping
-  const todo = tasks.filter((t) => t.status !== "done");
-  const done = tasks.filter((t) => t.status === "done");
+export function TaskList({
+  tasks, loading, error, onToggle, onUpdate, onDelete, onArchive, itemsByTask, checklist, tagsByTask, tagging, timer, syncByTask, filtered, onReorder, allTasks, batch, cursor,
+}: Props) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  // The last task clicked — shift-click selects from here
+  const anchorRef = useRef<string | null>(null);
+
+  // Separate todo from done for visual grouping, each in manual order
+  const sorted = listOrder(tasks);
+  const todo = sorted.filter((t) => t.status !== "done");
+  const done = sorted.filter((t) => t.status === "done");
+
+  // Tasks that were deleted or filtered out drop out of the selection
+  const selected = pruneSelection(picked, sorted.map((t) => t.id));
+  const selectedTasks = sorted.filter((t) => selected.has(t.id));
+
+  function selectionFor(task: Task, section: Task[]) {
+    if (!batch) return undefined;
+    return {
+      selected: selected.has(task.id),
+      selecting: selected.size > 0,
+      onSelect: (range: boolean) => {
+        const ids = section.map((t) => t.id);
+        setPicked(range ? selectRange(selected, ids, anchorRef.current, task.id) : toggleOne(selected, task.id));
+        anchorRef.current = task.id;
+      },
+    };
+  }
+
+  function cursorFor(task: Task) {
+    if (!cursor) return undefined;
+    return { active: cursor.activeId === task.id, editRequest: cursor.editRequest };
+  }
+
+  function sectionToggle(section: Task[], label: string) {
+    if (!batch) return null;
+    const ids = section.map((t) => t.id);
+    const state = sectionState(selected, ids);
+    return (
+      <input
+        type="checkbox"
+        checked={state === "all"}
+        ref={(el) => {
+          if (el) el.indeterminate = state === "some";
+        }}
+        onChange={() => setPicked(toggleSection(selected, ids))}
+        aria-label={`Select all ${label}`}
+        className="h-3.5 w-3.5 cursor-pointer accent-orange-500"
+      />
+    );
+  }
+
+  function move(from: number, to: number) {
+    if (!onReorder || to < 0 || to >= todo.length) return;
+    const allTodo = allTasks ? listOrder(allTasks).filter((t) => t.status !== "done") : todo;
+    const updates = moveUpdates(todo, from, to, allTodo);
+    if (!updates.length) return;
+    setAnnouncement(`Moved "${todo[from].title}" to position ${to + 1} of ${todo.length}.`);
+    onReorder(updates);
+  }
+
+  function endDrag() {
+    setDragId(null);
+    setOverId(null);
+  }
+
+  function sortableFor(task: Task, index: number) {
+    if (!onReorder) return undefined;
+    return {
+      dragging: dragId === task.id,
+      dropTarget: overId === task.id && dragId !== task.id,
+      onDragStart: () => setDragId(task.id),
+      onDragOver: () => setOverId(task.id),
+      onDrop: () => {
+        const from = todo.findIndex((t) => t.id === dragId);
+        if (from >= 0) move(from, index);
+        endDrag();
+      },
+      onDragEnd: endDrag,
+      onMove: (delta: -1 | 1) => move(index, index + delta),
+    };
+  }
 
   if (error) {
     return (
@@ -91,36 +221,70 @@ export function TaskList({ tasks, loading, error, onToggle, onUpdate, onDelete }
   if (tasks.length === 0) {
     return (
       <ul>
-        <EmptyState />
+        <EmptyState filtered={filtered} />
       </ul>
     );
   }
 
   return (
     <div className="space-y-4">
+      {batch && selectedTasks.length > 0 && (
+        <BatchBar tasks={selectedTasks} handlers={batch} onClear={() => setPicked(new Set())} />
+      )}
+
       {/* Active tasks */}
       {todo.length > 0 && (
         <section aria-label="Active tasks">
+          {batch && (
+            <label className="mb-2 flex w-fit items-center gap-2 text-xs font-medium uppercase
+              tracking-widest text-white/25">
+              {sectionToggle(todo, "active tasks")}
+              Active ({todo.length})
+            </label>
+          )}
           <ul className="flex flex-col gap-2" role="list">
-            {todo.map((task) => (
+            {todo.map((task, index) => (
               <TaskItem
                 key={task.id}
                 task={task}
                 onToggle={onToggle}
                 onUpdate={onUpdate}
                 onDelete={onDelete}
+                items={itemsByTask?.get(task.id)}
+                checklist={checklist}
+                tags={tagsByTask?.get(task.id)}
+                tagging={tagging}
+                timer={timer}
+                sortable={sortableFor(task, index)}
+                selection={selectionFor(task, todo)}
+                sync={syncByTask?.get(task.id)}
+                cursor={cursorFor(task)}
               />
             ))}
           </ul>
+          <p className="sr-only" aria-live="polite">{announcement}</p>
         </section>
       )}
 
       {/* Completed tasks */}
       {done.length > 0 && (
         <section aria-label="Completed tasks">
-          <p className="mb-2 text-xs font-medium uppercase tracking-widest text-white/25">
-            Completed ({done.length})
-          </p>
+          <div className="mb-2 flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-widest text-white/25">
+              {sectionToggle(done, "completed tasks")}
+              Completed ({done.length})
+            </label>
+            {onArchive && (
+              <button
+                type="button"
+                onClick={() => onArchive(done.map((t) => t.id))}
+                className="rounded-lg px-2 py-1 text-xs text-white/30 transition-colors
+                  hover:bg-white/5 hover:text-white/60"
+              >
+                Archive all
+              </button>
+            )}
+          </div>
           <ul className="flex flex-col gap-2" role="list">
             {done.map((task) => (
               <TaskItem
@@ -129,6 +293,15 @@ export function TaskList({ tasks, loading, error, onToggle, onUpdate, onDelete }
                 onToggle={onToggle}
                 onUpdate={onUpdate}
                 onDelete={onDelete}
+                onArchive={onArchive ? (t) => onArchive([t.id]) : undefined}
+                items={itemsByTask?.get(task.id)}
+                checklist={checklist}
+                tags={tagsByTask?.get(task.id)}
+                tagging={tagging}
+                timer={timer}
+                selection={selectionFor(task, done)}
+                sync={syncByTask?.get(task.id)}
+                cursor={cursorFor(task)}
               />
             ))}
           </ul>
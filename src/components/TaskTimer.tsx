@@ -0,0 +1,143 @@
+/**
+ * TaskTimer.tsx
+ * Start / stop timer and time estimate shown in a TaskItem's meta row:
+ * "▶ 1h 10m / 2h est". The running clock ticks every second; the estimate
+ * is edited inline ("90", "1h30", "2h"). Open tasks can also be opened in
+ * focus mode.
+ */
+
+import { useEffect, useState, type KeyboardEvent } from "react";
+import type { Task, TimeEntry } from "../lib/supabaseClient";
+import { formatElapsed, formatMinutes, parseDuration } from "../lib/timeTracking";
+
+export type TimerHandlers = {
+  running: TimeEntry | null;
+  /** Minutes from finished entries, per task id. */
+  trackedByTask: Map<string, number>;
+  onStart: (taskId: string) => void;
+  onStop: () => void;
+  /** Omit to hide the focus mode shortcut. */
+  onFocus?: (taskId: string) => void;
+};
+
+type Props = {
+  task: Task;
+  timer: TimerHandlers;
+  onEstimateChange: (minutes: number | null) => void;
+};
+
+export function TaskTimer({ task, timer, onEstimateChange }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const isDone = task.status === "done";
+  const isRunning = timer.running?.task_id === task.id;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const iv = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(iv);
+  }, [isRunning]);
+
+  const trackedMs = (timer.trackedByTask.get(task.id) ?? 0) * 60_000
+    + (isRunning ? Math.max(0, now - Date.parse(timer.running!.started_at)) : 0);
+  const estimate = task.estimated_minutes;
+  const overEstimate = estimate !== null && trackedMs > estimate * 60_000;
+
+  function startEdit() {
+    setDraft(estimate ? formatMinutes(estimate) : "");
+    setEditing(true);
+  }
+
+  function commit() {
+    setEditing(false);
+    const minutes = draft.trim() ? parseDuration(draft) : null;
+    // Unreadable input keeps the old estimate
+    if (draft.trim() && minutes === null) return;
+    if (minutes !== estimate) onEstimateChange(minutes);
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter") commit();
+    if (e.key === "Escape") setEditing(false);
+  }
+
+  if (isDone && trackedMs === 0 && estimate === null) return null;
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs">
+      {!isDone && (
+        <button
+          type="button"
+          onClick={() => (isRunning ? timer.onStop() : timer.onStart(task.id))}
+          aria-pressed={isRunning}
+          aria-label={isRunning ? `Stop timer for "${task.title}"` : `Start timer for "${task.title}"`}
+          title={isRunning ? "Stop timer" : "Start timer"}
+          className={`rounded px-1 transition-colors ${
+            isRunning
+              ? "text-orange-300 hover:text-orange-200"
+              : trackedMs > 0
+                ? "text-white/40 hover:text-white/70"
+                : "text-white/0 group-hover:text-white/30 focus:text-white/30 hover:!text-white/60"
+          }`}
+        >
+          {isRunning ? "■" : "▶"}
+        </button>
+      )}
+
+      {(isRunning || trackedMs > 0) && (
+        <span
+          className={`tabular-nums ${overEstimate ? "text-red-400" : isRunning ? "text-orange-300" : "text-white/40"}`}
+          title="Time tracked"
+        >
+          {isRunning ? formatElapsed(trackedMs) : formatMinutes(trackedMs / 60_000)}
+        </span>
+      )}
+
+      {editing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          placeholder="1h30"
+          aria-label={`Estimate for "${task.title}", e.g. 45m or 1h30`}
+          className="w-16 rounded border border-white/20 bg-white/10 px-1.5 py-0.5 text-xs text-white outline-none focus:ring-2 focus:ring-white/30"
+        />
+      ) : estimate !== null ? (
+        <button
+          type="button"
+          onClick={startEdit}
+          disabled={isDone}
+          aria-label={`Estimate: ${formatMinutes(estimate)}. Edit`}
+          className="text-white/30 hover:text-white/60 disabled:cursor-default disabled:hover:text-white/30"
+        >
+          {isRunning || trackedMs > 0 ? "/ " : ""}{formatMinutes(estimate)} est
+        </button>
+      ) : !isDone && (
+        <button
+          type="button"
+          onClick={startEdit}
+          aria-label={`Add an estimate for "${task.title}"`}
+          className="text-white/0 group-hover:text-white/30 focus:text-white/30 hover:!text-white/60"
+        >
+          + estimate
+        </button>
+      )}
+
+      {timer.onFocus && !isDone && (
+        <button
+          type="button"
+          onClick={() => timer.onFocus!(task.id)}
+          aria-label={`Focus on "${task.title}"`}
+          title="Focus mode"
+          className="text-white/0 group-hover:text-white/30 focus:text-white/30 hover:!text-white/60"
+        >
+          🎯
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * Timeline.tsx
+ * Gantt view: one bar per project and per scheduled task, shaded by how
+ * much is done, with a line for today. Zooms between weeks and months.
+ * Dragging either end of a bar changes that date; with an end focused,
+ * ← / → move it a day.
+ */
+
+import { useState, type KeyboardEvent, type PointerEvent } from "react";
+import type { ChecklistItem, Project, Task } from "../lib/supabaseClient";
+import { daysBetween } from "../lib/streak";
+import {
+  projectProgress, projectSpan, resizeSpan, taskProgress, taskSpan, ticks, timelineRange,
+  type Span, type TimelineZoom,
+} from "../lib/timeline";
+import { sortByPosition } from "../lib/ordering";
+
+/** Pixels per day at each zoom level. */
+const DAY_WIDTH: Record<TimelineZoom, number> = { week: 28, month: 8 };
+
+/** Width of the sticky name column, in pixels. */
+const LABEL_WIDTH = 192;
+
+const PRIORITY_BAR: Record<Task["priority"], string> = {
+  high: "bg-red-400",
+  medium: "bg-amber-400",
+  low: "bg-emerald-400",
+};
+
+type Edge = "start" | "end";
+
+type Row = {
+  key: string;
+  label: string;
+  kind: "project" | "task";
+  span: Span | null;
+  progress: number;
+  color: string;
+  /** False for rows that can't be saved yet (optimistic inserts). */
+  editable: boolean;
+  onResize: (span: Span) => void;
+};
+
+type Drag = { key: string; edge: Edge; origin: Span; x0: number; delta: number };
+
+type Props = {
+  tasks: Task[];
+  projects: Project[];
+  itemsByTask: Map<string, ChecklistItem[]>;
+  today: string;
+  timeZone: string;
+  onResizeTask: (task: Task, span: Span) => Promise<void>;
+  onResizeProject: (project: Project, span: Span) => Promise<void>;
+};
+
+function formatDay(day: string) {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short", day: "numeric", timeZone: "UTC",
+  });
+}
+
+// ─── Bar ─────────────────────────────────────────────────────────────────────
+
+function Bar({ row, span, rangeStart, dayWidth, onPointerDown, onKeyResize }: {
+  row: Row;
+  span: Span;
+  rangeStart: string;
+  dayWidth: number;
+  onPointerDown: (edge: Edge, e: PointerEvent<HTMLButtonElement>) => void;
+  onKeyResize: (edge: Edge, days: number) => void;
+}) {
+  const left = daysBetween(rangeStart, span.start) * dayWidth;
+  const width = (daysBetween(span.start, span.end) + 1) * dayWidth;
+  const percent = Math.round(row.progress * 100);
+
+  function handleKeyDown(edge: Edge, e: KeyboardEvent<HTMLButtonElement>) {
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+    e.preventDefault();
+    onKeyResize(edge, e.key === "ArrowLeft" ? -1 : 1);
+  }
+
+  const handle = (edge: Edge) => row.editable && (
+    <button
+      type="button"
+      onPointerDown={e => onPointerDown(edge, e)}
+      onKeyDown={e => handleKeyDown(edge, e)}
+      aria-label={`${edge === "start" ? "Start" : "End"} of ${row.label}: ${formatDay(span[edge])}. Use ← / → to move.`}
+      className={`absolute inset-y-0 w-2 cursor-ew-resize touch-none rounded-sm bg-white/0
+        hover:bg-white/40 focus:bg-white/50 focus:outline-none
+        ${edge === "start" ? "left-0" : "right-0"}`}
+    />
+  );
+
+  return (
+    <div
+      className={`absolute top-1/2 -translate-y-1/2 overflow-hidden rounded-md bg-white/10
+        ${row.kind === "project" ? "h-5" : "h-3.5"}`}
+      style={{ left, width }}
+      title={`${row.label}: ${formatDay(span.start)} – ${formatDay(span.end)} · ${percent}% done`}
+    >
+      <div className={`h-full ${row.color} opacity-70`} style={{ width: `${percent}%` }} />
+      {handle("start")}
+      {handle("end")}
+    </div>
+  );
+}
+
+// ─── Timeline ────────────────────────────────────────────────────────────────
+
+export function Timeline({ tasks, projects, itemsByTask, today, timeZone, onResizeTask, onResizeProject }: Props) {
+  const [zoom, setZoom] = useState<TimelineZoom>("week");
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [notice, setNotice] = useState("");
+  const dayWidth = DAY_WIDTH[zoom];
+
+  function taskRow(task: Task): Row {
+    return {
+      key: task.id,
+      label: task.title,
+      kind: "task",
+      span: taskSpan(task, timeZone),
+      progress: taskProgress(task, itemsByTask.get(task.id)),
+      color: PRIORITY_BAR[task.priority],
+      editable: true,
+      onResize: span => onResizeTask(task, span),
+    };
+  }
+
+  // Projects first, each followed by its tasks; then tasks with no project
+  const sorted = sortByPosition(tasks);
+  const rows: Row[] = [];
+  for (const project of projects) {
+    const own = sorted.filter(t => t.project_id === project.id).map(taskRow);
+    const scheduled = own.filter(r => r.span);
+    const span = projectSpan(project, scheduled.map(r => r.span!));
+    if (!span) continue;
+    rows.push({
+      key: `project:${project.id}`,
+      label: project.title,
+      kind: "project",
+      span,
+      progress: projectProgress(tasks.filter(t => t.project_id === project.id)),
+      color: "bg-orange-400",
+      editable: true,
+      onResize: next => onResizeProject(project, next),
+    }, ...scheduled);
+  }
+  const projectIds = new Set(projects.map(p => p.id));
+  const loose = sorted.filter(t => !t.project_id || !projectIds.has(t.project_id)).map(taskRow);
+  rows.push(...loose.filter(r => r.span));
+  const unscheduled = tasks.filter(t => !taskSpan(t, timeZone)).length;
+
+  function shownSpan(row: Row): Span | null {
+    if (drag?.key === row.key && row.span) return resizeSpan(drag.origin, drag.edge, drag.delta);
+    return row.span;
+  }
+
+  const range = timelineRange(rows.map(shownSpan).filter((s): s is Span => s !== null), today, zoom);
+  const totalDays = daysBetween(range.start, range.end) + 1;
+  const chartWidth = totalDays * dayWidth;
+  const todayOffset = (daysBetween(range.start, today) + 0.5) * dayWidth;
+
+  function commit(row: Row, next: Span) {
+    if (!row.span || (next.start === row.span.start && next.end === row.span.end)) return;
+    setNotice(`${row.label} now runs ${formatDay(next.start)} – ${formatDay(next.end)}.`);
+    row.onResize(next);
+  }
+
+  function startDrag(row: Row, edge: Edge, e: PointerEvent<HTMLButtonElement>) {
+    if (!row.span) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ key: row.key, edge, origin: row.span, x0: e.clientX, delta: 0 });
+  }
+
+  function moveDrag(e: PointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    const delta = Math.round((e.clientX - drag.x0) / dayWidth);
+    if (delta !== drag.delta) setDrag({ ...drag, delta });
+  }
+
+  function endDrag() {
+    if (!drag) return;
+    const row = rows.find(r => r.key === drag.key);
+    setDrag(null);
+    if (row) commit(row, resizeSpan(drag.origin, drag.edge, drag.delta));
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-white/35">
+          {formatDay(range.start)} – {formatDay(range.end)}
+        </p>
+        <div className="flex rounded-lg bg-white/5 p-0.5" role="group" aria-label="Timeline zoom">
+          {(["week", "month"] as const).map(z => (
+            <button key={z} type="button" aria-pressed={zoom === z} onClick={() => setZoom(z)}
+              className={`rounded-md px-3 py-1 text-xs font-semibold transition-all
+                ${zoom === z ? "bg-white/10 text-white" : "text-white/40 hover:text-white/70"}`}>
+              {z === "week" ? "Weeks" : "Months"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0
+        ? <div className="rounded-xl border border-white/8 bg-white/[0.04] p-5 text-center text-sm text-white/35">
+            Nothing scheduled yet — give a task a start or due date to see it here.
+          </div>
+        : <div className="overflow-x-auto rounded-xl border border-white/8">
+            <div
+              className="relative"
+              style={{ width: LABEL_WIDTH + chartWidth }}
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={() => setDrag(null)}
+            >
+              {/* Axis */}
+              <div className="flex border-b border-white/8 bg-white/[0.03]">
+                <div className="sticky left-0 z-20 shrink-0 bg-[#0c0c0e] px-3 py-1.5 text-[10px] uppercase tracking-wider text-white/35"
+                  style={{ width: LABEL_WIDTH }}>
+                  Name
+                </div>
+                <div className="relative h-7" style={{ width: chartWidth }}>
+                  {ticks(range, zoom).map(tick => (
+                    <span key={tick.day}
+                      className="absolute top-1.5 whitespace-nowrap border-l border-white/10 pl-1 text-[10px] text-white/35"
+                      style={{ left: daysBetween(range.start, tick.day) * dayWidth }}>
+                      {tick.label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {/* Rows */}
+              {rows.map(row => {
+                const span = shownSpan(row)!;
+                return (
+                  <div key={row.key} className="flex border-b border-white/5 last:border-b-0">
+                    <div
+                      className={`sticky left-0 z-10 shrink-0 truncate bg-[#0c0c0e] py-2 pr-3 text-xs
+                        ${row.kind === "project" ? "pl-3 font-semibold text-white/80" : "pl-6 text-white/55"}`}
+                      style={{ width: LABEL_WIDTH }}
+                      title={row.label}
+                    >
+                      {row.label}
+                    </div>
+                    <div className="relative" style={{ width: chartWidth }}>
+                      <Bar
+                        row={row}
+                        span={span}
+                        rangeStart={range.start}
+                        dayWidth={dayWidth}
+                        onPointerDown={(edge, e) => startDrag(row, edge, e)}
+                        onKeyResize={(edge, days) => commit(row, resizeSpan(span, edge, days))}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Today */}
+              <div className="pointer-events-none absolute inset-y-0 w-px bg-orange-500/70"
+                style={{ left: LABEL_WIDTH + todayOffset }} aria-hidden="true" />
+            </div>
+          </div>
+      }
+
+      {unscheduled > 0 && (
+        <p className="text-[10px] text-white/35">
+          {unscheduled} task{unscheduled !== 1 ? "s" : ""} without dates — not shown
+        </p>
+      )}
+
+      <p className="sr-only" aria-live="polite">{notice}</p>
+    </div>
+  );
+}
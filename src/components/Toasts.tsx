@@ -0,0 +1,81 @@
+/**
+ * Toasts.tsx
+ * The toast stack, bottom left: info notices (with an optional Undo) and
+ * errors. Each toast closes itself after its duration; hovering or
+ * focusing it pauses the countdown.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { Toast } from "../lib/toasts";
+
+type Props = {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+};
+
+export function Toasts({ toasts, onDismiss }: Props) {
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed bottom-4 left-4 right-4 z-50 flex flex-col items-start gap-2 sm:right-auto"
+    >
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={() => onDismiss(toast.id)} />
+      ))}
+    </div>
+  );
+}
+
+function ToastItem({ toast, onDismiss }: { toast: Toast; onDismiss: () => void }) {
+  const [paused, setPaused] = useState(false);
+  // Time left survives pauses
+  const remainingRef = useRef(toast.duration);
+
+  useEffect(() => {
+    if (paused) return;
+    const startedAt = Date.now();
+    const timeout = setTimeout(onDismiss, remainingRef.current);
+    return () => {
+      clearTimeout(timeout);
+      remainingRef.current -= Date.now() - startedAt;
+    };
+  }, [paused, onDismiss]);
+
+  const isError = toast.kind === "error";
+
+  return (
+    <div
+      role={isError ? "alert" : "status"}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={() => setPaused(false)}
+      className={`pointer-events-auto flex w-full max-w-sm items-center gap-3 rounded-xl border px-4 py-3
+        shadow-2xl shadow-black/50 ${isError
+          ? "border-red-400/40 bg-[#1a0c0c]"
+          : "border-white/10 bg-[#18181b]"}`}
+    >
+      <p className={`min-w-0 flex-1 text-sm ${isError ? "text-red-200" : "text-white/85"}`}>
+        {isError && <span aria-hidden="true">⚠ </span>}
+        {toast.message}
+      </p>
+      {toast.onUndo && (
+        <button
+          type="button"
+          onClick={() => {
+            toast.onUndo!();
+            onDismiss();
+          }}
+          className="rounded-lg px-2 py-1 text-xs font-bold uppercase tracking-widest text-orange-400
+            hover:bg-orange-500/10 hover:text-orange-300"
+        >
+          Undo
+        </button>
+      )}
+      <button type="button" onClick={onDismiss} aria-label="Dismiss"
+        className="self-start text-white/30 hover:text-white/70">
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Trash.tsx
+ * The Trash tab: archived tasks, which can be put back on the list, and
+ * deleted ones, which can be restored or deleted for good (one at a time
+ * or by emptying the Trash, after a confirm — there's no undo). Deleted tasks
+ * are purged automatically once they've been in the Trash for
+ * TRASH_RETENTION_DAYS.
+ */
+
+import type { Task } from "../lib/supabaseClient";
+import { daysLeftInTrash, TRASH_RETENTION_DAYS } from "../lib/trash";
+
+function formatStamp(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+const CARD = "rounded-xl border border-white/8 bg-white/[0.04] p-5";
+const ACTION = `rounded-lg border border-white/10 px-2.5 py-1 text-xs text-white/50 transition-all
+  hover:border-white/20 hover:text-white`;
+
+type Props = {
+  archived: Task[];
+  trash: Task[];
+  now: Date;
+  onUnarchive: (task: Task) => void;
+  onRestore: (task: Task) => void;
+  onPurge: (task: Task) => void;
+  onEmpty: () => void;
+};
+
+export function TrashView({ archived, trash, now, onUnarchive, onRestore, onPurge, onEmpty }: Props) {
+  function purge(task: Task) {
+    if (window.confirm(`Delete "${task.title}" forever? This can't be undone.`)) onPurge(task);
+  }
+
+  function empty() {
+    const count = trash.length === 1 ? "1 task" : `${trash.length} tasks`;
+    if (window.confirm(`Delete ${count} in the Trash forever? This can't be undone.`)) onEmpty();
+  }
+
+  return (
+    <div className="space-y-4">
+      <section className={CARD} aria-label="Archived tasks">
+        <h2 className="text-sm font-bold text-white">Archived ({archived.length})</h2>
+        <p className="mt-0.5 text-xs text-white/35">
+          Hidden from your list — still counted in your streak and analytics
+        </p>
+        {archived.length === 0
+          ? <p className="py-6 text-center text-sm text-white/35">Nothing archived.</p>
+          : <ul className="mt-3 divide-y divide-white/5">
+              {archived.map(task => (
+                <li key={task.id} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm text-white/60 line-through">{task.title}</p>
+                    <p className="text-xs text-white/30">
+                      Completed {task.completed_at ? formatStamp(task.completed_at) : "—"}
+                    </p>
+                  </div>
+                  <button type="button" onClick={() => onUnarchive(task)} className={ACTION}
+                    aria-label={`Unarchive task: ${task.title}`}>
+                    Unarchive
+                  </button>
+                </li>
+              ))}
+            </ul>
+        }
+      </section>
+
+      <section className={CARD} aria-label="Deleted tasks">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-bold text-white">Trash ({trash.length})</h2>
+            <p className="mt-0.5 text-xs text-white/35">
+              Deleted tasks are removed for good after {TRASH_RETENTION_DAYS} days
+            </p>
+          </div>
+          {trash.length > 0 && (
+            <button type="button" onClick={empty}
+              className="rounded-lg border border-red-400/30 px-2.5 py-1 text-xs font-bold text-red-300
+                transition-all hover:bg-red-400/10">
+              Empty trash
+            </button>
+          )}
+        </div>
+        {trash.length === 0
+          ? <p className="py-6 text-center text-sm text-white/35">The Trash is empty.</p>
+          : <ul className="mt-3 divide-y divide-white/5">
+              {trash.map(task => {
+                const daysLeft = daysLeftInTrash(task, now) ?? 0;
+                return (
+                  <li key={task.id} className="flex items-center gap-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm text-white/60">{task.title}</p>
+                      <p className="text-xs text-white/30">
+                        Deleted {formatStamp(task.deleted_at!)} · {daysLeft === 0
+                          ? "removed today"
+                          : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`}
+                      </p>
+                    </div>
+                    <button type="button" onClick={() => onRestore(task)} className={ACTION}
+                      aria-label={`Restore task: ${task.title}`}>
+                      Restore
+                    </button>
+                    <button type="button" onClick={() => purge(task)}
+                      aria-label={`Delete forever: ${task.title}`}
+                      className="rounded-lg px-2.5 py-1 text-xs text-white/30 transition-all
+                        hover:bg-red-400/10 hover:text-red-300">
+                      Delete forever
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+        }
+      </section>
+    </div>
+  );
+}
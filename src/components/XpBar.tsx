@@ -0,0 +1,53 @@
+/**
+ * XpBar.tsx
+ * Level name and XP progress toward the next level — a compact pill for the
+ * header, or a full row with XP numbers for the streak panel.
+ */
+
+import type { LevelInfo } from "../lib/gamification";
+
+type Props = {
+  level: LevelInfo;
+  compact?: boolean;
+};
+
+export function XpBar({ level, compact = false }: Props) {
+  const pct = Math.round(level.progress * 100);
+  const label = level.next === null
+    ? `Level ${level.level} ${level.name} — max level`
+    : `Level ${level.level} ${level.name}: ${level.xp - level.floor} of ${level.next - level.floor} XP to next level`;
+
+  const bar = (
+    <div className={`rounded-full bg-white/8 overflow-hidden ${compact ? "h-1 w-16" : "h-1.5 w-full"}`}
+      role="progressbar" aria-valuenow={pct} aria-valuemin={0} aria-valuemax={100}
+      aria-label={label}>
+      <div className="h-full rounded-full bg-gradient-to-r from-violet-500 to-fuchsia-400
+        transition-all duration-700" style={{ width: `${pct}%` }} />
+    </div>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2" title={label}>
+        <span className="text-[10px] font-bold uppercase tracking-widest text-violet-300">
+          Lv.{level.level} {level.name}
+        </span>
+        {bar}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1.5">
+        <span className="text-xs font-bold uppercase tracking-widest text-violet-300">
+          Lv.{level.level} {level.name}
+        </span>
+        <span className="text-[10px] text-white/35 tabular-nums">
+          {level.next === null ? `${level.xp} XP` : `${level.xp} / ${level.next} XP`}
+        </span>
+      </div>
+      {bar}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * useBadges.ts
+ * Loads the user's unlocked badges and records new unlocks.
+ * Which badges are *earned* is derived from task history — see
+ * evaluateBadges() in lib/badges.ts.
+ *
+ * Usage:
+ *   const { badges, unlockBadges } = useBadges(userId);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type UserBadge } from "../lib/supabaseClient";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type BadgesState = {
+  badges: UserBadge[];
+  loading: boolean;
+  error: string | null;
+  /** Store unlocks; resolves to the rows that were actually new. */
+  unlockBadges: (badgeIds: string[]) => Promise<UserBadge[]>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useBadges(userId: string | null): BadgesState {
+  const [badges, setBadges] = useState<UserBadge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const badgesRef = useRef(badges);
+  useEffect(() => {
+    badgesRef.current = badges;
+  }, [badges]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchBadges = useCallback(async () => {
+    if (!userId) {
+      setBadges([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("user_badges")
+      .select("*")
+      .eq("user_id", userId)
+      .order("unlocked_at", { ascending: true });
+
+    if (fetchError) setError(fetchError.message);
+    else setBadges(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchBadges();
+  }, [fetchBadges]);
+
+  // ─── Unlock ─────────────────────────────────────────────────────────────
+
+  /**
+   * unlockBadges — insert one row per badge. Duplicates (e.g. unlocked in
+   * another tab) are skipped by the unique (user_id, badge_id) constraint.
+   */
+  const unlockBadges = useCallback(
+    async (badgeIds: string[]) => {
+      if (!userId) return [];
+      const fresh = badgeIds.filter((id) => !badgesRef.current.some((b) => b.badge_id === id));
+      if (!fresh.length) return [];
+
+      const { data, error: insertError } = await supabase
+        .from("user_badges")
+        .upsert(
+          fresh.map((badge_id) => ({ user_id: userId, badge_id })),
+          { onConflict: "user_id,badge_id", ignoreDuplicates: true }
+        )
+        .select();
+
+      if (insertError || !data) {
+        setError(insertError?.message ?? "Failed to unlock badges");
+        return [];
+      }
+
+      const created = data as UserBadge[];
+      setBadges((prev) => [...prev, ...created.filter((b) => !prev.some((p) => p.badge_id === b.badge_id))]);
+      return created;
+    },
+    [userId]
+  );
+
+  return {
+    badges,
+    loading,
+    error,
+    unlockBadges,
+  };
+}
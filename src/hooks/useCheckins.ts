@@ -0,0 +1,118 @@
+/**
+ * useCheckins.ts
+ * Loads the user's daily check-ins and saves today's (one per local day —
+ * submitting again revises it).
+ *
+ * Usage:
+ *   const { checkins, todayCheckin, submitCheckin } = useCheckins(userId, timeZone);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type Checkin } from "../lib/supabaseClient";
+import { toLocalDateStr } from "../lib/streak";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type NewCheckin = Pick<Checkin, "completed_percent" | "time_spent_hours" | "notes">;
+
+export type CheckinsState = {
+  checkins: Checkin[];
+  /** Today's check-in in the user's timezone, if any. */
+  todayCheckin: Checkin | null;
+  loading: boolean;
+  error: string | null;
+  submitCheckin: (checkin: NewCheckin) => Promise<boolean>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useCheckins(userId: string | null, timeZone: string): CheckinsState {
+  const [checkins, setCheckins] = useState<Checkin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkinsRef = useRef(checkins);
+  useEffect(() => {
+    checkinsRef.current = checkins;
+  }, [checkins]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchCheckins = useCallback(async () => {
+    if (!userId) {
+      setCheckins([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("checkins")
+      .select("*")
+      .eq("user_id", userId)
+      .order("day", { ascending: false });
+
+    if (fetchError) setError(fetchError.message);
+    else setCheckins(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchCheckins();
+  }, [fetchCheckins]);
+
+  // ─── Submit ─────────────────────────────────────────────────────────────
+
+  /**
+   * submitCheckin — optimistic upsert of today's row. Resolves to false if
+   * the save failed and was rolled back.
+   */
+  const submitCheckin = useCallback(
+    async (entry: NewCheckin) => {
+      if (!userId) return false;
+      const day = toLocalDateStr(new Date(), timeZone);
+      const previous = checkinsRef.current.find((c) => c.day === day);
+      const now = new Date().toISOString();
+
+      const optimistic: Checkin = {
+        id: previous?.id ?? `temp-${day}`,
+        user_id: userId,
+        day,
+        ...entry,
+        created_at: previous?.created_at ?? now,
+        updated_at: now,
+      };
+      setCheckins((prev) => [optimistic, ...prev.filter((c) => c.day !== day)]);
+
+      const { data, error: upsertError } = await supabase
+        .from("checkins")
+        .upsert({ user_id: userId, day, ...entry }, { onConflict: "user_id,day" })
+        .select()
+        .single();
+
+      if (upsertError || !data) {
+        // Rollback
+        setCheckins((prev) => {
+          const rest = prev.filter((c) => c.day !== day);
+          return previous ? [previous, ...rest] : rest;
+        });
+        setError(upsertError?.message ?? "Failed to save check-in");
+        return false;
+      }
+
+      setCheckins((prev) => prev.map((c) => (c.day === day ? data : c)));
+      return true;
+    },
+    [userId, timeZone]
+  );
+
+  const today = toLocalDateStr(new Date(), timeZone);
+
+  return {
+    checkins,
+    todayCheckin: checkins.find((c) => c.day === today) ?? null,
+    loading,
+    error,
+    submitCheckin,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * useFocusSessions.ts
+ * The user's completed focus (pomodoro) sessions: fetching, realtime
+ * subscription and recording a finished block with optimistic UI.
+ *
+ * Usage:
+ *   const { sessions, recordSession } = useFocusSessions(userId);
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase, type FocusSession } from "../lib/supabaseClient";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type NewFocusSession = Pick<FocusSession, "task_id" | "started_at" | "ended_at" | "focus_minutes">;
+
+export type FocusSessionsState = {
+  /** Newest first. */
+  sessions: FocusSession[];
+  loading: boolean;
+  error: string | null;
+  recordSession: (session: NewFocusSession) => Promise<void>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useFocusSessions(userId: string | null): FocusSessionsState {
+  const [sessions, setSessions] = useState<FocusSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchSessions = useCallback(async () => {
+    if (!userId) {
+      setSessions([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("focus_sessions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("ended_at", { ascending: false });
+
+    if (fetchError) setError(fetchError.message);
+    else setSessions(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  // ─── Realtime subscription ──────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`focus_sessions:user:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "focus_sessions",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as FocusSession;
+            setSessions((prev) =>
+              prev.some((s) => s.id === created.id) ? prev : [created, ...prev]
+            );
+          } else if (payload.eventType === "UPDATE") {
+            // task_id is cleared when the task is deleted
+            const updated = payload.new as FocusSession;
+            setSessions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as { id: string };
+            setSessions((prev) => prev.filter((s) => s.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // ─── Record ─────────────────────────────────────────────────────────────
+
+  /**
+   * recordSession — optimistic insert of a finished focus block.
+   */
+  const recordSession = useCallback(
+    async (session: NewFocusSession) => {
+      if (!userId) return;
+      const tempId = `temp-${Date.now()}`;
+      const optimistic: FocusSession = {
+        id: tempId,
+        user_id: userId,
+        ...session,
+        created_at: new Date().toISOString(),
+      };
+      setSessions((prev) => [optimistic, ...prev]);
+
+      const { data, error: insertError } = await supabase
+        .from("focus_sessions")
+        .insert({ user_id: userId, ...session })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        setSessions((prev) => prev.filter((s) => s.id !== tempId));
+        setError(insertError?.message ?? "Failed to save the focus session");
+        return;
+      }
+
+      // Realtime may have delivered the row already — keep a single copy
+      setSessions((prev) => prev.filter((s) => s.id !== data.id).map((s) => (s.id === tempId ? data : s)));
+    },
+    [userId]
+  );
+
+  return {
+    sessions,
+    loading,
+    error,
+    recordSession,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * useProjects.ts
+ * Project state: fetching, realtime subscription and CRUD with optimistic UI.
+ *
+ * Usage:
+ *   const { projects, addProject, updateProject, deleteProject } = useProjects(userId);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type Project } from "../lib/supabaseClient";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type NewProject = {
+  title: string;
+  description?: string | null;
+  deadline?: string | null;
+};
+
+export type ProjectsState = {
+  projects: Project[];
+  loading: boolean;
+  error: string | null;
+  addProject: (project: NewProject) => Promise<Project | null>;
+  updateProject: (id: string, updates: Partial<Project>) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useProjects(userId: string | null): ProjectsState {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectsRef = useRef(projects);
+  useEffect(() => {
+    projectsRef.current = projects;
+  }, [projects]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchProjects = useCallback(async () => {
+    if (!userId) {
+      setProjects([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("projects")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (fetchError) setError(fetchError.message);
+    else setProjects(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  // ─── Realtime subscription ──────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`projects:user:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "projects",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as Project;
+            setProjects((prev) =>
+              prev.some((p) => p.id === created.id) ? prev : [...prev, created]
+            );
+          } else if (payload.eventType === "UPDATE") {
+            const updated = payload.new as Project;
+            setProjects((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as { id: string };
+            setProjects((prev) => prev.filter((p) => p.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // ─── CRUD operations ────────────────────────────────────────────────────
+
+  /**
+   * addProject — optimistic insert. Resolves to the saved project (or null
+   * if the insert failed and was rolled back). The id is made here, so a
+   * realtime echo that beats the response finds the optimistic row.
+   */
+  const addProject = useCallback(
+    async (newProject: NewProject) => {
+      if (!userId) return null;
+
+      const id = crypto.randomUUID();
+      const optimistic: Project = {
+        id,
+        user_id: userId,
+        title: newProject.title,
+        description: newProject.description ?? null,
+        deadline: newProject.deadline ?? null,
+        start_date: null,
+        created_at: new Date().toISOString(),
+      };
+      setProjects((prev) => [...prev, optimistic]);
+
+      const { data, error: insertError } = await supabase
+        .from("projects")
+        .insert({
+          id,
+          user_id: userId,
+          title: newProject.title,
+          description: newProject.description ?? null,
+          deadline: newProject.deadline ?? null,
+        })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        setProjects((prev) => prev.filter((p) => p.id !== id));
+        setError(insertError?.message ?? "Failed to add project");
+        return null;
+      }
+
+      setProjects((prev) => prev.map((p) => (p.id === id ? data : p)));
+      return data as Project;
+    },
+    [userId]
+  );
+
+  /**
+   * updateProject — optimistic update.
+   */
+  const updateProject = useCallback(
+    async (id: string, updates: Partial<Project>) => {
+      const previous = projectsRef.current.find((p) => p.id === id);
+      if (!previous) return;
+
+      setProjects((prev) => prev.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+
+      const { error: updateError } = await supabase
+        .from("projects")
+        .update(updates)
+        .eq("id", id)
+        .eq("user_id", userId!);
+
+      if (updateError) {
+        setProjects((prev) => prev.map((p) => (p.id === id ? previous : p)));
+        setError(updateError.message);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * deleteProject — optimistic delete. The project's tasks are kept and
+   * become unassigned (ON DELETE SET NULL).
+   */
+  const deleteProject = useCallback(
+    async (id: string) => {
+      const previous = projectsRef.current.find((p) => p.id === id);
+      if (!previous) return;
+
+      setProjects((prev) => prev.filter((p) => p.id !== id));
+
+      const { error: deleteError } = await supabase
+        .from("projects")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId!);
+
+      if (deleteError) {
+        setProjects((prev) => [...prev, previous]);
+        setError(deleteError.message);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    projects,
+    loading,
+    error,
+    addProject,
+    updateProject,
+    deleteProject,
+  };
+}
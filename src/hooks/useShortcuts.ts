@@ -0,0 +1,47 @@
+/**
+ * useShortcuts.ts
+ * Global keyboard shortcuts (lib/shortcuts): listens for key presses on the
+ * window and runs the handler for the action they map to.
+ *
+ * Usage:
+ *   useShortcuts({ next: () => move(1), palette: openPalette }, !dialogOpen);
+ */
+
+import { useEffect, useRef } from "react";
+import { shortcutFor, type ShortcutAction } from "../lib/shortcuts";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** Actions without a handler are left to the browser. */
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+export function useShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  // Latest handlers, so the listener isn't re-attached on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => { handlersRef.current = handlers; });
+
+  useEffect(() => {
+    if (!enabled) return;
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.defaultPrevented || e.isComposing) return;
+      const action = shortcutFor({
+        key: e.key, ctrlKey: e.ctrlKey, metaKey: e.metaKey, altKey: e.altKey,
+        typing: isTextField(e.target),
+      });
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      // Otherwise `n` would be typed into the field it focuses
+      e.preventDefault();
+      handler();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
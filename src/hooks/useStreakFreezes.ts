@@ -0,0 +1,106 @@
+/**
+ * useStreakFreezes.ts
+ * Loads the user's spent streak freezes and lets them spend more.
+ * How many freezes are *available* is derived from task history — see
+ * freezeInventory() in lib/streak.ts. The database rejects a spend beyond
+ * what that history could have earned (019_streak_freeze_limits.sql).
+ *
+ * Usage:
+ *   const { frozenDays, spendFreezes } = useStreakFreezes(userId);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type StreakFreeze } from "../lib/supabaseClient";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type StreakFreezesState = {
+  freezes: StreakFreeze[];
+  frozenDays: string[];
+  loading: boolean;
+  error: string | null;
+  spendFreezes: (days: string[], auto?: boolean) => Promise<void>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useStreakFreezes(userId: string | null): StreakFreezesState {
+  const [freezes, setFreezes] = useState<StreakFreeze[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const freezesRef = useRef(freezes);
+  useEffect(() => {
+    freezesRef.current = freezes;
+  }, [freezes]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchFreezes = useCallback(async () => {
+    if (!userId) {
+      setFreezes([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("streak_freezes")
+      .select("*")
+      .eq("user_id", userId)
+      .order("day", { ascending: false });
+
+    if (fetchError) setError(fetchError.message);
+    else setFreezes(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchFreezes();
+  }, [fetchFreezes]);
+
+  // ─── Spend ──────────────────────────────────────────────────────────────
+
+  /**
+   * spendFreezes — optimistic insert of one row per frozen day.
+   */
+  const spendFreezes = useCallback(
+    async (days: string[], auto = false) => {
+      if (!userId) return;
+      const fresh = days.filter((d) => !freezesRef.current.some((f) => f.day === d));
+      if (!fresh.length) return;
+
+      const optimistic: StreakFreeze[] = fresh.map((day) => ({
+        id: `temp-${day}`,
+        user_id: userId,
+        day,
+        auto,
+        created_at: new Date().toISOString(),
+      }));
+      setFreezes((prev) => [...optimistic, ...prev]);
+
+      const { data, error: insertError } = await supabase
+        .from("streak_freezes")
+        .insert(fresh.map((day) => ({ user_id: userId, day, auto })))
+        .select();
+
+      if (insertError || !data) {
+        // Rollback
+        setFreezes((prev) => prev.filter((f) => !f.id.startsWith("temp-")));
+        setError(insertError?.message ?? "Failed to use streak freeze");
+        return;
+      }
+
+      setFreezes((prev) => [...data, ...prev.filter((f) => !f.id.startsWith("temp-"))]);
+    },
+    [userId]
+  );
+
+  return {
+    freezes,
+    frozenDays: freezes.map((f) => f.day),
+    loading,
+    error,
+    spendFreezes,
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * useTags.ts
+ * The user's tags and task ↔ tag links: fetching, realtime subscription
+ * and CRUD with optimistic UI.
+ *
+ * Usage:
+ *   const { tags, tagsByTask, createTag, assignTags, unassignTag } = useTags(userId);
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase, type Tag, type TaskTag } from "../lib/supabaseClient";
+import { tagsByTask as groupTags, type TagColor } from "../lib/tags";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type TagsState = {
+  tags: Tag[];
+  links: TaskTag[];
+  /** Tags per task id, sorted by name. */
+  tagsByTask: Map<string, Tag[]>;
+  loading: boolean;
+  error: string | null;
+  /** Resolves to the created tag, or null if the insert failed. */
+  createTag: (name: string, color: TagColor) => Promise<Tag | null>;
+  deleteTag: (id: string) => Promise<void>;
+  assignTags: (taskId: string, tagIds: string[]) => Promise<void>;
+  unassignTag: (taskId: string, tagId: string) => Promise<void>;
+  /** Adds a tag to many tasks in one request (all or nothing). */
+  tagTasks: (taskIds: string[], tagId: string) => Promise<void>;
+  /** Removes a tag from many tasks in one request. */
+  untagTasks: (taskIds: string[], tagId: string) => Promise<void>;
+};
+
+function sameLink(a: { task_id: string; tag_id: string }, b: { task_id: string; tag_id: string }) {
+  return a.task_id === b.task_id && a.tag_id === b.tag_id;
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useTags(userId: string | null): TagsState {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [links, setLinks] = useState<TaskTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const tagsRef = useRef(tags);
+  const linksRef = useRef(links);
+  useEffect(() => {
+    tagsRef.current = tags;
+    linksRef.current = links;
+  }, [tags, links]);
+
+  const tagsByTask = useMemo(() => groupTags(tags, links), [tags, links]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchTags = useCallback(async () => {
+    if (!userId) {
+      setTags([]);
+      setLinks([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const [tagsRes, linksRes] = await Promise.all([
+      supabase.from("tags").select("*").eq("user_id", userId).order("name"),
+      supabase.from("task_tags").select("*").eq("user_id", userId),
+    ]);
+
+    const fetchError = tagsRes.error ?? linksRes.error;
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setTags(tagsRes.data ?? []);
+      setLinks(linksRes.data ?? []);
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  // ─── Realtime subscription ──────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`tags:user:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "tags", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as Tag;
+            setTags((prev) =>
+              prev.some((t) => t.id === created.id) ? prev : [...prev, created]
+            );
+          } else if (payload.eventType === "UPDATE") {
+            const updated = payload.new as Tag;
+            setTags((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as { id: string };
+            setTags((prev) => prev.filter((t) => t.id !== deleted.id));
+            setLinks((prev) => prev.filter((l) => l.tag_id !== deleted.id));
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "task_tags", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as TaskTag;
+            setLinks((prev) =>
+              prev.some((l) => sameLink(l, created)) ? prev : [...prev, created]
+            );
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as TaskTag;
+            setLinks((prev) => prev.filter((l) => !sameLink(l, deleted)));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // ─── CRUD operations ────────────────────────────────────────────────────
+
+  /**
+   * createTag — optimistic insert. Names are unique per user (ignoring
+   * case), so an existing tag with the same name is returned instead. The
+   * id is made here, so a realtime echo that beats the response finds the
+   * optimistic row.
+   */
+  const createTag = useCallback(
+    async (name: string, color: TagColor) => {
+      if (!userId) return null;
+      const existing = tagsRef.current.find(
+        (t) => t.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing) return existing;
+
+      const id = crypto.randomUUID();
+      const optimistic: Tag = {
+        id,
+        user_id: userId,
+        name,
+        color,
+        created_at: new Date().toISOString(),
+      };
+      setTags((prev) => [...prev, optimistic]);
+
+      const { data, error: insertError } = await supabase
+        .from("tags")
+        .insert({ id, user_id: userId, name, color })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        setTags((prev) => prev.filter((t) => t.id !== id));
+        setError(insertError?.message ?? "Failed to create tag");
+        return null;
+      }
+
+      setTags((prev) => prev.map((t) => (t.id === id ? data : t)));
+      return data as Tag;
+    },
+    [userId]
+  );
+
+  /**
+   * deleteTag — optimistic delete; the database cascades to its links.
+   */
+  const deleteTag = useCallback(
+    async (id: string) => {
+      if (!userId) return;
+      const previous = tagsRef.current.find((t) => t.id === id);
+      if (!previous) return;
+      const previousLinks = linksRef.current.filter((l) => l.tag_id === id);
+
+      setTags((prev) => prev.filter((t) => t.id !== id));
+      setLinks((prev) => prev.filter((l) => l.tag_id !== id));
+
+      const { error: deleteError } = await supabase
+        .from("tags")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (deleteError) {
+        setTags((prev) => [...prev, previous]);
+        setLinks((prev) => [...prev, ...previousLinks]);
+        setError(deleteError.message);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * assignTags — optimistically links tags to a task, skipping any it
+   * already carries.
+   */
+  const assignTags = useCallback(
+    async (taskId: string, tagIds: string[]) => {
+      if (!userId) return;
+      const created_at = new Date().toISOString();
+      const added = tagIds
+        .map((tag_id) => ({ task_id: taskId, tag_id, user_id: userId, created_at }))
+        .filter((link) => !linksRef.current.some((l) => sameLink(l, link)));
+      if (added.length === 0) return;
+
+      setLinks((prev) => [...prev, ...added]);
+
+      const { error: insertError } = await supabase
+        .from("task_tags")
+        .insert(added.map(({ task_id, tag_id, user_id }) => ({ task_id, tag_id, user_id })));
+
+      if (insertError) {
+        setLinks((prev) => prev.filter((l) => !added.some((a) => sameLink(a, l))));
+        setError(insertError.message);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * unassignTag — optimistic unlink.
+   */
+  const unassignTag = useCallback(
+    async (taskId: string, tagId: string) => {
+      if (!userId) return;
+      const target = { task_id: taskId, tag_id: tagId };
+      const previous = linksRef.current.find((l) => sameLink(l, target));
+      if (!previous) return;
+
+      setLinks((prev) => prev.filter((l) => !sameLink(l, target)));
+
+      const { error: deleteError } = await supabase
+        .from("task_tags")
+        .delete()
+        .eq("task_id", taskId)
+        .eq("tag_id", tagId)
+        .eq("user_id", userId);
+
+      if (deleteError) {
+        setLinks((prev) => [...prev, previous]);
+        setError(deleteError.message);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * tagTasks — optimistically links one tag to many tasks, skipping those
+   * that already carry it. A single insert, so it lands or fails as one.
+   */
+  const tagTasks = useCallback(
+    async (taskIds: string[], tagId: string) => {
+      if (!userId) return;
+      const created_at = new Date().toISOString();
+      const added = taskIds
+        .map((task_id) => ({ task_id, tag_id: tagId, user_id: userId, created_at }))
+        .filter((link) => !linksRef.current.some((l) => sameLink(l, link)));
+      if (added.length === 0) return;
+
+      setLinks((prev) => [...prev, ...added]);
+
+      const { error: insertError } = await supabase
+        .from("task_tags")
+        .insert(added.map(({ task_id, tag_id, user_id }) => ({ task_id, tag_id, user_id })));
+
+      if (insertError) {
+        setLinks((prev) => prev.filter((l) => !added.some((a) => sameLink(a, l))));
+        setError(insertError.message);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * untagTasks — optimistic unlink of one tag from many tasks.
+   */
+  const untagTasks = useCallback(
+    async (taskIds: string[], tagId: string) => {
+      if (!userId) return;
+      const removed = linksRef.current.filter((l) => l.tag_id === tagId && taskIds.includes(l.task_id));
+      if (removed.length === 0) return;
+
+      setLinks((prev) => prev.filter((l) => !removed.some((r) => sameLink(r, l))));
+
+      const { error: deleteError } = await supabase
+        .from("task_tags")
+        .delete()
+        .eq("tag_id", tagId)
+        .in("task_id", removed.map((l) => l.task_id))
+        .eq("user_id", userId);
+
+      if (deleteError) {
+        setLinks((prev) => [...prev, ...removed]);
+        setError(deleteError.message);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    tags,
+    links,
+    tagsByTask,
+    loading,
+    error,
+    createTag,
+    deleteTag,
+    assignTags,
+    unassignTag,
+    tagTasks,
+    untagTasks,
+  };
+}
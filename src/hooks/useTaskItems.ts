@@ -0,0 +1,205 @@
+/**
+ * useTaskItems.ts
+ * Checklist items for all of the user's tasks: fetching, realtime
+ * subscription and CRUD with optimistic UI.
+ *
+ * Usage:
+ *   const { itemsByTask, addItem, toggleItem, deleteItem } = useTaskItems(userId);
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase, type ChecklistItem } from "../lib/supabaseClient";
+import { groupByTask, nextPosition, upsertItem } from "../lib/checklist";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type TaskItemsState = {
+  items: ChecklistItem[];
+  /** Items per task id, in position order. */
+  itemsByTask: Map<string, ChecklistItem[]>;
+  loading: boolean;
+  error: string | null;
+  addItem: (taskId: string, title: string) => Promise<void>;
+  /** Resolves to the task's items after the toggle, or null if it failed. */
+  toggleItem: (item: ChecklistItem) => Promise<ChecklistItem[] | null>;
+  deleteItem: (id: string) => Promise<void>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useTaskItems(userId: string | null): TaskItemsState {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const itemsByTask = useMemo(() => groupByTask(items), [items]);
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchItems = useCallback(async () => {
+    if (!userId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("task_items")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (fetchError) setError(fetchError.message);
+    else setItems(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // ─── Realtime subscription ──────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`task_items:user:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "task_items",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as ChecklistItem;
+            setItems((prev) => upsertItem(prev, created));
+          } else if (payload.eventType === "UPDATE") {
+            const updated = payload.new as ChecklistItem;
+            setItems((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as { id: string };
+            setItems((prev) => prev.filter((i) => i.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // ─── CRUD operations ────────────────────────────────────────────────────
+
+  /**
+   * addItem — optimistic insert at the end of the task's checklist. The id
+   * is made here, so the realtime echo and the response both land on the
+   * optimistic row whichever comes first, and toggling or deleting the
+   * item before either arrives already uses its real id.
+   */
+  const addItem = useCallback(
+    async (taskId: string, title: string) => {
+      if (!userId) return;
+      const siblings = itemsRef.current.filter((i) => i.task_id === taskId);
+      const position = nextPosition(siblings);
+
+      const id = crypto.randomUUID();
+      const optimistic: ChecklistItem = {
+        id,
+        user_id: userId,
+        task_id: taskId,
+        title,
+        done: false,
+        position,
+        created_at: new Date().toISOString(),
+      };
+      setItems((prev) => [...prev, optimistic]);
+
+      const { data, error: insertError } = await supabase
+        .from("task_items")
+        .insert({ id, user_id: userId, task_id: taskId, title, done: false, position })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        setItems((prev) => prev.filter((i) => i.id !== id));
+        setError(insertError?.message ?? "Failed to add checklist item");
+        return;
+      }
+
+      setItems((prev) => upsertItem(prev, data));
+    },
+    [userId]
+  );
+
+  /**
+   * toggleItem — optimistic done/undone flip.
+   */
+  const toggleItem = useCallback(
+    async (item: ChecklistItem) => {
+      const updated = { ...item, done: !item.done };
+      const after = itemsRef.current
+        .filter((i) => i.task_id === item.task_id)
+        .map((i) => (i.id === item.id ? updated : i));
+
+      setItems((prev) => prev.map((i) => (i.id === item.id ? updated : i)));
+
+      const { error: updateError } = await supabase
+        .from("task_items")
+        .update({ done: updated.done })
+        .eq("id", item.id)
+        .eq("user_id", userId!);
+
+      if (updateError) {
+        setItems((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+        setError(updateError.message);
+        return null;
+      }
+      return after;
+    },
+    [userId]
+  );
+
+  /**
+   * deleteItem — optimistic delete.
+   */
+  const deleteItem = useCallback(
+    async (id: string) => {
+      const previous = itemsRef.current.find((i) => i.id === id);
+      if (!previous) return;
+
+      setItems((prev) => prev.filter((i) => i.id !== id));
+
+      const { error: deleteError } = await supabase
+        .from("task_items")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId!);
+
+      if (deleteError) {
+        setItems((prev) => [...prev, previous]);
+        setError(deleteError.message);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    items,
+    itemsByTask,
+    loading,
+    error,
+    addItem,
+    toggleItem,
+    deleteItem,
+  };
+}
@@ -0,0 +1,514 @@
+/**
+ * useTaskSync.ts
+ * Offline-first plumbing for task writes. Task changes are applied to local
+ * state by the caller, then queued here in a durable outbox (IndexedDB) and
+ * replayed against Supabase in order, one at a time. While the server can't
+ * be reached the queue just waits — it's retried when the browser comes
+ * back online and every 30s — so nothing is rolled back for being offline.
+ * Changes the server rejects are dropped and reported through onReject.
+ *
+ * Updates are compare-and-set on the row's version. If another tab or
+ * device got there first, edits to untouched fields are re-sent on top of
+ * the new version; edits to the same fields become a conflict the user
+ * settles (lib/conflicts). Unsettled conflicts live in memory only.
+ * Batches (one request for many tasks, update_tasks_batch) are all or
+ * nothing: if any of their tasks has moved on, nothing is saved and each
+ * entry is reconciled the same way, then what's left of the batch is resent.
+ * Saved rows' new versions are handed back through onSaved.
+ *
+ * The last known task list is cached too, so the dashboard can paint before
+ * the first fetch completes. One outbox per user: with several tabs queuing
+ * changes offline, the last tab to write it wins. Both are wiped on sign-out
+ * (clearLocal), unsent changes included.
+ *
+ * Usage:
+ *   const sync = useTaskSync(userId, loading ? null : tasks, { onCache, onReject });
+ *   setTasks(p => [task, ...p]); sync.queueInsert(task);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type Task } from "../lib/supabaseClient";
+import {
+  applyOutbox, dropTask, enqueue, isAlreadyApplied, isNetworkError, nextDeferredAt, nextDue, rebase, syncStates,
+  taskIdsOf, type Mutation, type SyncState,
+} from "../lib/outbox";
+import { clearUser, readOutbox, readTasks, writeOutbox, writeTasks } from "../lib/taskCache";
+import { conflictingFields, resolveChanges, type TaskChanges, type TaskConflict } from "../lib/conflicts";
+
+const RETRY_MS = 30_000;
+/** What update_tasks_batch raises when a task's version has moved on. */
+const SERIALIZATION_FAILURE = "40001";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type TaskSyncOptions = {
+  /** The cached task list (queued changes applied), delivered before `ready`. */
+  onCache?: (tasks: Task[]) => void;
+  /** A queued change the server refused — local state should be refetched. */
+  onReject?: (mutation: Mutation<Task>, message: string) => void;
+  /** Rows an update or batch just saved — take their versions (applyVersions). */
+  onSaved?: (rows: Task[]) => void;
+};
+
+export type TaskSyncState = {
+  /** The stored outbox has loaded — fetch after this so it can be overlaid. */
+  ready: boolean;
+  /** False while the browser is offline or the last send couldn't connect. */
+  online: boolean;
+  pendingCount: number;
+  /** Tasks with queued changes; synced tasks are left out. */
+  syncByTask: Map<string, SyncState>;
+  queueInsert: (task: Task) => void;
+  /** `task` is the row as the user saw it before the edit. */
+  queueUpdate: (task: Task, changes: TaskChanges) => void;
+  /** Several updates sent as one all-or-nothing request. */
+  queueBatch: (updates: { task: Task; changes: TaskChanges }[]) => void;
+  /**
+   * Queues a delete. With a delay it's held back that long (an undo
+   * window) — returns the mutation id to pass to cancelQueued.
+   */
+  queueDelete: (taskId: string, delayMs?: number) => string;
+  /** Withdraws a queued mutation; false if it has already been sent. */
+  cancelQueued: (mutationId: string) => boolean;
+  /**
+   * Resolves once everything queued for a task has reached the server —
+   * true, or false if its insert was rejected. Rows that reference the
+   * task (tags, checklist items) must wait for this.
+   */
+  synced: (taskId: string) => Promise<boolean>;
+  /** Overlays queued changes on rows from the server (fetches, realtime). */
+  withPending: (rows: Task[]) => Task[];
+  /** Edits that clashed with another device's, oldest first. */
+  conflicts: TaskConflict[];
+  /**
+   * Settles a conflict with the chosen value per conflicting field and
+   * queues the result. Returns the task as it should now be shown.
+   */
+  settleConflict: (conflict: TaskConflict, picks: TaskChanges) => Task;
+  /** Stops syncing and deletes the stored cache and outbox — call before signing out. */
+  clearLocal: () => Promise<void>;
+};
+
+function send(mutation: Mutation<Task>, userId: string) {
+  if (mutation.kind === "batch") {
+    return supabase.rpc("update_tasks_batch", {
+      updates: mutation.updates.map((u) => ({ id: u.taskId, version: u.base, changes: u.changes })),
+    });
+  }
+  const tasks = supabase.from("tasks");
+  if (mutation.kind === "insert") return tasks.insert(mutation.row);
+  if (mutation.kind === "update") {
+    // Matches nothing if the row has moved on since the edit — see flush
+    return tasks.update(mutation.changes)
+      .eq("id", mutation.taskId).eq("user_id", userId).eq("version", mutation.base)
+      .select();
+  }
+  return tasks.delete().eq("id", mutation.taskId).eq("user_id", userId);
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useTaskSync(
+  userId: string | null,
+  tasks: Task[] | null,
+  options: TaskSyncOptions = {}
+): TaskSyncState {
+  const [outbox, setOutbox] = useState<Mutation<Task>[]>([]);
+  const [ready, setReady] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+
+  // The queue is read and rewritten inside async loops — keep it in a ref
+  const outboxRef = useRef(outbox);
+  const inFlightRef = useRef<string | null>(null);
+  const flushingRef = useRef(false);
+  const readyRef = useRef(false);
+  const waitersRef = useRef(new Map<string, ((ok: boolean) => void)[]>());
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const settle = useCallback((taskId: string, ok: boolean) => {
+    waitersRef.current.get(taskId)?.forEach((resolve) => resolve(ok));
+    waitersRef.current.delete(taskId);
+  }, []);
+
+  const save = useCallback(
+    (next: Mutation<Task>[]) => {
+      outboxRef.current = next;
+      setOutbox(next);
+      // Don't overwrite the stored outbox before it has been read
+      if (userId && readyRef.current) writeOutbox(userId, next);
+      for (const taskId of [...waitersRef.current.keys()]) {
+        if (!next.some((m) => taskIdsOf(m).includes(taskId))) settle(taskId, true);
+      }
+    },
+    [userId, settle]
+  );
+
+  // ─── Conflicts ──────────────────────────────────────────────────────────
+
+  /**
+   * reconcile — handles an update whose base version is stale. Later queued
+   * edits to the same task are folded in; non-overlapping edits are rebased
+   * and left queued, overlapping ones become a conflict. Resolves to false
+   * if the server couldn't be reached.
+   */
+  const reconcile = useCallback(
+    async (current: Extract<Mutation<Task>, { kind: "update" }>) => {
+      const { data: theirs, error, status } = await supabase
+        .from("tasks").select("*").eq("id", current.taskId).maybeSingle();
+      if (error && isNetworkError(error, status)) {
+        setOnline(false);
+        return false;
+      }
+
+      // Edits queued behind a batch on this task stay behind it (the batch
+      // is rebased once this edit lands)
+      const outbox = outboxRef.current;
+      const cut = outbox.findIndex((m) => m.kind === "batch" && taskIdsOf(m).includes(current.taskId));
+      const queued = outbox.filter((m, i) =>
+        m.kind !== "batch" && m.taskId === current.taskId && (cut === -1 || i < cut));
+      const rest = outbox.filter((m) => !queued.includes(m));
+      // A delete is queued anyway — the edit doesn't matter
+      if (queued.some((m) => m.kind === "delete")) {
+        save(outboxRef.current.filter((m) => m.id !== current.id));
+        return true;
+      }
+      if (error || !theirs) {
+        settle(current.taskId, false);
+        save(dropTask(outboxRef.current, current.taskId));
+        optionsRef.current.onReject?.(current, error?.message ?? "The task was deleted on another device");
+        return true;
+      }
+
+      let changes: TaskChanges = {};
+      let original: TaskChanges = {};
+      for (const m of queued) {
+        if (m.kind !== "update") continue;
+        changes = { ...changes, ...m.changes };
+        original = { ...m.original, ...original };
+      }
+      const fields = conflictingFields(original, changes, theirs);
+      if (fields.length === 0) {
+        save([{ ...current, changes, original, base: theirs.version }, ...rest]);
+      } else {
+        save(rest);
+        setConflicts((prev) => [...prev.filter((c) => c.theirs.id !== theirs.id), { theirs, changes, fields }]);
+      }
+      return true;
+    },
+    [save, settle]
+  );
+
+  /**
+   * reconcileBatch — handles a batch the server refused because one of its
+   * tasks had moved on. Entries are checked against the rows as they are
+   * now: untouched ones are rebased, clashing ones become conflicts (with
+   * the task's edits queued behind the batch), and entries for deleted
+   * tasks are dropped. What's left stays queued to be sent again. Resolves
+   * to false if the server couldn't be reached.
+   */
+  const reconcileBatch = useCallback(
+    async (current: Extract<Mutation<Task>, { kind: "batch" }>, message: string) => {
+      const { data, error, status } = await supabase.from("tasks").select("*").in("id", taskIdsOf(current));
+      if (error && isNetworkError(error, status)) {
+        setOnline(false);
+        return false;
+      }
+      const rows = new Map(((data ?? []) as Task[]).map((row) => [row.id, row]));
+      const stale = current.updates.filter((u) => rows.get(u.taskId)?.version !== u.base);
+      // Nothing has moved on after all — the batch was refused for another reason
+      if (error || stale.length === 0) {
+        taskIdsOf(current).forEach((taskId) => settle(taskId, false));
+        save(outboxRef.current.filter((m) => m.id !== current.id));
+        optionsRef.current.onReject?.(current, error?.message ?? message);
+        return true;
+      }
+
+      let outbox = outboxRef.current;
+      const clashes: TaskConflict[] = [];
+      let updates = current.updates;
+      for (const entry of stale) {
+        const theirs = rows.get(entry.taskId);
+        // Single edits queued behind the batch, up to the next batch on this task
+        const after = outbox.slice(outbox.findIndex((m) => m.id === current.id) + 1);
+        const cut = after.findIndex((m) => m.kind === "batch" && taskIdsOf(m).includes(entry.taskId));
+        const queued = (cut === -1 ? after : after.slice(0, cut))
+          .filter((m) => m.kind !== "batch" && m.taskId === entry.taskId);
+
+        if (!theirs) {
+          settle(entry.taskId, false);
+          updates = updates.filter((u) => u !== entry);
+          outbox = dropTask(outbox, entry.taskId, current.id);
+          optionsRef.current.onReject?.(
+            { ...current, updates: [entry] },
+            "The task was deleted on another device"
+          );
+          continue;
+        }
+        // A delete is queued anyway — the edit doesn't matter
+        if (queued.some((m) => m.kind === "delete")) {
+          updates = updates.filter((u) => u !== entry);
+          continue;
+        }
+
+        let changes = entry.changes;
+        let original = entry.original;
+        for (const m of queued) {
+          if (m.kind !== "update") continue;
+          changes = { ...changes, ...m.changes };
+          original = { ...m.original, ...original };
+        }
+        const fields = conflictingFields(original, changes, theirs);
+        if (fields.length === 0) {
+          updates = updates.map((u) => (u === entry ? { ...u, base: theirs.version } : u));
+        } else {
+          updates = updates.filter((u) => u !== entry);
+          outbox = outbox.filter((m) => !queued.includes(m));
+          clashes.push({ theirs, changes, fields });
+        }
+      }
+
+      save(outbox.flatMap((m): Mutation<Task>[] => {
+        if (m.id !== current.id) return [m];
+        // Tasks deleted while the rows were being fetched have left the batch
+        const kept = updates.filter((u) => taskIdsOf(m).includes(u.taskId));
+        return kept.length ? [{ ...current, updates: kept }] : [];
+      }));
+      if (clashes.length) {
+        const ids = new Set(clashes.map((c) => c.theirs.id));
+        setConflicts((prev) => [...prev.filter((c) => !ids.has(c.theirs.id)), ...clashes]);
+      }
+      return true;
+    },
+    [save, settle]
+  );
+
+  // ─── Flush ──────────────────────────────────────────────────────────────
+
+  /**
+   * flush — sends queued mutations oldest first until the queue is empty
+   * or the server can't be reached. Only one flush runs at a time.
+   */
+  const flush = useCallback(async () => {
+    if (!userId || flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      let mutation: Mutation<Task> | undefined;
+      while ((mutation = nextDue(outboxRef.current, Date.now()))) {
+        const current = mutation;
+        inFlightRef.current = current.id;
+        const { data, error, status } = await send(current, userId);
+        inFlightRef.current = null;
+
+        if (error && isNetworkError(error, status)) {
+          setOnline(false);
+          break;
+        }
+        setOnline(true);
+
+        if (!error && current.kind === "update" && data?.length === 0) {
+          // Stale version: compare with the row as it is now
+          if (!(await reconcile(current))) break;
+        } else if (error && current.kind === "batch" && error.code === SERIALIZATION_FAILURE) {
+          // One of the batch's tasks has moved on (018) — nothing was saved
+          if (!(await reconcileBatch(current, error.message))) break;
+        } else if (error && !isAlreadyApplied(current, error)) {
+          // Later edits to a task that was never created can't succeed either
+          taskIdsOf(current).forEach((taskId) => settle(taskId, false));
+          save(current.kind === "insert"
+            ? dropTask(outboxRef.current, current.taskId)
+            : outboxRef.current.filter((m) => m.id !== current.id));
+          optionsRef.current.onReject?.(current, error.message);
+        } else {
+          // Edits queued behind this one are based on the version it produced
+          let next = outboxRef.current.filter((m) => m.id !== current.id);
+          if (current.kind === "update" || current.kind === "batch") {
+            const rows = (data ?? []) as Task[];
+            for (const row of rows) next = rebase(next, row.id, row.version);
+            if (rows.length) optionsRef.current.onSaved?.(rows);
+          }
+          save(next);
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [userId, save, settle, reconcile, reconcileBatch]);
+
+  // ─── Load the outbox and cache ──────────────────────────────────────────
+
+  useEffect(() => {
+    readyRef.current = false;
+    outboxRef.current = [];
+    setReady(false);
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      const stored = (await readOutbox(userId)) ?? [];
+      const cached = await readTasks(userId);
+      if (cancelled) return;
+      readyRef.current = true;
+      // Anything queued while loading goes after what was already stored
+      save(outboxRef.current.reduce((queue, m) => enqueue(queue, m), stored));
+      if (cached) optionsRef.current.onCache?.(applyOutbox(cached, outboxRef.current));
+      setReady(true);
+      flush();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, save, flush]);
+
+  // Keep the cache current once the list is known. The ref, not `ready`:
+  // right after a user switch `tasks` still holds the previous user's list
+  useEffect(() => {
+    if (userId && ready && readyRef.current && tasks) writeTasks(userId, tasks);
+  }, [userId, ready, tasks]);
+
+  // ─── Connectivity ───────────────────────────────────────────────────────
+
+  useEffect(() => {
+    function handleOnline() {
+      setOnline(true);
+      flush();
+    }
+    function handleOffline() {
+      setOnline(false);
+    }
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [flush]);
+
+  // navigator.onLine can't see a server that's down — keep retrying
+  const hasPending = outbox.length > 0;
+  useEffect(() => {
+    if (!hasPending || !ready) return;
+    const iv = setInterval(flush, RETRY_MS);
+    return () => clearInterval(iv);
+  }, [hasPending, ready, flush]);
+
+  // Send deferred deletes once their undo window has passed
+  const deferredAt = nextDeferredAt(outbox);
+  useEffect(() => {
+    if (deferredAt === null || !ready) return;
+    const timeout = setTimeout(flush, Math.max(0, deferredAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [deferredAt, ready, flush]);
+
+  // ─── Queue ──────────────────────────────────────────────────────────────
+
+  const queue = useCallback(
+    (mutation: Mutation<Task>) => {
+      save(enqueue(outboxRef.current, mutation, inFlightRef.current));
+      // Before the stored outbox has loaded, the load effect flushes instead
+      if (readyRef.current) flush();
+    },
+    [save, flush]
+  );
+
+  const queueInsert = useCallback(
+    (task: Task) => queue({ id: crypto.randomUUID(), kind: "insert", taskId: task.id, row: task }),
+    [queue]
+  );
+
+  const queueUpdate = useCallback(
+    (task: Task, changes: TaskChanges) => {
+      const original: TaskChanges = Object.fromEntries(
+        Object.keys(changes).map((field) => [field, task[field as keyof Task]])
+      );
+      queue({ id: crypto.randomUUID(), kind: "update", taskId: task.id, changes, base: task.version, original });
+    },
+    [queue]
+  );
+
+  const queueBatch = useCallback(
+    (updates: { task: Task; changes: TaskChanges }[]) => {
+      if (updates.length === 0) return;
+      queue({
+        id: crypto.randomUUID(),
+        kind: "batch",
+        updates: updates.map(({ task, changes }) => ({
+          taskId: task.id,
+          changes,
+          base: task.version,
+          original: Object.fromEntries(Object.keys(changes).map((field) => [field, task[field as keyof Task]])),
+        })),
+      });
+    },
+    [queue]
+  );
+
+  const queueDelete = useCallback(
+    (taskId: string, delayMs = 0) => {
+      const id = crypto.randomUUID();
+      queue({ id, kind: "delete", taskId, notBefore: delayMs > 0 ? Date.now() + delayMs : undefined });
+      return id;
+    },
+    [queue]
+  );
+
+  const cancelQueued = useCallback(
+    (mutationId: string) => {
+      if (inFlightRef.current === mutationId) return false;
+      if (!outboxRef.current.some((m) => m.id === mutationId)) return false;
+      save(outboxRef.current.filter((m) => m.id !== mutationId));
+      return true;
+    },
+    [save]
+  );
+
+  const synced = useCallback((taskId: string) => {
+    if (!outboxRef.current.some((m) => taskIdsOf(m).includes(taskId))) return Promise.resolve(true);
+    return new Promise<boolean>((resolve) => {
+      const waiters = waitersRef.current;
+      waiters.set(taskId, [...(waiters.get(taskId) ?? []), resolve]);
+    });
+  }, []);
+
+  const withPending = useCallback((rows: Task[]) => applyOutbox(rows, outboxRef.current), []);
+
+  const settleConflict = useCallback(
+    (conflict: TaskConflict, picks: TaskChanges) => {
+      const changes = resolveChanges(conflict, picks);
+      setConflicts((prev) => prev.filter((c) => c !== conflict));
+      if (Object.keys(changes).length > 0) queueUpdate(conflict.theirs, changes);
+      return { ...conflict.theirs, ...changes };
+    },
+    [queueUpdate]
+  );
+
+  const clearLocal = useCallback(async () => {
+    if (!userId) return;
+    // Nothing is written back from here on, even by a send still in flight
+    readyRef.current = false;
+    save([]);
+    setConflicts([]);
+    await clearUser(userId);
+  }, [userId, save]);
+
+  return {
+    ready,
+    online,
+    pendingCount: outbox.length,
+    syncByTask: syncStates(outbox),
+    queueInsert,
+    queueUpdate,
+    queueBatch,
+    queueDelete,
+    cancelQueued,
+    synced,
+    withPending,
+    conflicts,
+    settleConflict,
+    clearLocal,
+  };
+}
@@ -1,16 +1,29 @@
 /**
  * useTasks.ts
  * Central hook for all task state: fetching, realtime subscriptions,
- * CRUD operations with optimistic UI, and streak computation.
+ * CRUD operations with optimistic UI, manual ordering, checklists and
+ * streak computation. Writes go through the offline outbox (useTaskSync),
+ * so they survive a lost connection and the cached list shows instantly.
+ * Deleted tasks go to the Trash and archived ones leave the list — see
+ * lib/trash.
  *
  * Usage:
- *   const { tasks, streak, loading, error, addTask, updateTask, deleteTask, toggleComplete } = useTasks(userId);
+ *   const { tasks, streak, loading, error, addTask, updateTask, deleteTask, toggleComplete } = useTasks(userId, { timeZone });
  */
 
 
-import { useCallback, useEffect, useRef, useState } from "react";
-import { supabase, type Task } from "../lib/supabaseClient";
-import { computeStreak, filterCompleted } from "../lib/streak";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase, type ChecklistItem, type Task } from "../lib/supabaseClient";
+import { computeStreak, filterCompleted, toLocalDateStr, type StreakOptions } from "../lib/streak";
+import { firstOccurrence, nextOccurrenceTask, type RecurrenceRule } from "../lib/recurrence";
+import { shouldAutoComplete } from "../lib/checklist";
+import { statusUpdate } from "../lib/board";
+import { applyPositions, topPosition, type PositionUpdate } from "../lib/ordering";
+import { isNetworkError, type SyncState } from "../lib/outbox";
+import { applyVersions, type TaskChanges, type TaskConflict } from "../lib/conflicts";
+import { byStamp, expiredTrash, isTrashed, splitTasks } from "../lib/trash";
+import { useTaskItems } from "./useTaskItems";
+import { useTaskSync } from "./useTaskSync";
 
 // ─── Types ────────────────────────────────────────────────────────────────
 
@@ -19,28 +32,86 @@ export type NewTask = {
   description?: string;
   priority?: Task["priority"];
   due_date?: string | null;
+  project_id?: string | null;
+  recurrence?: RecurrenceRule | null;
+  estimated_minutes?: number | null;
+  /** Existing series to continue — a new one is started if omitted. */
+  series_id?: string | null;
 };
 
 export type TasksState = {
+  /** The task list: neither archived nor in the Trash. */
   tasks: Task[];
+  /** Archived (completed) tasks, most recently archived first. */
+  archived: Task[];
+  /** Tasks in the Trash, most recently deleted first. */
+  trash: Task[];
   streak: number;
   loading: boolean;
+  /** Loading the list failed. */
   error: string | null;
-  addTask: (task: NewTask) => Promise<void>;
+  /** The last change the server refused (the list is refetched after it). */
+  mutationError: string | null;
+  /** Changes waiting to reach the server. */
+  pendingCount: number;
+  online: boolean;
+  /** Tasks with unsynced changes, by id. */
+  syncByTask: Map<string, SyncState>;
+  /** Edits that clashed with another tab or device, waiting for the user. */
+  conflicts: TaskConflict[];
+  resolveConflict: (conflict: TaskConflict, picks: TaskChanges) => void;
+  /** Resolves to the created task (queued for sync), or null when signed out. */
+  addTask: (task: NewTask) => Promise<Task | null>;
   updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
+  /** Updates several tasks in one all-or-nothing request (batch actions). */
+  updateTasks: (updates: { id: string; changes: Partial<Task> }[]) => Promise<void>;
+  /** Moves a task to the Trash. */
   deleteTask: (id: string) => Promise<void>;
+  restoreTask: (id: string) => Promise<void>;
+  /** Deletes a trashed task for good. */
+  purgeTask: (id: string) => Promise<void>;
+  /** Hides completed tasks from the list (they still count). */
+  archiveTasks: (ids: string[]) => Promise<void>;
+  unarchiveTask: (id: string) => Promise<void>;
   toggleComplete: (task: Task) => Promise<void>;
+  /** Moves a task between todo / inprogress / done (the Board view). */
+  setStatus: (task: Task, status: Task["status"]) => Promise<void>;
+  /** Writes new positions (from lib/ordering's moveUpdates) optimistically. */
+  reorderTasks: (updates: PositionUpdate[]) => Promise<void>;
+  /** Checklist items per task id, kept in sync by realtime. */
+  itemsByTask: Map<string, ChecklistItem[]>;
+  addItem: (taskId: string, title: string) => Promise<void>;
+  /** Toggles an item; completes the task if that finishes an auto-complete checklist. */
+  toggleItem: (item: ChecklistItem) => Promise<void>;
+  deleteItem: (id: string) => Promise<void>;
 };
 
 // ─── Hook ─────────────────────────────────────────────────────────────────
 
-export function useTasks(userId: string | null): TasksState {
+export function useTasks(
+  userId: string | null,
+  streakOptions: StreakOptions = {}
+): TasksState {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [mutationError, setMutationError] = useState<string | null>(null);
+
+  // Every row is kept in state (realtime UPDATEs move tasks between views
+  // by their stamps); the views are derived
+  const { active, archived, trash } = useMemo(() => {
+    const split = splitTasks(tasks);
+    return {
+      active: split.active,
+      archived: byStamp(split.archived, "archived_at"),
+      trash: byStamp(split.trash, "deleted_at"),
+    };
+  }, [tasks]);
 
-  // Compute streak from current tasks (memoised inline — cheap)
-  const streak = computeStreak(filterCompleted(tasks));
+  // Compute streak from current tasks (memoised inline — cheap). Archived
+  // tasks still count; trashed ones don't
+  const streak = computeStreak(filterCompleted(tasks.filter((t) => !isTrashed(t))), new Date(), streakOptions);
+  const timeZone = streakOptions.timeZone ?? "UTC";
 
   // Keep a ref to tasks for use inside realtime callbacks without stale closure
   const tasksRef = useRef(tasks);
@@ -48,6 +119,28 @@ export function useTasks(userId: string | null): TasksState {
     tasksRef.current = tasks;
   }, [tasks]);
 
+  // ─── Offline sync ───────────────────────────────────────────────────────
+
+  // A list is on screen (cached or fetched) — offline refetches stay quiet
+  const shownRef = useRef(false);
+  const fetchTasksRef = useRef<() => void>(() => {});
+  const {
+    ready: syncReady, online, pendingCount, syncByTask, withPending, queueInsert, queueUpdate, queueBatch, queueDelete,
+    conflicts, settleConflict,
+  } = useTaskSync(userId, loading ? null : tasks, {
+    onCache: (cached) => {
+      shownRef.current = true;
+      setTasks(cached);
+      setLoading(false);
+    },
+    onReject: (_mutation, message) => {
+      setMutationError(message);
+      fetchTasksRef.current();
+    },
+    // The next edit is compared against these, even without a realtime echo
+    onSaved: (rows) => setTasks((prev) => applyVersions(prev, rows)),
+  });
+
   // ─── Initial fetch ──────────────────────────────────────────────────────
 
   const fetchTasks = useCallback(async () => {
@@ -56,26 +149,36 @@ export function useTasks(userId: string | null): TasksState {
       setLoading(false);
       return;
     }
-    setLoading(true);
+    if (!shownRef.current) setLoading(true);
     setError(null);
-    const { data, error: fetchError } = await supabase
+    const { data, error: fetchError, status } = await supabase
       .from("tasks")
       .select("*")
       .eq("user_id", userId)
-      .order("created_at", { ascending: false });
+      .order("position", { ascending: true });
 
     if (fetchError) {
-      setError(fetchError.message);
+      if (!shownRef.current || !isNetworkError(fetchError, status)) setError(fetchError.message);
     } else {
-      setTasks(data ?? []);
+      shownRef.current = true;
+      // Purge what has sat in the Trash too long (the server job may be off)
+      const rows = withPending(data ?? []);
+      const expired = new Set(expiredTrash(rows, new Date()).map((t) => t.id));
+      for (const id of expired) queueDelete(id);
+      setTasks(rows.filter((t) => !expired.has(t.id)));
     }
     setLoading(false);
-  }, [userId]);
+  }, [userId, withPending, queueDelete]);
 
   useEffect(() => {
-    fetchTasks();
+    fetchTasksRef.current = fetchTasks;
   }, [fetchTasks]);
 
+  // Wait for the outbox so queued changes are overlaid; refetch on reconnect
+  useEffect(() => {
+    if (!userId || syncReady) fetchTasks();
+  }, [fetchTasks, userId, syncReady, online]);
+
   // ─── Realtime subscription ──────────────────────────────────────────────
 
   useEffect(() => {
@@ -100,9 +203,10 @@ export function useTasks(userId: string | null): TasksState {
               return [newTask, ...prev];
             });
           } else if (payload.eventType === "UPDATE") {
+            // Changes still queued here must not be snapped back by an echo
             const updated = payload.new as Task;
             setTasks((prev) =>
-              prev.map((t) => (t.id === updated.id ? updated : t))
+              withPending(prev.map((t) => (t.id === updated.id ? updated : t)))
             );
           } else if (payload.eventType === "DELETE") {
             const deleted = payload.old as { id: string };
@@ -122,60 +226,54 @@ export function useTasks(userId: string | null): TasksState {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [userId, fetchTasks]);
+  }, [userId, fetchTasks, withPending]);
 
   // ─── CRUD operations ────────────────────────────────────────────────────
 
   /**
    * addTask — optimistic insert.
-   * Creates a temp task with a fake ID, replaces on server confirmation
-   * (or rolls back on error).
+   * The task gets its final (client-generated) id straight away and is
+   * queued for the server. New tasks go to the top of the list. A
+   * recurring task without a due date is due on its first occurrence.
    */
   const addTask = useCallback(
     async (newTask: NewTask) => {
-      if (!userId) return;
+      if (!userId) return null;
 
-      const tempId = `temp-${Date.now()}`;
-      const optimistic: Task = {
-        id: tempId,
+      const recurrence = newTask.recurrence ?? null;
+      const seriesId = recurrence ? newTask.series_id ?? crypto.randomUUID() : null;
+      const dueDate = newTask.due_date
+        ?? (recurrence ? firstOccurrence(recurrence, toLocalDateStr(new Date(), timeZone)) : null);
+      const now = new Date().toISOString();
+
+      const task: Task = {
+        id: crypto.randomUUID(),
         user_id: userId,
         title: newTask.title,
         description: newTask.description ?? null,
         status: "todo",
         priority: newTask.priority ?? "medium",
-        due_date: newTask.due_date ?? null,
+        due_date: dueDate,
+        start_date: null,
+        project_id: newTask.project_id ?? null,
+        recurrence,
+        series_id: seriesId,
+        auto_complete: false,
+        position: topPosition(tasksRef.current),
+        estimated_minutes: newTask.estimated_minutes ?? null,
         completed_at: null,
-        created_at: new Date().toISOString(),
+        created_at: now,
+        version: 1,
+        updated_at: now,
+        deleted_at: null,
+        archived_at: null,
       };
 
-      // Optimistically add to state
-      setTasks((prev) => [optimistic, ...prev]);
-
-      const { data, error: insertError } = await supabase
-        .from("tasks")
-        .insert({
-          user_id: userId,
-          title: newTask.title,
-          description: newTask.description ?? null,
-          status: "todo",
-          priority: newTask.priority ?? "medium",
-          due_date: newTask.due_date ?? null,
-          completed_at: null,
-        })
-        .select()
-        .single();
-
-      if (insertError || !data) {
-        // Rollback
-        setTasks((prev) => prev.filter((t) => t.id !== tempId));
-        setError(insertError?.message ?? "Failed to add task");
-        return;
-      }
-
-      // Replace temp with real task (realtime may also fire, deduplication handles it)
-      setTasks((prev) => prev.map((t) => (t.id === tempId ? data : t)));
+      setTasks((prev) => [task, ...prev]);
+      queueInsert(task);
+      return task;
     },
-    [userId]
+    [userId, timeZone, queueInsert]
   );
 
   /**
@@ -185,78 +283,171 @@ export function useTasks(userId: string | null): TasksState {
     async (id: string, updates: Partial<Task>) => {
       const previous = tasksRef.current.find((t) => t.id === id);
       if (!previous) return;
-
-      // Optimistic update
       setTasks((prev) =>
         prev.map((t) => (t.id === id ? { ...t, ...updates } : t))
       );
+      // Compare-and-set against the version this edit was made on
+      queueUpdate(previous, updates);
+    },
+    [queueUpdate]
+  );
 
-      const { error: updateError } = await supabase
-        .from("tasks")
-        .update(updates)
-        .eq("id", id)
-        .eq("user_id", userId!);
-
-      if (updateError) {
-        // Rollback
-        setTasks((prev) =>
-          prev.map((t) => (t.id === id ? previous : t))
-        );
-        setError(updateError.message);
+  /**
+   * updateTasks — optimistic batch update, sent as one request. Tasks
+   * changed elsewhere meanwhile are reconciled like single edits; if the
+   * server refuses it outright, the refetch rolls every task in it back.
+   */
+  const updateTasks = useCallback(
+    async (updates: { id: string; changes: Partial<Task> }[]) => {
+      const byId = new Map(updates.map((u) => [u.id, u.changes]));
+      const batch = tasksRef.current
+        .filter((t) => byId.has(t.id))
+        .map((task) => ({ task, changes: byId.get(task.id)! }));
+      if (batch.length === 0) return;
+      setTasks((prev) => prev.map((t) => (byId.has(t.id) ? { ...t, ...byId.get(t.id) } : t)));
+      queueBatch(batch);
+    },
+    [queueBatch]
+  );
+
+  /**
+   * reorderTasks — optimistic position writes, one queued update per task.
+   */
+  const reorderTasks = useCallback(
+    async (updates: PositionUpdate[]) => {
+      if (updates.length === 0) return;
+      const byId = new Map(tasksRef.current.map((t) => [t.id, t]));
+      setTasks((prev) => applyPositions(prev, updates));
+      for (const u of updates) {
+        const previous = byId.get(u.id);
+        if (previous) queueUpdate(previous, { position: u.position });
       }
     },
-    [userId]
+    [queueUpdate]
   );
 
   /**
-   * deleteTask — optimistic delete.
+   * deleteTask — moves a task to the Trash (a soft delete).
    */
   const deleteTask = useCallback(
-    async (id: string) => {
-      const previous = tasksRef.current.find((t) => t.id === id);
-      if (!previous) return;
+    (id: string) => updateTask(id, { deleted_at: new Date().toISOString() }),
+    [updateTask]
+  );
+
+  /**
+   * restoreTask — takes a task back out of the Trash.
+   */
+  const restoreTask = useCallback(
+    (id: string) => updateTask(id, { deleted_at: null }),
+    [updateTask]
+  );
 
-      // Optimistic remove
+  /**
+   * purgeTask — optimistic hard delete of a trashed task.
+   */
+  const purgeTask = useCallback(
+    async (id: string) => {
+      if (!tasksRef.current.some((t) => t.id === id)) return;
       setTasks((prev) => prev.filter((t) => t.id !== id));
+      queueDelete(id);
+    },
+    [queueDelete]
+  );
 
-      const { error: deleteError } = await supabase
-        .from("tasks")
-        .delete()
-        .eq("id", id)
-        .eq("user_id", userId!);
+  /**
+   * archiveTasks — stamps archived_at on each task, hiding it from the list.
+   */
+  const archiveTasks = useCallback(
+    async (ids: string[]) => {
+      const now = new Date().toISOString();
+      for (const id of ids) await updateTask(id, { archived_at: now });
+    },
+    [updateTask]
+  );
 
-      if (deleteError) {
-        // Rollback
-        setTasks((prev) => [previous, ...prev]);
-        setError(deleteError.message);
-      }
+  const unarchiveTask = useCallback(
+    (id: string) => updateTask(id, { archived_at: null }),
+    [updateTask]
+  );
+
+  /**
+   * resolveConflict — settles an edit that clashed with another device's
+   * (picks: the value kept for each conflicting field) and shows the result.
+   */
+  const resolveConflict = useCallback(
+    (conflict: TaskConflict, picks: TaskChanges) => {
+      const task = settleConflict(conflict, picks);
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
     },
-    [userId]
+    [settleConflict]
   );
 
   /**
-   * toggleComplete — flip a task between todo/done with correct completed_at.
+   * setStatus — move a task to any status with correct completed_at.
+   * Completing a recurring occurrence also creates the next one.
    */
-  const toggleComplete = useCallback(
-    async (task: Task) => {
-      const isDone = task.status === "done";
-      const updates: Partial<Task> = {
-        status: isDone ? "todo" : "done",
-        completed_at: isDone ? null : new Date().toISOString(),
-      };
+  const setStatus = useCallback(
+    async (task: Task, status: Task["status"]) => {
+      const updates = statusUpdate(task, status, new Date());
+      if (!updates) return;
       await updateTask(task.id, updates);
+      if (status !== "done") return;
+
+      const today = toLocalDateStr(new Date(), timeZone);
+      const next = nextOccurrenceTask(task, tasksRef.current.filter((t) => !isTrashed(t)), today);
+      if (next) await addTask({ ...next, description: next.description ?? undefined });
     },
-    [updateTask]
+    [updateTask, addTask, timeZone]
+  );
+
+  /**
+   * toggleComplete — flip a task between open and done.
+   */
+  const toggleComplete = useCallback(
+    (task: Task) => setStatus(task, task.status === "done" ? "todo" : "done"),
+    [setStatus]
+  );
+
+  // ─── Checklists ─────────────────────────────────────────────────────────
+
+  const { itemsByTask, addItem, toggleItem: toggleChecklistItem, deleteItem } = useTaskItems(userId);
+
+  const toggleItem = useCallback(
+    async (item: ChecklistItem) => {
+      const items = await toggleChecklistItem(item);
+      const task = tasksRef.current.find((t) => t.id === item.task_id);
+      if (items && task && shouldAutoComplete(task, items)) await toggleComplete(task);
+    },
+    [toggleChecklistItem, toggleComplete]
   );
 
   return {
-    tasks,
+    tasks: active,
+    archived,
+    trash,
     streak,
     loading,
     error,
+    mutationError,
+    pendingCount,
+    online,
+    syncByTask,
+    conflicts,
+    resolveConflict,
     addTask,
     updateTask,
+    updateTasks,
     deleteTask,
+    restoreTask,
+    purgeTask,
+    archiveTasks,
+    unarchiveTask,
     toggleComplete,
+    setStatus,
+    reorderTasks,
+    itemsByTask,
+    addItem,
+    toggleItem,
+    deleteItem,
   };
 }
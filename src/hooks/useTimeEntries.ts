@@ -0,0 +1,190 @@
+/**
+ * useTimeEntries.ts
+ * The user's task timers: every time entry, the running one (persisted as
+ * the row with no end, so it survives reloads and syncs across tabs), and
+ * start / stop with optimistic UI.
+ *
+ * Usage:
+ *   const { entries, running, startTimer, stopTimer } = useTimeEntries(userId);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type TimeEntry } from "../lib/supabaseClient";
+import { runningEntry } from "../lib/timeTracking";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type TimeEntriesState = {
+  entries: TimeEntry[];
+  /** The running timer, if any — at most one per user. */
+  running: TimeEntry | null;
+  loading: boolean;
+  error: string | null;
+  /** Starts timing a task, stopping whatever was running first. */
+  startTimer: (taskId: string) => Promise<void>;
+  stopTimer: () => Promise<void>;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useTimeEntries(userId: string | null): TimeEntriesState {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const entriesRef = useRef(entries);
+  useEffect(() => {
+    entriesRef.current = entries;
+  }, [entries]);
+
+  // Inserts still in flight, by entry id — resolves to whether it landed
+  const pendingStartsRef = useRef(new Map<string, Promise<boolean>>());
+
+  // ─── Initial fetch ──────────────────────────────────────────────────────
+
+  const fetchEntries = useCallback(async () => {
+    if (!userId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("time_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .order("started_at", { ascending: false });
+
+    if (fetchError) setError(fetchError.message);
+    else setEntries(data ?? []);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // ─── Realtime subscription ──────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`time_entries:user:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "time_entries",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const created = payload.new as TimeEntry;
+            setEntries((prev) =>
+              prev.some((e) => e.id === created.id) ? prev : [created, ...prev]
+            );
+          } else if (payload.eventType === "UPDATE") {
+            const updated = payload.new as TimeEntry;
+            setEntries((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+          } else if (payload.eventType === "DELETE") {
+            const deleted = payload.old as { id: string };
+            setEntries((prev) => prev.filter((e) => e.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // ─── Start / stop ───────────────────────────────────────────────────────
+
+  /**
+   * stopTimer — optimistically ends the running entry now. If its insert is
+   * still in flight the update waits for it, so the row can't be left open.
+   */
+  const stopTimer = useCallback(async () => {
+    const current = runningEntry(entriesRef.current);
+    if (!current) return;
+    const ended_at = new Date().toISOString();
+
+    setEntries((prev) => prev.map((e) => (e.id === current.id ? { ...e, ended_at } : e)));
+
+    const pending = pendingStartsRef.current.get(current.id);
+    if (pending && !(await pending)) return;
+
+    const { error: updateError } = await supabase
+      .from("time_entries")
+      .update({ ended_at })
+      .eq("id", current.id)
+      .eq("user_id", userId!);
+
+    if (updateError) {
+      setEntries((prev) => prev.map((e) => (e.id === current.id ? current : e)));
+      setError(updateError.message);
+    }
+  }, [userId]);
+
+  /**
+   * startTimer — stops the running entry, then optimistically inserts a
+   * new one for the task. The DB allows one running entry per user, so an
+   * insert racing another tab fails and is rolled back.
+   */
+  const startTimer = useCallback(
+    async (taskId: string) => {
+      if (!userId) return;
+      const current = runningEntry(entriesRef.current);
+      if (current?.task_id === taskId) return;
+      if (current) await stopTimer();
+
+      const id = crypto.randomUUID();
+      const started_at = new Date().toISOString();
+      const optimistic: TimeEntry = {
+        id,
+        user_id: userId,
+        task_id: taskId,
+        started_at,
+        ended_at: null,
+        created_at: started_at,
+      };
+      setEntries((prev) => [optimistic, ...prev]);
+
+      // Promise.resolve runs the query once — each `then` on the builder refetches
+      const insert = Promise.resolve(
+        supabase
+          .from("time_entries")
+          .insert({ id, user_id: userId, task_id: taskId, started_at })
+          .select()
+          .single()
+      );
+      const landed = insert.then(({ data, error }) => !error && !!data);
+      pendingStartsRef.current.set(id, landed);
+      const { data, error: insertError } = await insert;
+      pendingStartsRef.current.delete(id);
+
+      if (insertError || !data) {
+        setEntries((prev) => prev.filter((e) => e.id !== id));
+        setError(insertError?.message ?? "Failed to start the timer");
+        return;
+      }
+
+      // Keep a stop made while the insert was in flight (it's sent separately)
+      setEntries((prev) => prev.map((e) => (e.id === id ? { ...data, ended_at: e.ended_at ?? data.ended_at } : e)));
+    },
+    [userId, stopTimer]
+  );
+
+  return {
+    entries,
+    running: runningEntry(entries),
+    loading,
+    error,
+    startTimer,
+    stopTimer,
+  };
+}
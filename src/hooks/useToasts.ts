@@ -0,0 +1,53 @@
+/**
+ * useToasts.ts
+ * State for the toast stack (components/Toasts): showing notices, with an
+ * optional Undo, and dismissing them.
+ *
+ * Usage:
+ *   const { toasts, showToast, dismissToast } = useToasts();
+ *   showToast({ kind: "info", message: "Task deleted", onUndo: restore });
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { pushToast, type NewToast, type Toast } from "../lib/toasts";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type ToastsState = {
+  toasts: Toast[];
+  /** Returns the toast's id. */
+  showToast: (toast: NewToast) => string;
+  dismissToast: (id: string) => void;
+};
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useToasts(): ToastsState {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const showToast = useCallback((toast: NewToast) => {
+    const id = crypto.randomUUID();
+    setToasts((prev) => pushToast(prev, toast, id));
+    return id;
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return {
+    toasts,
+    showToast,
+    dismissToast,
+  };
+}
+
+/**
+ * useErrorToast — shows a hook's `error` as an error toast whenever it
+ * changes to a new message.
+ */
+export function useErrorToast(error: string | null, showToast: ToastsState["showToast"]) {
+  useEffect(() => {
+    if (error) showToast({ kind: "error", message: error });
+  }, [error, showToast]);
+}
@@ -0,0 +1,128 @@
+/**
+ * useUserSettings.ts
+ * Loads (or lazily creates) the signed-in user's settings row and exposes
+ * an optimistic updater.
+ *
+ * Usage:
+ *   const { settings, timeZone, policy, updateSettings } = useUserSettings(userId);
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase, type UserSettings } from "../lib/supabaseClient";
+import { detectTimeZone, STREAK_POLICIES, type StreakPolicy } from "../lib/streak";
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type SettingsUpdate = Partial<Omit<UserSettings, "user_id" | "created_at" | "updated_at">>;
+
+export type UserSettingsState = {
+  settings: UserSettings | null;
+  /** The user's timezone — falls back to the browser's until settings load. */
+  timeZone: string;
+  /** The user's streak rules — strict until settings load. */
+  policy: StreakPolicy;
+  loading: boolean;
+  error: string | null;
+  updateSettings: (updates: SettingsUpdate) => Promise<void>;
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+export function policyFromSettings(settings: UserSettings | null): StreakPolicy {
+  if (!settings) return STREAK_POLICIES.strict;
+  return {
+    onMiss: settings.streak_on_miss,
+    allowedMissesPerWeek: settings.streak_misses_per_week,
+    minTasksPerDay: settings.streak_min_tasks,
+    requireCheckin: settings.streak_require_checkin,
+    requireFocus: settings.streak_require_focus,
+  };
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────
+
+export function useUserSettings(userId: string | null): UserSettingsState {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // ─── Initial fetch (creates the row on first visit) ─────────────────────
+
+  const fetchSettings = useCallback(async () => {
+    if (!userId) {
+      setSettings(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from("user_settings")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      setError(fetchError.message);
+      setLoading(false);
+      return;
+    }
+
+    if (data) {
+      setSettings(data);
+    } else {
+      // First visit — seed the row with the browser's timezone
+      const { data: created, error: insertError } = await supabase
+        .from("user_settings")
+        .insert({ user_id: userId, timezone: detectTimeZone() })
+        .select()
+        .single();
+      if (insertError) setError(insertError.message);
+      else setSettings(created);
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // ─── Update ─────────────────────────────────────────────────────────────
+
+  /**
+   * updateSettings — optimistic update with rollback.
+   */
+  const updateSettings = useCallback(
+    async (updates: SettingsUpdate) => {
+      const previous = settingsRef.current;
+      if (!userId || !previous) return;
+
+      setSettings({ ...previous, ...updates });
+
+      const { error: updateError } = await supabase
+        .from("user_settings")
+        .update(updates)
+        .eq("user_id", userId);
+
+      if (updateError) {
+        setSettings(previous);
+        setError(updateError.message);
+      }
+    },
+    [userId]
+  );
+
+  return {
+    settings,
+    timeZone: settings?.timezone ?? detectTimeZone(),
+    policy: policyFromSettings(settings),
+    loading,
+    error,
+    updateSettings,
+  };
+}
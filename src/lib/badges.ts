@@ -0,0 +1,121 @@
+/**
+ * badges.ts
+ * Achievement badge catalogue and pure unlock rules, evaluated from task
+ * history. Only the unlocks themselves (with their timestamps) are stored —
+ * see the user_badges table.
+ */
+
+import {
+  addDays, longestRun, streakHistory, toLocalDateStr, weekStart,
+  type StreakOptions,
+} from "./streak";
+import { timeliness, type ScorableTask, type ScoredTask } from "./gamification";
+
+export type BadgeId =
+  | "first-task"
+  | "first-high"
+  | "ten-tasks"
+  | "century"
+  | "on-time-10"
+  | "zero-overdue-week"
+  | "streak-3"
+  | "streak-7"
+  | "streak-30"
+  | "streak-100";
+
+export type Badge = {
+  id: BadgeId;
+  name: string;
+  icon: string;
+  description: string;
+};
+
+export type BadgeProgress = {
+  id: BadgeId;
+  current: number;
+  target: number;
+  earned: boolean;
+};
+
+export const BADGES: Badge[] = [
+  { id: "first-task",        icon: "🌱", name: "First Step",      description: "Complete your first task." },
+  { id: "first-high",        icon: "🎯", name: "Big Fish",        description: "Complete a high-priority task." },
+  { id: "ten-tasks",         icon: "🔟", name: "Getting Going",   description: "Complete 10 tasks." },
+  { id: "century",           icon: "💯", name: "Century",         description: "Complete 100 tasks." },
+  { id: "on-time-10",        icon: "⏰", name: "Punctual",        description: "Finish 10 tasks by their due date." },
+  { id: "zero-overdue-week", icon: "🧹", name: "Clean Week",      description: "Finish a Mon–Sun week with every task due that week done on time." },
+  { id: "streak-3",          icon: "✨", name: "3-Day Streak",    description: "Keep a streak going for 3 days." },
+  { id: "streak-7",          icon: "🔥", name: "7-Day Streak",    description: "Keep a streak going for a full week." },
+  { id: "streak-30",         icon: "⚡", name: "30-Day Streak",   description: "Keep a streak going for 30 days." },
+  { id: "streak-100",        icon: "👑", name: "100-Day Streak",  description: "Keep a streak going for 100 days." },
+];
+
+/** Streak-length badges, shortest first. */
+export const STREAK_BADGES: { id: BadgeId; days: number }[] = [
+  { id: "streak-3",   days: 3 },
+  { id: "streak-7",   days: 7 },
+  { id: "streak-30",  days: 30 },
+  { id: "streak-100", days: 100 },
+];
+
+export function badgeById(id: string): Badge | undefined {
+  return BADGES.find((b) => b.id === id);
+}
+
+// Weeks (Mondays) that are over and had every task due in them done on time
+function cleanWeeks(tasks: ScorableTask[], today: string, timeZone: string): number {
+  const weeks = new Map<string, boolean>();
+  for (const t of tasks) {
+    if (!t.due_date) continue;
+    const monday = weekStart(t.due_date.slice(0, 10));
+    if (addDays(monday, 6) >= today) continue; // week not over yet
+    const onTime =
+      t.status === "done" && t.completed_at != null &&
+      timeliness(t as ScoredTask, timeZone) === "on-time";
+    weeks.set(monday, (weeks.get(monday) ?? true) && onTime);
+  }
+  return [...weeks.values()].filter(Boolean).length;
+}
+
+/**
+ * Progress toward every badge in the catalogue, in catalogue order.
+ * Deterministic: the same history always earns the same badges.
+ */
+export function evaluateBadges(
+  tasks: ScorableTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): BadgeProgress[] {
+  const { timeZone = "UTC" } = options;
+  const completed = tasks.filter(
+    (t): t is ScoredTask & ScorableTask => t.status === "done" && t.completed_at != null
+  );
+  const today = toLocalDateStr(now, timeZone);
+  const longest = longestRun(streakHistory(completed, now, options))?.length ?? 0;
+
+  const current: Record<BadgeId, [number, number]> = {
+    "first-task":        [completed.length, 1],
+    "first-high":        [completed.filter((t) => t.priority === "high").length, 1],
+    "ten-tasks":         [completed.length, 10],
+    "century":           [completed.length, 100],
+    "on-time-10":        [completed.filter((t) => timeliness(t, timeZone) === "on-time").length, 10],
+    "zero-overdue-week": [cleanWeeks(tasks, today, timeZone), 1],
+    "streak-3":          [longest, 3],
+    "streak-7":          [longest, 7],
+    "streak-30":         [longest, 30],
+    "streak-100":        [longest, 100],
+  };
+
+  return BADGES.map(({ id }) => {
+    const [value, target] = current[id];
+    return { id, current: Math.min(value, target), target, earned: value >= target };
+  });
+}
+
+/**
+ * Badges the history has earned that aren't unlocked (stored) yet.
+ */
+export function newlyEarned(progress: BadgeProgress[], unlocked: Iterable<string>): BadgeId[] {
+  const have = new Set(unlocked);
+  return progress.filter((p) => p.earned && !have.has(p.id)).map((p) => p.id);
+}
@@ -0,0 +1,75 @@
+/**
+ * board.ts
+ * Pure helpers for the Board (kanban) view: columns by status, the field
+ * updates for moving a card, and work-in-progress limits.
+ */
+
+export type TaskStatus = "todo" | "inprogress" | "done";
+
+/** Max cards per column; a missing key means no limit. */
+export type WipLimits = Partial<Record<TaskStatus, number>>;
+
+export type WipState = "ok" | "at-limit" | "over-limit";
+
+export const BOARD_COLUMNS: { status: TaskStatus; label: string }[] = [
+  { status: "todo",       label: "To do" },
+  { status: "inprogress", label: "In progress" },
+  { status: "done",       label: "Done" },
+];
+
+export const MAX_WIP_LIMIT = 99;
+
+/**
+ * Fields to write when a task moves to `status`. Completing stamps
+ * `completed_at` (keeping an existing stamp); leaving done clears it.
+ * Returns null when nothing changes.
+ */
+export function statusUpdate(
+  task: { status: TaskStatus; completed_at: string | null },
+  status: TaskStatus,
+  now: Date
+): { status: TaskStatus; completed_at: string | null } | null {
+  if (task.status === status) return null;
+  return {
+    status,
+    completed_at: status === "done" ? task.completed_at ?? now.toISOString() : null,
+  };
+}
+
+/**
+ * Tasks per column, order preserved.
+ */
+export function groupByStatus<T extends { status: TaskStatus }>(tasks: T[]): Record<TaskStatus, T[]> {
+  const columns: Record<TaskStatus, T[]> = { todo: [], inprogress: [], done: [] };
+  for (const task of tasks) columns[task.status].push(task);
+  return columns;
+}
+
+export function wipState(count: number, limit: number | undefined): WipState {
+  if (limit === undefined) return "ok";
+  if (count > limit) return "over-limit";
+  return count === limit ? "at-limit" : "ok";
+}
+
+/**
+ * Whether one more card fits in a column.
+ */
+export function hasRoom(count: number, limit: number | undefined): boolean {
+  return limit === undefined || count < limit;
+}
+
+/**
+ * Limits read from storage: whole numbers from 1 to MAX_WIP_LIMIT for known
+ * columns, anything else dropped.
+ */
+export function sanitizeWipLimits(raw: unknown): WipLimits {
+  const limits: WipLimits = {};
+  if (!raw || typeof raw !== "object") return limits;
+  for (const { status } of BOARD_COLUMNS) {
+    const value = (raw as Record<string, unknown>)[status];
+    if (typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_WIP_LIMIT) {
+      limits[status] = value;
+    }
+  }
+  return limits;
+}
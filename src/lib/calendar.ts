@@ -0,0 +1,122 @@
+/**
+ * calendar.ts
+ * Pure helpers for the Calendar view: month / week grids of local
+ * "YYYY-MM-DD" days, which day a task sits on, and the streak marker for
+ * each day.
+ *
+ * Weeks start on Monday, matching the streak policy's weekly budget.
+ */
+
+import {
+  addDays, classifyDays, completionsByDay, toLocalDateStr, weekStart,
+  type CompletedTask, type DayKind, type StreakOptions,
+} from "./streak";
+
+export type CalendarMode = "month" | "week";
+
+export type CalendarTask = {
+  status: string;
+  due_date: string | null;
+  completed_at: string | null;
+};
+
+function parts(day: string): [number, number, number] {
+  const [y, m, d] = day.split("-").map(Number);
+  return [y, m, d];
+}
+
+function format(y: number, m: number, d: number): string {
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.toISOString().slice(0, 10);
+}
+
+export function firstOfMonth(day: string): string {
+  const [y, m] = parts(day);
+  return format(y, m, 1);
+}
+
+/**
+ * The seven days of the week containing `day`, Monday first.
+ */
+export function weekOf(day: string): string[] {
+  const monday = weekStart(day);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+/**
+ * Whole weeks covering the month containing `day` — four to six rows,
+ * padded with days from the neighbouring months.
+ */
+export function monthGrid(day: string): string[][] {
+  const [y, m] = parts(day);
+  const last = format(y, m + 1, 0);
+  const weeks: string[][] = [];
+  for (let monday = weekStart(firstOfMonth(day)); monday <= last; monday = addDays(monday, 7)) {
+    weeks.push(weekOf(monday));
+  }
+  return weeks;
+}
+
+/**
+ * Moves the anchor a month or a week. Month steps land on the 1st, so
+ * 31 January + 1 month is February, not March.
+ */
+export function shiftPeriod(day: string, mode: CalendarMode, delta: number): string {
+  if (mode === "week") return addDays(day, delta * 7);
+  const [y, m] = parts(day);
+  return format(y, m + delta, 1);
+}
+
+export function sameMonth(a: string, b: string): boolean {
+  return a.slice(0, 7) === b.slice(0, 7);
+}
+
+/**
+ * The day a task appears on: its completion day (in the user's time zone)
+ * once done, otherwise its due date. Null for open tasks with no due date.
+ */
+export function calendarDay(task: CalendarTask, timeZone = "UTC"): string | null {
+  if (task.status === "done" && task.completed_at) {
+    return toLocalDateStr(new Date(task.completed_at), timeZone);
+  }
+  return task.status === "done" ? null : task.due_date;
+}
+
+/**
+ * Tasks per calendar day, order preserved.
+ */
+export function tasksByDay<T extends CalendarTask>(tasks: T[], timeZone = "UTC"): Map<string, T[]> {
+  const result = new Map<string, T[]>();
+  for (const task of tasks) {
+    const day = calendarDay(task, timeZone);
+    if (!day) continue;
+    const list = result.get(day);
+    if (list) list.push(task);
+    else result.set(day, [task]);
+  }
+  return result;
+}
+
+/**
+ * How each day from `from` to `to` counted toward the streak. Days that
+ * say nothing — still pending, or before the user had any history — are
+ * left out.
+ */
+export function streakMarkers(
+  completed: CompletedTask[],
+  from: string,
+  to: string,
+  now: Date,
+  options: StreakOptions = {}
+): Map<string, DayKind> {
+  const history = [...completionsByDay(completed, options.timeZone).keys(), ...(options.frozenDays ?? [])];
+  const firstDay = history.sort()[0];
+  const markers = new Map<string, DayKind>();
+  if (!firstDay) return markers;
+
+  for (const [day, kind] of classifyDays(completed, from, to, now, options)) {
+    if (kind === "pending" || day < firstDay) continue;
+    markers.set(day, kind);
+  }
+  return markers;
+}
@@ -0,0 +1,66 @@
+/**
+ * checklist.ts
+ * Pure helpers for task checklists (task_items).
+ */
+
+export type ChecklistEntry = {
+  task_id: string;
+  done: boolean;
+  position: number;
+};
+
+export type ChecklistProgress = {
+  done: number;
+  total: number;
+};
+
+/**
+ * Group items by task, each group in position order.
+ */
+export function groupByTask<T extends ChecklistEntry>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.task_id);
+    if (group) group.push(item);
+    else groups.set(item.task_id, [item]);
+  }
+  for (const group of groups.values()) group.sort((a, b) => a.position - b.position);
+  return groups;
+}
+
+/**
+ * Done / total counts, e.g. for a "3/5" label.
+ */
+export function checklistProgress(items: ChecklistEntry[]): ChecklistProgress {
+  return { done: items.filter((i) => i.done).length, total: items.length };
+}
+
+/**
+ * Puts a server row into the list: replaces the item with the same id (the
+ * optimistic copy, or a realtime echo that got there first), or appends it.
+ * Item ids are made on the client, so both copies share one.
+ */
+export function upsertItem<T extends { id: string }>(items: T[], row: T): T[] {
+  return items.some((i) => i.id === row.id)
+    ? items.map((i) => (i.id === row.id ? row : i))
+    : [...items, row];
+}
+
+/**
+ * Position for an item appended to the end of a checklist.
+ */
+export function nextPosition(items: ChecklistEntry[]): number {
+  return items.reduce((max, i) => Math.max(max, i.position), -1) + 1;
+}
+
+/**
+ * True when an open task opted into auto-complete has a non-empty checklist
+ * with every item done.
+ */
+export function shouldAutoComplete(
+  task: { status: string; auto_complete: boolean },
+  items: ChecklistEntry[]
+): boolean {
+  return task.auto_complete && task.status !== "done" &&
+    items.length > 0 && items.every((i) => i.done);
+}
@@ -0,0 +1,87 @@
+/**
+ * conflicts.ts
+ * Pure helpers for concurrent task edits. Every task row carries a version
+ * that the database bumps on each update (migration 016); an update is only
+ * applied if the row is still at the version the edit was based on. When it
+ * isn't, the edit is compared field by field with the row as it is now:
+ *
+ * - fields nobody else touched are simply re-sent on top of the new version
+ * - fields both sides changed, to different values, are a conflict for the
+ *   user to settle — keep mine, keep theirs, or merge field by field
+ *
+ * Positions never conflict (the latest move wins) and completed_at follows
+ * whichever status is kept.
+ */
+
+import type { Task } from "./supabaseClient";
+
+export type TaskChanges = Partial<Task>;
+
+export type TaskConflict = {
+  /** The task as it is on the server now. */
+  theirs: Task;
+  /** The local edit that couldn't be applied. */
+  changes: TaskChanges;
+  /** Fields both sides changed, to different values. */
+  fields: (keyof Task)[];
+};
+
+const SILENT_FIELDS = new Set<keyof Task>(["position", "completed_at"]);
+
+/** Value equality for task fields (recurrence rules are objects). */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * The fields of `changes` that were also changed on the server. `original`
+ * holds the values those fields had when the edit was made.
+ */
+export function conflictingFields(
+  original: TaskChanges,
+  changes: TaskChanges,
+  theirs: Task
+): (keyof Task)[] {
+  return (Object.keys(changes) as (keyof Task)[]).filter((field) =>
+    !SILENT_FIELDS.has(field)
+    && !sameValue(theirs[field], original[field])
+    && !sameValue(theirs[field], changes[field])
+  );
+}
+
+/**
+ * The changes to send once the user has settled a conflict. `picks` holds
+ * the chosen value for each conflicting field (mine, theirs or a merged
+ * text). Fields that end up equal to theirs are left out.
+ */
+export function resolveChanges(conflict: TaskConflict, picks: TaskChanges): TaskChanges {
+  const { theirs, changes } = conflict;
+  const resolved: TaskChanges = { ...changes, ...picks };
+  if ("status" in picks) {
+    const keepMine = sameValue(picks.status, changes.status) && "completed_at" in changes;
+    resolved.completed_at = keepMine ? changes.completed_at : theirs.completed_at;
+  }
+  for (const field of Object.keys(resolved) as (keyof Task)[]) {
+    if (sameValue(resolved[field], theirs[field])) delete resolved[field];
+  }
+  return resolved;
+}
+
+/**
+ * Takes the versions from rows the server just saved, so the next edit to
+ * those tasks is based on them. Other fields are left alone — they may
+ * already hold newer local edits.
+ */
+export function applyVersions(tasks: Task[], saved: Task[]): Task[] {
+  const byId = new Map(saved.map((row) => [row.id, row]));
+  return tasks.map((task) => {
+    const row = byId.get(task.id);
+    return row && row.version > task.version ? { ...task, version: row.version, updated_at: row.updated_at } : task;
+  });
+}
+
+/** Every conflicting field set to my value or to theirs. */
+export function pickAll(conflict: TaskConflict, side: "mine" | "theirs"): TaskChanges {
+  const source: TaskChanges = side === "mine" ? conflict.changes : conflict.theirs;
+  return Object.fromEntries(conflict.fields.map((field) => [field, source[field]]));
+}
@@ -0,0 +1,197 @@
+/**
+ * filters.ts
+ * Pure task search and filtering, plus the round trip to the URL query
+ * string so a filtered view can be bookmarked.
+ *
+ * Dates are local "YYYY-MM-DD" strings, like the rest of the app: due dates
+ * are compared as stored, completion timestamps are bucketed in the user's
+ * time zone first.
+ */
+
+import { toLocalDateStr } from "./streak";
+
+export type FilterPriority = "low" | "medium" | "high";
+export type FilterStatus = "todo" | "inprogress" | "done";
+
+export type TaskFilters = {
+  /** Free text — every word must appear in the title or description. */
+  query: string;
+  /** Empty means any. */
+  priorities: FilterPriority[];
+  statuses: FilterStatus[];
+  dueFrom: string | null;
+  dueTo: string | null;
+  /** Only open tasks whose due date has passed. */
+  overdue: boolean;
+  doneFrom: string | null;
+  doneTo: string | null;
+  tagId: string | null;
+};
+
+export type FilterableTask = {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: FilterPriority;
+  status: FilterStatus;
+  due_date: string | null;
+  completed_at: string | null;
+};
+
+export type FilterContext = {
+  /** Today in the user's time zone. */
+  today: string;
+  timeZone?: string;
+  /** Tags per task id — required for the tag filter to match anything. */
+  tagsByTask?: Map<string, { id: string }[]>;
+};
+
+export const EMPTY_FILTERS: TaskFilters = {
+  query: "",
+  priorities: [],
+  statuses: [],
+  dueFrom: null,
+  dueTo: null,
+  overdue: false,
+  doneFrom: null,
+  doneTo: null,
+  tagId: null,
+};
+
+export const PRIORITIES: FilterPriority[] = ["high", "medium", "low"];
+export const STATUSES: FilterStatus[] = ["todo", "inprogress", "done"];
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query-string keys, in the order they are written
+const KEYS = ["q", "priority", "status", "due_from", "due_to", "overdue", "done_from", "done_to", "tag"];
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+function inRange(day: string, from: string | null, to: string | null): boolean {
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+/**
+ * Whether a task passes every active filter.
+ */
+export function matchesFilters(
+  task: FilterableTask,
+  filters: TaskFilters,
+  context: FilterContext
+): boolean {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length) {
+    const haystack = `${task.title} ${task.description ?? ""}`.toLowerCase();
+    if (!words.every((w) => haystack.includes(w))) return false;
+  }
+
+  if (filters.priorities.length && !filters.priorities.includes(task.priority)) return false;
+  if (filters.statuses.length && !filters.statuses.includes(task.status)) return false;
+
+  if (filters.dueFrom || filters.dueTo) {
+    if (!task.due_date || !inRange(task.due_date, filters.dueFrom, filters.dueTo)) return false;
+  }
+  if (filters.overdue) {
+    if (task.status === "done" || !task.due_date || task.due_date >= context.today) return false;
+  }
+
+  if (filters.doneFrom || filters.doneTo) {
+    if (task.status !== "done" || !task.completed_at) return false;
+    const day = toLocalDateStr(new Date(task.completed_at), context.timeZone);
+    if (!inRange(day, filters.doneFrom, filters.doneTo)) return false;
+  }
+
+  if (filters.tagId) {
+    const tags = context.tagsByTask?.get(task.id) ?? [];
+    if (!tags.some((t) => t.id === filters.tagId)) return false;
+  }
+  return true;
+}
+
+/**
+ * The tasks passing every active filter, order preserved.
+ */
+export function filterTasks<T extends FilterableTask>(
+  tasks: T[],
+  filters: TaskFilters,
+  context: FilterContext
+): T[] {
+  if (!isFiltering(filters)) return tasks;
+  return tasks.filter((t) => matchesFilters(t, filters, context));
+}
+
+/**
+ * Number of filters in use — for the toolbar's badge. The date ranges
+ * count once each.
+ */
+export function activeFilterCount(filters: TaskFilters): number {
+  return [
+    filters.query.trim() !== "",
+    filters.priorities.length > 0,
+    filters.statuses.length > 0,
+    !!(filters.dueFrom || filters.dueTo),
+    filters.overdue,
+    !!(filters.doneFrom || filters.doneTo),
+    !!filters.tagId,
+  ].filter(Boolean).length;
+}
+
+export function isFiltering(filters: TaskFilters): boolean {
+  return activeFilterCount(filters) > 0;
+}
+
+// ─── URL round trip ──────────────────────────────────────────────────────────
+
+function parseList<T extends string>(value: string | null, allowed: T[]): T[] {
+  if (!value) return [];
+  const parts = value.split(",") as T[];
+  return allowed.filter((a) => parts.includes(a));
+}
+
+function parseDay(value: string | null): string | null {
+  return value && DAY_RE.test(value) ? value : null;
+}
+
+/**
+ * Filters from a query string. Unknown or malformed values are dropped
+ * rather than rejected, so a hand-edited URL still loads.
+ */
+export function parseFilters(params: URLSearchParams): TaskFilters {
+  return {
+    query: params.get("q") ?? "",
+    priorities: parseList(params.get("priority"), PRIORITIES),
+    statuses: parseList(params.get("status"), STATUSES),
+    dueFrom: parseDay(params.get("due_from")),
+    dueTo: parseDay(params.get("due_to")),
+    overdue: params.get("overdue") === "1",
+    doneFrom: parseDay(params.get("done_from")),
+    doneTo: parseDay(params.get("done_to")),
+    tagId: params.get("tag") || null,
+  };
+}
+
+/**
+ * Writes filters into a copy of `params`, leaving unrelated keys alone and
+ * omitting anything at its default so URLs stay short.
+ */
+export function writeFilters(params: URLSearchParams, filters: TaskFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of KEYS) next.delete(key);
+
+  const entries: [string, string | null][] = [
+    ["q", filters.query || null],
+    ["priority", filters.priorities.join(",") || null],
+    ["status", filters.statuses.join(",") || null],
+    ["due_from", filters.dueFrom],
+    ["due_to", filters.dueTo],
+    ["overdue", filters.overdue ? "1" : null],
+    ["done_from", filters.doneFrom],
+    ["done_to", filters.doneTo],
+    ["tag", filters.tagId],
+  ];
+  for (const [key, value] of entries) {
+    if (value) next.set(key, value);
+  }
+  return next;
+}
@@ -0,0 +1,119 @@
+/**
+ * focus.ts
+ * Pure helpers for focus mode: pomodoro presets, the cycle state machine
+ * and daily focus minutes.
+ *
+ * The timer runs off wall-clock timestamps rather than counting ticks, so a
+ * throttled background tab still ends each phase on time.
+ */
+
+import { addDays, toLocalDateStr } from "./streak";
+
+export type FocusPlan = { work: number; break: number };
+
+export type FocusPhase = "focus" | "break";
+
+export type FocusPresetId = "classic" | "long" | "custom";
+
+export type FocusState = {
+  phase: FocusPhase;
+  /** Epoch ms the current phase started (shifted forward after a pause). */
+  phaseStartedAt: number;
+  /** Epoch ms the timer was paused at, or null while running. */
+  pausedAt: number | null;
+  /** Focus blocks finished so far in this run. */
+  completed: number;
+};
+
+export type FocusSessionLike = {
+  ended_at: string;
+  focus_minutes: number;
+};
+
+export const FOCUS_PRESETS: { id: Exclude<FocusPresetId, "custom">; label: string; plan: FocusPlan }[] = [
+  { id: "classic", label: "25 / 5",  plan: { work: 25, break: 5 } },
+  { id: "long",    label: "50 / 10", plan: { work: 50, break: 10 } },
+];
+
+/** Limits for a custom cycle, matching the user_settings checks. */
+export const MAX_FOCUS_MINUTES = 180;
+export const MAX_BREAK_MINUTES = 60;
+
+const MS_PER_MINUTE = 60_000;
+
+function clamp(value: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.round(value) || 1));
+}
+
+export function sanitizePlan(plan: FocusPlan): FocusPlan {
+  return { work: clamp(plan.work, MAX_FOCUS_MINUTES), break: clamp(plan.break, MAX_BREAK_MINUTES) };
+}
+
+export function presetFor(plan: FocusPlan): FocusPresetId {
+  const match = FOCUS_PRESETS.find((p) => p.plan.work === plan.work && p.plan.break === plan.break);
+  return match?.id ?? "custom";
+}
+
+export function phaseLength(plan: FocusPlan, phase: FocusPhase): number {
+  return (phase === "focus" ? plan.work : plan.break) * MS_PER_MINUTE;
+}
+
+export function startFocus(now: number): FocusState {
+  return { phase: "focus", phaseStartedAt: now, pausedAt: null, completed: 0 };
+}
+
+/**
+ * Milliseconds left in the current phase — frozen while paused, never
+ * below zero.
+ */
+export function remainingMs(state: FocusState, plan: FocusPlan, now: number): number {
+  const elapsed = (state.pausedAt ?? now) - state.phaseStartedAt;
+  return Math.max(0, phaseLength(plan, state.phase) - elapsed);
+}
+
+export function pause(state: FocusState, now: number): FocusState {
+  return state.pausedAt === null ? { ...state, pausedAt: now } : state;
+}
+
+/** Resumes where it left off: the phase start moves by the time spent paused. */
+export function resume(state: FocusState, now: number): FocusState {
+  if (state.pausedAt === null) return state;
+  return { ...state, phaseStartedAt: state.phaseStartedAt + (now - state.pausedAt), pausedAt: null };
+}
+
+/**
+ * Moves on to the next phase: focus → break (counting the block as
+ * completed when it ran its full length) → focus.
+ */
+export function nextPhase(state: FocusState, plan: FocusPlan, now: number): FocusState {
+  if (state.phase === "break") {
+    return { ...state, phase: "focus", phaseStartedAt: now, pausedAt: null };
+  }
+  const finished = remainingMs(state, plan, now) === 0;
+  return {
+    phase: "break",
+    phaseStartedAt: now,
+    pausedAt: null,
+    completed: state.completed + (finished ? 1 : 0),
+  };
+}
+
+/**
+ * Focus minutes on each local day from `from` to `to`, zero-filled. A
+ * session counts on the day it ended.
+ */
+export function focusMinutesPerDay(
+  sessions: FocusSessionLike[],
+  from: string,
+  to: string,
+  timeZone = "UTC"
+): Map<string, number> {
+  const result = new Map<string, number>();
+  for (let day = from; day <= to; day = addDays(day, 1)) result.set(day, 0);
+  for (const session of sessions) {
+    const day = toLocalDateStr(new Date(session.ended_at), timeZone);
+    const current = result.get(day);
+    if (current !== undefined) result.set(day, current + session.focus_minutes);
+  }
+  return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * gamification.ts
+ * Pure functions for points, XP and levels — recomputed from task history,
+ * so nothing here needs to be stored.
+ *
+ * Points for a completed task:
+ *   base (by priority) × timeliness (on time / overdue) × streak multiplier
+ * rounded to a whole number. The streak multiplier uses the length of the
+ * run on the day the task was completed, under the user's streak policy.
+ * XP is lifetime points; levels are fixed XP thresholds.
+ */
+
+import {
+  classifyDays, completionsByDay, streakStatus, toLocalDateStr, STREAK_POLICIES,
+  type CompletedTask, type StreakOptions,
+} from "./streak";
+
+export type Priority = "low" | "medium" | "high";
+
+export type ScoredTask = CompletedTask & {
+  priority: Priority;
+  due_date: string | null; // "YYYY-MM-DD"
+};
+
+/** Any task — only done ones with a completed_at earn points. */
+export type ScorableTask = Omit<ScoredTask, "completed_at"> & {
+  status: string;
+  completed_at: string | Date | null;
+};
+
+export type Timeliness = "on-time" | "overdue" | "no-due-date";
+
+export type TaskScore = {
+  base: number;
+  timeliness: Timeliness;
+  multiplier: number;
+  points: number;
+};
+
+export type LevelInfo = {
+  /** 1-based level number. */
+  level: number;
+  name: string;
+  xp: number;
+  /** XP at which this level starts. */
+  floor: number;
+  /** XP at which the next level starts, or null at the top level. */
+  next: number | null;
+  /** Progress toward the next level, 0–1 (1 at the top level). */
+  progress: number;
+};
+
+export type GamificationSummary = {
+  points: number;
+  level: LevelInfo;
+  /** Multiplier for the current streak. */
+  multiplier: number;
+};
+
+/** Points for completing a task, by priority. */
+export const BASE_POINTS: Record<Priority, number> = { low: 10, medium: 20, high: 35 };
+
+/** Timeliness weights — finishing by the due date pays, finishing late costs. */
+export const TIMELINESS_FACTOR: Record<Timeliness, number> = {
+  "on-time": 1.25,
+  "overdue": 0.5,
+  "no-due-date": 1,
+};
+
+/** Each streak day past the first adds this much to the multiplier… */
+export const MULTIPLIER_PER_STREAK_DAY = 0.05;
+/** …up to this cap (reached on day 21). */
+export const MAX_MULTIPLIER = 2;
+
+export const LEVELS: { name: string; xp: number }[] = [
+  { name: "Rookie",  xp: 0 },
+  { name: "Builder", xp: 500 },
+  { name: "Hustler", xp: 1500 },
+  { name: "Veteran", xp: 3500 },
+  { name: "Legend",  xp: 7500 },
+];
+
+// ─── Building blocks ────────────────────────────────────────────────────────
+
+/**
+ * Multiplier for a completion made on day `streakDays` of a run.
+ */
+export function streakMultiplier(streakDays: number): number {
+  const bonus = Math.max(0, streakDays - 1) * MULTIPLIER_PER_STREAK_DAY;
+  // Round away float noise (1 + 3 × 0.05 = 1.1500000000000001)
+  return Math.min(MAX_MULTIPLIER, Math.round((1 + bonus) * 100) / 100);
+}
+
+/**
+ * Whether a task was finished by its due date, judged on the user's local
+ * calendar day.
+ */
+export function timeliness(task: ScoredTask, timeZone = "UTC"): Timeliness {
+  if (!task.due_date) return "no-due-date";
+  const day = toLocalDateStr(new Date(task.completed_at), timeZone);
+  return day <= task.due_date.slice(0, 10) ? "on-time" : "overdue";
+}
+
+/**
+ * Score one completed task, given the streak length on its completion day.
+ */
+export function scoreTask(task: ScoredTask, streakDays: number, timeZone = "UTC"): TaskScore {
+  const base = BASE_POINTS[task.priority] ?? BASE_POINTS.medium;
+  const t = timeliness(task, timeZone);
+  const multiplier = streakMultiplier(streakDays);
+  return {
+    base,
+    timeliness: t,
+    multiplier,
+    points: Math.round(base * TIMELINESS_FACTOR[t] * multiplier),
+  };
+}
+
+/**
+ * Level for a lifetime XP total.
+ */
+export function levelFor(xp: number): LevelInfo {
+  let i = 0;
+  while (i + 1 < LEVELS.length && xp >= LEVELS[i + 1].xp) i++;
+  const floor = LEVELS[i].xp;
+  const next = LEVELS[i + 1]?.xp ?? null;
+  return {
+    level: i + 1,
+    name: LEVELS[i].name,
+    xp,
+    floor,
+    next,
+    progress: next === null ? 1 : (xp - floor) / (next - floor),
+  };
+}
+
+// ─── History replay ─────────────────────────────────────────────────────────
+
+/**
+ * Length of the streak run on every local day from the first completion to
+ * today — the same rules as streakHistory(): active days count, frozen and
+ * forgiven days bridge, a missed day resets under "reset" and is bridged
+ * under "pause".
+ */
+export function streakLengthByDay(
+  tasks: CompletedTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): Map<string, number> {
+  const { timeZone = "UTC", policy = STREAK_POLICIES.strict } = options;
+  const lengths = new Map<string, number>();
+  const days = [...completionsByDay(tasks, timeZone).keys()].sort();
+  if (!days.length) return lengths;
+
+  const today = toLocalDateStr(now, timeZone);
+  let run = 0;
+  for (const [day, kind] of classifyDays(tasks, days[0], today, now, options)) {
+    if (kind === "active") run++;
+    else if (kind === "missed" && policy.onMiss === "reset") run = 0;
+    lengths.set(day, run);
+  }
+  return lengths;
+}
+
+/**
+ * Total points, level and current multiplier, recomputed from every
+ * completed task.
+ */
+export function gamificationSummary(
+  tasks: ScorableTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): GamificationSummary {
+  const { timeZone = "UTC" } = options;
+  const completed = tasks.filter(
+    (t): t is ScoredTask & ScorableTask => t.status === "done" && t.completed_at != null
+  );
+  const lengths = streakLengthByDay(completed, now, options);
+
+  let points = 0;
+  for (const task of completed) {
+    const day = toLocalDateStr(new Date(task.completed_at), timeZone);
+    points += scoreTask(task, lengths.get(day) ?? 0, timeZone).points;
+  }
+
+  const { streak } = streakStatus(completed, now, options);
+  return { points, level: levelFor(points), multiplier: streakMultiplier(streak) };
+}
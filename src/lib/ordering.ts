@@ -0,0 +1,108 @@
+/**
+ * ordering.ts
+ * Manual task order via fractional indexing: each task has a numeric
+ * `position`, lists sort ascending, and moving a task gives it the midpoint
+ * of its new neighbours — a single-row write. When repeated moves into the
+ * same gap exhaust float precision, the list is renumbered instead.
+ */
+
+export type Positioned = {
+  id: string;
+  position: number;
+  created_at: string;
+};
+
+export type PositionUpdate = {
+  id: string;
+  position: number;
+};
+
+/**
+ * Sort order for tasks: position, then newest first, then id — so ties
+ * (e.g. two tabs moving into the same gap at once) still sort the same way
+ * everywhere.
+ */
+export function comparePosition(a: Positioned, b: Positioned): number {
+  if (a.position !== b.position) return a.position - b.position;
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function sortByPosition<T extends Positioned>(tasks: T[]): T[] {
+  return [...tasks].sort(comparePosition);
+}
+
+/**
+ * The task list's order: open tasks, then completed ones, each by position.
+ */
+export function listOrder<T extends Positioned & { status: string }>(tasks: T[]): T[] {
+  const sorted = sortByPosition(tasks);
+  return [...sorted.filter((t) => t.status !== "done"), ...sorted.filter((t) => t.status === "done")];
+}
+
+/**
+ * A position strictly between two neighbours (null = open end), or null
+ * when the gap is too small to split.
+ */
+export function positionBetween(before: number | null, after: number | null): number | null {
+  if (before === null && after === null) return 0;
+  if (before === null) return after! - 1;
+  if (after === null) return before + 1;
+  const mid = before + (after - before) / 2;
+  return mid > before && mid < after ? mid : null;
+}
+
+/**
+ * Position for a new task at the top of the list. Matches the database
+ * default (negated epoch seconds) when there is nothing to go above.
+ */
+export function topPosition(tasks: Positioned[]): number {
+  if (tasks.length === 0) return -Date.now() / 1000;
+  return Math.min(...tasks.map((t) => t.position)) - 1;
+}
+
+/**
+ * Position writes for moving `list[from]` to index `to` (array-move
+ * semantics: remove, then insert). `list` must already be sorted.
+ * Usually one update; when the gap can't be split, `all` is renumbered.
+ *
+ * `list` may be a filtered view — pass every task it was taken from as
+ * `all` (sorted too), so renumbering keeps hidden tasks in their places.
+ */
+export function moveUpdates(
+  list: Positioned[],
+  from: number,
+  to: number,
+  all: Positioned[] = list
+): PositionUpdate[] {
+  if (from === to || from < 0 || from >= list.length || to < 0 || to >= list.length) return [];
+
+  const moved = [...list];
+  const [task] = moved.splice(from, 1);
+  moved.splice(to, 0, task);
+
+  const before = moved[to - 1]?.position ?? null;
+  const after = moved[to + 1]?.position ?? null;
+  const position = positionBetween(before, after);
+  if (position !== null) return [{ id: task.id, position }];
+
+  // Out of precision — space everything out again from the first position,
+  // with the task placed next to its new neighbour in `list`
+  const full = all.filter((t) => t.id !== task.id);
+  const neighbour = moved[to - 1] ?? moved[to + 1];
+  const index = full.findIndex((t) => t.id === neighbour.id);
+  full.splice(moved[to - 1] ? index + 1 : index, 0, task);
+  const start = Math.min(...all.map((t) => t.position));
+  return full
+    .map((t, i) => ({ id: t.id, position: start + i }))
+    .filter((u, i) => u.position !== full[i].position);
+}
+
+/**
+ * Applies position updates to a task list.
+ */
+export function applyPositions<T extends Positioned>(tasks: T[], updates: PositionUpdate[]): T[] {
+  if (updates.length === 0) return tasks;
+  const byId = new Map(updates.map((u) => [u.id, u.position]));
+  return tasks.map((t) => (byId.has(t.id) ? { ...t, position: byId.get(t.id)! } : t));
+}
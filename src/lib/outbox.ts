@@ -0,0 +1,231 @@
+/**
+ * outbox.ts
+ * Pure helpers for the offline task outbox: a durable, ordered queue of
+ * task mutations that have been applied locally but not yet confirmed by
+ * the server. Mutations are replayed oldest first once the network is back.
+ *
+ * Queued mutations are coalesced per task — edits to a task whose insert
+ * hasn't been sent are folded into the insert, and deleting a task that
+ * never reached the server drops it from the queue entirely. The mutation
+ * currently being sent is never rewritten.
+ *
+ * A delete can be deferred (`notBefore`) to leave a window for undo: it
+ * hides the task straight away but isn't sent until then, and can be
+ * cancelled until it is.
+ *
+ * A batch updates several tasks in one request, all or nothing. Batches
+ * aren't coalesced; later edits to their tasks queue up behind them. Each
+ * entry carries what a single update does (base version, originals), so a
+ * batch that hit a stale version can be reconciled entry by entry.
+ */
+
+export type Row = { id: string };
+
+export type Mutation<T extends Row> =
+  | { id: string; kind: "insert"; taskId: string; row: T }
+  | {
+      id: string; kind: "update"; taskId: string; changes: Partial<T>;
+      /** Row version the edit was made against — sent as a compare-and-set. */
+      base: number;
+      /** The changed fields' values before the edit, for conflict checks. */
+      original: Partial<T>;
+    }
+  | {
+      id: string; kind: "delete"; taskId: string;
+      /** Epoch ms before which the delete isn't sent (an undo window). */
+      notBefore?: number;
+    }
+  | { id: string; kind: "batch"; updates: BatchEntry<T>[] };
+
+export type BatchEntry<T extends Row> = {
+  taskId: string;
+  changes: Partial<T>;
+  /** Row version the edit was made against. */
+  base: number;
+  /** The changed fields' values before the edit, for conflict checks. */
+  original: Partial<T>;
+};
+
+/**
+ * Ids of the tasks a mutation changes.
+ */
+export function taskIdsOf<T extends Row>(mutation: Mutation<T>): string[] {
+  return mutation.kind === "batch" ? mutation.updates.map((u) => u.taskId) : [mutation.taskId];
+}
+
+function touches<T extends Row>(mutation: Mutation<T>, taskId: string): boolean {
+  return mutation.kind === "batch"
+    ? mutation.updates.some((u) => u.taskId === taskId)
+    : mutation.taskId === taskId;
+}
+
+/**
+ * How a task stands with the server:
+ * - local   — created here and not on the server yet
+ * - pending — on the server, with local changes still queued
+ */
+export type SyncState = "local" | "pending";
+
+/**
+ * Adds a mutation to the queue, folding it into earlier queued mutations
+ * for the same task where that's safe. `inFlightId` is the mutation being
+ * sent right now — it's left alone.
+ */
+export function enqueue<T extends Row>(
+  outbox: Mutation<T>[],
+  mutation: Mutation<T>,
+  inFlightId: string | null = null
+): Mutation<T>[] {
+  if (mutation.kind === "batch") return [...outbox, mutation];
+  const taskId = mutation.taskId;
+  const index = outbox.findIndex(
+    (m) => touches(m, taskId) && m.id !== inFlightId
+  );
+  if (index === -1) return [...outbox, mutation];
+  const queued = outbox[index];
+
+  if (mutation.kind === "update") {
+    // Folding into anything before a queued batch would reorder the edits
+    if (outbox.some((m) => m.kind === "batch" && m.id !== inFlightId && touches(m, taskId))) {
+      return queued.kind === "delete" ? outbox : [...outbox, mutation];
+    }
+    if (queued.kind === "insert") {
+      return replaceAt(outbox, index, { ...queued, row: { ...queued.row, ...mutation.changes } });
+    }
+    if (queued.kind === "update") {
+      // Still based on the first edit's version; the oldest originals win
+      return replaceAt(outbox, index, {
+        ...queued,
+        changes: { ...queued.changes, ...mutation.changes },
+        original: { ...mutation.original, ...queued.original },
+      });
+    }
+    // Editing a task that's queued for deletion — the delete wins
+    return outbox;
+  }
+
+  if (mutation.kind === "delete") {
+    // Undoable — earlier changes must survive a cancel, so leave them queued
+    if (mutation.notBefore) return [...outbox, mutation];
+    const rest = dropTask(outbox, taskId, inFlightId);
+    // Never reached the server — nothing to delete there
+    if (queued.kind === "insert") return rest;
+    return [...rest, mutation];
+  }
+
+  return [...outbox, mutation];
+}
+
+/**
+ * Removes everything queued for a task except `keepId`; the task's share
+ * of a batch is taken out and the rest of the batch still goes.
+ */
+export function dropTask<T extends Row>(
+  outbox: Mutation<T>[],
+  taskId: string,
+  keepId: string | null = null
+): Mutation<T>[] {
+  return outbox.flatMap((m): Mutation<T>[] => {
+    if (m.id === keepId || !touches(m, taskId)) return [m];
+    if (m.kind !== "batch") return [];
+    const updates = m.updates.filter((u) => u.taskId !== taskId);
+    return updates.length ? [{ ...m, updates }] : [];
+  });
+}
+
+/**
+ * Points queued edits to a task at `version` — the row's version after
+ * one of this client's own writes succeeded — so they aren't mistaken
+ * for stale.
+ */
+export function rebase<T extends Row>(outbox: Mutation<T>[], taskId: string, version: number): Mutation<T>[] {
+  return outbox.map((m) => {
+    if (m.kind === "update" && m.taskId === taskId) return { ...m, base: version };
+    if (m.kind === "batch" && touches(m, taskId)) {
+      return { ...m, updates: m.updates.map((u) => (u.taskId === taskId ? { ...u, base: version } : u)) };
+    }
+    return m;
+  });
+}
+
+function replaceAt<T>(list: T[], index: number, item: T): T[] {
+  return list.map((x, i) => (i === index ? item : x));
+}
+
+/**
+ * The next mutation to send: the oldest one that isn't deferred past `now`.
+ */
+export function nextDue<T extends Row>(outbox: Mutation<T>[], now: number): Mutation<T> | undefined {
+  return outbox.find((m) => m.kind !== "delete" || !m.notBefore || m.notBefore <= now);
+}
+
+/**
+ * When the earliest deferred mutation becomes due, if any.
+ */
+export function nextDeferredAt<T extends Row>(outbox: Mutation<T>[]): number | null {
+  let earliest: number | null = null;
+  for (const m of outbox) {
+    if (m.kind === "delete" && m.notBefore && (earliest === null || m.notBefore < earliest)) {
+      earliest = m.notBefore;
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Overlays queued mutations on a server snapshot, so a refetch or a
+ * realtime echo doesn't undo changes that haven't been sent yet. New rows
+ * go first, as optimistic inserts do.
+ */
+export function applyOutbox<T extends Row>(rows: T[], outbox: Mutation<T>[]): T[] {
+  let result = rows;
+  for (const m of outbox) {
+    if (m.kind === "insert") {
+      if (!result.some((r) => r.id === m.taskId)) result = [m.row, ...result];
+    } else if (m.kind === "update") {
+      result = result.map((r) => (r.id === m.taskId ? { ...r, ...m.changes } : r));
+    } else if (m.kind === "batch") {
+      const changes = new Map(m.updates.map((u) => [u.taskId, u.changes]));
+      result = result.map((r) => (changes.has(r.id) ? { ...r, ...changes.get(r.id) } : r));
+    } else {
+      result = result.filter((r) => r.id !== m.taskId);
+    }
+  }
+  return result;
+}
+
+/**
+ * Sync state per task id; tasks with nothing queued are left out.
+ */
+export function syncStates<T extends Row>(outbox: Mutation<T>[]): Map<string, SyncState> {
+  const result = new Map<string, SyncState>();
+  for (const m of outbox) {
+    if (m.kind === "insert") result.set(m.taskId, "local");
+    else {
+      for (const taskId of taskIdsOf(m)) {
+        if (!result.has(taskId)) result.set(taskId, "pending");
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * True when a request failed because the server couldn't be reached —
+ * worth retrying later — rather than because it was rejected.
+ */
+export function isNetworkError(error: { message: string } | null, status = 0): boolean {
+  if (!error) return false;
+  return status === 0 || /failed to fetch|networkerror|network request failed|load failed/i.test(error.message);
+}
+
+/**
+ * True when a retried insert had in fact already succeeded (the row's
+ * client-generated id is taken).
+ */
+export function isAlreadyApplied<T extends Row>(
+  mutation: Mutation<T>,
+  error: { code?: string } | null
+): boolean {
+  return mutation.kind === "insert" && error?.code === "23505";
+}
@@ -0,0 +1,90 @@
+/**
+ * projects.ts
+ * Pure functions for project progress and deadline pace.
+ *
+ * Pace is measured in tasks per day, using the user's local calendar days:
+ * - required pace = open tasks ÷ days left (the deadline day included)
+ * - velocity      = project tasks completed over the last 7 days ÷ 7
+ * A project is "on track" when velocity keeps up with the required pace.
+ */
+
+import { addDays, daysBetween, toLocalDateStr } from "./streak";
+
+export type PaceTask = {
+  project_id: string | null;
+  status: string;
+  completed_at: string | null;
+};
+
+export type PaceProject = {
+  id: string;
+  deadline: string | null; // "YYYY-MM-DD"
+};
+
+export type ProjectVerdict = "done" | "on-track" | "behind" | "no-deadline";
+
+export type ProjectPace = {
+  total: number;
+  done: number;
+  remaining: number;
+  /** Percent of tasks done, 0–100. */
+  progress: number;
+  /** Calendar days until the deadline (0 = due today, negative = past). */
+  daysLeft: number | null;
+  /** Tasks per day needed to finish by the deadline. */
+  requiredPace: number | null;
+  /** Tasks per day completed over the last 7 days. */
+  velocity7d: number;
+  verdict: ProjectVerdict;
+};
+
+/** Days in the rolling velocity window. */
+export const VELOCITY_WINDOW_DAYS = 7;
+
+/**
+ * Compute progress, days left, required pace vs. 7-day velocity and an
+ * on-track / behind verdict for one project.
+ *
+ * @param project   The project (only id and deadline are read).
+ * @param tasks     All of the user's tasks — filtered by project_id here.
+ * @param now       Override for "today" — useful in tests.
+ * @param timeZone  User's IANA timezone for day boundaries.
+ */
+export function projectPace(
+  project: PaceProject,
+  tasks: PaceTask[],
+  now: Date = new Date(),
+  timeZone = "UTC"
+): ProjectPace {
+  const own = tasks.filter((t) => t.project_id === project.id);
+  const total = own.length;
+  const completed = own.filter((t) => t.status === "done");
+  const done = completed.length;
+  const remaining = total - done;
+  const progress = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  const today = toLocalDateStr(now, timeZone);
+  const windowStart = addDays(today, -(VELOCITY_WINDOW_DAYS - 1));
+  const recent = completed.filter((t) => {
+    if (!t.completed_at) return false;
+    const day = toLocalDateStr(new Date(t.completed_at), timeZone);
+    return day >= windowStart && day <= today;
+  }).length;
+  const velocity7d = recent / VELOCITY_WINDOW_DAYS;
+
+  const daysLeft = project.deadline ? daysBetween(today, project.deadline) : null;
+  // Today still counts as a working day
+  const requiredPace =
+    daysLeft === null ? null
+    : remaining === 0 ? 0
+    : daysLeft < 0 ? remaining
+    : remaining / (daysLeft + 1);
+
+  let verdict: ProjectVerdict;
+  if (total > 0 && remaining === 0) verdict = "done";
+  else if (requiredPace === null) verdict = "no-deadline";
+  else if (daysLeft! < 0) verdict = "behind";
+  else verdict = velocity7d >= requiredPace ? "on-track" : "behind";
+
+  return { total, done, remaining, progress, daysLeft, requiredPace, velocity7d, verdict };
+}
@@ -0,0 +1,326 @@
+/**
+ * quickAdd.ts
+ * Pure parser for the add form's inline syntax: the title can carry a due
+ * date, priority, tags and a repeat rule, which are taken out of it.
+ *
+ *   "Ship release notes tomorrow !high #work"
+ *     → "Ship release notes", due tomorrow, high priority, tagged "work"
+ *
+ * Dates:      today, tonight, tomorrow (tmr), in 3 days / a week / 2 months,
+ *             monday… (abbreviations like "fri" after by / on / due / next),
+ *             next week, nov 3, 3 nov, 2026-11-03 — optionally after by / on / due
+ * Priority:   !high !medium !low (or !h !m !l)
+ * Tags:       #name (must start with a letter, so "#123" stays in the title)
+ * Repeats:    every day, every weekday, every other day, every 3 days,
+ *             every 2 weeks, every week, every month, every monday (and
+ *             thursday), every 15th
+ *
+ * Relative dates are worked out from today in the user's timezone. Only
+ * the first phrase of each kind is used; later ones stay in the title.
+ */
+
+import type { TagLike } from "./tags";
+import { addDays, toLocalDateStr } from "./streak";
+import type { RecurrenceRule, Weekday } from "./recurrence";
+
+export type QuickAddPriority = "low" | "medium" | "high";
+
+export type QuickAddPart = {
+  kind: "date" | "priority" | "tag" | "repeat";
+  /** The words as typed. */
+  text: string;
+};
+
+export type QuickAdd = {
+  /** The title with the recognised phrases removed. */
+  title: string;
+  due_date: string | null;
+  priority: QuickAddPriority | null;
+  /** Tag names as typed, without the `#`; no duplicates. */
+  tags: string[];
+  recurrence: RecurrenceRule | null;
+  /** What was recognised, in the order it appeared. */
+  parts: QuickAddPart[];
+};
+
+const PRIORITIES: Record<string, QuickAddPriority> = {
+  high: "high", h: "high",
+  medium: "medium", med: "medium", m: "medium",
+  low: "low", l: "low",
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_SHORT = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const WEEKDAY_ALT: Record<string, number> = { tues: 2, weds: 3, thur: 4, thurs: 4 };
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const DATE_PREFIXES = new Set(["by", "on", "due"]);
+
+const UNIT_DAYS: Record<string, number> = { day: 1, days: 1, week: 7, weeks: 7 };
+
+// ─── Words ─────────────────────────────────────────────────────────────────
+
+// A whitespace-separated piece of the input; `word` is lower-cased, with
+// trailing punctuation dropped so "friday," still counts
+type Token = { text: string; word: string };
+
+function tokenize(input: string): Token[] {
+  return input.split(/\s+/).filter(Boolean).map((text) => ({
+    text,
+    word: text.toLowerCase().replace(/[,.;:)]+$/, ""),
+  }));
+}
+
+/** Full names anywhere; abbreviations ("fri") only if `short` is allowed. */
+function weekdayOf(word: string | undefined, short: boolean): Weekday | null {
+  if (!word) return null;
+  let index = WEEKDAYS.indexOf(word);
+  if (index === -1 && short) index = WEEKDAY_SHORT.indexOf(word);
+  if (index === -1 && short) index = WEEKDAY_ALT[word] ?? -1;
+  return index === -1 ? null : (index as Weekday);
+}
+
+/** "november", or the first three or four letters ("nov", "sept"). */
+function monthOf(word: string | undefined): number | null {
+  if (!word || word.length < 3) return null;
+  const index = MONTHS.findIndex((m) => m === word || (word.length <= 4 && m.startsWith(word)));
+  return index === -1 ? null : index + 1;
+}
+
+function countOf(word: string | undefined): number | null {
+  if (word === "a" || word === "an") return 1;
+  if (!word || !/^\d{1,3}$/.test(word)) return null;
+  return Number(word);
+}
+
+// "15", "15th", "1st", "22nd", "3rd"
+function dayOfMonthOf(word: string | undefined): number | null {
+  const match = word?.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+// ─── Dates ─────────────────────────────────────────────────────────────────
+
+function weekdayOfDate(dateStr: string): Weekday {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay() as Weekday;
+}
+
+/** The next `day` strictly after `today` — "friday" on a Friday is a week out. */
+function nextWeekday(today: string, day: Weekday): string {
+  const ahead = (day - weekdayOfDate(today) + 7) % 7 || 7;
+  return addDays(today, ahead);
+}
+
+function addMonths(dateStr: string, months: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const last = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + months, Math.min(d, last))).toISOString().slice(0, 10);
+}
+
+/** `month`/`day` this year, or next year if that's already past. */
+function upcomingDate(today: string, month: number, day: number): string | null {
+  const year = Number(today.slice(0, 4));
+  for (const y of [year, year + 1]) {
+    const date = new Date(Date.UTC(y, month - 1, day));
+    // Rejects the 31st of a 30-day month and so on
+    if (date.getUTCMonth() !== month - 1) return null;
+    const str = date.toISOString().slice(0, 10);
+    if (str >= today) return str;
+  }
+  return null;
+}
+
+function isIsoDate(word: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(word)) return false;
+  const date = new Date(`${word}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(word);
+}
+
+type Match<T> = { length: number; value: T };
+
+/** A date phrase starting at `tokens[i]` (without a by / on / due prefix). */
+function matchDate(tokens: Token[], i: number, today: string, prefixed: boolean): Match<string> | null {
+  const [w0, w1, w2] = [tokens[i]?.word, tokens[i + 1]?.word, tokens[i + 2]?.word];
+  if (!w0) return null;
+
+  if (w0 === "today" || w0 === "tonight") return { length: 1, value: today };
+  if (w0 === "tomorrow" || w0 === "tmr" || w0 === "tmrw") return { length: 1, value: addDays(today, 1) };
+  if (isIsoDate(w0)) return { length: 1, value: w0 };
+
+  if (w0 === "in") {
+    const count = countOf(w1);
+    if (count !== null && w2 && UNIT_DAYS[w2]) return { length: 3, value: addDays(today, count * UNIT_DAYS[w2]) };
+    if (count !== null && (w2 === "month" || w2 === "months")) return { length: 3, value: addMonths(today, count) };
+    return null;
+  }
+
+  if (w0 === "next") {
+    if (w1 === "week") return { length: 2, value: nextWeekday(today, 1) };
+    const day = weekdayOf(w1, true);
+    return day === null ? null : { length: 2, value: nextWeekday(today, day) };
+  }
+
+  const day = weekdayOf(w0, prefixed);
+  if (day !== null) return { length: 1, value: nextWeekday(today, day) };
+
+  // "nov 3" / "november 3rd", then "3 nov"
+  const month = monthOf(w0);
+  const dayOfMonth = dayOfMonthOf(w1);
+  if (month !== null && dayOfMonth !== null) {
+    const date = upcomingDate(today, month, dayOfMonth);
+    if (date) return { length: 2, value: date };
+  }
+  const leading = dayOfMonthOf(w0);
+  const trailing = monthOf(w1);
+  if (leading !== null && trailing !== null) {
+    const date = upcomingDate(today, trailing, leading);
+    if (date) return { length: 2, value: date };
+  }
+  return null;
+}
+
+// ─── Repeats ───────────────────────────────────────────────────────────────
+
+// "every week" / "every month" repeat on the due date's weekday or day,
+// which may only be known once the whole title is read
+type RepeatMatch = RecurrenceRule | { kind: "weeklyOnDue" } | { kind: "monthlyOnDue" };
+
+/** A repeat phrase starting at `tokens[i]`, which must be "every". */
+function matchRepeat(tokens: Token[], i: number): Match<RepeatMatch> | null {
+  if (tokens[i]?.word !== "every") return null;
+  const [w1, w2] = [tokens[i + 1]?.word, tokens[i + 2]?.word];
+
+  if (w1 === "day") return { length: 2, value: { kind: "daily" } };
+  if (w1 === "weekday") return { length: 2, value: { kind: "weekdays" } };
+  if (w1 === "week") return { length: 2, value: { kind: "weeklyOnDue" } };
+  if (w1 === "month") return { length: 2, value: { kind: "monthlyOnDue" } };
+  if (w1 === "other" && w2 === "day") return { length: 3, value: { kind: "interval", days: 2 } };
+  if (w1 === "other" && w2 === "week") return { length: 3, value: { kind: "interval", days: 14 } };
+
+  const count = countOf(w1);
+  if (count !== null && count >= 1 && w2 && UNIT_DAYS[w2]) {
+    const days = count * UNIT_DAYS[w2];
+    if (days > 365) return null;
+    return { length: 3, value: days === 1 ? { kind: "daily" } : { kind: "interval", days } };
+  }
+
+  const dayOfMonth = /\d(st|nd|rd|th)$/.test(w1 ?? "") ? dayOfMonthOf(w1) : null;
+  if (dayOfMonth !== null) return { length: 2, value: { kind: "monthly", day: dayOfMonth } };
+
+  // "every monday", "every mon, wed and fri"
+  const weekdays: Weekday[] = [];
+  let j = i + 1;
+  for (;;) {
+    const day = weekdayOf(tokens[j]?.word, true);
+    if (day === null) break;
+    if (!weekdays.includes(day)) weekdays.push(day);
+    j++;
+    const joiner = tokens[j]?.word;
+    const listed = tokens[j - 1].text.endsWith(",");
+    if ((joiner === "and" || joiner === "&") && weekdayOf(tokens[j + 1]?.word, true) !== null) j++;
+    else if (!listed) break;
+  }
+  if (!weekdays.length) return null;
+  return { length: j - i, value: { kind: "weekly", weekdays: weekdays.sort() } };
+}
+
+// ─── Parser ────────────────────────────────────────────────────────────────
+
+/**
+ * Parses the add form's title. `now` and `timeZone` fix what "today" is.
+ */
+export function parseQuickAdd(input: string, now: Date, timeZone: string): QuickAdd {
+  const today = toLocalDateStr(now, timeZone);
+  const tokens = tokenize(input);
+  const kept: string[] = [];
+  const parts: QuickAddPart[] = [];
+  const tags: string[] = [];
+  let dueDate: string | null = null;
+  let priority: QuickAddPriority | null = null;
+  let repeat: RepeatMatch | null = null;
+
+  function take(i: number, length: number, kind: QuickAddPart["kind"]) {
+    parts.push({ kind, text: tokens.slice(i, i + length).map((t) => t.text).join(" ") });
+    return i + length;
+  }
+
+  let i = 0;
+  while (i < tokens.length) {
+    const { text, word } = tokens[i];
+
+    const bang = word.match(/^!([a-z]+)$/);
+    if (bang && PRIORITIES[bang[1]] && !priority) {
+      priority = PRIORITIES[bang[1]];
+      i = take(i, 1, "priority");
+      continue;
+    }
+
+    const hash = text.match(/^#(\p{L}[\p{L}\p{N}_-]*)[,.;:)]*$/u);
+    if (hash) {
+      if (!tags.some((t) => t.toLowerCase() === hash[1].toLowerCase())) tags.push(hash[1]);
+      i = take(i, 1, "tag");
+      continue;
+    }
+
+    if (!repeat) {
+      const match = matchRepeat(tokens, i);
+      if (match) {
+        repeat = match.value;
+        i = take(i, match.length, "repeat");
+        continue;
+      }
+    }
+
+    if (!dueDate) {
+      const prefixed = DATE_PREFIXES.has(word);
+      const match = matchDate(tokens, prefixed ? i + 1 : i, today, prefixed);
+      if (match) {
+        dueDate = match.value;
+        i = take(i, match.length + (prefixed ? 1 : 0), "date");
+        continue;
+      }
+    }
+
+    kept.push(text);
+    i++;
+  }
+
+  return {
+    title: kept.join(" "),
+    due_date: dueDate,
+    priority,
+    tags,
+    recurrence: repeat && resolveRepeat(repeat, dueDate ?? today),
+    parts,
+  };
+}
+
+function resolveRepeat(repeat: RepeatMatch, anchor: string): RecurrenceRule {
+  if (repeat.kind === "weeklyOnDue") return { kind: "weekly", weekdays: [weekdayOfDate(anchor)] };
+  if (repeat.kind === "monthlyOnDue") return { kind: "monthly", day: Number(anchor.slice(8, 10)) };
+  return repeat;
+}
+
+/**
+ * Splits parsed tag names into existing tags (matched case-insensitively)
+ * and names that don't exist yet.
+ */
+export function matchTags<T extends TagLike>(names: string[], tags: T[]): { found: T[]; missing: string[] } {
+  const found: T[] = [];
+  const missing: string[] = [];
+  for (const name of names) {
+    const tag = tags.find((t) => t.name.toLowerCase() === name.toLowerCase());
+    if (tag) {
+      if (!found.includes(tag)) found.push(tag);
+    } else {
+      missing.push(name);
+    }
+  }
+  return { found, missing };
+}
@@ -0,0 +1,166 @@
+/**
+ * recurrence.ts
+ * Pure functions for recurring tasks.
+ *
+ * A recurring task is a series of occurrences — one row per occurrence, all
+ * sharing a series_id and the same rule. Completing the open occurrence
+ * creates the next one with a rolled-forward due date; completed occurrences
+ * stay as ordinary done tasks, so streaks and analytics count each of them.
+ */
+
+import { addDays } from "./streak";
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+
+export type RecurrenceRule =
+  | { kind: "daily" }
+  | { kind: "weekdays" }
+  | { kind: "interval"; days: number }
+  | { kind: "weekly"; weekdays: Weekday[] }
+  | { kind: "monthly"; day: number }; // 1–31, clamped to short months
+
+export type RecurringTask = {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: "low" | "medium" | "high";
+  status: string;
+  due_date: string | null;
+  project_id: string | null;
+  recurrence: RecurrenceRule | null;
+  series_id: string | null;
+};
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function weekday(dateStr: string): Weekday {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay() as Weekday;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate(); // month is 1-based
+}
+
+/**
+ * True if `rule` is well-formed (e.g. after reading it back from JSON).
+ */
+export function isValidRule(rule: unknown): rule is RecurrenceRule {
+  if (!rule || typeof rule !== "object") return false;
+  const r = rule as Record<string, unknown>;
+  switch (r.kind) {
+    case "daily":
+    case "weekdays":
+      return true;
+    case "interval":
+      return Number.isInteger(r.days) && (r.days as number) >= 1 && (r.days as number) <= 365;
+    case "weekly":
+      return Array.isArray(r.weekdays) && r.weekdays.length > 0 &&
+        r.weekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+    case "monthly":
+      return Number.isInteger(r.day) && (r.day as number) >= 1 && (r.day as number) <= 31;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first occurrence strictly after `after` ("YYYY-MM-DD").
+ * For "interval", that's simply `after` + N days.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string {
+  switch (rule.kind) {
+    case "daily":
+      return addDays(after, 1);
+    case "interval":
+      return addDays(after, Math.max(1, rule.days));
+    case "weekdays":
+    case "weekly": {
+      const days = rule.kind === "weekdays" ? [1, 2, 3, 4, 5] : rule.weekdays;
+      for (let i = 1; i <= 7; i++) {
+        const day = addDays(after, i);
+        if (days.includes(weekday(day))) return day;
+      }
+      return addDays(after, 7); // empty weekday list — fall back to weekly
+    }
+    case "monthly": {
+      let [y, m] = after.split("-").map(Number);
+      for (;;) {
+        const d = Math.min(rule.day, daysInMonth(y, m));
+        const day = `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+        if (day > after) return day;
+        m++;
+        if (m > 12) { m = 1; y++; }
+      }
+    }
+  }
+}
+
+/**
+ * The first occurrence on or after `today` — the due date for a new series
+ * created without one.
+ */
+export function firstOccurrence(rule: RecurrenceRule, today: string): string {
+  return nextOccurrence(rule, addDays(today, -1));
+}
+
+/**
+ * Due date for the occurrence after one completed on `today`. Rolls forward
+ * from the old due date when it's still in the future (finished early), and
+ * from today otherwise — finishing late never creates an already-overdue
+ * occurrence.
+ */
+export function nextDueDate(rule: RecurrenceRule, dueDate: string | null, today: string): string {
+  const from = dueDate && dueDate.slice(0, 10) > today ? dueDate.slice(0, 10) : today;
+  return nextOccurrence(rule, from);
+}
+
+/**
+ * The next occurrence to insert after `task` is completed on `today`, or
+ * null if the task doesn't recur or its series already has an open
+ * occurrence (e.g. it was un-completed and completed again).
+ */
+export function nextOccurrenceTask<T extends RecurringTask>(
+  task: T,
+  tasks: RecurringTask[],
+  today: string
+): Pick<T, "title" | "description" | "priority" | "due_date" | "project_id" | "recurrence" | "series_id"> | null {
+  if (!task.recurrence || !task.series_id) return null;
+  const hasOpen = tasks.some(
+    (t) => t.id !== task.id && t.series_id === task.series_id && t.status !== "done"
+  );
+  if (hasOpen) return null;
+  return {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    due_date: nextDueDate(task.recurrence, task.due_date, today),
+    project_id: task.project_id,
+    recurrence: task.recurrence,
+    series_id: task.series_id,
+  };
+}
+
+/**
+ * Short human label, e.g. "Daily", "Every 3 days", "Mon, Wed, Fri".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Weekdays";
+    case "interval":
+      return rule.days === 1 ? "Daily" : `Every ${rule.days} days`;
+    case "weekly":
+      return rule.weekdays.length === 7
+        ? "Daily"
+        : [...rule.weekdays].sort().map((d) => WEEKDAY_NAMES[d]).join(", ");
+    case "monthly":
+      return `Monthly on the ${ordinal(rule.day)}`;
+  }
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
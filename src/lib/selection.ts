@@ -0,0 +1,60 @@
+/**
+ * selection.ts
+ * Pure helpers for multi-selecting tasks in the list. A click toggles one
+ * task and makes it the anchor; a shift-click selects every task from the
+ * anchor to the clicked one; a section's checkbox selects or clears the
+ * whole section. Selections are sets of task ids and are never mutated.
+ */
+
+export type SectionState = "none" | "some" | "all";
+
+export function toggleOne(selected: Set<string>, id: string): Set<string> {
+  const next = new Set(selected);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+}
+
+/**
+ * Adds the tasks from `anchor` to `id` (either direction, both included)
+ * in `ordered`. Without an anchor in the same list it toggles `id` alone.
+ */
+export function selectRange(
+  selected: Set<string>,
+  ordered: string[],
+  anchor: string | null,
+  id: string
+): Set<string> {
+  const from = anchor === null ? -1 : ordered.indexOf(anchor);
+  const to = ordered.indexOf(id);
+  if (from === -1 || to === -1) return toggleOne(selected, id);
+  const next = new Set(selected);
+  for (let i = Math.min(from, to); i <= Math.max(from, to); i++) next.add(ordered[i]);
+  return next;
+}
+
+export function sectionState(selected: Set<string>, ids: string[]): SectionState {
+  const count = ids.filter((id) => selected.has(id)).length;
+  if (count === 0) return "none";
+  return count === ids.length ? "all" : "some";
+}
+
+/**
+ * Selects the whole section, or clears it if it's all selected already.
+ */
+export function toggleSection(selected: Set<string>, ids: string[]): Set<string> {
+  const next = new Set(selected);
+  if (sectionState(selected, ids) === "all") ids.forEach((id) => next.delete(id));
+  else ids.forEach((id) => next.add(id));
+  return next;
+}
+
+/**
+ * Drops ids that are no longer listed (deleted, or filtered out). Returns
+ * the same set when nothing changes.
+ */
+export function pruneSelection(selected: Set<string>, ids: string[]): Set<string> {
+  const listed = new Set(ids);
+  if ([...selected].every((id) => listed.has(id))) return selected;
+  return new Set([...selected].filter((id) => listed.has(id)));
+}
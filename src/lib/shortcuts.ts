@@ -0,0 +1,127 @@
+/**
+ * shortcuts.ts
+ * Pure helpers for keyboard control of the dashboard: which global
+ * shortcut a key press means, the cheat sheet listing them, moving the
+ * task cursor, and the fuzzy matching behind the command palette.
+ */
+
+export type ShortcutAction =
+  | "newTask"
+  | "next"
+  | "previous"
+  | "toggle"
+  | "edit"
+  | "delete"
+  | "palette"
+  | "help";
+
+export type KeyPress = {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  /** The key went to a text field (input, textarea, select, contenteditable). */
+  typing: boolean;
+};
+
+/** For the `?` cheat sheet, in display order. */
+export const SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ["n"], label: "New task" },
+  { keys: ["j"], label: "Next task" },
+  { keys: ["k"], label: "Previous task" },
+  { keys: ["x"], label: "Complete / reopen the selected task" },
+  { keys: ["e"], label: "Edit the selected task's title" },
+  { keys: ["#"], label: "Delete the selected task" },
+  { keys: ["Ctrl", "K"], label: "Command palette (⌘K on a Mac)" },
+  { keys: ["?"], label: "Show these shortcuts" },
+  { keys: ["Esc"], label: "Close a dialog" },
+];
+
+const SINGLE_KEYS: Record<string, ShortcutAction> = {
+  n: "newTask",
+  j: "next",
+  k: "previous",
+  x: "toggle",
+  e: "edit",
+  "#": "delete",
+  "?": "help",
+};
+
+/**
+ * The action a key press triggers, or null. Ctrl/Cmd+K works anywhere,
+ * even while typing; single-key shortcuts only outside text fields and
+ * without Ctrl, Cmd or Alt (Shift is fine — it makes `#` and `?`).
+ */
+export function shortcutFor(press: KeyPress): ShortcutAction | null {
+  const key = press.key.length === 1 ? press.key.toLowerCase() : press.key;
+  if ((press.ctrlKey || press.metaKey) && !press.altKey && key === "k") return "palette";
+  if (press.typing || press.ctrlKey || press.metaKey || press.altKey) return null;
+  // Lower-cased so Caps Lock doesn't matter; `#` and `?` are unaffected
+  return SINGLE_KEYS[key] ?? null;
+}
+
+/**
+ * Moves the task cursor one step through `ids` (the list as shown). With
+ * no cursor, or one that's no longer listed, it starts from the top.
+ * Stops at either end. Returns null for an empty list.
+ */
+export function stepCursor(ids: string[], current: string | null, delta: -1 | 1): string | null {
+  if (ids.length === 0) return null;
+  const index = current === null ? -1 : ids.indexOf(current);
+  if (index === -1) return ids[0];
+  return ids[Math.min(ids.length - 1, Math.max(0, index + delta))];
+}
+
+/**
+ * Where the cursor goes when its task leaves the list: the next task, or
+ * the previous one if it was last.
+ */
+export function cursorAfterRemoval(ids: string[], removed: string): string | null {
+  const index = ids.indexOf(removed);
+  if (index === -1) return null;
+  return ids[index + 1] ?? ids[index - 1] ?? null;
+}
+
+// ─── Fuzzy matching ────────────────────────────────────────────────────────
+
+const WORD_BREAK = /[\s\-_/.:#]/;
+
+/**
+ * Scores `text` against `query` as a subsequence match (case-insensitive),
+ * or null if the query's characters don't all appear in order. Matches at
+ * the start of a word and runs of consecutive characters score higher,
+ * so "ana" ranks "Go to Analytics" above "Plan a lunch".
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const ch of q) {
+    if (ch === " ") continue;
+    const index = t.indexOf(ch, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BREAK.test(t[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Among equal matches, prefer shorter texts
+  return score - t.length / 1000;
+}
+
+/**
+ * The items matching `query`, best first (ties keep their order), at most
+ * `limit`. An empty query returns the first `limit` items.
+ */
+export function fuzzySearch<T>(items: T[], query: string, textOf: (item: T) => string, limit = 8): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, textOf(item)) }))
+    .filter((m): m is { item: T; index: number; score: number } => m.score !== null)
+    .sort((a, b) => (query.trim() ? b.score - a.score : 0) || a.index - b.index)
+    .slice(0, limit)
+    .map((m) => m.item);
+}
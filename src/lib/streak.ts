@@ -1,17 +1,153 @@
 /**
  * streak.ts
  * Pure functions for computing daily streaks from completed tasks.
- * Strategy: UTC dates, per-user, consecutive-day counting.
+ * Strategy: per-user IANA timezone, consecutive local-day counting.
  *
- * A "streak day" = any UTC calendar day that has ≥1 completed task.
+ * A "streak day" = any calendar day in the user's timezone that has ≥1
+ * completed task.
  * Streak = count of consecutive days ending today (or yesterday if today
  * has no completion yet — so the streak doesn't break until the day is over).
+ *
+ * Streak freezes: a day covered by a spent freeze bridges the gap between
+ * two streak days without adding to the count. One freeze is earned every
+ * FREEZE_MILESTONE_DAYS days of a run, up to MAX_FREEZES held at once.
+ *
+ * Streak policy (strategy): how many completions make a day count, how many
+ * misses per Mon–Sun week are forgiven, and whether any further miss resets
+ * the run or merely pauses it. Defaults to STREAK_POLICIES.strict, which is
+ * the plain "≥1 task a day, any miss resets" behaviour. A policy can also
+ * require a daily check-in of at least CHECKIN_TARGET_PERCENT, and at least
+ * one completed focus (pomodoro) session.
  */
 
 export type CompletedTask = {
   completed_at: string | Date; // ISO string or Date object
 };
 
+export type StreakMode = "gentle" | "normal" | "strict";
+
+export type StreakPolicy = {
+  /** What a miss beyond the weekly budget does to the run. */
+  onMiss: "pause" | "reset";
+  /** Misses per Mon–Sun week that are forgiven outright (0–7). */
+  allowedMissesPerWeek: number;
+  /** Completions needed for a day to count toward the streak. */
+  minTasksPerDay: number;
+  /** Also require a check-in at ≥ CHECKIN_TARGET_PERCENT for a day to count. */
+  requireCheckin?: boolean;
+  /** Also require at least one completed focus session for a day to count. */
+  requireFocus?: boolean;
+};
+
+export const STREAK_POLICIES: Record<StreakMode, StreakPolicy> = {
+  gentle: { onMiss: "pause", allowedMissesPerWeek: 7, minTasksPerDay: 1 },
+  normal: { onMiss: "pause", allowedMissesPerWeek: 1, minTasksPerDay: 1 },
+  strict: { onMiss: "reset", allowedMissesPerWeek: 0, minTasksPerDay: 1 },
+};
+
+/** A daily check-in — how much of the day's targets the user reports done. */
+export type CheckinDay = {
+  day: string; // local "YYYY-MM-DD"
+  completed_percent: number;
+};
+
+/** A completed focus session — it counts on the local day it ended. */
+export type FocusDay = {
+  ended_at: string | Date;
+};
+
+export type StreakOptions = {
+  /** IANA timezone used to bucket completions into days. Defaults to "UTC". */
+  timeZone?: string;
+  /** Local "YYYY-MM-DD" days covered by a spent streak freeze. */
+  frozenDays?: Iterable<string>;
+  /** Streak rules. Defaults to STREAK_POLICIES.strict. */
+  policy?: StreakPolicy;
+  /** The user's check-ins — only read when policy.requireCheckin is set. */
+  checkins?: Iterable<CheckinDay>;
+  /** The user's focus sessions — only read when policy.requireFocus is set. */
+  focusSessions?: Iterable<FocusDay>;
+};
+
+/**
+ * How a single local day counts:
+ * - active   — met the policy's minimum number of completions (and
+ *              checked in / focused, if the policy requires it)
+ * - frozen   — covered by a spent freeze
+ * - forgiven — a miss within the weekly budget
+ * - missed   — a miss beyond the budget (pauses or resets, per policy)
+ * - pending  — today (or later) without enough completions yet
+ */
+export type DayKind = "active" | "frozen" | "forgiven" | "missed" | "pending";
+
+export type StreakStatus = {
+  streak: number;
+  /** Frozen days bridging gaps inside the current run, newest first. */
+  frozenUsed: string[];
+  /** True when a "pause" policy is holding the run after unforgiven misses. */
+  paused: boolean;
+};
+
+export type StreakRun = {
+  /** First active day of the run. */
+  start: string;
+  /** Last active day of the run. */
+  end: string;
+  /** Active days in the run (bridged days don't count). */
+  length: number;
+  /** The missed day that ended the run, or null if it's still going. */
+  brokenOn: string | null;
+};
+
+export type FreezeInventory = {
+  earned: number;
+  used: number;
+  available: number;
+};
+
+export type StreakGap = {
+  /** Missed days (newest first) that must be frozen to keep the run alive. */
+  missedDays: string[];
+  /** Length of the run that freezing those days would save. */
+  streak: number;
+};
+
+/** A freeze is earned each time a run reaches a multiple of this length. */
+export const FREEZE_MILESTONE_DAYS = 7;
+/** Most freezes a user can hold at once. */
+export const MAX_FREEZES = 3;
+/** Check-in percent a day needs under a policy with requireCheckin. */
+export const CHECKIN_TARGET_PERCENT = 80;
+
+// ─── Day helpers ────────────────────────────────────────────────────────────
+
+// Intl formatters are expensive to build — keep one per timezone.
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function dayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = dayFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dayFormatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Format a Date as a calendar date string "YYYY-MM-DD" in the given timezone.
+ */
+export function toLocalDateStr(date: Date, timeZone = "UTC"): string {
+  const parts = dayFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
 /**
  * Format a Date as a UTC date string "YYYY-MM-DD".
  */
@@ -20,74 +156,356 @@ export function toUtcDateStr(date: Date): string {
 }
 
 /**
- * Subtract `days` from a UTC date string, return new UTC date string.
+ * Shift a "YYYY-MM-DD" date string by `days` (negative = backwards).
+ * Pure calendar arithmetic — no instants or hour offsets are involved, so a
+ * 23h or 25h DST day can never skip or repeat a date.
  */
-export function subtractDays(dateStr: string, days: number): string {
-  const d = new Date(`${dateStr}T00:00:00Z`);
-  d.setUTCDate(d.getUTCDate() - days);
-  return toUtcDateStr(d);
+export function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return toUtcDateStr(new Date(Date.UTC(y, m - 1, d + days)));
 }
 
 /**
- * Compute the current streak from an array of completed tasks.
+ * Whole days from `from` to `to` ("YYYY-MM-DD"; negative when `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * True if `timeZone` is an IANA zone this runtime understands.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    dayFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's IANA timezone, falling back to UTC.
+ */
+export function detectTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Monday of the week containing a "YYYY-MM-DD" date string.
+ */
+export function weekStart(dateStr: string): string {
+  const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+  return addDays(dateStr, -((weekday + 6) % 7));
+}
+
+/**
+ * Count completions per local calendar day.
+ */
+export function completionsByDay(
+  tasks: CompletedTask[],
+  timeZone = "UTC"
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of tasks) {
+    const day = toLocalDateStr(new Date(t.completed_at), timeZone);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// ─── Day classification ─────────────────────────────────────────────────────
+
+type DayClassifier = {
+  today: string;
+  /** Earliest day with any completion or freeze, or null with no history. */
+  firstDay: string | null;
+  kind: (day: string) => DayKind;
+};
+
+/**
+ * Classify local days under the given policy. Weeks are classified lazily
+ * and in order, so the weekly miss budget forgives the earliest misses of
+ * each week first.
+ */
+function classifier(
+  tasks: CompletedTask[],
+  now: Date,
+  options: StreakOptions
+): DayClassifier {
+  const { timeZone = "UTC", policy = STREAK_POLICIES.strict } = options;
+  const counts = completionsByDay(tasks, timeZone);
+  const frozenDays = new Set(options.frozenDays ?? []);
+  const today = toLocalDateStr(now, timeZone);
+  const minTasks = Math.max(1, policy.minTasksPerDay);
+  const checkedIn = new Set<string>();
+  for (const c of options.checkins ?? []) {
+    if (c.completed_percent >= CHECKIN_TARGET_PERCENT) checkedIn.add(c.day);
+  }
+  const focused = new Set<string>();
+  for (const f of options.focusSessions ?? []) {
+    focused.add(toLocalDateStr(new Date(f.ended_at), timeZone));
+  }
+  const meetsTarget = (day: string) =>
+    (counts.get(day) ?? 0) >= minTasks
+    && (!policy.requireCheckin || checkedIn.has(day))
+    && (!policy.requireFocus || focused.has(day));
+
+  const history = [...counts.keys(), ...frozenDays].sort();
+  const firstDay = history[0] ?? null;
+
+  const kinds = new Map<string, DayKind>();
+  function classifyWeek(monday: string) {
+    let misses = 0;
+    for (let i = 0; i < 7; i++) {
+      const day = addDays(monday, i);
+      let kind: DayKind;
+      if (meetsTarget(day)) kind = "active";
+      else if (day >= today) kind = "pending";
+      else if (frozenDays.has(day)) kind = "frozen";
+      // Days before any history don't spend the budget
+      else if (firstDay && day > firstDay && misses < policy.allowedMissesPerWeek) {
+        misses++;
+        kind = "forgiven";
+      }
+      else kind = "missed";
+      kinds.set(day, kind);
+    }
+  }
+
+  return {
+    today,
+    firstDay,
+    kind(day) {
+      if (!kinds.has(day)) classifyWeek(weekStart(day));
+      return kinds.get(day)!;
+    },
+  };
+}
+
+/**
+ * Classify every local day from `from` to `to` (inclusive) under the given
+ * policy — e.g. for calendar or heatmap markers.
+ */
+export function classifyDays(
+  tasks: CompletedTask[],
+  from: string,
+  to: string,
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): Map<string, DayKind> {
+  const { kind } = classifier(tasks, now, options);
+  const result = new Map<string, DayKind>();
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    result.set(day, kind(day));
+  }
+  return result;
+}
+
+// ─── Streak ─────────────────────────────────────────────────────────────────
+
+/**
+ * Compute the current streak and which freezes it relies on.
  *
  * Algorithm:
- * 1. Build a Set of unique UTC date strings from completed_at timestamps.
- * 2. Start from today (UTC). If today has no completions, check if yesterday
- *    does — if so, the streak is still alive (user hasn't had a chance today yet).
- *    If yesterday also has none, streak = 0.
- * 3. Count backwards while each previous day exists in the set.
+ * 1. Classify each local day under the policy (see DayKind).
+ * 2. Start from today (in `options.timeZone`). If today isn't active yet,
+ *    start from yesterday instead — the streak is still alive until today is
+ *    over.
+ * 3. Walk backwards: an active day adds 1; frozen and forgiven days are
+ *    skipped without adding; a missed day ends the run under "reset" and is
+ *    skipped under "pause". Bridged days only count as used when an active
+ *    day sits behind them.
  *
- * @param tasks  Array of tasks with a completed_at field (non-null = completed).
- * @param now    Override for "today" — useful in tests. Defaults to new Date().
- * @returns      Integer streak count (0 if no streak).
+ * @param tasks    Array of tasks with a completed_at field (non-null = completed).
+ * @param now      Override for "today" — useful in tests. Defaults to new Date().
+ * @param options  Per-user settings (timezone, frozen days, policy).
+ */
+export function streakStatus(
+  tasks: CompletedTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): StreakStatus {
+  const { onMiss } = options.policy ?? STREAK_POLICIES.strict;
+  const { today, firstDay, kind } = classifier(tasks, now, options);
+  if (!firstDay) return { streak: 0, frozenUsed: [], paused: false };
+
+  let cursor = kind(today) === "active" ? today : addDays(today, -1);
+  let streak = 0;
+  let paused = false;
+  const frozenUsed: string[] = [];
+  let pendingFrozen: string[] = [];
+  for (; cursor >= firstDay; cursor = addDays(cursor, -1)) {
+    const k = kind(cursor);
+    if (k === "active") {
+      streak++;
+      frozenUsed.push(...pendingFrozen);
+      pendingFrozen = [];
+    } else if (k === "frozen") {
+      pendingFrozen.push(cursor);
+    } else if (k === "missed") {
+      if (onMiss === "reset") break;
+      // Unforgiven misses before the latest active day pause the run
+      if (streak === 0) paused = true;
+    }
+  }
+
+  return { streak, frozenUsed, paused: paused && streak > 0 };
+}
+
+/**
+ * Compute the current streak from an array of completed tasks.
+ * See streakStatus() for the algorithm.
+ *
+ * @returns  Integer streak count (0 if no streak).
  */
 export function computeStreak(
   tasks: CompletedTask[],
-  now: Date = new Date()
+  now: Date = new Date(),
+  options: StreakOptions = {}
 ): number {
   if (!tasks.length) return 0;
+  return streakStatus(tasks, now, options).streak;
+}
+
+// ─── History ────────────────────────────────────────────────────────────────
+
+/**
+ * Every streak run from the first completion to today, oldest first.
+ * Uses the same rules as streakStatus(): frozen and forgiven days bridge,
+ * a missed day ends the run under "reset" and is bridged under "pause". The
+ * last run has brokenOn === null while it's still alive, and its length then
+ * equals the current streak.
+ */
+export function streakHistory(
+  tasks: CompletedTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): StreakRun[] {
+  const { onMiss } = options.policy ?? STREAK_POLICIES.strict;
+  const { today, firstDay, kind } = classifier(tasks, now, options);
+  if (!firstDay) return [];
 
-  // Build set of UTC date strings for days with completions
-  const completedDays = new Set<string>(
-    tasks.map((t) => toUtcDateStr(new Date(t.completed_at)))
+  const runs: StreakRun[] = [];
+  let current: StreakRun | null = null;
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+    const k = kind(day);
+    if (k === "active") {
+      if (current) {
+        current.end = day;
+        current.length++;
+      } else {
+        current = { start: day, end: day, length: 1, brokenOn: null };
+        runs.push(current);
+      }
+    } else if (k === "missed" && onMiss === "reset" && current) {
+      current.brokenOn = day;
+      current = null;
+    }
+  }
+  return runs;
+}
+
+/**
+ * The longest run in a history (the most recent one on ties), or null.
+ */
+export function longestRun(runs: StreakRun[]): StreakRun | null {
+  return runs.reduce<StreakRun | null>(
+    (best, run) => (!best || run.length >= best.length ? run : best),
+    null
   );
+}
+
+// ─── Freezes ────────────────────────────────────────────────────────────────
+
+/**
+ * Replay history oldest → newest to find how many freezes the user holds.
+ * Every FREEZE_MILESTONE_DAYS active days in a run earn one (capped at
+ * MAX_FREEZES); every frozen day spends one. A miss that resets the run also
+ * resets progress toward the next milestone, but keeps freezes already
+ * earned.
+ */
+export function freezeInventory(
+  tasks: CompletedTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): FreezeInventory {
+  const { onMiss } = options.policy ?? STREAK_POLICIES.strict;
+  const { today, firstDay, kind } = classifier(tasks, now, options);
+  if (!firstDay) return { earned: 0, used: 0, available: 0 };
 
-  const today = toUtcDateStr(now);
-  const yesterday = subtractDays(today, 1);
-
-  // Determine the anchor: the most recent day to start counting from.
-  // If today already has a completion, start from today.
-  // If not but yesterday does, start from yesterday (streak still live).
-  // Otherwise no streak.
-  let anchor: string;
-  if (completedDays.has(today)) {
-    anchor = today;
-  } else if (completedDays.has(yesterday)) {
-    anchor = yesterday;
-  } else {
-    return 0;
+  let earned = 0, used = 0, available = 0, run = 0;
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+    const k = kind(day);
+    if (k === "active") {
+      run++;
+      if (run % FREEZE_MILESTONE_DAYS === 0) {
+        earned++;
+        available = Math.min(MAX_FREEZES, available + 1);
+      }
+    } else if (k === "frozen") {
+      used++;
+      available = Math.max(0, available - 1);
+    } else if (k === "missed" && onMiss === "reset") {
+      run = 0;
+    }
   }
 
-  // Count consecutive days backwards from anchor
-  let streak = 0;
-  let cursor = anchor;
-  while (completedDays.has(cursor)) {
-    streak++;
-    cursor = subtractDays(cursor, 1);
+  return { earned, used, available };
+}
+
+/**
+ * If the streak broke only because of a few recently missed days, return the
+ * days that would have to be frozen to restore it. Returns null when the
+ * streak is intact, when the policy only pauses on a miss, or when the gap
+ * is longer than MAX_FREEZES days.
+ */
+export function bridgeableGap(
+  tasks: CompletedTask[],
+  now: Date = new Date(),
+  options: StreakOptions = {}
+): StreakGap | null {
+  const { onMiss } = options.policy ?? STREAK_POLICIES.strict;
+  if (onMiss === "pause") return null;
+  const { today, firstDay, kind } = classifier(tasks, now, options);
+  if (!firstDay || kind(today) === "active") return null;
+
+  const missedDays: string[] = [];
+  let cursor = addDays(today, -1);
+  for (; cursor >= firstDay && kind(cursor) !== "active"; cursor = addDays(cursor, -1)) {
+    if (kind(cursor) === "missed") missedDays.push(cursor);
+    if (missedDays.length > MAX_FREEZES) return null;
   }
+  if (!missedDays.length || cursor < firstDay) return null;
 
-  return streak;
+  const { streak } = streakStatus(tasks, now, {
+    ...options,
+    frozenDays: [...(options.frozenDays ?? []), ...missedDays],
+  });
+  return { missedDays, streak };
 }
 
 /**
  * Extract only the completed tasks from a mixed list.
  * Tasks are "completed" when status === 'done' AND completed_at is non-null.
+ * Pass `day` (with the user's `timeZone`) to keep only that local day's
+ * completions — e.g. for a "completed today" count.
  */
 export function filterCompleted(
-  tasks: Array<{ status: string; completed_at: string | null | Date }>
+  tasks: Array<{ status: string; completed_at: string | null | Date }>,
+  options: StreakOptions & { day?: string } = {}
 ): CompletedTask[] {
+  const { timeZone = "UTC", day } = options;
   return tasks
     .filter((t) => t.status === "done" && t.completed_at != null)
+    .filter(
+      (t) =>
+        day == null ||
+        toLocalDateStr(new Date(t.completed_at as string | Date), timeZone) === day
+    )
     .map((t) => ({ completed_at: t.completed_at as string | Date }));
 }
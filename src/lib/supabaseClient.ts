@@ -5,6 +5,9 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
+import type { RecurrenceRule } from "./recurrence";
+import type { TagColor } from "./tags";
+import type { WipLimits } from "./board";
 
 const supabaseUrl = (import.meta as any).env.VITE_SUPABASE_URL
 const supabaseAnonKey = (import.meta as any).env.VITE_SUPABASE_ANON_KEY
@@ -23,6 +26,56 @@ export type Database = {
         Insert: Omit<Task, "id" | "created_at">;
         Update: Partial<Omit<Task, "id" | "created_at">>;
       };
+      task_items: {
+        Row: ChecklistItem;
+        Insert: Omit<ChecklistItem, "id" | "created_at">;
+        Update: Partial<Pick<ChecklistItem, "title" | "done" | "position">>;
+      };
+      tags: {
+        Row: Tag;
+        Insert: Omit<Tag, "id" | "created_at">;
+        Update: Partial<Pick<Tag, "name" | "color">>;
+      };
+      task_tags: {
+        Row: TaskTag;
+        Insert: Omit<TaskTag, "created_at">;
+        Update: never;
+      };
+      user_settings: {
+        Row: UserSettings;
+        Insert: Pick<UserSettings, "user_id"> & Partial<UserSettings>;
+        Update: Partial<Omit<UserSettings, "user_id" | "created_at">>;
+      };
+      projects: {
+        Row: Project;
+        Insert: Omit<Project, "id" | "created_at">;
+        Update: Partial<Omit<Project, "id" | "user_id" | "created_at">>;
+      };
+      streak_freezes: {
+        Row: StreakFreeze;
+        Insert: Omit<StreakFreeze, "id" | "created_at">;
+        Update: never;
+      };
+      user_badges: {
+        Row: UserBadge;
+        Insert: Pick<UserBadge, "user_id" | "badge_id">;
+        Update: never;
+      };
+      time_entries: {
+        Row: TimeEntry;
+        Insert: Pick<TimeEntry, "user_id" | "task_id"> & Partial<Pick<TimeEntry, "started_at" | "ended_at">>;
+        Update: Partial<Pick<TimeEntry, "started_at" | "ended_at">>;
+      };
+      focus_sessions: {
+        Row: FocusSession;
+        Insert: Omit<FocusSession, "id" | "created_at">;
+        Update: never;
+      };
+      checkins: {
+        Row: Checkin;
+        Insert: Omit<Checkin, "id" | "created_at" | "updated_at">;
+        Update: Partial<Pick<Checkin, "completed_percent" | "time_spent_hours" | "notes">>;
+      };
     };
   };
 };
@@ -35,6 +88,114 @@ export type Task = {
   status: "todo" | "inprogress" | "done";
   priority: "low" | "medium" | "high";
   due_date: string | null;
+  start_date: string | null; // "YYYY-MM-DD" — Timeline bars run start_date → due_date
   completed_at: string | null;
   created_at: string;
+  project_id: string | null;
+  recurrence: RecurrenceRule | null;
+  series_id: string | null; // shared by all occurrences of a recurring task
+  auto_complete: boolean; // complete when every checklist item is done
+  position: number; // manual order, ascending — see lib/ordering
+  estimated_minutes: number | null;
+  version: number; // bumped by a trigger on every update — see lib/conflicts
+  updated_at: string;
+  deleted_at: string | null; // in the Trash since — see lib/trash
+  archived_at: string | null; // hidden from the list, still counted
+};
+
+export type ChecklistItem = {
+  id: string;
+  user_id: string;
+  task_id: string;
+  title: string;
+  done: boolean;
+  position: number;
+  created_at: string;
+};
+
+export type Project = {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  deadline: string | null; // "YYYY-MM-DD"
+  start_date: string | null; // "YYYY-MM-DD" — Timeline bars run start_date → deadline
+  created_at: string;
+};
+
+export type Tag = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: TagColor;
+  created_at: string;
+};
+
+export type TaskTag = {
+  task_id: string;
+  tag_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type UserSettings = {
+  user_id: string;
+  timezone: string; // IANA zone, e.g. "America/New_York"
+  auto_freeze: boolean;
+  streak_mode: "gentle" | "normal" | "strict" | "custom";
+  streak_on_miss: "pause" | "reset";
+  streak_misses_per_week: number;
+  streak_min_tasks: number;
+  streak_require_checkin: boolean;
+  wip_limits: WipLimits; // Board view column limits, keyed by status
+  focus_work_minutes: number; // last pomodoro cycle used in focus mode
+  focus_break_minutes: number;
+  streak_require_focus: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TimeEntry = {
+  id: string;
+  user_id: string;
+  task_id: string;
+  started_at: string;
+  ended_at: string | null; // null while the timer is running
+  created_at: string;
+};
+
+export type FocusSession = {
+  id: string;
+  user_id: string;
+  task_id: string | null; // null once the task is deleted
+  started_at: string;
+  ended_at: string;
+  focus_minutes: number;
+  created_at: string;
+};
+
+export type StreakFreeze = {
+  id: string;
+  user_id: string;
+  day: string; // "YYYY-MM-DD" in the user's timezone
+  auto: boolean;
+  created_at: string;
+};
+
+export type Checkin = {
+  id: string;
+  user_id: string;
+  day: string; // "YYYY-MM-DD" in the user's timezone
+  completed_percent: number; // 0–100
+  time_spent_hours: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type UserBadge = {
+  id: string;
+  user_id: string;
+  badge_id: string; // BadgeId from lib/badges
+  unlocked_at: string;
 };
@@ -0,0 +1,81 @@
+/**
+ * tags.ts
+ * Pure helpers for user-defined tags: the colour palette, task ↔ tag
+ * lookups and per-tag counts for analytics.
+ */
+
+export type TagColor =
+  | "slate" | "red" | "orange" | "amber" | "emerald" | "sky" | "violet" | "pink";
+
+/** Chip classes per colour — full strings so Tailwind can see them. */
+export const TAG_COLORS: Record<TagColor, string> = {
+  slate:   "bg-slate-500/20 text-slate-300 border-slate-500/30",
+  red:     "bg-red-500/20 text-red-300 border-red-500/30",
+  orange:  "bg-orange-500/20 text-orange-300 border-orange-500/30",
+  amber:   "bg-amber-500/20 text-amber-300 border-amber-500/30",
+  emerald: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
+  sky:     "bg-sky-500/20 text-sky-300 border-sky-500/30",
+  violet:  "bg-violet-500/20 text-violet-300 border-violet-500/30",
+  pink:    "bg-pink-500/20 text-pink-300 border-pink-500/30",
+};
+
+/** Solid swatch per colour, for pickers and bars. */
+export const TAG_SWATCHES: Record<TagColor, string> = {
+  slate: "#94a3b8", red: "#f87171", orange: "#fb923c", amber: "#fbbf24",
+  emerald: "#34d399", sky: "#38bdf8", violet: "#a78bfa", pink: "#f472b6",
+};
+
+export type TagLike = { id: string; name: string };
+export type TaskTagLink = { task_id: string; tag_id: string };
+
+export type TagCount = {
+  tagId: string;
+  total: number;
+  done: number;
+};
+
+/**
+ * Colour for a new tag — cycles through the palette so neighbours differ.
+ */
+export function suggestColor(existing: number): TagColor {
+  const colors = Object.keys(TAG_COLORS) as TagColor[];
+  return colors[existing % colors.length];
+}
+
+/**
+ * Tags per task id, each list sorted by name.
+ */
+export function tagsByTask<T extends TagLike>(tags: T[], links: TaskTagLink[]): Map<string, T[]> {
+  const byId = new Map(tags.map((t) => [t.id, t]));
+  const result = new Map<string, T[]>();
+  for (const link of links) {
+    const tag = byId.get(link.tag_id);
+    if (!tag) continue;
+    const list = result.get(link.task_id);
+    if (list) list.push(tag);
+    else result.set(link.task_id, [tag]);
+  }
+  for (const list of result.values()) list.sort((a, b) => a.name.localeCompare(b.name));
+  return result;
+}
+
+/**
+ * Tasks carrying a tag, total and done — one entry per tag, busiest first.
+ * Links to tasks that no longer exist are ignored.
+ */
+export function tagCounts(
+  tags: TagLike[],
+  links: TaskTagLink[],
+  tasks: { id: string; status: string }[]
+): TagCount[] {
+  const status = new Map(tasks.map((t) => [t.id, t.status]));
+  const counts = new Map(tags.map((t) => [t.id, { tagId: t.id, total: 0, done: 0 }]));
+  for (const link of links) {
+    const count = counts.get(link.tag_id);
+    const s = status.get(link.task_id);
+    if (!count || s === undefined) continue;
+    count.total++;
+    if (s === "done") count.done++;
+  }
+  return [...counts.values()].sort((a, b) => b.total - a.total);
+}
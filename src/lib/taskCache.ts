@@ -0,0 +1,102 @@
+/**
+ * taskCache.ts
+ * IndexedDB persistence for offline use: the last known task list and the
+ * outbox of unsynced task mutations, one record per user. Lets the
+ * dashboard paint instantly from cache and keeps queued changes across
+ * reloads. Both are cleared on sign-out (clearUser).
+ *
+ * Every call degrades to a no-op (reads resolve to null) when IndexedDB
+ * isn't available, e.g. in some private browsing modes.
+ */
+
+import type { Task } from "./supabaseClient";
+import type { Mutation } from "./outbox";
+
+const DB_NAME = "vibetracker";
+const DB_VERSION = 1;
+const TASKS = "tasks";
+const OUTBOX = "outbox";
+
+type Store = typeof TASKS | typeof OUTBOX;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  dbPromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASKS)) db.createObjectStore(TASKS);
+      if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("IndexedDB unavailable — offline cache disabled", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+async function read<T>(store: Store, userId: string): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    const request = db.transaction(store, "readonly").objectStore(store).get(userId);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function write(store: Store, userId: string, value: unknown): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise((resolve) => {
+    const tx = db.transaction(store, "readwrite");
+    tx.objectStore(store).put(value, userId);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.warn(`Failed to write the offline ${store} cache`, tx.error);
+      resolve();
+    };
+  });
+}
+
+// ─── Tasks ────────────────────────────────────────────────────────────────
+
+export function readTasks(userId: string): Promise<Task[] | null> {
+  return read<Task[]>(TASKS, userId);
+}
+
+export function writeTasks(userId: string, tasks: Task[]): Promise<void> {
+  return write(TASKS, userId, tasks);
+}
+
+// ─── Outbox ───────────────────────────────────────────────────────────────
+
+export function readOutbox(userId: string): Promise<Mutation<Task>[] | null> {
+  return read<Mutation<Task>[]>(OUTBOX, userId);
+}
+
+export function writeOutbox(userId: string, outbox: Mutation<Task>[]): Promise<void> {
+  return write(OUTBOX, userId, outbox);
+}
+
+// ─── Sign-out ─────────────────────────────────────────────────────────────
+
+/** Drops the user's cached tasks and outbox, so the next user can't read them. */
+export async function clearUser(userId: string): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise((resolve) => {
+    const tx = db.transaction([TASKS, OUTBOX], "readwrite");
+    tx.objectStore(TASKS).delete(userId);
+    tx.objectStore(OUTBOX).delete(userId);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.warn("Failed to clear the offline cache", tx.error);
+      resolve();
+    };
+  });
+}
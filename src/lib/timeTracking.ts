@@ -0,0 +1,150 @@
+/**
+ * timeTracking.ts
+ * Pure helpers for task estimates and timers: parsing and formatting
+ * durations, time tracked per task and per day, and how actual time
+ * compared with the estimates.
+ *
+ * A time entry with ended_at null is the running timer.
+ */
+
+import { addDays, toLocalDateStr } from "./streak";
+
+export type TimedEntry = {
+  task_id: string;
+  started_at: string;
+  ended_at: string | null;
+};
+
+export type EstimatedTask = {
+  id: string;
+  status: string;
+  estimated_minutes: number | null;
+};
+
+export type EstimateAccuracy = {
+  /** Finished tasks with both an estimate and tracked time. */
+  count: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  /** Actual ÷ estimated over all of them — 1.2 means 20% over. */
+  ratio: number | null;
+  /** Tasks that landed within ACCURATE_WITHIN of their estimate. */
+  accurate: number;
+  over: number;
+  under: number;
+};
+
+/** Largest estimate accepted — a week of minutes, as in the DB check. */
+export const MAX_ESTIMATE_MINUTES = 10_080;
+
+/** A task within ±25% of its estimate counts as accurately estimated. */
+export const ACCURATE_WITHIN = 0.25;
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Reads an estimate typed by the user: "45" or "45m" (minutes), "2h",
+ * "1.5h", "1h30" or "1h 30m". Null for anything else, or out of range.
+ */
+export function parseDuration(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  const match = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m?)?$/.exec(text);
+  if (!text || !match || (!match[1] && !match[2])) return null;
+  const minutes = Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+  return minutes >= 1 && minutes <= MAX_ESTIMATE_MINUTES ? minutes : null;
+}
+
+/**
+ * "45m", "2h", "1h 30m".
+ */
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(minutes);
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+/**
+ * A running clock: "4:05", "1:02:03".
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const mm = String(Math.floor((seconds % 3600) / 60));
+  const ss = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${mm.padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+}
+
+/**
+ * Length of one entry in minutes. A running entry counts up to `now`, or
+ * not at all when `now` is omitted.
+ */
+export function entryMinutes(entry: TimedEntry, now?: Date): number {
+  const end = entry.ended_at ? Date.parse(entry.ended_at) : now?.getTime();
+  if (end === undefined) return 0;
+  return Math.max(0, end - Date.parse(entry.started_at)) / MS_PER_MINUTE;
+}
+
+export function runningEntry<T extends TimedEntry>(entries: T[]): T | null {
+  return entries.find((e) => e.ended_at === null) ?? null;
+}
+
+/**
+ * Minutes tracked per task id (see entryMinutes for running entries).
+ */
+export function minutesByTask(entries: TimedEntry[], now?: Date): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const entry of entries) {
+    const minutes = entryMinutes(entry, now);
+    if (minutes > 0) result.set(entry.task_id, (result.get(entry.task_id) ?? 0) + minutes);
+  }
+  return result;
+}
+
+/**
+ * Minutes tracked on each local day from `from` to `to`, zero-filled. An
+ * entry counts toward the day it started on.
+ */
+export function minutesPerDay(
+  entries: TimedEntry[],
+  from: string,
+  to: string,
+  now: Date,
+  timeZone = "UTC"
+): Map<string, number> {
+  const result = new Map<string, number>();
+  for (let day = from; day <= to; day = addDays(day, 1)) result.set(day, 0);
+  for (const entry of entries) {
+    const day = toLocalDateStr(new Date(entry.started_at), timeZone);
+    const current = result.get(day);
+    if (current !== undefined) result.set(day, current + entryMinutes(entry, now));
+  }
+  return result;
+}
+
+/**
+ * How actual time compared with the estimates, over finished tasks that
+ * have both.
+ */
+export function estimateAccuracy(
+  tasks: EstimatedTask[],
+  actualByTask: Map<string, number>
+): EstimateAccuracy {
+  const result: EstimateAccuracy = {
+    count: 0, estimatedMinutes: 0, actualMinutes: 0, ratio: null, accurate: 0, over: 0, under: 0,
+  };
+  for (const task of tasks) {
+    const actual = actualByTask.get(task.id) ?? 0;
+    if (task.status !== "done" || !task.estimated_minutes || actual <= 0) continue;
+    const ratio = actual / task.estimated_minutes;
+    result.count += 1;
+    result.estimatedMinutes += task.estimated_minutes;
+    result.actualMinutes += actual;
+    if (Math.abs(ratio - 1) <= ACCURATE_WITHIN) result.accurate += 1;
+    else if (ratio > 1) result.over += 1;
+    else result.under += 1;
+  }
+  if (result.count > 0) result.ratio = result.actualMinutes / result.estimatedMinutes;
+  return result;
+}
@@ -0,0 +1,134 @@
+/**
+ * timeline.ts
+ * Pure helpers for the Timeline (Gantt) view: the date span of each task and
+ * project bar, percent done, the visible range and its tick labels, and
+ * edge-drag resizing.
+ *
+ * Spans are inclusive ranges of local "YYYY-MM-DD" days.
+ */
+
+import { firstOfMonth, shiftPeriod } from "./calendar";
+import { addDays, toLocalDateStr, weekStart } from "./streak";
+
+export type TimelineZoom = "week" | "month";
+
+export type Span = { start: string; end: string };
+
+export type SpanTask = {
+  id: string;
+  status: string;
+  start_date: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+  project_id: string | null;
+};
+
+export type SpanProject = {
+  id: string;
+  start_date: string | null;
+  deadline: string | null;
+};
+
+export type Tick = { day: string; label: string };
+
+/** Blank days kept either side of the bars. */
+const RANGE_PADDING = 3;
+
+/**
+ * A task's bar: start_date → due_date. With only one of them set the bar is
+ * a single day; a finished task without either sits on its completion day.
+ * Null when the task has no dates at all.
+ */
+export function taskSpan(task: SpanTask, timeZone = "UTC"): Span | null {
+  const end = task.due_date ?? task.start_date
+    ?? (task.status === "done" && task.completed_at
+      ? toLocalDateStr(new Date(task.completed_at), timeZone) : null);
+  if (!end) return null;
+  const start = task.start_date && task.start_date <= end ? task.start_date : end;
+  return { start, end };
+}
+
+/**
+ * A project's bar: its own start_date → deadline, with either end falling
+ * back to the earliest / latest of its tasks' bars. Null when neither the
+ * project nor its tasks have dates.
+ */
+export function projectSpan(project: SpanProject, taskSpans: Span[]): Span | null {
+  const starts = taskSpans.map((s) => s.start).sort();
+  const ends = taskSpans.map((s) => s.end).sort();
+  const start = project.start_date ?? starts[0] ?? project.deadline;
+  const end = project.deadline ?? ends[ends.length - 1] ?? project.start_date;
+  if (!start || !end) return null;
+  return start <= end ? { start, end } : { start: end, end };
+}
+
+/**
+ * Share of a task that's done, 0–1: finished tasks are complete, open ones
+ * count their checklist.
+ */
+export function taskProgress(task: { status: string }, checklist?: { done: boolean }[]): number {
+  if (task.status === "done") return 1;
+  if (!checklist?.length) return 0;
+  return checklist.filter((i) => i.done).length / checklist.length;
+}
+
+/**
+ * Share of a project's tasks that are done, 0–1.
+ */
+export function projectProgress(tasks: { status: string }[]): number {
+  if (tasks.length === 0) return 0;
+  return tasks.filter((t) => t.status === "done").length / tasks.length;
+}
+
+/**
+ * The days to draw: every span plus today, padded, and snapped to the
+ * start of a week (week zoom) or month (month zoom).
+ */
+export function timelineRange(spans: Span[], today: string, zoom: TimelineZoom): Span {
+  const starts = [today, ...spans.map((s) => s.start)].sort();
+  const ends = [today, ...spans.map((s) => s.end)].sort();
+  let start = addDays(starts[0], -RANGE_PADDING);
+  let end = addDays(ends[ends.length - 1], RANGE_PADDING);
+
+  if (zoom === "week") {
+    start = weekStart(start);
+    end = addDays(weekStart(end), 6);
+  } else {
+    start = firstOfMonth(start);
+    end = addDays(shiftPeriod(end, "month", 1), -1);
+  }
+  return { start, end };
+}
+
+/**
+ * Axis labels: each Monday (week zoom) or each 1st of the month (month
+ * zoom) inside the range.
+ */
+export function ticks(range: Span, zoom: TimelineZoom): Tick[] {
+  const result: Tick[] = [];
+  for (let day = range.start; day <= range.end; day = addDays(day, 1)) {
+    const isTick = zoom === "week" ? weekStart(day) === day : day.endsWith("-01");
+    if (!isTick) continue;
+    const date = new Date(`${day}T12:00:00Z`);
+    result.push({
+      day,
+      label: date.toLocaleDateString("en-US", zoom === "week"
+        ? { month: "short", day: "numeric", timeZone: "UTC" }
+        : { month: "short", year: "numeric", timeZone: "UTC" }),
+    });
+  }
+  return result;
+}
+
+/**
+ * Moves one edge of a span by whole days. The edge stops at the other one,
+ * so a bar never ends before it starts.
+ */
+export function resizeSpan(span: Span, edge: "start" | "end", deltaDays: number): Span {
+  if (edge === "start") {
+    const start = addDays(span.start, deltaDays);
+    return { ...span, start: start > span.end ? span.end : start };
+  }
+  const end = addDays(span.end, deltaDays);
+  return { ...span, end: end < span.start ? span.start : end };
+}
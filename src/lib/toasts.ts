@@ -0,0 +1,50 @@
+/**
+ * toasts.ts
+ * Pure helpers for the toast stack: short notices in the corner, with an
+ * optional Undo, that dismiss themselves. Errors stay up longer, and a
+ * repeat of an error already showing refreshes it instead of stacking.
+ */
+
+export type ToastKind = "info" | "error";
+
+export type Toast = {
+  id: string;
+  kind: ToastKind;
+  message: string;
+  /** Shows an Undo button; the toast closes when it's used. */
+  onUndo?: () => void;
+  /** How long the toast stays up, in ms. */
+  duration: number;
+};
+
+export type NewToast = Omit<Toast, "id" | "duration"> & { duration?: number };
+
+/** Also the undo window for deferred deletes. */
+export const TOAST_MS = 5000;
+export const ERROR_TOAST_MS = 8000;
+export const MAX_TOASTS = 4;
+
+/**
+ * Adds a toast to the top of the stack (newest last), dropping the oldest
+ * beyond `max`. An identical error already showing is moved to the top
+ * and its timer restarted (it gets the new id).
+ */
+export function pushToast(stack: Toast[], toast: NewToast, id: string, max = MAX_TOASTS): Toast[] {
+  const full: Toast = {
+    ...toast,
+    id,
+    duration: toast.duration ?? (toast.kind === "error" ? ERROR_TOAST_MS : TOAST_MS),
+  };
+  const rest = toast.kind === "error"
+    ? stack.filter((t) => !(t.kind === "error" && t.message === toast.message))
+    : stack;
+  return [...rest, full].slice(-max);
+}
+
+/**
+ * Quotes a task title for a toast, shortened to keep the toast on one line.
+ */
+export function quoteTitle(title: string, max = 40): string {
+  const trimmed = title.length > max ? `${title.slice(0, max - 1).trimEnd()}…` : title;
+  return `“${trimmed}”`;
+}
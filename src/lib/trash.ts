@@ -0,0 +1,87 @@
+/**
+ * trash.ts
+ * Pure helpers for the Trash and the archive.
+ *
+ * Deleting a task moves it to the Trash (deleted_at is stamped); from
+ * there it can be restored, or purged for good — by hand, or automatically
+ * once it has been there TRASH_RETENTION_DAYS. Archiving a completed task
+ * (archived_at) only hides it from the task list: it still counts towards
+ * the streak and the analytics. Trashed tasks count for nothing.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 86_400_000;
+
+type TrashableTask = {
+  status: string;
+  deleted_at: string | null;
+  archived_at: string | null;
+};
+
+export function isTrashed(task: { deleted_at: string | null }): boolean {
+  return task.deleted_at !== null;
+}
+
+/**
+ * Archived and still done — reopening an archived task (on another
+ * device, say) brings it back to the list.
+ */
+export function isArchived(task: TrashableTask): boolean {
+  return task.archived_at !== null && task.status === "done" && !isTrashed(task);
+}
+
+/** Done, not yet archived and not in the Trash. */
+export function canArchive(task: TrashableTask): boolean {
+  return task.status === "done" && task.archived_at === null && !isTrashed(task);
+}
+
+/**
+ * Splits tasks into the list (`active`), the archive and the Trash, order
+ * preserved (see `byStamp` to list the archive or Trash newest first).
+ */
+export function splitTasks<T extends TrashableTask>(tasks: T[]): { active: T[]; archived: T[]; trash: T[] } {
+  const active: T[] = [];
+  const archived: T[] = [];
+  const trash: T[] = [];
+  for (const task of tasks) {
+    if (isTrashed(task)) trash.push(task);
+    else if (isArchived(task)) archived.push(task);
+    else active.push(task);
+  }
+  return { active, archived, trash };
+}
+
+/**
+ * Sorts by a timestamp field, most recent first (ISO strings compare
+ * lexically). Returns a new array.
+ */
+export function byStamp<T extends TrashableTask>(tasks: T[], field: "deleted_at" | "archived_at"): T[] {
+  return [...tasks].sort((a, b) => (b[field] ?? "").localeCompare(a[field] ?? ""));
+}
+
+/**
+ * Trashed tasks whose retention has run out at `now`.
+ */
+export function expiredTrash<T extends { deleted_at: string | null }>(
+  tasks: T[],
+  now: Date,
+  retentionDays = TRASH_RETENTION_DAYS
+): T[] {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return tasks.filter((t) => t.deleted_at !== null && Date.parse(t.deleted_at) <= cutoff);
+}
+
+/**
+ * Whole days until a trashed task is purged (0 = today), or null if it
+ * isn't in the Trash.
+ */
+export function daysLeftInTrash(
+  task: { deleted_at: string | null },
+  now: Date,
+  retentionDays = TRASH_RETENTION_DAYS
+): number | null {
+  if (task.deleted_at === null) return null;
+  const purgeAt = Date.parse(task.deleted_at) + retentionDays * DAY_MS;
+  return Math.max(0, Math.floor((purgeAt - now.getTime()) / DAY_MS));
+}
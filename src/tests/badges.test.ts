@@ -0,0 +1,80 @@
+/**
+ * badges.test.ts
+ * Unit tests for badge unlock rules.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import { evaluateBadges, newlyEarned, BADGES, type BadgeId } from "../../src/lib/badges";
+
+// Helper: a task completed at 10:00 UTC on a given date
+function done(dateStr: string, priority: "low" | "medium" | "high" = "medium", due: string | null = null) {
+  return { status: "done", completed_at: `${dateStr}T10:00:00Z`, priority, due_date: due };
+}
+
+// Helper: an open task
+function open(due: string | null = null) {
+  return { status: "todo", completed_at: null, priority: "medium" as const, due_date: due };
+}
+
+// Helper: fake "now" at noon UTC on a given date string
+function now(dateStr: string) {
+  return new Date(`${dateStr}T12:00:00Z`);
+}
+
+function earned(tasks: Parameters<typeof evaluateBadges>[0], today: string): BadgeId[] {
+  return evaluateBadges(tasks, now(today)).filter((p) => p.earned).map((p) => p.id);
+}
+
+describe("evaluateBadges", () => {
+  it("covers the whole catalogue, in order", () => {
+    expect(evaluateBadges([], now("2025-01-15")).map((p) => p.id)).toEqual(BADGES.map((b) => b.id));
+  });
+
+  it("earns nothing without completions", () => {
+    expect(earned([open()], "2025-01-15")).toEqual([]);
+  });
+
+  it("earns First Step on the first completion", () => {
+    expect(earned([done("2025-01-15")], "2025-01-15")).toEqual(["first-task"]);
+  });
+
+  it("earns Big Fish for a high-priority task", () => {
+    expect(earned([done("2025-01-15", "high")], "2025-01-15")).toContain("first-high");
+  });
+
+  it("counts completions toward Century", () => {
+    const tasks = Array.from({ length: 100 }, () => done("2025-01-15"));
+    const century = evaluateBadges(tasks.slice(0, 40), now("2025-01-15")).find((p) => p.id === "century")!;
+    expect(century).toMatchObject({ current: 40, target: 100, earned: false });
+    expect(earned(tasks, "2025-01-15")).toContain("century");
+  });
+
+  it("earns streak badges from the longest run, even once broken", () => {
+    const tasks = ["2025-01-01", "2025-01-02", "2025-01-03"].map((d) => done(d));
+    expect(earned(tasks, "2025-01-15")).toContain("streak-3");
+    expect(earned(tasks, "2025-01-15")).not.toContain("streak-7");
+  });
+
+  it("earns Clean Week once a week with all due tasks done on time is over", () => {
+    // Week of Mon Jan 6 – Sun Jan 12
+    const tasks = [done("2025-01-07", "medium", "2025-01-08"), done("2025-01-10", "medium", "2025-01-10")];
+    expect(earned(tasks, "2025-01-12")).not.toContain("zero-overdue-week"); // week not over
+    expect(earned(tasks, "2025-01-13")).toContain("zero-overdue-week");
+  });
+
+  it("an overdue or still-open task spoils the week", () => {
+    const late = [done("2025-01-07", "medium", "2025-01-08"), done("2025-01-11", "medium", "2025-01-10")];
+    const unfinished = [done("2025-01-07", "medium", "2025-01-08"), open("2025-01-10")];
+    expect(earned(late, "2025-01-20")).not.toContain("zero-overdue-week");
+    expect(earned(unfinished, "2025-01-20")).not.toContain("zero-overdue-week");
+  });
+});
+
+describe("newlyEarned", () => {
+  it("returns earned badges that aren't stored yet", () => {
+    const progress = evaluateBadges([done("2025-01-15", "high")], now("2025-01-15"));
+    expect(newlyEarned(progress, ["first-task"])).toEqual(["first-high"]);
+    expect(newlyEarned(progress, ["first-task", "first-high"])).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * board.test.ts
+ * Unit tests for Board view helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  groupByStatus,
+  hasRoom,
+  sanitizeWipLimits,
+  statusUpdate,
+  wipState,
+} from "../../src/lib/board";
+
+const now = new Date("2024-06-15T12:00:00Z");
+
+describe("statusUpdate", () => {
+  it("stamps completed_at when a card reaches done", () => {
+    expect(statusUpdate({ status: "inprogress", completed_at: null }, "done", now))
+      .toEqual({ status: "done", completed_at: "2024-06-15T12:00:00.000Z" });
+  });
+
+  it("clears completed_at when a card leaves done", () => {
+    expect(statusUpdate({ status: "done", completed_at: "2024-06-01T00:00:00Z" }, "inprogress", now))
+      .toEqual({ status: "inprogress", completed_at: null });
+  });
+
+  it("moves between open columns without a stamp, and ignores no-ops", () => {
+    expect(statusUpdate({ status: "todo", completed_at: null }, "inprogress", now))
+      .toEqual({ status: "inprogress", completed_at: null });
+    expect(statusUpdate({ status: "todo", completed_at: null }, "todo", now)).toBeNull();
+  });
+});
+
+describe("groupByStatus", () => {
+  it("splits tasks into columns, keeping order", () => {
+    const columns = groupByStatus([
+      { id: "a", status: "done" as const },
+      { id: "b", status: "todo" as const },
+      { id: "c", status: "done" as const },
+    ]);
+    expect(columns.done.map((t) => t.id)).toEqual(["a", "c"]);
+    expect(columns.todo.map((t) => t.id)).toEqual(["b"]);
+    expect(columns.inprogress).toEqual([]);
+  });
+});
+
+describe("WIP limits", () => {
+  it("reports the column's state against its limit", () => {
+    expect(wipState(5, undefined)).toBe("ok");
+    expect(wipState(2, 3)).toBe("ok");
+    expect(wipState(3, 3)).toBe("at-limit");
+    expect(wipState(4, 3)).toBe("over-limit");
+    expect(hasRoom(2, 3)).toBe(true);
+    expect(hasRoom(3, 3)).toBe(false);
+  });
+
+  it("drops malformed stored limits", () => {
+    expect(sanitizeWipLimits({ todo: 10, inprogress: 0, done: 2.5, bogus: 3 })).toEqual({ todo: 10 });
+    expect(sanitizeWipLimits(null)).toEqual({});
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * calendar.test.ts
+ * Unit tests for Calendar view helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calendarDay,
+  monthGrid,
+  shiftPeriod,
+  streakMarkers,
+  tasksByDay,
+  weekOf,
+} from "../../src/lib/calendar";
+
+describe("grids", () => {
+  it("covers a month in whole Monday-first weeks", () => {
+    // June 2024 starts on a Saturday and ends on a Sunday
+    const weeks = monthGrid("2024-06-15");
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toBe("2024-05-27");
+    expect(weeks[4][6]).toBe("2024-06-30");
+    expect(weeks.every((w) => w.length === 7)).toBe(true);
+  });
+
+  it("lists the week around a day", () => {
+    expect(weekOf("2024-06-15")).toEqual([
+      "2024-06-10", "2024-06-11", "2024-06-12", "2024-06-13",
+      "2024-06-14", "2024-06-15", "2024-06-16",
+    ]);
+  });
+
+  it("steps months from the 1st and weeks by seven days", () => {
+    expect(shiftPeriod("2024-01-31", "month", 1)).toBe("2024-02-01");
+    expect(shiftPeriod("2024-01-15", "month", -1)).toBe("2023-12-01");
+    expect(shiftPeriod("2024-06-15", "week", 1)).toBe("2024-06-22");
+  });
+});
+
+describe("calendarDay", () => {
+  it("puts open tasks on their due date and done tasks on their local completion day", () => {
+    expect(calendarDay({ status: "todo", due_date: "2024-06-20", completed_at: null })).toBe("2024-06-20");
+    expect(calendarDay({ status: "todo", due_date: null, completed_at: null })).toBeNull();
+    const done = { status: "done", due_date: "2024-06-20", completed_at: "2024-06-11T02:00:00Z" };
+    expect(calendarDay(done)).toBe("2024-06-11");
+    expect(calendarDay(done, "America/New_York")).toBe("2024-06-10");
+  });
+
+  it("groups tasks by day", () => {
+    const byDay = tasksByDay([
+      { id: "a", status: "todo", due_date: "2024-06-20", completed_at: null },
+      { id: "b", status: "inprogress", due_date: "2024-06-20", completed_at: null },
+      { id: "c", status: "todo", due_date: null, completed_at: null },
+    ]);
+    expect(byDay.get("2024-06-20")!.map((t) => t.id)).toEqual(["a", "b"]);
+    expect(byDay.size).toBe(1);
+  });
+});
+
+describe("streakMarkers", () => {
+  const now = new Date("2024-06-15T12:00:00Z");
+
+  it("marks counted and missed days, skipping pre-history and pending days", () => {
+    const completed = [
+      { completed_at: "2024-06-11T10:00:00Z" },
+      { completed_at: "2024-06-13T10:00:00Z" },
+    ];
+    const markers = streakMarkers(completed, "2024-06-09", "2024-06-16", now);
+    expect([...markers]).toEqual([
+      ["2024-06-11", "active"],
+      ["2024-06-12", "missed"],
+      ["2024-06-13", "active"],
+      ["2024-06-14", "missed"],
+    ]);
+  });
+
+  it("is empty without any history", () => {
+    expect(streakMarkers([], "2024-06-01", "2024-06-30", now).size).toBe(0);
+  });
+});
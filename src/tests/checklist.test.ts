@@ -0,0 +1,75 @@
+/**
+ * checklist.test.ts
+ * Unit tests for checklist helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  checklistProgress,
+  groupByTask,
+  nextPosition,
+  shouldAutoComplete,
+  upsertItem,
+} from "../../src/lib/checklist";
+
+function item(task_id: string, position: number, done = false) {
+  return { task_id, position, done };
+}
+
+describe("groupByTask", () => {
+  it("groups items per task in position order", () => {
+    const groups = groupByTask([item("a", 2), item("b", 0), item("a", 0), item("a", 1)]);
+    expect(groups.get("a")!.map((i) => i.position)).toEqual([0, 1, 2]);
+    expect(groups.get("b")).toHaveLength(1);
+  });
+});
+
+describe("checklistProgress", () => {
+  it("counts done and total", () => {
+    expect(checklistProgress([item("a", 0, true), item("a", 1), item("a", 2, true)]))
+      .toEqual({ done: 2, total: 3 });
+    expect(checklistProgress([])).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe("nextPosition", () => {
+  it("appends after the last item", () => {
+    expect(nextPosition([])).toBe(0);
+    expect(nextPosition([item("a", 0), item("a", 4)])).toBe(5);
+  });
+});
+
+describe("shouldAutoComplete", () => {
+  const task = { status: "todo", auto_complete: true };
+  const allDone = [item("a", 0, true), item("a", 1, true)];
+
+  it("completes once every item is done", () => {
+    expect(shouldAutoComplete(task, allDone)).toBe(true);
+    expect(shouldAutoComplete(task, [item("a", 0, true), item("a", 1)])).toBe(false);
+  });
+
+  it("needs the option turned on", () => {
+    expect(shouldAutoComplete({ ...task, auto_complete: false }, allDone)).toBe(false);
+  });
+
+  it("ignores empty checklists and finished tasks", () => {
+    expect(shouldAutoComplete(task, [])).toBe(false);
+    expect(shouldAutoComplete({ ...task, status: "done" }, allDone)).toBe(false);
+  });
+});
+
+describe("upsertItem", () => {
+  it("keeps one copy when the realtime echo beats the insert response", () => {
+    const optimistic = { id: "i1", title: "Draft", done: false };
+    const echo = { ...optimistic, title: "Draft (server)" };
+    let items = [{ id: "i0", title: "Other", done: true }, optimistic];
+    items = upsertItem(items, echo);
+    items = upsertItem(items, echo);
+    expect(items).toEqual([{ id: "i0", title: "Other", done: true }, echo]);
+  });
+
+  it("appends rows it doesn't have", () => {
+    expect(upsertItem([{ id: "a" }], { id: "b" })).toEqual([{ id: "a" }, { id: "b" }]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * conflicts.test.ts
+ * Unit tests for concurrent-edit conflict helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Task } from "../../src/lib/supabaseClient";
+import {
+  applyVersions,
+  conflictingFields,
+  pickAll,
+  resolveChanges,
+  sameValue,
+  type TaskConflict,
+} from "../../src/lib/conflicts";
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "t",
+    user_id: "u",
+    title: "Write report",
+    description: null,
+    status: "todo",
+    priority: "medium",
+    due_date: null,
+    start_date: null,
+    completed_at: null,
+    created_at: "2024-06-01T00:00:00Z",
+    project_id: null,
+    recurrence: null,
+    series_id: null,
+    auto_complete: false,
+    position: 1,
+    estimated_minutes: null,
+    version: 2,
+    updated_at: "2024-06-02T00:00:00Z",
+    deleted_at: null,
+    archived_at: null,
+    ...overrides,
+  };
+}
+
+describe("conflictingFields", () => {
+  it("flags fields both sides changed to different values", () => {
+    const theirs = task({ title: "Write the report", priority: "high" });
+    expect(conflictingFields({ title: "Write report" }, { title: "Draft report" }, theirs)).toEqual(["title"]);
+  });
+
+  it("ignores fields only I changed, or changed to the same value", () => {
+    const theirs = task({ priority: "high" });
+    expect(conflictingFields({ title: "Write report" }, { title: "Draft report" }, theirs)).toEqual([]);
+    expect(conflictingFields({ priority: "medium" }, { priority: "high" }, theirs)).toEqual([]);
+  });
+
+  it("never reports positions or completion times", () => {
+    const theirs = task({ position: 5, completed_at: "2024-06-02T10:00:00Z", status: "done" });
+    const changes = { position: 3, completed_at: "2024-06-02T11:00:00Z", status: "done" as const };
+    expect(conflictingFields({ position: 1, completed_at: null, status: "todo" }, changes, theirs)).toEqual([]);
+  });
+
+  it("compares recurrence rules by value", () => {
+    expect(sameValue({ freq: "weekly", interval: 1 }, { freq: "weekly", interval: 1 })).toBe(true);
+    expect(sameValue(null, undefined)).toBe(true);
+    expect(sameValue("a", "b")).toBe(false);
+  });
+});
+
+describe("resolveChanges", () => {
+  const conflict: TaskConflict = {
+    theirs: task({ title: "Write the report", status: "done", completed_at: "2024-06-02T10:00:00Z" }),
+    changes: { title: "Draft report", status: "inprogress", completed_at: null, priority: "high" },
+    fields: ["title", "status"],
+  };
+
+  it("keeps my other edits whichever side wins", () => {
+    expect(resolveChanges(conflict, pickAll(conflict, "theirs"))).toEqual({ priority: "high" });
+    expect(resolveChanges(conflict, pickAll(conflict, "mine")))
+      .toEqual({ title: "Draft report", status: "inprogress", completed_at: null, priority: "high" });
+  });
+
+  it("merges field by field, completion time following the status", () => {
+    expect(resolveChanges(conflict, { title: "Draft the report", status: "done" }))
+      .toEqual({ title: "Draft the report", priority: "high" });
+  });
+});
+
+describe("applyVersions", () => {
+  it("takes newer versions from saved rows and keeps local edits", () => {
+    const local = [task({ title: "Edited here" }), task({ id: "other" })];
+    const saved = [task({ title: "Write report", version: 3, updated_at: "2024-06-03T00:00:00Z" })];
+    expect(applyVersions(local, saved)).toEqual([
+      task({ title: "Edited here", version: 3, updated_at: "2024-06-03T00:00:00Z" }),
+      task({ id: "other" }),
+    ]);
+    // A realtime echo may already have moved it further on
+    expect(applyVersions([task({ version: 5 })], saved)).toEqual([task({ version: 5 })]);
+  });
+});
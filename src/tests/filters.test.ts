@@ -0,0 +1,120 @@
+/**
+ * filters.test.ts
+ * Unit tests for task search / filtering and the URL round trip.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  activeFilterCount,
+  EMPTY_FILTERS,
+  filterTasks,
+  parseFilters,
+  writeFilters,
+  type FilterableTask,
+  type FilterContext,
+  type TaskFilters,
+} from "../../src/lib/filters";
+
+function task(id: string, overrides: Partial<FilterableTask> = {}): FilterableTask {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: null,
+    priority: "medium",
+    status: "todo",
+    due_date: null,
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+const context: FilterContext = { today: "2024-06-15", timeZone: "UTC" };
+
+function ids(tasks: FilterableTask[], filters: Partial<TaskFilters>, ctx = context) {
+  return filterTasks(tasks, { ...EMPTY_FILTERS, ...filters }, ctx).map((t) => t.id);
+}
+
+describe("filterTasks", () => {
+  it("returns the same array when nothing is filtered", () => {
+    const tasks = [task("a"), task("b")];
+    expect(filterTasks(tasks, EMPTY_FILTERS, context)).toBe(tasks);
+  });
+
+  it("searches title and description, every word, case-insensitively", () => {
+    const tasks = [
+      task("a", { title: "Write report" }),
+      task("b", { title: "Email", description: "send the REPORT to Sam" }),
+      task("c", { title: "Report bug" }),
+    ];
+    expect(ids(tasks, { query: "report" })).toEqual(["a", "b", "c"]);
+    expect(ids(tasks, { query: "report  sam" })).toEqual(["b"]);
+  });
+
+  it("filters by priority and status, including in progress", () => {
+    const tasks = [
+      task("a", { priority: "high", status: "inprogress" }),
+      task("b", { priority: "high", status: "todo" }),
+      task("c", { priority: "low", status: "inprogress" }),
+    ];
+    expect(ids(tasks, { priorities: ["high"] })).toEqual(["a", "b"]);
+    expect(ids(tasks, { statuses: ["inprogress"] })).toEqual(["a", "c"]);
+    expect(ids(tasks, { priorities: ["high"], statuses: ["inprogress"] })).toEqual(["a"]);
+  });
+
+  it("filters by due range (inclusive) and drops undated tasks", () => {
+    const tasks = [
+      task("a", { due_date: "2024-06-10" }),
+      task("b", { due_date: "2024-06-20" }),
+      task("c"),
+    ];
+    expect(ids(tasks, { dueFrom: "2024-06-10", dueTo: "2024-06-15" })).toEqual(["a"]);
+    expect(ids(tasks, { dueFrom: "2024-06-11" })).toEqual(["b"]);
+  });
+
+  it("overdue means open and due before today", () => {
+    const tasks = [
+      task("a", { due_date: "2024-06-14" }),
+      task("b", { due_date: "2024-06-14", status: "done", completed_at: "2024-06-14T10:00:00Z" }),
+      task("c", { due_date: "2024-06-15" }),
+    ];
+    expect(ids(tasks, { overdue: true })).toEqual(["a"]);
+  });
+
+  it("buckets completed dates in the user's time zone", () => {
+    // 02:00 UTC on the 11th is still the 10th in New York
+    const tasks = [task("a", { status: "done", completed_at: "2024-06-11T02:00:00Z" }), task("b")];
+    expect(ids(tasks, { doneFrom: "2024-06-11" })).toEqual(["a"]);
+    expect(ids(tasks, { doneFrom: "2024-06-11" }, { ...context, timeZone: "America/New_York" }))
+      .toEqual([]);
+  });
+
+  it("filters by tag", () => {
+    const tasks = [task("a"), task("b")];
+    const tagsByTask = new Map([["b", [{ id: "t1" }]]]);
+    expect(ids(tasks, { tagId: "t1" }, { ...context, tagsByTask })).toEqual(["b"]);
+  });
+});
+
+describe("URL round trip", () => {
+  it("writes only non-default filters, replacing old ones and keeping unrelated params", () => {
+    const filters: TaskFilters = {
+      ...EMPTY_FILTERS,
+      query: "report",
+      priorities: ["high", "low"],
+      overdue: true,
+      doneTo: "2024-06-30",
+    };
+    const params = writeFilters(new URLSearchParams("tab=tasks&status=todo"), filters);
+    expect(params.toString()).toBe(
+      "tab=tasks&q=report&priority=high%2Clow&overdue=1&done_to=2024-06-30"
+    );
+    expect(parseFilters(params)).toEqual(filters);
+  });
+
+  it("drops malformed values instead of failing", () => {
+    const filters = parseFilters(new URLSearchParams("priority=urgent,high&due_from=soon&overdue=yes"));
+    expect(filters).toEqual({ ...EMPTY_FILTERS, priorities: ["high"] });
+    expect(activeFilterCount(filters)).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * focus.test.ts
+ * Unit tests for focus mode (pomodoro) helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  focusMinutesPerDay,
+  nextPhase,
+  pause,
+  presetFor,
+  remainingMs,
+  resume,
+  sanitizePlan,
+  startFocus,
+} from "../../src/lib/focus";
+
+const MIN = 60_000;
+const plan = { work: 25, break: 5 };
+
+describe("plans", () => {
+  it("recognises presets and clamps custom cycles", () => {
+    expect(presetFor({ work: 25, break: 5 })).toBe("classic");
+    expect(presetFor({ work: 50, break: 10 })).toBe("long");
+    expect(presetFor({ work: 40, break: 5 })).toBe("custom");
+    expect(sanitizePlan({ work: 500, break: 0 })).toEqual({ work: 180, break: 1 });
+    expect(sanitizePlan({ work: NaN, break: 7.6 })).toEqual({ work: 1, break: 8 });
+  });
+});
+
+describe("cycle", () => {
+  it("counts down from the phase start", () => {
+    const state = startFocus(0);
+    expect(remainingMs(state, plan, 10 * MIN)).toBe(15 * MIN);
+    expect(remainingMs(state, plan, 30 * MIN)).toBe(0);
+  });
+
+  it("freezes while paused and resumes where it left off", () => {
+    const paused = pause(startFocus(0), 10 * MIN);
+    expect(remainingMs(paused, plan, 20 * MIN)).toBe(15 * MIN);
+    const resumed = resume(paused, 20 * MIN);
+    expect(remainingMs(resumed, plan, 25 * MIN)).toBe(10 * MIN);
+  });
+
+  it("only counts focus blocks that ran their full length", () => {
+    const done = nextPhase(startFocus(0), plan, 25 * MIN);
+    expect(done).toMatchObject({ phase: "break", completed: 1, phaseStartedAt: 25 * MIN });
+    const back = nextPhase(done, plan, 30 * MIN);
+    expect(back).toMatchObject({ phase: "focus", completed: 1 });
+    // Skipping ahead early goes to the break without counting the block
+    expect(nextPhase(back, plan, 40 * MIN)).toMatchObject({ phase: "break", completed: 1 });
+  });
+});
+
+describe("focusMinutesPerDay", () => {
+  it("sums sessions on the local day they ended", () => {
+    const sessions = [
+      { ended_at: "2024-06-14T10:00:00Z", focus_minutes: 25 },
+      { ended_at: "2024-06-15T02:00:00Z", focus_minutes: 50 },
+      { ended_at: "2024-06-01T10:00:00Z", focus_minutes: 25 }, // out of range
+    ];
+    expect([...focusMinutesPerDay(sessions, "2024-06-14", "2024-06-15")])
+      .toEqual([["2024-06-14", 25], ["2024-06-15", 50]]);
+    expect(focusMinutesPerDay(sessions, "2024-06-14", "2024-06-15", "America/New_York").get("2024-06-14"))
+      .toBe(75);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * gamification.test.ts
+ * Unit tests for points, multipliers and levels.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  gamificationSummary,
+  levelFor,
+  scoreTask,
+  streakLengthByDay,
+  streakMultiplier,
+  timeliness,
+  LEVELS,
+  MAX_MULTIPLIER,
+} from "../../src/lib/gamification";
+import { STREAK_POLICIES } from "../../src/lib/streak";
+
+// Helper: a task completed at 10:00 UTC on a given date
+function done(dateStr: string, priority: "low" | "medium" | "high" = "medium", due: string | null = null) {
+  return { status: "done", completed_at: `${dateStr}T10:00:00Z`, priority, due_date: due };
+}
+
+// Helper: fake "now" at noon UTC on a given date string
+function now(dateStr: string) {
+  return new Date(`${dateStr}T12:00:00Z`);
+}
+
+// ─── streakMultiplier ──────────────────────────────────────────────────────
+describe("streakMultiplier", () => {
+  it("is 1× without a streak and on day one", () => {
+    expect(streakMultiplier(0)).toBe(1);
+    expect(streakMultiplier(1)).toBe(1);
+  });
+
+  it("grows 0.05 per streak day", () => {
+    expect(streakMultiplier(4)).toBe(1.15);
+    expect(streakMultiplier(11)).toBe(1.5);
+  });
+
+  it("is capped", () => {
+    expect(streakMultiplier(21)).toBe(MAX_MULTIPLIER);
+    expect(streakMultiplier(365)).toBe(MAX_MULTIPLIER);
+  });
+});
+
+// ─── timeliness / scoreTask ────────────────────────────────────────────────
+describe("scoreTask", () => {
+  it("weights by priority", () => {
+    expect(scoreTask(done("2025-01-15", "low"), 1).points).toBe(10);
+    expect(scoreTask(done("2025-01-15", "medium"), 1).points).toBe(20);
+    expect(scoreTask(done("2025-01-15", "high"), 1).points).toBe(35);
+  });
+
+  it("rewards finishing on or before the due date", () => {
+    const task = done("2025-01-15", "medium", "2025-01-15");
+    expect(timeliness(task)).toBe("on-time");
+    expect(scoreTask(task, 1).points).toBe(25);
+  });
+
+  it("halves points for overdue tasks", () => {
+    const task = done("2025-01-16", "medium", "2025-01-15");
+    expect(timeliness(task)).toBe("overdue");
+    expect(scoreTask(task, 1).points).toBe(10);
+  });
+
+  it("judges the due date in the user's timezone", () => {
+    // 2025-01-16T03:00Z is still Jan 15 in New York
+    const task = { ...done("2025-01-16", "medium", "2025-01-15"), completed_at: "2025-01-16T03:00:00Z" };
+    expect(timeliness(task, "UTC")).toBe("overdue");
+    expect(timeliness(task, "America/New_York")).toBe("on-time");
+  });
+
+  it("applies the streak multiplier", () => {
+    expect(scoreTask(done("2025-01-15", "high", "2025-01-20"), 11)).toEqual({
+      base: 35, timeliness: "on-time", multiplier: 1.5, points: 66,
+    });
+  });
+});
+
+// ─── levelFor ──────────────────────────────────────────────────────────────
+describe("levelFor", () => {
+  it("starts as a Rookie", () => {
+    expect(levelFor(0)).toMatchObject({ level: 1, name: "Rookie", floor: 0, next: 500, progress: 0 });
+  });
+
+  it("levels up exactly at the threshold", () => {
+    expect(levelFor(499).level).toBe(1);
+    expect(levelFor(500)).toMatchObject({ level: 2, name: "Builder" });
+  });
+
+  it("reports progress within the level", () => {
+    expect(levelFor(1000).progress).toBe(0.5);
+  });
+
+  it("tops out at the last level", () => {
+    const top = levelFor(100000);
+    expect(top.level).toBe(LEVELS.length);
+    expect(top.next).toBeNull();
+    expect(top.progress).toBe(1);
+  });
+});
+
+// ─── History replay ────────────────────────────────────────────────────────
+describe("streakLengthByDay", () => {
+  it("counts the run on each day and resets after a miss", () => {
+    const tasks = [done("2025-01-13"), done("2025-01-14"), done("2025-01-16")];
+    const lengths = streakLengthByDay(tasks, now("2025-01-16"));
+    expect([...lengths.entries()]).toEqual([
+      ["2025-01-13", 1], ["2025-01-14", 2], ["2025-01-15", 0], ["2025-01-16", 1],
+    ]);
+  });
+
+  it("bridges misses under a pause policy", () => {
+    const tasks = [done("2025-01-13"), done("2025-01-14"), done("2025-01-16")];
+    const lengths = streakLengthByDay(tasks, now("2025-01-16"), { policy: STREAK_POLICIES.gentle });
+    expect(lengths.get("2025-01-16")).toBe(3);
+  });
+});
+
+describe("gamificationSummary", () => {
+  it("is zero without completions", () => {
+    const summary = gamificationSummary([], now("2025-01-15"));
+    expect(summary.points).toBe(0);
+    expect(summary.level.name).toBe("Rookie");
+    expect(summary.multiplier).toBe(1);
+  });
+
+  it("ignores open tasks", () => {
+    const open = { status: "todo", completed_at: null, priority: "high" as const, due_date: null };
+    expect(gamificationSummary([open, done("2025-01-15")], now("2025-01-15")).points).toBe(20);
+  });
+
+  it("scores each completion with that day's streak", () => {
+    // Day 1: 20 × 1.00, day 2: 20 × 1.05 = 21, day 3: 20 × 1.10 = 22
+    const tasks = [done("2025-01-13"), done("2025-01-14"), done("2025-01-15")];
+    const summary = gamificationSummary(tasks, now("2025-01-15"));
+    expect(summary.points).toBe(63);
+    expect(summary.multiplier).toBe(1.1);
+  });
+
+  it("is deterministic — the same history always gives the same points", () => {
+    const tasks = [done("2025-01-13", "high", "2025-01-12"), done("2025-01-14", "low", "2025-01-20")];
+    const a = gamificationSummary(tasks, now("2025-01-20"));
+    const b = gamificationSummary(tasks.slice().reverse(), now("2025-01-20"));
+    expect(a).toEqual(b);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * ordering.test.ts
+ * Unit tests for fractional-index task ordering.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyPositions,
+  listOrder,
+  moveUpdates,
+  positionBetween,
+  sortByPosition,
+  topPosition,
+} from "../../src/lib/ordering";
+
+function task(id: string, position: number, created_at = "2024-06-01T00:00:00Z") {
+  return { id, position, created_at };
+}
+
+function order(list: ReturnType<typeof task>[]) {
+  return sortByPosition(list).map((t) => t.id);
+}
+
+describe("sortByPosition", () => {
+  it("sorts by position, breaking ties by newest then id", () => {
+    const list = [
+      task("b", 1),
+      task("c", 1, "2024-06-02T00:00:00Z"),
+      task("a", 1),
+      task("d", 0),
+    ];
+    expect(order(list)).toEqual(["d", "c", "a", "b"]);
+  });
+});
+
+describe("positionBetween", () => {
+  it("splits a gap and extends past open ends", () => {
+    expect(positionBetween(1, 2)).toBe(1.5);
+    expect(positionBetween(null, 5)).toBe(4);
+    expect(positionBetween(5, null)).toBe(6);
+    expect(positionBetween(null, null)).toBe(0);
+  });
+
+  it("returns null when the gap can't be split", () => {
+    expect(positionBetween(1, 1 + Number.EPSILON)).toBeNull();
+  });
+});
+
+describe("moveUpdates", () => {
+  const list = [task("a", 0), task("b", 1), task("c", 2), task("d", 3)];
+
+  it("writes only the moved task, between its new neighbours", () => {
+    expect(moveUpdates(list, 3, 1)).toEqual([{ id: "d", position: 0.5 }]);
+    expect(moveUpdates(list, 0, 2)).toEqual([{ id: "a", position: 2.5 }]);
+    expect(moveUpdates(list, 2, 0)).toEqual([{ id: "c", position: -1 }]);
+    expect(moveUpdates(list, 1, 3)).toEqual([{ id: "b", position: 4 }]);
+  });
+
+  it("ignores no-op and out-of-range moves", () => {
+    expect(moveUpdates(list, 1, 1)).toEqual([]);
+    expect(moveUpdates(list, 1, 9)).toEqual([]);
+  });
+
+  it("keeps a consistent order when repeated moves exhaust a gap", () => {
+    // Epoch-sized positions, like the database default, leave ~30 splits per gap
+    let current = list.map((t) => ({ ...t, position: t.position - 1.7e9 }));
+    for (let i = 0; i < 80; i++) {
+      // Repeatedly move the last task to just after the first
+      const sorted = sortByPosition(current);
+      current = applyPositions(current, moveUpdates(sorted, sorted.length - 1, 1));
+    }
+    const ids = order(current);
+    expect(ids).toHaveLength(4);
+    expect(new Set(current.map((t) => t.position)).size).toBe(4);
+    expect(ids[0]).toBe("a");
+  });
+
+  it("renumbers only what changed when a gap can't be split", () => {
+    const tight = [task("a", 1), task("b", 1 + Number.EPSILON), task("c", 5)];
+    expect(moveUpdates(tight, 2, 1)).toEqual([
+      { id: "c", position: 2 },
+      { id: "b", position: 3 },
+    ]);
+  });
+
+  it("renumbers around tasks hidden from a filtered list", () => {
+    const all = [task("a", 1), task("x", 1.5), task("b", 1 + Number.EPSILON), task("y", 4), task("c", 5)];
+    const sorted = [...all].sort((p, q) => p.position - q.position); // a, b, x, y, c
+    const visible = sorted.filter((t) => !["x", "y"].includes(t.id)); // a, b, c
+    const current = applyPositions(sorted, moveUpdates(visible, 2, 1, sorted));
+    // c lands right after a (its new neighbour); x and y keep their order
+    expect(order(current)).toEqual(["a", "c", "b", "x", "y"]);
+  });
+});
+
+describe("topPosition", () => {
+  it("goes above the smallest position", () => {
+    expect(topPosition([task("a", 3), task("b", -2)])).toBe(-3);
+  });
+});
+
+describe("listOrder", () => {
+  it("lists open tasks before completed ones, each by position", () => {
+    const tasks = [
+      { ...task("done", 0), status: "done" },
+      { ...task("b", 2), status: "todo" },
+      { ...task("a", 1), status: "inprogress" },
+    ];
+    expect(listOrder(tasks).map((t) => t.id)).toEqual(["a", "b", "done"]);
+  });
+});
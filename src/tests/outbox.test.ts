@@ -0,0 +1,137 @@
+/**
+ * outbox.test.ts
+ * Unit tests for the offline task outbox.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyOutbox,
+  enqueue,
+  nextDeferredAt,
+  nextDue,
+  isAlreadyApplied,
+  isNetworkError,
+  rebase,
+  syncStates,
+  type Mutation,
+} from "../../src/lib/outbox";
+
+type T = { id: string; title: string; position: number };
+type M = Mutation<T>;
+
+const row = (id: string, title = id, position = 0): T => ({ id, title, position });
+const insert = (id: string, taskId: string): M => ({ id, kind: "insert", taskId, row: row(taskId) });
+const update = (id: string, taskId: string, changes: Partial<T>, original: Partial<T> = {}): M =>
+  ({ id, kind: "update", taskId, changes, base: 1, original });
+const remove = (id: string, taskId: string): M => ({ id, kind: "delete", taskId });
+
+describe("enqueue", () => {
+  it("appends mutations for different tasks in order", () => {
+    const queue = enqueue(enqueue([], insert("1", "a")), update("2", "b", { title: "B" }));
+    expect(queue.map((m) => m.id)).toEqual(["1", "2"]);
+  });
+
+  it("folds edits into a queued insert or update", () => {
+    const inserted = enqueue([insert("1", "a")], update("2", "a", { title: "A!" }));
+    expect(inserted).toEqual([{ ...insert("1", "a"), row: { id: "a", title: "A!", position: 0 } }]);
+
+    const updated = enqueue(
+      [update("1", "b", { title: "B" }, { title: "b" })],
+      update("2", "b", { title: "BB", position: 3 }, { title: "B", position: 0 })
+    );
+    expect(updated).toEqual([update("1", "b", { title: "BB", position: 3 }, { title: "b", position: 0 })]);
+  });
+
+  it("drops a task that never reached the server when it's deleted", () => {
+    const queue = [insert("1", "a"), update("2", "b", { title: "B" })];
+    expect(enqueue(queue, remove("3", "a"))).toEqual([update("2", "b", { title: "B" })]);
+    // A synced task's queued edits are replaced by the delete
+    expect(enqueue(queue, remove("3", "b"))).toEqual([insert("1", "a"), remove("3", "b")]);
+    // Edits after a queued delete are ignored
+    expect(enqueue([remove("1", "b")], update("2", "b", { title: "B" }))).toEqual([remove("1", "b")]);
+  });
+
+  it("never rewrites the mutation being sent", () => {
+    const queue = [insert("1", "a")];
+    expect(enqueue(queue, update("2", "a", { title: "A!" }), "1"))
+      .toEqual([insert("1", "a"), update("2", "a", { title: "A!" })]);
+    expect(enqueue(queue, remove("2", "a"), "1")).toEqual([insert("1", "a"), remove("2", "a")]);
+  });
+});
+
+describe("deferred deletes", () => {
+  const later = (id: string, taskId: string, notBefore: number): M => ({ id, kind: "delete", taskId, notBefore });
+
+  it("keep earlier changes queued so the delete can be cancelled", () => {
+    const queue = enqueue([update("1", "a", { title: "A" })], later("2", "a", 5000));
+    expect(queue.map((m) => m.id)).toEqual(["1", "2"]);
+    expect(applyOutbox([row("a")], queue)).toEqual([]);
+  });
+
+  it("are skipped until due", () => {
+    const queue = [later("1", "a", 5000), insert("2", "b")];
+    expect(nextDue(queue, 1000)?.id).toBe("2");
+    expect(nextDue(queue, 5000)?.id).toBe("1");
+    expect(nextDue([later("1", "a", 5000)], 1000)).toBeUndefined();
+    expect(nextDeferredAt([...queue, later("3", "c", 3000)])).toBe(3000);
+    expect(nextDeferredAt([insert("1", "a")])).toBeNull();
+  });
+});
+
+describe("batches", () => {
+  const batch = (id: string, changes: Record<string, Partial<T>>): M => ({
+    id, kind: "batch",
+    updates: Object.entries(changes).map(([taskId, c]) => ({ taskId, changes: c, base: 1, original: {} })),
+  });
+
+  it("queue later edits behind them instead of folding them in earlier", () => {
+    const queue = [update("1", "a", { title: "A" }), batch("2", { a: { position: 2 }, b: { position: 3 } })];
+    expect(enqueue(queue, update("3", "a", { position: 9 })).map((m) => m.id)).toEqual(["1", "2", "3"]);
+    expect(applyOutbox([row("a"), row("b")], [...queue, update("3", "a", { position: 9 })]))
+      .toEqual([row("a", "A", 9), row("b", "b", 3)]);
+    expect([...syncStates(queue)]).toEqual([["a", "pending"], ["b", "pending"]]);
+  });
+
+  it("keep the rest of the batch when one of its tasks is deleted", () => {
+    const queue = [batch("1", { a: { position: 2 }, b: { position: 3 } })];
+    expect(enqueue(queue, remove("2", "a"))).toEqual([batch("1", { b: { position: 3 } }), remove("2", "a")]);
+    expect(enqueue([batch("1", { a: { position: 2 } })], remove("2", "a"))).toEqual([remove("2", "a")]);
+  });
+
+  it("are rebased onto the version an earlier write produced", () => {
+    const queue = rebase([update("1", "a", { title: "A" }), batch("2", { a: {}, b: {} })], "a", 4);
+    expect(queue[0]).toMatchObject({ base: 4 });
+    expect(queue[1].kind === "batch" && queue[1].updates.map((u) => u.base)).toEqual([4, 1]);
+  });
+});
+
+describe("applyOutbox", () => {
+  it("replays queued changes over a server snapshot", () => {
+    const server = [row("b", "B", 1), row("c", "C", 2)];
+    const queue = [insert("1", "a"), update("2", "b", { position: 5 }), remove("3", "c")];
+    expect(applyOutbox(server, queue)).toEqual([row("a"), row("b", "B", 5)]);
+    // An insert the server already has isn't duplicated
+    expect(applyOutbox([row("a", "server")], [insert("1", "a")])).toEqual([row("a", "server")]);
+  });
+
+  it("reports each task's sync state", () => {
+    const queue = [insert("1", "a"), update("2", "b", { title: "B" }), remove("3", "c")];
+    expect([...syncStates(queue)]).toEqual([["a", "local"], ["b", "pending"], ["c", "pending"]]);
+  });
+});
+
+describe("errors", () => {
+  it("tells unreachable servers from rejections", () => {
+    expect(isNetworkError({ message: "TypeError: Failed to fetch" }, 0)).toBe(true);
+    expect(isNetworkError({ message: "NetworkError when attempting to fetch resource." }, 500)).toBe(true);
+    expect(isNetworkError({ message: "new row violates row-level security policy" }, 403)).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+
+  it("treats a duplicate id on a retried insert as success", () => {
+    expect(isAlreadyApplied(insert("1", "a"), { code: "23505" })).toBe(true);
+    expect(isAlreadyApplied(update("1", "a", {}), { code: "23505" })).toBe(false);
+    expect(isAlreadyApplied(insert("1", "a"), { code: "42501" })).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * projects.test.ts
+ * Unit tests for projectPace().
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import { projectPace } from "../../src/lib/projects";
+
+const project = { id: "p1", deadline: "2025-01-24" };
+
+// Helper: an open task in the project
+function open() {
+  return { project_id: "p1", status: "todo", completed_at: null };
+}
+
+// Helper: a task in the project completed at noon UTC on a given date
+function doneOn(dateStr: string, projectId: string | null = "p1") {
+  return { project_id: projectId, status: "done", completed_at: `${dateStr}T12:00:00Z` };
+}
+
+const now = new Date("2025-01-15T12:00:00Z");
+
+describe("projectPace", () => {
+  it("returns zeros for a project without tasks", () => {
+    const pace = projectPace(project, [], now);
+    expect(pace).toMatchObject({ total: 0, done: 0, progress: 0, velocity7d: 0 });
+    expect(pace.verdict).toBe("on-track");
+  });
+
+  it("only counts tasks belonging to the project", () => {
+    const pace = projectPace(project, [open(), doneOn("2025-01-14"), doneOn("2025-01-14", "p2")], now);
+    expect(pace.total).toBe(2);
+    expect(pace.done).toBe(1);
+    expect(pace.progress).toBe(50);
+  });
+
+  it("counts days left with the deadline day as a working day", () => {
+    // Jan 15 → Jan 24: 9 days left, 10 working days incl. today
+    const tasks = Array.from({ length: 10 }, open);
+    const pace = projectPace(project, tasks, now);
+    expect(pace.daysLeft).toBe(9);
+    expect(pace.requiredPace).toBe(1);
+  });
+
+  it("is on track when 7-day velocity covers the required pace", () => {
+    const tasks = [
+      ...Array.from({ length: 5 }, open),
+      ...["2025-01-09", "2025-01-10", "2025-01-11", "2025-01-12", "2025-01-13", "2025-01-14", "2025-01-15"]
+        .map((d) => doneOn(d)),
+    ];
+    const pace = projectPace(project, tasks, now);
+    expect(pace.velocity7d).toBe(1);
+    expect(pace.requiredPace).toBe(0.5);
+    expect(pace.verdict).toBe("on-track");
+  });
+
+  it("ignores completions older than the 7-day window", () => {
+    const pace = projectPace(project, [open(), doneOn("2025-01-08")], now);
+    expect(pace.velocity7d).toBe(0);
+    expect(pace.verdict).toBe("behind");
+  });
+
+  it("is behind once the deadline has passed with work left", () => {
+    const pace = projectPace({ id: "p1", deadline: "2025-01-10" }, [open(), doneOn("2025-01-15")], now);
+    expect(pace.daysLeft).toBe(-5);
+    expect(pace.verdict).toBe("behind");
+  });
+
+  it("is done when every task is complete", () => {
+    const pace = projectPace(project, [doneOn("2025-01-01")], now);
+    expect(pace.verdict).toBe("done");
+    expect(pace.requiredPace).toBe(0);
+  });
+
+  it("has no verdict on pace without a deadline", () => {
+    const pace = projectPace({ id: "p1", deadline: null }, [open()], now);
+    expect(pace.daysLeft).toBeNull();
+    expect(pace.requiredPace).toBeNull();
+    expect(pace.verdict).toBe("no-deadline");
+  });
+
+  it("uses the user's timezone for today", () => {
+    // 2025-01-15T12:00Z is already Jan 16 in Kiritimati (UTC+14)
+    const pace = projectPace(project, [open()], now, "Pacific/Kiritimati");
+    expect(pace.daysLeft).toBe(8);
+  });
+});
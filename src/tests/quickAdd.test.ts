@@ -0,0 +1,99 @@
+/**
+ * quickAdd.test.ts
+ * Unit tests for the add form's natural-language title parser.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import { matchTags, parseQuickAdd } from "../../src/lib/quickAdd";
+
+// 2025-01-15 is a Wednesday
+const NOW = new Date("2025-01-15T12:00:00Z");
+
+function parse(input: string) {
+  return parseQuickAdd(input, NOW, "UTC");
+}
+
+describe("parseQuickAdd", () => {
+  it("pulls the date, priority and tags out of the title", () => {
+    const result = parse("Ship release notes tomorrow !high #work");
+    expect(result).toMatchObject({
+      title: "Ship release notes",
+      due_date: "2025-01-16",
+      priority: "high",
+      tags: ["work"],
+      recurrence: null,
+    });
+    expect(result.parts.map((p) => p.kind)).toEqual(["date", "priority", "tag"]);
+  });
+
+  it("leaves plain titles alone", () => {
+    expect(parse("Fix bug #123 in the sun")).toMatchObject({
+      title: "Fix bug #123 in the sun", due_date: null, priority: null, tags: [], parts: [],
+    });
+    // Only whole words count
+    expect(parse("Write today's summary").due_date).toBeNull();
+  });
+
+  it("understands relative dates", () => {
+    expect(parse("Call mom in 3 days").due_date).toBe("2025-01-18");
+    expect(parse("Renew in a week").due_date).toBe("2025-01-22");
+    expect(parse("Dentist in 2 months").due_date).toBe("2025-03-15");
+    expect(parse("Pay rent by fri").due_date).toBe("2025-01-17");
+    expect(parse("Standup friday").due_date).toBe("2025-01-17");
+    // A weekday is always ahead — on a Wednesday, "wednesday" is next week
+    expect(parse("Gym wednesday").due_date).toBe("2025-01-22");
+    expect(parse("Plan next week").due_date).toBe("2025-01-20");
+    expect(parse("Taxes due 2025-04-15").due_date).toBe("2025-04-15");
+    // Already past this year — next year's
+    expect(parse("Party jan 3").due_date).toBe("2026-01-03");
+    expect(parse("Party 3rd march").due_date).toBe("2025-03-03");
+    expect(parse("Pay rent by fri").title).toBe("Pay rent");
+  });
+
+  it("only reads abbreviated weekdays after by / on / due / next", () => {
+    expect(parse("Sat down with Sam").due_date).toBeNull();
+    expect(parse("Lunch on sat").due_date).toBe("2025-01-18");
+  });
+
+  it("works out today in the user's timezone", () => {
+    // 03:00 UTC on the 16th is still the evening of the 15th in Los Angeles
+    const late = new Date("2025-01-16T03:00:00Z");
+    expect(parseQuickAdd("Call tomorrow", late, "America/Los_Angeles").due_date).toBe("2025-01-16");
+    expect(parseQuickAdd("Call tomorrow", late, "UTC").due_date).toBe("2025-01-17");
+  });
+
+  it("parses repeats", () => {
+    expect(parse("Water plants every day").recurrence).toEqual({ kind: "daily" });
+    expect(parse("Standup every weekday").recurrence).toEqual({ kind: "weekdays" });
+    expect(parse("Backup every other day").recurrence).toEqual({ kind: "interval", days: 2 });
+    expect(parse("Review every 2 weeks").recurrence).toEqual({ kind: "interval", days: 14 });
+    expect(parse("Pay card every 15th").recurrence).toEqual({ kind: "monthly", day: 15 });
+    expect(parse("Gym every mon, wed and fri")).toMatchObject({
+      title: "Gym", recurrence: { kind: "weekly", weekdays: [1, 3, 5] },
+    });
+    expect(parse("Bins every monday and call Bob").title).toBe("Bins and call Bob");
+  });
+
+  it("anchors every week / month on the due date, or today", () => {
+    expect(parse("Report every week").recurrence).toEqual({ kind: "weekly", weekdays: [3] });
+    expect(parse("Report every week from fri").recurrence).toEqual({ kind: "weekly", weekdays: [3] });
+    expect(parse("Report every week friday").recurrence).toEqual({ kind: "weekly", weekdays: [5] });
+    expect(parse("Invoice every month jan 20").recurrence).toEqual({ kind: "monthly", day: 20 });
+  });
+
+  it("uses the first of each kind and keeps the rest in the title", () => {
+    expect(parse("Move monday meeting to friday !low !high #a #A")).toMatchObject({
+      title: "Move meeting to friday !high", due_date: "2025-01-20", priority: "low", tags: ["a"],
+    });
+  });
+});
+
+describe("matchTags", () => {
+  it("matches existing tags case-insensitively and lists the new ones", () => {
+    const tags = [{ id: "t1", name: "Work" }, { id: "t2", name: "home" }];
+    expect(matchTags(["work", "errands", "WORK"], tags)).toEqual({
+      found: [{ id: "t1", name: "Work" }], missing: ["errands"],
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * recurrence.test.ts
+ * Unit tests for recurring task rules.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  describeRecurrence,
+  firstOccurrence,
+  isValidRule,
+  nextDueDate,
+  nextOccurrence,
+  nextOccurrenceTask,
+  type RecurringTask,
+} from "../../src/lib/recurrence";
+
+// 2025-01-15 is a Wednesday
+
+describe("nextOccurrence", () => {
+  it("daily rolls one day", () => {
+    expect(nextOccurrence({ kind: "daily" }, "2025-01-15")).toBe("2025-01-16");
+  });
+
+  it("weekdays skips the weekend", () => {
+    expect(nextOccurrence({ kind: "weekdays" }, "2025-01-16")).toBe("2025-01-17"); // Thu → Fri
+    expect(nextOccurrence({ kind: "weekdays" }, "2025-01-17")).toBe("2025-01-20"); // Fri → Mon
+    expect(nextOccurrence({ kind: "weekdays" }, "2025-01-18")).toBe("2025-01-20"); // Sat → Mon
+  });
+
+  it("every N days", () => {
+    expect(nextOccurrence({ kind: "interval", days: 3 }, "2025-01-30")).toBe("2025-02-02");
+  });
+
+  it("weekly on chosen days", () => {
+    const rule = { kind: "weekly" as const, weekdays: [1, 5] as (1 | 5)[] }; // Mon, Fri
+    expect(nextOccurrence(rule, "2025-01-15")).toBe("2025-01-17");
+    expect(nextOccurrence(rule, "2025-01-17")).toBe("2025-01-20");
+  });
+
+  it("weekly on one day jumps a full week", () => {
+    expect(nextOccurrence({ kind: "weekly", weekdays: [3] }, "2025-01-15")).toBe("2025-01-22");
+  });
+
+  it("monthly on a date", () => {
+    expect(nextOccurrence({ kind: "monthly", day: 20 }, "2025-01-15")).toBe("2025-01-20");
+    expect(nextOccurrence({ kind: "monthly", day: 15 }, "2025-01-15")).toBe("2025-02-15");
+  });
+
+  it("monthly clamps to short months and crosses years", () => {
+    expect(nextOccurrence({ kind: "monthly", day: 31 }, "2025-01-31")).toBe("2025-02-28");
+    expect(nextOccurrence({ kind: "monthly", day: 31 }, "2024-01-31")).toBe("2024-02-29");
+    expect(nextOccurrence({ kind: "monthly", day: 5 }, "2025-12-10")).toBe("2026-01-05");
+  });
+});
+
+describe("firstOccurrence", () => {
+  it("can be today", () => {
+    expect(firstOccurrence({ kind: "weekdays" }, "2025-01-15")).toBe("2025-01-15");
+    expect(firstOccurrence({ kind: "weekdays" }, "2025-01-18")).toBe("2025-01-20");
+  });
+});
+
+describe("nextDueDate", () => {
+  it("rolls from the due date when finished early", () => {
+    expect(nextDueDate({ kind: "daily" }, "2025-01-17", "2025-01-15")).toBe("2025-01-18");
+  });
+
+  it("rolls from today when finished on time or late", () => {
+    expect(nextDueDate({ kind: "daily" }, "2025-01-15", "2025-01-15")).toBe("2025-01-16");
+    expect(nextDueDate({ kind: "daily" }, "2025-01-10", "2025-01-15")).toBe("2025-01-16");
+    expect(nextDueDate({ kind: "interval", days: 7 }, null, "2025-01-15")).toBe("2025-01-22");
+  });
+});
+
+describe("nextOccurrenceTask", () => {
+  const base: RecurringTask = {
+    id: "a", title: "Standup notes", description: null, priority: "medium",
+    status: "done", due_date: "2025-01-15", project_id: "p1",
+    recurrence: { kind: "weekdays" }, series_id: "s1",
+  };
+
+  it("copies the task with the next due date", () => {
+    expect(nextOccurrenceTask(base, [base], "2025-01-15")).toEqual({
+      title: "Standup notes", description: null, priority: "medium",
+      due_date: "2025-01-16", project_id: "p1",
+      recurrence: { kind: "weekdays" }, series_id: "s1",
+    });
+  });
+
+  it("returns null for non-recurring tasks", () => {
+    expect(nextOccurrenceTask({ ...base, recurrence: null, series_id: null }, [], "2025-01-15")).toBeNull();
+  });
+
+  it("doesn't duplicate an open occurrence", () => {
+    const open = { ...base, id: "b", status: "todo", due_date: "2025-01-16" };
+    expect(nextOccurrenceTask(base, [base, open], "2025-01-15")).toBeNull();
+  });
+});
+
+describe("isValidRule", () => {
+  it("accepts well-formed rules", () => {
+    expect(isValidRule({ kind: "daily" })).toBe(true);
+    expect(isValidRule({ kind: "interval", days: 2 })).toBe(true);
+    expect(isValidRule({ kind: "weekly", weekdays: [0, 6] })).toBe(true);
+    expect(isValidRule({ kind: "monthly", day: 31 })).toBe(true);
+  });
+
+  it("rejects malformed rules", () => {
+    expect(isValidRule(null)).toBe(false);
+    expect(isValidRule({ kind: "hourly" })).toBe(false);
+    expect(isValidRule({ kind: "interval", days: 0 })).toBe(false);
+    expect(isValidRule({ kind: "weekly", weekdays: [] })).toBe(false);
+    expect(isValidRule({ kind: "monthly", day: 32 })).toBe(false);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("labels each kind", () => {
+    expect(describeRecurrence({ kind: "weekdays" })).toBe("Weekdays");
+    expect(describeRecurrence({ kind: "interval", days: 3 })).toBe("Every 3 days");
+    expect(describeRecurrence({ kind: "weekly", weekdays: [5, 1] })).toBe("Mon, Fri");
+    expect(describeRecurrence({ kind: "monthly", day: 1 })).toBe("Monthly on the 1st");
+    expect(describeRecurrence({ kind: "monthly", day: 22 })).toBe("Monthly on the 22nd");
+    expect(describeRecurrence({ kind: "monthly", day: 13 })).toBe("Monthly on the 13th");
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * selection.test.ts
+ * Unit tests for task multi-select helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  pruneSelection,
+  sectionState,
+  selectRange,
+  toggleOne,
+  toggleSection,
+} from "../../src/lib/selection";
+
+const ids = ["a", "b", "c", "d", "e"];
+const list = (set: Set<string>) => [...set].sort();
+
+describe("toggleOne", () => {
+  it("adds and removes without touching the original", () => {
+    const selected = new Set(["a"]);
+    expect(list(toggleOne(selected, "b"))).toEqual(["a", "b"]);
+    expect(list(toggleOne(selected, "a"))).toEqual([]);
+    expect(list(selected)).toEqual(["a"]);
+  });
+});
+
+describe("selectRange", () => {
+  it("selects from the anchor to the clicked task in either direction", () => {
+    expect(list(selectRange(new Set(["b"]), ids, "b", "d"))).toEqual(["b", "c", "d"]);
+    expect(list(selectRange(new Set(["e"]), ids, "d", "b"))).toEqual(["b", "c", "d", "e"]);
+  });
+
+  it("falls back to a single toggle without a usable anchor", () => {
+    expect(list(selectRange(new Set(), ids, null, "c"))).toEqual(["c"]);
+    expect(list(selectRange(new Set(), ids, "gone", "c"))).toEqual(["c"]);
+  });
+});
+
+describe("sections", () => {
+  it("selects a section, then clears it once it's all selected", () => {
+    const section = ["b", "c"];
+    expect(sectionState(new Set(["b"]), section)).toBe("some");
+    const all = toggleSection(new Set(["a", "b"]), section);
+    expect(list(all)).toEqual(["a", "b", "c"]);
+    expect(sectionState(all, section)).toBe("all");
+    expect(list(toggleSection(all, section))).toEqual(["a"]);
+  });
+});
+
+describe("pruneSelection", () => {
+  it("drops tasks that left the list, keeping the set when nothing did", () => {
+    const selected = new Set(["a", "x"]);
+    expect(list(pruneSelection(selected, ids))).toEqual(["a"]);
+    const kept = new Set(["a"]);
+    expect(pruneSelection(kept, ids)).toBe(kept);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * shortcuts.test.ts
+ * Unit tests for keyboard shortcut and command palette helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  cursorAfterRemoval,
+  fuzzyScore,
+  fuzzySearch,
+  shortcutFor,
+  stepCursor,
+  type KeyPress,
+} from "../../src/lib/shortcuts";
+
+function press(key: string, extra: Partial<KeyPress> = {}): KeyPress {
+  return { key, ctrlKey: false, metaKey: false, altKey: false, typing: false, ...extra };
+}
+
+describe("shortcutFor", () => {
+  it("maps single keys outside text fields", () => {
+    expect(shortcutFor(press("n"))).toBe("newTask");
+    expect(shortcutFor(press("j"))).toBe("next");
+    expect(shortcutFor(press("#"))).toBe("delete");
+    expect(shortcutFor(press("?"))).toBe("help");
+    expect(shortcutFor(press("q"))).toBeNull();
+  });
+
+  it("works with Caps Lock on", () => {
+    expect(shortcutFor(press("N"))).toBe("newTask");
+    expect(shortcutFor(press("X"))).toBe("toggle");
+  });
+
+  it("ignores single keys while typing or with a modifier", () => {
+    expect(shortcutFor(press("x", { typing: true }))).toBeNull();
+    expect(shortcutFor(press("n", { ctrlKey: true }))).toBeNull();
+    expect(shortcutFor(press("e", { altKey: true }))).toBeNull();
+  });
+
+  it("opens the palette with Ctrl or Cmd + K, even while typing", () => {
+    expect(shortcutFor(press("k", { ctrlKey: true, typing: true }))).toBe("palette");
+    expect(shortcutFor(press("K", { metaKey: true }))).toBe("palette");
+  });
+});
+
+describe("cursor", () => {
+  const ids = ["a", "b", "c"];
+
+  it("steps through the list, stopping at the ends", () => {
+    expect(stepCursor(ids, null, 1)).toBe("a");
+    expect(stepCursor(ids, "a", 1)).toBe("b");
+    expect(stepCursor(ids, "c", 1)).toBe("c");
+    expect(stepCursor(ids, "a", -1)).toBe("a");
+    expect(stepCursor(ids, "gone", -1)).toBe("a");
+    expect(stepCursor([], "a", 1)).toBeNull();
+  });
+
+  it("moves to a neighbour when its task is removed", () => {
+    expect(cursorAfterRemoval(ids, "b")).toBe("c");
+    expect(cursorAfterRemoval(ids, "c")).toBe("b");
+    expect(cursorAfterRemoval(["a"], "a")).toBeNull();
+  });
+});
+
+describe("fuzzy search", () => {
+  it("matches characters in order, case-insensitively", () => {
+    expect(fuzzyScore("anl", "Go to Analytics")).not.toBeNull();
+    expect(fuzzyScore("lna", "Go to Analytics")).toBeNull();
+    expect(fuzzyScore("", "anything")).toBe(0);
+  });
+
+  it("ranks word starts and consecutive runs first", () => {
+    const items = ["Plan a lunch", "Go to Analytics", "Sign out"];
+    expect(fuzzySearch(items, "ana", (s) => s)).toEqual(["Go to Analytics", "Plan a lunch"]);
+    expect(fuzzySearch(items, "", (s) => s, 2)).toEqual(["Plan a lunch", "Go to Analytics"]);
+  });
+});
@@ -5,7 +5,24 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { computeStreak, toUtcDateStr, subtractDays, filterCompleted } from "../../src/lib/streak";
+import {
+  computeStreak,
+  toUtcDateStr,
+  toLocalDateStr,
+  addDays,
+  daysBetween,
+  filterCompleted,
+  isValidTimeZone,
+  streakStatus,
+  freezeInventory,
+  bridgeableGap,
+  classifyDays,
+  streakHistory,
+  longestRun,
+  weekStart,
+  MAX_FREEZES,
+  STREAK_POLICIES,
+} from "../../src/lib/streak";
 
 // Helper: build a fake task with completed_at on a given UTC date string
 function task(dateStr: string) {
@@ -27,19 +44,61 @@ describe("toUtcDateStr", () => {
   });
 });
 
-// ─── subtractDays ──────────────────────────────────────────────────────────
-describe("subtractDays", () => {
+// ─── toLocalDateStr ────────────────────────────────────────────────────────
+describe("toLocalDateStr", () => {
+  it("defaults to UTC", () => {
+    expect(toLocalDateStr(new Date("2025-01-15T23:59:59Z"))).toBe("2025-01-15");
+  });
+  it("buckets an evening in New York into the local day", () => {
+    // 02:30 UTC on Jan 16 is 21:30 on Jan 15 in New York
+    expect(toLocalDateStr(new Date("2025-01-16T02:30:00Z"), "America/New_York")).toBe("2025-01-15");
+  });
+  it("buckets a morning in Tokyo into the local day", () => {
+    // 20:00 UTC on Jan 15 is 05:00 on Jan 16 in Tokyo
+    expect(toLocalDateStr(new Date("2025-01-15T20:00:00Z"), "Asia/Tokyo")).toBe("2025-01-16");
+  });
+});
+
+// ─── isValidTimeZone ───────────────────────────────────────────────────────
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+  });
+  it("rejects unknown zones", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+// ─── addDays ───────────────────────────────────────────────────────────────
+describe("addDays", () => {
   it("subtracts 1 day", () => {
-    expect(subtractDays("2025-01-15", 1)).toBe("2025-01-14");
+    expect(addDays("2025-01-15", -1)).toBe("2025-01-14");
   });
   it("crosses month boundary", () => {
-    expect(subtractDays("2025-03-01", 1)).toBe("2025-02-28");
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
   });
   it("crosses year boundary", () => {
-    expect(subtractDays("2025-01-01", 1)).toBe("2024-12-31");
+    expect(addDays("2025-01-01", -1)).toBe("2024-12-31");
+  });
+  it("adds 0 days returns same", () => {
+    expect(addDays("2025-06-10", 0)).toBe("2025-06-10");
+  });
+  it("adds days forward across a leap day", () => {
+    expect(addDays("2024-02-28", 2)).toBe("2024-03-01");
   });
-  it("subtracts 0 days returns same", () => {
-    expect(subtractDays("2025-06-10", 0)).toBe("2025-06-10");
+  it("steps over DST transition dates one calendar day at a time", () => {
+    // US spring-forward (Mar 9) and fall-back (Nov 2) in 2025
+    expect(addDays("2025-03-10", -1)).toBe("2025-03-09");
+    expect(addDays("2025-03-09", -1)).toBe("2025-03-08");
+    expect(addDays("2025-11-03", -1)).toBe("2025-11-02");
+    expect(addDays("2025-11-02", -1)).toBe("2025-11-01");
+  });
+});
+
+describe("daysBetween", () => {
+  it("counts whole days either way across a month end", () => {
+    expect(daysBetween("2024-06-28", "2024-07-02")).toBe(4);
+    expect(daysBetween("2024-07-02", "2024-06-28")).toBe(-4);
   });
 });
 
@@ -128,6 +187,436 @@ describe("computeStreak", () => {
   });
 });
 
+// ─── computeStreak with timezones ──────────────────────────────────────────
+describe("computeStreak (timezones)", () => {
+  it("counts an evening completion west of UTC on the local day", () => {
+    // Completed 20:00 local in New York each evening — the next UTC day.
+    const tasks = [
+      { completed_at: "2025-01-14T01:00:00Z" }, // Jan 13, 20:00 EST
+      { completed_at: "2025-01-15T01:00:00Z" }, // Jan 14, 20:00 EST
+      { completed_at: "2025-01-16T01:00:00Z" }, // Jan 15, 20:00 EST
+    ];
+    const at = new Date("2025-01-16T02:00:00Z"); // Jan 15, 21:00 EST
+    expect(computeStreak(tasks, at, { timeZone: "America/New_York" })).toBe(3);
+  });
+
+  it("keeps a streak across the spring-forward DST transition", () => {
+    // America/New_York skips 02:00–03:00 on 2025-03-09 (23-hour day)
+    const tasks = [
+      { completed_at: "2025-03-08T04:30:00Z" }, // Mar 7, 23:30 EST
+      { completed_at: "2025-03-09T04:30:00Z" }, // Mar 8, 23:30 EST
+      { completed_at: "2025-03-10T03:30:00Z" }, // Mar 9, 23:30 EDT
+      { completed_at: "2025-03-10T04:30:00Z" }, // Mar 10, 00:30 EDT
+    ];
+    const at = new Date("2025-03-10T16:00:00Z"); // Mar 10, 12:00 EDT
+    expect(computeStreak(tasks, at, { timeZone: "America/New_York" })).toBe(4);
+  });
+
+  it("keeps a streak across the fall-back DST transition", () => {
+    // America/New_York repeats 01:00–02:00 on 2025-11-02 (25-hour day)
+    const tasks = [
+      { completed_at: "2025-11-01T03:59:00Z" }, // Oct 31, 23:59 EDT
+      { completed_at: "2025-11-02T03:59:00Z" }, // Nov 1, 23:59 EDT
+      { completed_at: "2025-11-03T04:59:00Z" }, // Nov 2, 23:59 EST
+    ];
+    const at = new Date("2025-11-03T14:00:00Z"); // Nov 3, 09:00 EST
+    expect(computeStreak(tasks, at, { timeZone: "America/New_York" })).toBe(3);
+  });
+
+  it("does not double-count the repeated hour on fall-back day", () => {
+    const tasks = [
+      { completed_at: "2025-11-02T05:30:00Z" }, // Nov 2, 01:30 EDT
+      { completed_at: "2025-11-02T06:30:00Z" }, // Nov 2, 01:30 EST
+    ];
+    const at = new Date("2025-11-02T20:00:00Z");
+    expect(computeStreak(tasks, at, { timeZone: "America/New_York" })).toBe(1);
+  });
+
+  it("handles a user at UTC-12", () => {
+    // Etc/GMT+12 is UTC-12 (POSIX sign convention is inverted)
+    const tz = "Etc/GMT+12";
+    const tasks = [
+      { completed_at: "2025-01-13T22:00:00Z" }, // Jan 13, 10:00 local
+      { completed_at: "2025-01-15T08:00:00Z" }, // Jan 14, 20:00 local
+    ];
+    const at = new Date("2025-01-15T09:00:00Z"); // Jan 14, 21:00 local
+    expect(computeStreak(tasks, at, { timeZone: tz })).toBe(2);
+    // Bucketed by UTC the same completions land on Jan 13 and Jan 15 — a gap
+    expect(computeStreak(tasks, at)).toBe(1);
+  });
+
+  it("handles a user at UTC+14", () => {
+    const tz = "Pacific/Kiritimati";
+    const tasks = [
+      { completed_at: "2025-01-13T11:00:00Z" }, // Jan 14, 01:00 local
+      { completed_at: "2025-01-14T11:00:00Z" }, // Jan 15, 01:00 local
+    ];
+    // Jan 15 11:00 UTC is already Jan 16 01:00 local
+    const at = new Date("2025-01-15T11:00:00Z");
+    expect(computeStreak(tasks, at, { timeZone: tz })).toBe(2);
+    // In UTC the last completion (Jan 14) is "yesterday" too, but a local
+    // day later it has broken.
+    const later = new Date("2025-01-16T11:00:00Z"); // Jan 17, 01:00 local
+    expect(computeStreak(tasks, later, { timeZone: tz })).toBe(0);
+    expect(computeStreak(tasks, later)).toBe(0);
+  });
+
+  it("UTC-12 and UTC+14 users see different local days for the same instant", () => {
+    const at = new Date("2025-01-15T10:30:00Z");
+    // Jan 14, 22:30 at UTC-12 and Jan 16, 00:30 at UTC+14 — two days apart
+    expect(toLocalDateStr(at, "Etc/GMT+12")).toBe("2025-01-14");
+    expect(toLocalDateStr(at, "Pacific/Kiritimati")).toBe("2025-01-16");
+
+    // So a completion at that instant counts for a different day in each zone
+    const tasks = [{ status: "done", completed_at: "2025-01-15T10:30:00Z" }];
+    expect(filterCompleted(tasks, { timeZone: "Etc/GMT+12", day: "2025-01-14" })).toHaveLength(1);
+    expect(filterCompleted(tasks, { timeZone: "Etc/GMT+12", day: "2025-01-16" })).toHaveLength(0);
+    expect(filterCompleted(tasks, { timeZone: "Pacific/Kiritimati", day: "2025-01-16" })).toHaveLength(1);
+    expect(filterCompleted(tasks, { timeZone: "Pacific/Kiritimati", day: "2025-01-14" })).toHaveLength(0);
+
+    // A day and two hours later it's Jan 16, 00:30 at UTC-12 — the Jan 14
+    // completion is two days back and the streak has broken — but Jan 17,
+    // 02:30 at UTC+14, where the Jan 16 completion was yesterday
+    const later = new Date("2025-01-16T12:30:00Z");
+    expect(computeStreak(tasks, later, { timeZone: "Etc/GMT+12" })).toBe(0);
+    expect(computeStreak(tasks, later, { timeZone: "Pacific/Kiritimati" })).toBe(1);
+  });
+});
+
+// ─── Streak freezes ────────────────────────────────────────────────────────
+describe("streakStatus (freezes)", () => {
+  it("a frozen day bridges the gap without adding to the count", () => {
+    const tasks = [task("2025-01-12"), task("2025-01-13"), task("2025-01-15")];
+    const status = streakStatus(tasks, now("2025-01-15"), { frozenDays: ["2025-01-14"] });
+    expect(status.streak).toBe(3);
+    expect(status.frozenUsed).toEqual(["2025-01-14"]);
+  });
+
+  it("keeps the streak alive when yesterday is frozen and today is pending", () => {
+    const tasks = [task("2025-01-12"), task("2025-01-13")];
+    const status = streakStatus(tasks, now("2025-01-15"), { frozenDays: ["2025-01-14"] });
+    expect(status.streak).toBe(2);
+    expect(status.frozenUsed).toEqual(["2025-01-14"]);
+  });
+
+  it("bridges several consecutive frozen days", () => {
+    const tasks = [task("2025-01-10"), task("2025-01-14")];
+    const frozenDays = ["2025-01-11", "2025-01-12", "2025-01-13"];
+    expect(computeStreak(tasks, now("2025-01-14"), { frozenDays })).toBe(2);
+  });
+
+  it("ignores frozen days that don't sit between streak days", () => {
+    const tasks = [task("2025-01-15")];
+    const status = streakStatus(tasks, now("2025-01-15"), { frozenDays: ["2025-01-14"] });
+    expect(status.streak).toBe(1);
+    expect(status.frozenUsed).toEqual([]);
+  });
+
+  it("still breaks on an unfrozen miss", () => {
+    const tasks = [task("2025-01-11"), task("2025-01-13"), task("2025-01-15")];
+    expect(computeStreak(tasks, now("2025-01-15"), { frozenDays: ["2025-01-14"] })).toBe(2);
+  });
+});
+
+describe("freezeInventory", () => {
+  const week = (start: string) =>
+    Array.from({ length: 7 }, (_, i) => task(addDays(start, i)));
+
+  it("earns nothing before the first milestone", () => {
+    const tasks = [task("2025-01-14"), task("2025-01-15")];
+    expect(freezeInventory(tasks, now("2025-01-15"))).toEqual({ earned: 0, used: 0, available: 0 });
+  });
+
+  it("earns one freeze per 7-day milestone", () => {
+    const tasks = [...week("2025-01-01"), ...week("2025-01-08")];
+    expect(freezeInventory(tasks, now("2025-01-14")).available).toBe(2);
+  });
+
+  it("spends a freeze for each frozen day", () => {
+    const tasks = [...week("2025-01-01"), task("2025-01-09")];
+    const inv = freezeInventory(tasks, now("2025-01-09"), { frozenDays: ["2025-01-08"] });
+    expect(inv).toEqual({ earned: 1, used: 1, available: 0 });
+  });
+
+  it(`caps held freezes at ${MAX_FREEZES}`, () => {
+    const tasks = Array.from({ length: 35 }, (_, i) => task(addDays("2025-01-01", i)));
+    const inv = freezeInventory(tasks, now("2025-02-04"));
+    expect(inv.earned).toBe(5);
+    expect(inv.available).toBe(MAX_FREEZES);
+  });
+
+  it("a miss resets progress toward the next milestone", () => {
+    const tasks = [
+      ...Array.from({ length: 6 }, (_, i) => task(addDays("2025-01-01", i))),
+      // Jan 7 missed
+      ...Array.from({ length: 6 }, (_, i) => task(addDays("2025-01-08", i))),
+    ];
+    expect(freezeInventory(tasks, now("2025-01-13")).earned).toBe(0);
+  });
+});
+
+describe("bridgeableGap", () => {
+  it("returns null while the streak is intact", () => {
+    const tasks = [task("2025-01-13"), task("2025-01-14")];
+    expect(bridgeableGap(tasks, now("2025-01-15"))).toBeNull();
+  });
+
+  it("returns the missed day that broke the streak", () => {
+    const tasks = [task("2025-01-11"), task("2025-01-12"), task("2025-01-13")];
+    expect(bridgeableGap(tasks, now("2025-01-15"))).toEqual({
+      missedDays: ["2025-01-14"],
+      streak: 3,
+    });
+  });
+
+  it("skips days that are already frozen", () => {
+    const tasks = [task("2025-01-12")];
+    const gap = bridgeableGap(tasks, now("2025-01-15"), { frozenDays: ["2025-01-13"] });
+    expect(gap?.missedDays).toEqual(["2025-01-14"]);
+  });
+
+  it(`returns null when more than ${MAX_FREEZES} days were missed`, () => {
+    const tasks = [task("2025-01-05")];
+    expect(bridgeableGap(tasks, now("2025-01-15"))).toBeNull();
+  });
+
+  it("returns null with no history at all", () => {
+    expect(bridgeableGap([], now("2025-01-15"))).toBeNull();
+  });
+});
+
+// ─── Streak policies ───────────────────────────────────────────────────────
+describe("weekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(weekStart("2025-01-15")).toBe("2025-01-13"); // Wednesday
+    expect(weekStart("2025-01-13")).toBe("2025-01-13"); // Monday
+    expect(weekStart("2025-01-19")).toBe("2025-01-13"); // Sunday
+  });
+});
+
+describe("computeStreak (policies)", () => {
+  const { gentle, normal, strict } = STREAK_POLICIES;
+
+  it("strict is the default and resets on any miss", () => {
+    const tasks = [task("2025-01-13"), task("2025-01-15")];
+    expect(computeStreak(tasks, now("2025-01-15"))).toBe(1);
+    expect(computeStreak(tasks, now("2025-01-15"), { policy: strict })).toBe(1);
+  });
+
+  it("forgives misses within the weekly budget", () => {
+    // Mon 13, (Tue 14 missed), Wed 15
+    const tasks = [task("2025-01-13"), task("2025-01-15")];
+    const policy = { ...strict, allowedMissesPerWeek: 1 };
+    expect(computeStreak(tasks, now("2025-01-15"), { policy })).toBe(2);
+  });
+
+  it("resets once the weekly budget is spent", () => {
+    // Mon 13, (Tue 14 missed), Wed 15, (Thu 16 missed), Fri 17
+    const tasks = [task("2025-01-13"), task("2025-01-15"), task("2025-01-17")];
+    const policy = { ...strict, allowedMissesPerWeek: 1 };
+    expect(computeStreak(tasks, now("2025-01-17"), { policy })).toBe(1);
+  });
+
+  it("the budget refills each Monday", () => {
+    // Fri 10, (Sat 11 missed), Sun 12, (Mon 13 missed), Tue 14
+    const tasks = [task("2025-01-10"), task("2025-01-12"), task("2025-01-14")];
+    const policy = { ...strict, allowedMissesPerWeek: 1 };
+    expect(computeStreak(tasks, now("2025-01-14"), { policy })).toBe(3);
+  });
+
+  it("pause keeps the count through unforgiven misses", () => {
+    const tasks = [task("2025-01-06"), task("2025-01-07"), task("2025-01-15")];
+    const status = streakStatus(tasks, now("2025-01-15"), { policy: normal });
+    expect(status.streak).toBe(3);
+    expect(status.paused).toBe(false);
+  });
+
+  it("reports a paused streak until the next active day", () => {
+    // Mon 13 done, then Tue 14 (forgiven) and Wed 15 (missed) → paused on Thu 16
+    const tasks = [task("2025-01-12"), task("2025-01-13")];
+    const status = streakStatus(tasks, now("2025-01-16"), { policy: normal });
+    expect(status.streak).toBe(2);
+    expect(status.paused).toBe(true);
+  });
+
+  it("gentle never pauses or resets", () => {
+    const tasks = [task("2025-01-01"), task("2025-01-15")];
+    const status = streakStatus(tasks, now("2025-01-20"), { policy: gentle });
+    expect(status.streak).toBe(2);
+    expect(status.paused).toBe(false);
+  });
+
+  it("only counts days that meet the minimum number of tasks", () => {
+    const tasks = [
+      task("2025-01-13"), task("2025-01-13"),
+      task("2025-01-14"), // only one — doesn't count
+      task("2025-01-15"), task("2025-01-15"),
+    ];
+    const policy = { ...strict, minTasksPerDay: 2 };
+    expect(computeStreak(tasks, now("2025-01-15"), { policy })).toBe(1);
+  });
+
+  it("today below the minimum is still pending, not missed", () => {
+    const tasks = [task("2025-01-14"), task("2025-01-14"), task("2025-01-15")];
+    const policy = { ...strict, minTasksPerDay: 2 };
+    expect(computeStreak(tasks, now("2025-01-15"), { policy })).toBe(1);
+  });
+
+  it("pause policies never offer a freeze", () => {
+    const tasks = [task("2025-01-12"), task("2025-01-13")];
+    expect(bridgeableGap(tasks, now("2025-01-16"), { policy: normal })).toBeNull();
+  });
+
+  it("forgiven misses don't need a freeze", () => {
+    const tasks = [task("2025-01-13")];
+    const policy = { ...strict, allowedMissesPerWeek: 1 };
+    // Tue 14 forgiven; Wed 15 missed
+    expect(bridgeableGap(tasks, now("2025-01-16"), { policy })?.missedDays).toEqual(["2025-01-15"]);
+  });
+});
+
+describe("computeStreak (check-ins)", () => {
+  const { strict } = STREAK_POLICIES;
+  const policy = { ...strict, requireCheckin: true };
+  const tasks = [task("2025-01-13"), task("2025-01-14"), task("2025-01-15")];
+
+  it("ignores check-ins unless the policy requires them", () => {
+    expect(computeStreak(tasks, now("2025-01-15"), { policy: strict, checkins: [] })).toBe(3);
+  });
+
+  it("only counts days checked in at 80% or more", () => {
+    const checkins = [
+      { day: "2025-01-13", completed_percent: 100 },
+      { day: "2025-01-14", completed_percent: 50 }, // below target — missed
+      { day: "2025-01-15", completed_percent: 80 },
+    ];
+    expect(computeStreak(tasks, now("2025-01-15"), { policy, checkins })).toBe(1);
+  });
+
+  it("a check-in without the minimum tasks doesn't count", () => {
+    const checkins = [
+      { day: "2025-01-12", completed_percent: 100 },
+      { day: "2025-01-13", completed_percent: 100 },
+    ];
+    const kinds = classifyDays(tasks, "2025-01-12", "2025-01-13", now("2025-01-15"), { policy, checkins });
+    expect([...kinds.values()]).toEqual(["missed", "active"]);
+  });
+
+  it("today without a check-in is still pending", () => {
+    const checkins = [{ day: "2025-01-14", completed_percent: 100 }];
+    expect(computeStreak(tasks, now("2025-01-15"), { policy, checkins })).toBe(1);
+  });
+});
+
+describe("computeStreak (focus sessions)", () => {
+  const { strict } = STREAK_POLICIES;
+  const policy = { ...strict, requireFocus: true };
+  const tasks = [task("2025-01-13"), task("2025-01-14"), task("2025-01-15")];
+
+  it("ignores focus sessions unless the policy requires them", () => {
+    expect(computeStreak(tasks, now("2025-01-15"), { policy: strict, focusSessions: [] })).toBe(3);
+  });
+
+  it("only counts days with a focus session, on its local end day", () => {
+    const focusSessions = [
+      { ended_at: "2025-01-14T10:00:00Z" },
+      // 02:00 UTC on the 16th is still the 15th in New York
+      { ended_at: "2025-01-16T02:00:00Z" },
+    ];
+    expect(computeStreak(tasks, now("2025-01-15"), { policy, focusSessions })).toBe(1);
+    const kinds = classifyDays(tasks, "2025-01-13", "2025-01-15", new Date("2025-01-16T04:00:00Z"), {
+      policy, focusSessions, timeZone: "America/New_York",
+    });
+    expect([...kinds.values()]).toEqual(["missed", "active", "active"]);
+  });
+
+  it("combines with the check-in requirement", () => {
+    const both = { ...policy, requireCheckin: true };
+    const focusSessions = [{ ended_at: "2025-01-14T10:00:00Z" }, { ended_at: "2025-01-15T10:00:00Z" }];
+    const checkins = [{ day: "2025-01-15", completed_percent: 100 }];
+    expect(computeStreak(tasks, now("2025-01-15"), { policy: both, focusSessions, checkins })).toBe(1);
+  });
+});
+
+describe("classifyDays", () => {
+  it("labels every day in the range", () => {
+    const tasks = [task("2025-01-13"), task("2025-01-15")];
+    const kinds = classifyDays(tasks, "2025-01-13", "2025-01-16", now("2025-01-16"), {
+      frozenDays: ["2025-01-14"],
+    });
+    expect([...kinds.values()]).toEqual(["active", "frozen", "active", "pending"]);
+  });
+});
+
+// ─── Streak history ────────────────────────────────────────────────────────
+describe("streakHistory", () => {
+  it("returns no runs without history", () => {
+    expect(streakHistory([], now("2025-01-15"))).toEqual([]);
+  });
+
+  it("splits runs on misses and records when each broke", () => {
+    const tasks = [
+      task("2025-01-01"), task("2025-01-02"), task("2025-01-03"),
+      // Jan 4 missed
+      task("2025-01-05"),
+      // Jan 6–7 missed
+      task("2025-01-08"), task("2025-01-09"),
+    ];
+    expect(streakHistory(tasks, now("2025-01-10"))).toEqual([
+      { start: "2025-01-01", end: "2025-01-03", length: 3, brokenOn: "2025-01-04" },
+      { start: "2025-01-05", end: "2025-01-05", length: 1, brokenOn: "2025-01-06" },
+      { start: "2025-01-08", end: "2025-01-09", length: 2, brokenOn: null },
+    ]);
+  });
+
+  it("marks the last run broken once yesterday was missed", () => {
+    const tasks = [task("2025-01-12"), task("2025-01-13")];
+    const runs = streakHistory(tasks, now("2025-01-15"));
+    expect(runs).toHaveLength(1);
+    expect(runs[0].brokenOn).toBe("2025-01-14");
+  });
+
+  it("frozen days bridge runs without adding length", () => {
+    const tasks = [task("2025-01-12"), task("2025-01-14")];
+    const runs = streakHistory(tasks, now("2025-01-14"), { frozenDays: ["2025-01-13"] });
+    expect(runs).toEqual([
+      { start: "2025-01-12", end: "2025-01-14", length: 2, brokenOn: null },
+    ]);
+  });
+
+  it("the ongoing run matches computeStreak", () => {
+    const tasks = [
+      task("2025-01-02"), task("2025-01-03"), task("2025-01-06"),
+      task("2025-01-07"), task("2025-01-09"), task("2025-01-10"),
+    ];
+    for (const policy of Object.values(STREAK_POLICIES)) {
+      const runs = streakHistory(tasks, now("2025-01-10"), { policy });
+      expect(runs[runs.length - 1].length).toBe(
+        computeStreak(tasks, now("2025-01-10"), { policy })
+      );
+    }
+  });
+
+  it("a pause policy never breaks the run", () => {
+    const tasks = [task("2025-01-01"), task("2025-01-10")];
+    const runs = streakHistory(tasks, now("2025-01-10"), { policy: STREAK_POLICIES.normal });
+    expect(runs).toEqual([
+      { start: "2025-01-01", end: "2025-01-10", length: 2, brokenOn: null },
+    ]);
+  });
+});
+
+describe("longestRun", () => {
+  it("returns null for no runs", () => {
+    expect(longestRun([])).toBeNull();
+  });
+
+  it("prefers the most recent run on ties", () => {
+    const tasks = [task("2025-01-01"), task("2025-01-02"), task("2025-01-05"), task("2025-01-06")];
+    expect(longestRun(streakHistory(tasks, now("2025-01-06")))?.start).toBe("2025-01-05");
+  });
+});
+
 // ─── filterCompleted ────────────────────────────────────────────────────────
 describe("filterCompleted", () => {
   it("includes only done tasks with non-null completed_at", () => {
@@ -141,4 +630,16 @@ describe("filterCompleted", () => {
     expect(result).toHaveLength(1);
     expect(result[0].completed_at).toBe("2025-01-15T10:00:00Z");
   });
+
+  it("keeps only completions on a given local day", () => {
+    const tasks = [
+      { status: "done", completed_at: "2025-01-15T10:00:00Z" }, // Jan 15, 05:00 EST
+      { status: "done", completed_at: "2025-01-16T02:00:00Z" }, // Jan 15, 21:00 EST
+      { status: "done", completed_at: "2025-01-16T06:00:00Z" }, // Jan 16, 01:00 EST
+    ];
+    expect(filterCompleted(tasks, { day: "2025-01-15" })).toHaveLength(1);
+    expect(
+      filterCompleted(tasks, { day: "2025-01-15", timeZone: "America/New_York" })
+    ).toHaveLength(2);
+  });
 });
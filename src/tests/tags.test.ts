@@ -0,0 +1,61 @@
+/**
+ * tags.test.ts
+ * Unit tests for tag helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import { suggestColor, tagCounts, tagsByTask, TAG_COLORS } from "../../src/lib/tags";
+
+const tags = [
+  { id: "t1", name: "work" },
+  { id: "t2", name: "health" },
+  { id: "t3", name: "errands" },
+];
+
+describe("tagsByTask", () => {
+  it("maps tasks to their tags, sorted by name", () => {
+    const links = [
+      { task_id: "a", tag_id: "t1" },
+      { task_id: "a", tag_id: "t2" },
+      { task_id: "b", tag_id: "t1" },
+    ];
+    const byTask = tagsByTask(tags, links);
+    expect(byTask.get("a")!.map((t) => t.name)).toEqual(["health", "work"]);
+    expect(byTask.get("b")!.map((t) => t.name)).toEqual(["work"]);
+    expect(byTask.get("c")).toBeUndefined();
+  });
+
+  it("skips links to deleted tags", () => {
+    expect(tagsByTask(tags, [{ task_id: "a", tag_id: "gone" }]).size).toBe(0);
+  });
+});
+
+describe("tagCounts", () => {
+  it("counts total and done tasks per tag, busiest first", () => {
+    const tasks = [
+      { id: "a", status: "done" },
+      { id: "b", status: "todo" },
+      { id: "c", status: "done" },
+    ];
+    const links = [
+      { task_id: "a", tag_id: "t2" },
+      { task_id: "b", tag_id: "t2" },
+      { task_id: "c", tag_id: "t1" },
+      { task_id: "deleted", tag_id: "t1" },
+    ];
+    expect(tagCounts(tags, links, tasks)).toEqual([
+      { tagId: "t2", total: 2, done: 1 },
+      { tagId: "t1", total: 1, done: 1 },
+      { tagId: "t3", total: 0, done: 0 },
+    ]);
+  });
+});
+
+describe("suggestColor", () => {
+  it("cycles through the palette", () => {
+    const n = Object.keys(TAG_COLORS).length;
+    expect(suggestColor(0)).toBe(suggestColor(n));
+    expect(suggestColor(0)).not.toBe(suggestColor(1));
+  });
+});
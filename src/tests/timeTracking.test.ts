@@ -0,0 +1,87 @@
+/**
+ * timeTracking.test.ts
+ * Unit tests for estimate and timer helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  entryMinutes,
+  estimateAccuracy,
+  formatElapsed,
+  formatMinutes,
+  minutesByTask,
+  minutesPerDay,
+  parseDuration,
+  runningEntry,
+} from "../../src/lib/timeTracking";
+
+describe("durations", () => {
+  it("parses minutes, hours and mixed estimates", () => {
+    expect(parseDuration("45")).toBe(45);
+    expect(parseDuration("45m")).toBe(45);
+    expect(parseDuration("2h")).toBe(120);
+    expect(parseDuration("1.5h")).toBe(90);
+    expect(parseDuration("1h30")).toBe(90);
+    expect(parseDuration(" 1H 30M ")).toBe(90);
+  });
+
+  it("rejects blanks, junk and out-of-range values", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("soon")).toBeNull();
+    expect(parseDuration("0")).toBeNull();
+    expect(parseDuration("200h")).toBeNull();
+  });
+
+  it("formats minutes and running clocks", () => {
+    expect(formatMinutes(45)).toBe("45m");
+    expect(formatMinutes(120)).toBe("2h");
+    expect(formatMinutes(90.4)).toBe("1h 30m");
+    expect(formatElapsed(245_000)).toBe("4:05");
+    expect(formatElapsed(3_723_000)).toBe("1:02:03");
+  });
+});
+
+describe("entries", () => {
+  const now = new Date("2024-06-15T12:00:00Z");
+  const entries = [
+    { task_id: "a", started_at: "2024-06-14T09:00:00Z", ended_at: "2024-06-14T09:30:00Z" },
+    { task_id: "a", started_at: "2024-06-15T03:00:00Z", ended_at: "2024-06-15T04:00:00Z" },
+    { task_id: "b", started_at: "2024-06-15T11:45:00Z", ended_at: null },
+  ];
+
+  it("counts a running entry only when given the current time", () => {
+    expect(entryMinutes(entries[2], now)).toBe(15);
+    expect(entryMinutes(entries[2])).toBe(0);
+    expect(runningEntry(entries)).toBe(entries[2]);
+    expect([...minutesByTask(entries)]).toEqual([["a", 90]]);
+    expect(minutesByTask(entries, now).get("b")).toBe(15);
+  });
+
+  it("buckets minutes by the local day each entry started", () => {
+    const utc = minutesPerDay(entries, "2024-06-13", "2024-06-15", now);
+    expect([...utc]).toEqual([["2024-06-13", 0], ["2024-06-14", 30], ["2024-06-15", 75]]);
+    // 03:00 UTC on the 15th is still the 14th in New York
+    const ny = minutesPerDay(entries, "2024-06-13", "2024-06-15", now, "America/New_York");
+    expect(ny.get("2024-06-14")).toBe(90);
+    expect(ny.get("2024-06-15")).toBe(15);
+  });
+});
+
+describe("estimateAccuracy", () => {
+  it("compares finished, estimated, tracked tasks only", () => {
+    const tasks = [
+      { id: "a", status: "done", estimated_minutes: 60 },  // 60 actual — accurate
+      { id: "b", status: "done", estimated_minutes: 30 },  // 60 actual — over
+      { id: "c", status: "done", estimated_minutes: 120 }, // 30 actual — under
+      { id: "d", status: "todo", estimated_minutes: 60 },  // not finished
+      { id: "e", status: "done", estimated_minutes: null }, // no estimate
+    ];
+    const actual = new Map([["a", 60], ["b", 60], ["c", 30], ["d", 60], ["e", 60]]);
+    expect(estimateAccuracy(tasks, actual)).toEqual({
+      count: 3, estimatedMinutes: 210, actualMinutes: 150, ratio: 150 / 210,
+      accurate: 1, over: 1, under: 1,
+    });
+    expect(estimateAccuracy(tasks, new Map()).ratio).toBeNull();
+  });
+});
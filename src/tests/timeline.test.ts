@@ -0,0 +1,106 @@
+/**
+ * timeline.test.ts
+ * Unit tests for Timeline (Gantt) helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  projectProgress,
+  projectSpan,
+  resizeSpan,
+  taskProgress,
+  taskSpan,
+  ticks,
+  timelineRange,
+  type SpanTask,
+} from "../../src/lib/timeline";
+
+function task(overrides: Partial<SpanTask> = {}): SpanTask {
+  return {
+    id: "t",
+    status: "todo",
+    start_date: null,
+    due_date: null,
+    completed_at: null,
+    project_id: null,
+    ...overrides,
+  };
+}
+
+describe("taskSpan", () => {
+  it("runs from start date to due date", () => {
+    expect(taskSpan(task({ start_date: "2024-06-03", due_date: "2024-06-07" })))
+      .toEqual({ start: "2024-06-03", end: "2024-06-07" });
+  });
+
+  it("is a single day with only one date, or none without dates", () => {
+    expect(taskSpan(task({ due_date: "2024-06-07" }))).toEqual({ start: "2024-06-07", end: "2024-06-07" });
+    expect(taskSpan(task({ start_date: "2024-06-03" }))).toEqual({ start: "2024-06-03", end: "2024-06-03" });
+    expect(taskSpan(task())).toBeNull();
+  });
+
+  it("puts an undated finished task on its local completion day", () => {
+    const done = task({ status: "done", completed_at: "2024-06-11T02:00:00Z" });
+    expect(taskSpan(done, "America/New_York")).toEqual({ start: "2024-06-10", end: "2024-06-10" });
+  });
+});
+
+describe("projectSpan", () => {
+  const spans = [
+    { start: "2024-06-05", end: "2024-06-08" },
+    { start: "2024-06-02", end: "2024-06-04" },
+  ];
+
+  it("uses the project's own dates when set", () => {
+    expect(projectSpan({ id: "p", start_date: "2024-06-01", deadline: "2024-06-30" }, spans))
+      .toEqual({ start: "2024-06-01", end: "2024-06-30" });
+  });
+
+  it("falls back to its tasks' extent", () => {
+    expect(projectSpan({ id: "p", start_date: null, deadline: null }, spans))
+      .toEqual({ start: "2024-06-02", end: "2024-06-08" });
+    expect(projectSpan({ id: "p", start_date: null, deadline: "2024-06-20" }, spans))
+      .toEqual({ start: "2024-06-02", end: "2024-06-20" });
+    expect(projectSpan({ id: "p", start_date: null, deadline: null }, [])).toBeNull();
+  });
+});
+
+describe("progress", () => {
+  it("counts checklists for open tasks and done tasks for projects", () => {
+    expect(taskProgress({ status: "done" })).toBe(1);
+    expect(taskProgress({ status: "todo" }, [{ done: true }, { done: false }])).toBe(0.5);
+    expect(taskProgress({ status: "inprogress" })).toBe(0);
+    expect(projectProgress([{ status: "done" }, { status: "todo" }, { status: "done" }, { status: "todo" }]))
+      .toBe(0.5);
+    expect(projectProgress([])).toBe(0);
+  });
+});
+
+describe("range and ticks", () => {
+  const spans = [{ start: "2024-06-12", end: "2024-07-02" }];
+
+  it("pads and snaps to weeks or months, always including today", () => {
+    expect(timelineRange(spans, "2024-06-15", "week")).toEqual({ start: "2024-06-03", end: "2024-07-07" });
+    expect(timelineRange(spans, "2024-06-15", "month")).toEqual({ start: "2024-06-01", end: "2024-07-31" });
+    expect(timelineRange([], "2024-06-15", "week")).toEqual({ start: "2024-06-10", end: "2024-06-23" });
+  });
+
+  it("labels each Monday or each month", () => {
+    expect(ticks({ start: "2024-06-03", end: "2024-06-16" }, "week").map((t) => t.day))
+      .toEqual(["2024-06-03", "2024-06-10"]);
+    expect(ticks({ start: "2024-06-01", end: "2024-07-31" }, "month").map((t) => t.label))
+      .toEqual(["Jun 2024", "Jul 2024"]);
+  });
+});
+
+describe("resizeSpan", () => {
+  const span = { start: "2024-06-03", end: "2024-06-07" };
+
+  it("moves one edge and stops at the other", () => {
+    expect(resizeSpan(span, "start", -2)).toEqual({ start: "2024-06-01", end: "2024-06-07" });
+    expect(resizeSpan(span, "end", 3)).toEqual({ start: "2024-06-03", end: "2024-06-10" });
+    expect(resizeSpan(span, "start", 10)).toEqual({ start: "2024-06-07", end: "2024-06-07" });
+    expect(resizeSpan(span, "end", -10)).toEqual({ start: "2024-06-03", end: "2024-06-03" });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * toasts.test.ts
+ * Unit tests for the toast stack helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import { ERROR_TOAST_MS, pushToast, quoteTitle, TOAST_MS } from "../../src/lib/toasts";
+
+describe("pushToast", () => {
+  it("stacks newest last with a default duration per kind", () => {
+    const stack = pushToast(pushToast([], { kind: "info", message: "Deleted" }, "1"), { kind: "error", message: "Nope" }, "2");
+    expect(stack.map((t) => [t.id, t.duration])).toEqual([["1", TOAST_MS], ["2", ERROR_TOAST_MS]]);
+  });
+
+  it("drops the oldest beyond the limit", () => {
+    let stack = pushToast([], { kind: "info", message: "a" }, "1");
+    stack = pushToast(stack, { kind: "info", message: "b" }, "2", 2);
+    stack = pushToast(stack, { kind: "info", message: "c" }, "3", 2);
+    expect(stack.map((t) => t.id)).toEqual(["2", "3"]);
+  });
+
+  it("refreshes a repeated error instead of stacking it", () => {
+    let stack = pushToast([], { kind: "error", message: "Offline" }, "1");
+    stack = pushToast(stack, { kind: "info", message: "Deleted" }, "2");
+    stack = pushToast(stack, { kind: "error", message: "Offline" }, "3");
+    expect(stack.map((t) => t.id)).toEqual(["2", "3"]);
+    // Info toasts always stack — each may carry its own Undo
+    stack = pushToast(stack, { kind: "info", message: "Deleted" }, "4");
+    expect(stack).toHaveLength(3);
+  });
+});
+
+describe("quoteTitle", () => {
+  it("quotes and shortens long titles", () => {
+    expect(quoteTitle("Buy milk")).toBe("“Buy milk”");
+    expect(quoteTitle("A very long task title indeed", 10)).toBe("“A very lo…”");
+  });
+});
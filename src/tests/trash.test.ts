@@ -0,0 +1,76 @@
+/**
+ * trash.test.ts
+ * Unit tests for Trash and archive helpers.
+ * Run with: npx vitest run
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  byStamp,
+  canArchive,
+  daysLeftInTrash,
+  expiredTrash,
+  splitTasks,
+} from "../../src/lib/trash";
+
+const now = new Date("2024-06-30T12:00:00Z");
+
+function task(
+  id: string,
+  status: string,
+  deleted_at: string | null = null,
+  archived_at: string | null = null
+) {
+  return { id, status, deleted_at, archived_at };
+}
+
+describe("splitTasks", () => {
+  it("separates the list, the archive and the Trash", () => {
+    const tasks = [
+      task("open", "todo"),
+      task("done", "done"),
+      task("archived", "done", null, "2024-06-20T00:00:00Z"),
+      task("trashed", "done", "2024-06-21T00:00:00Z", "2024-06-20T00:00:00Z"),
+    ];
+    const { active, archived, trash } = splitTasks(tasks);
+    expect(active.map((t) => t.id)).toEqual(["open", "done"]);
+    expect(archived.map((t) => t.id)).toEqual(["archived"]);
+    expect(trash.map((t) => t.id)).toEqual(["trashed"]);
+  });
+
+  it("lists an archived task again once it's reopened", () => {
+    const reopened = task("a", "todo", null, "2024-06-20T00:00:00Z");
+    expect(splitTasks([reopened]).active).toEqual([reopened]);
+    expect(canArchive(reopened)).toBe(false);
+    expect(canArchive(task("b", "done"))).toBe(true);
+  });
+});
+
+describe("byStamp", () => {
+  it("sorts newest first", () => {
+    const tasks = [
+      task("old", "todo", "2024-06-01T00:00:00Z"),
+      task("new", "todo", "2024-06-20T00:00:00Z"),
+    ];
+    expect(byStamp(tasks, "deleted_at").map((t) => t.id)).toEqual(["new", "old"]);
+  });
+});
+
+describe("expiredTrash", () => {
+  it("picks tasks trashed at least 30 days ago", () => {
+    const tasks = [
+      task("expired", "todo", "2024-05-31T12:00:00Z"),
+      task("recent", "todo", "2024-05-31T12:00:01Z"),
+      task("live", "todo"),
+    ];
+    expect(expiredTrash(tasks, now).map((t) => t.id)).toEqual(["expired"]);
+  });
+});
+
+describe("daysLeftInTrash", () => {
+  it("counts whole days until the purge", () => {
+    expect(daysLeftInTrash(task("a", "todo", "2024-06-30T00:00:00Z"), now)).toBe(29);
+    expect(daysLeftInTrash(task("b", "todo", "2024-05-01T00:00:00Z"), now)).toBe(0);
+    expect(daysLeftInTrash(task("c", "todo"), now)).toBeNull();
+  });
+});